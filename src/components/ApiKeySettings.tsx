@@ -3,16 +3,18 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Settings, Key } from 'lucide-react';
 import ChatGPTKeyDialog from './ChatGPTKeyDialog';
-import { ChatGPTService } from '@/services/ChatGPTService';
+import { LlmSettingsService } from '@/services/llm/LlmSettingsService';
 import { LanguageService } from '@/services/LanguageService';
 import { toast } from '@/hooks/use-toast';
 
+// The OpenAI key is an optional override; without one, calls go through the server proxy
 const ApiKeySettings = () => {
   const [showKeyDialog, setShowKeyDialog] = useState(false);
-  const hasApiKey = ChatGPTService.hasApiKey();
+  const [hasApiKey, setHasApiKey] = useState(!!LlmSettingsService.getApiKey('openai'));
 
   const handleKeySet = (apiKey: string) => {
-    ChatGPTService.setApiKey(apiKey);
+    LlmSettingsService.setApiKey(apiKey, 'openai');
+    setHasApiKey(true);
     setShowKeyDialog(false);
     toast({
       title: "Success",
@@ -21,7 +23,8 @@ const ApiKeySettings = () => {
   };
 
   const handleClearKey = () => {
-    ChatGPTService.clearApiKey();
+    LlmSettingsService.clearApiKey('openai');
+    setHasApiKey(false);
     toast({
       title: "API Key Cleared",
       description: LanguageService.translate('apiKey.cleared'),
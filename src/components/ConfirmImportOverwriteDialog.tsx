@@ -0,0 +1,58 @@
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ConfirmImportOverwriteDialogProps {
+  open: boolean;
+  fileName: string;
+  testTitles: string[];
+  onReplace: () => void;
+  onCopy: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmImportOverwriteDialog = ({ open, fileName, testTitles, onReplace, onCopy, onCancel }: ConfirmImportOverwriteDialogProps) => {
+  return (
+    <AlertDialog open={open} onOpenChange={onCancel}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Tests Already Exist</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>"{fileName}" contains tests that are already here:</p>
+              <ul className="list-disc pl-5">
+                {testTitles.map((title, index) => (
+                  <li key={index}>{title}</li>
+                ))}
+              </ul>
+              <p>
+                Replacing them changes the questions of these tests, including active ones that guests
+                may be taking, and responses already recorded for them may no longer match their questions.
+                Import as a copy to keep the current tests.
+              </p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onCopy}>
+            Import as copy
+          </AlertDialogAction>
+          <AlertDialogAction onClick={onReplace} className="bg-red-600 hover:bg-red-700">
+            Replace
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ConfirmImportOverwriteDialog;
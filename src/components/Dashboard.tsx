@@ -1,24 +1,40 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
 import { Label } from '@/components/ui/label';
-import { Bot, LogOut, Upload, Zap, Paperclip, X, Trophy, MessageSquare, Settings } from 'lucide-react';
+import { Bot, LogOut, Upload, Zap, Paperclip, X, Trophy, MessageSquare, Settings, UserCog, Library, FileInput } from 'lucide-react';
 import Leaderboard from '@/components/Leaderboard';
 import ResponseManagement from '@/components/ResponseManagement';
+import UserManagement from '@/components/UserManagement';
+import QuestionBankBrowser from '@/components/QuestionBankBrowser';
 import QuestionnaireDisplay from '@/components/QuestionnaireDisplay';
 import CourseDisplay from '@/components/CourseDisplay';
 import GenerateTestDialog from '@/components/GenerateTestDialog';
 import ConfirmDeleteDialog from '@/components/ConfirmDeleteDialog';
+import ConfirmImportOverwriteDialog from '@/components/ConfirmImportOverwriteDialog';
 import SettingsDialog from '@/components/SettingsDialog';
+import SpreadsheetImportDialog from '@/components/SpreadsheetImportDialog';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
 import { QuestionnaireService } from '@/services/QuestionnaireService';
 import { CourseService } from '@/services/CourseService';
 import { GuestAssignmentService } from '@/services/GuestAssignmentService';
 import { GuestFilterService } from '@/services/GuestFilterService';
-import { FileProcessingService } from '@/services/FileProcessingService';
+import { AuthService } from '@/services/AuthService';
+import { SupabaseInviteService } from '@/services/supabase/SupabaseInviteService';
+import { FileProcessingProgress, FileProcessingService } from '@/services/FileProcessingService';
 import { LanguageService } from '@/services/LanguageService';
+import { SourceDocument, SourceDocuments } from '@/services/extraction/SourceDocument';
+import { QuestionBankService } from '@/services/questionnaire/QuestionBankService';
+import { Questionnaire, QuestionExportFormat, QuestionTargeting, QuestionType, TestOptions } from '@/services/questionnaire/QuestionnaireTypes';
+import { QuestionFileService } from '@/services/questionnaire/QuestionFileService';
+import { SpreadsheetImport } from '@/services/questionnaire/SpreadsheetImport';
+import { ExistingTestAction } from '@/services/questionnaire/QtiPackage';
+import { DuplicateCandidate } from '@/services/questionnaire/DuplicateDetector';
+import { SupabaseQuestionBankService } from '@/services/supabase/SupabaseQuestionBankService';
 import { toast } from '@/hooks/use-toast';
 import CourseCard from '@/components/CourseCard';
 
@@ -31,7 +47,7 @@ interface DashboardProps {
 const Dashboard = ({ user, onLogout, onRefresh }: DashboardProps) => {
   const [prompt, setPrompt] = useState('');
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
-  const [processedFileContent, setProcessedFileContent] = useState<string>('');
+  const [sourceDocuments, setSourceDocuments] = useState<SourceDocument[]>([]);
   const [questionnaires, setQuestionnaires] = useState<any[]>([]);
   const [unsavedQuestionnaires, setUnsavedQuestionnaires] = useState<any[]>([]);
   const [courses, setCourses] = useState<any[]>([]);
@@ -39,9 +55,12 @@ const Dashboard = ({ user, onLogout, onRefresh }: DashboardProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [showLeaderboard, setShowLeaderboard] = useState(false);
   const [showResponses, setShowResponses] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showQuestionBank, setShowQuestionBank] = useState(false);
   const [showGenerateDialog, setShowGenerateDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [isProcessingFiles, setIsProcessingFiles] = useState(false);
+  const [fileProgress, setFileProgress] = useState<Record<string, FileProcessingProgress>>({});
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; questionnaireId: string; testName: string }>({
     open: false,
     questionnaireId: '',
@@ -49,6 +68,10 @@ const Dashboard = ({ user, onLogout, onRefresh }: DashboardProps) => {
   });
   const [editingCourseId, setEditingCourseId] = useState<string | null>(null);
   const [editedCourse, setEditedCourse] = useState<any>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [spreadsheetFile, setSpreadsheetFile] = useState<File | null>(null);
+  const [importConflict, setImportConflict] = useState<{ file: File; testTitles: string[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadQuestionnaires();
@@ -61,7 +84,7 @@ const Dashboard = ({ user, onLogout, onRefresh }: DashboardProps) => {
     if (uploadedFiles.length > 0) {
       processFilesForContent(uploadedFiles);
     } else {
-      setProcessedFileContent('');
+      setSourceDocuments([]);
     }
   }, [uploadedFiles]);
 
@@ -196,29 +219,14 @@ const Dashboard = ({ user, onLogout, onRefresh }: DashboardProps) => {
 
   const getSupportedFileTypes = () => {
     return {
-      text: ['.txt', '.md', '.csv', '.pdf', '.doc', '.docx'],
-      document: ['.pdf', '.doc', '.docx'],
-      image: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'],
+      text: ['.txt', '.md', '.csv', '.pdf', '.docx', '.pptx', '.xlsx'],
+      document: ['.pdf', '.docx', '.pptx', '.xlsx'],
+      image: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg', '.tif', '.tiff'],
       video: ['.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm'],
       audio: ['.mp3', '.wav', '.ogg', '.m4a']
     };
   };
 
-  const getFileCategory = (file: File): string => {
-    const fileName = file.name.toLowerCase();
-    const fileType = file.type.toLowerCase();
-    
-    if (fileType.startsWith('image/')) return 'image';
-    if (fileType.startsWith('video/')) return 'video';
-    if (fileType.startsWith('audio/')) return 'audio';
-    if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) return 'document';
-    if (fileType.startsWith('text/') || fileName.endsWith('.txt') || fileName.endsWith('.md')) return 'text';
-    if (fileName.endsWith('.doc') || fileName.endsWith('.docx')) return 'document';
-    if (fileName.endsWith('.csv')) return 'text';
-    
-    return 'other';
-  };
-
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (user.role !== 'admin') {
       toast({
@@ -296,72 +304,70 @@ const Dashboard = ({ user, onLogout, onRefresh }: DashboardProps) => {
 
   const processFilesForContent = async (files: File[]): Promise<void> => {
     if (files.length === 0) {
-      setProcessedFileContent('');
+      setSourceDocuments([]);
       return;
     }
 
     console.log(`Starting file processing for ${files.length} files...`);
     setIsProcessingFiles(true);
+    setFileProgress({});
     
     try {
-      const filePromises = files.map(async (file) => {
+      const results = await Promise.all(files.map(async (file) => {
         try {
           console.log(`Processing file: ${file.name} (${file.type}, ${file.size} bytes)`);
-          const processedFile = await FileProcessingService.processFile(file);
+          const processedFile = await FileProcessingService.processFile(file, progress =>
+            setFileProgress(prev => ({ ...prev, [file.name]: progress }))
+          );
           
           console.log(`Successfully processed ${file.name}:`, {
             type: processedFile.type,
             contentLength: processedFile.content.length,
+            sections: processedFile.document.sections.length,
             extractionMethod: processedFile.metadata.extractionMethod
           });
           
-          return `=== File: ${file.name} ===
-Type: ${processedFile.type}
-Size: ${Math.round(file.size / 1024)}KB
-Extraction Method: ${processedFile.metadata.extractionMethod}
-Content:
-${processedFile.content}
-
-`;
+          return { document: processedFile.document };
         } catch (error) {
           console.error(`Error processing file ${file.name}:`, error);
-          return `=== File: ${file.name} ===
-Error: Could not process file content - ${error instanceof Error ? error.message : 'Unknown error'}
-Type: ${getFileCategory(file)}
-Size: ${Math.round(file.size / 1024)}KB
-Note: File processing failed, but file information is available.
-
-`;
+          return { failure: `${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}` };
         }
-      });
+      }));
       
-      const processedContents = await Promise.all(filePromises);
-      const combinedContent = processedContents.join('\n');
+      // Keep upload order, so passage refs are numbered the same way every time these are rendered
+      const documents = results.filter(result => result.document).map(result => result.document);
+      const failures = results.filter(result => result.failure).map(result => result.failure);
       
-      console.log(`File processing completed. Total content length: ${combinedContent.length} characters`);
-      console.log('Combined file content preview:', combinedContent.substring(0, 500) + '...');
+      console.log(`File processing completed. ${documents.length} document(s), ${SourceDocuments.textLength(documents)} characters`);
       
-      setProcessedFileContent(combinedContent);
+      setSourceDocuments(documents);
       
-      toast({
-        title: "Files Processed",
-        description: `${files.length} file(s) processed successfully. Content is ready for course and test generation.`,
-      });
-    } catch (error) {
-      console.error('Error during batch file processing:', error);
-      const errorContent = `Error processing uploaded files: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      setProcessedFileContent(errorContent);
-      
-      toast({
-        title: "Processing Error",
-        description: "Some files could not be processed, but generation will continue with available content.",
-        variant: "destructive"
-      });
+      if (failures.length > 0) {
+        toast({
+          title: "Processing Error",
+          description: `Could not read ${failures.join('; ')}. Generation will use the other files.`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Files Processed",
+          description: `${files.length} file(s) processed successfully. Content is ready for course and test generation.`,
+        });
+      }
     } finally {
       setIsProcessingFiles(false);
     }
   };
 
+  const describeFileProgress = (progress?: FileProcessingProgress): string => {
+    if (!progress || progress.stage === 'extracting') return 'Processing...';
+    if (progress.stage === 'complete') return 'Processed';
+    const percent = Math.round(progress.progress * 100);
+    return progress.page
+      ? `Reading scanned page ${progress.page} of ${progress.pageCount} (${percent}%)`
+      : `Reading text from image (${percent}%)`;
+  };
+
   const removeFile = (index: number) => {
     setUploadedFiles(prev => {
       const newFiles = prev.filter((_, i) => i !== index);
@@ -382,14 +388,14 @@ Note: File processing failed, but file information is available.
 
     console.log('Generate button clicked, opening dialog with:', {
       uploadedFilesCount: uploadedFiles.length,
-      processedContentLength: processedFileContent.length,
-      hasFileContent: !!processedFileContent
+      processedContentLength: SourceDocuments.textLength(sourceDocuments),
+      hasFileContent: sourceDocuments.length > 0
     });
 
     setShowGenerateDialog(true);
   };
 
-  const handleGenerateQuestionnaire = async (testName: string, difficulty: 'easy' | 'medium' | 'hard', numberOfQuestions: number, timeframe: number, includeCourse: boolean, includeQuestionnaire: boolean, numberOfSets: number = 1) => {
+  const handleGenerateQuestionnaire = async (testName: string, difficulty: 'easy' | 'medium' | 'hard', numberOfQuestions: number, timeframe: number, includeCourse: boolean, includeQuestionnaire: boolean, numberOfSets: number = 1, questionTypes: QuestionType[] = ['multiple-choice'], targeting: QuestionTargeting = {}) => {
     setIsGenerating(true);
     setShowGenerateDialog(false);
     
@@ -401,15 +407,16 @@ Note: File processing failed, but file information is available.
       includeCourse,
       includeQuestionnaire,
       numberOfSets,
+      questionTypes,
       uploadedFilesCount: uploadedFiles.length,
-      processedContentLength: processedFileContent.length,
-      hasProcessedContent: !!processedFileContent.trim()
+      sourceFiles: sourceDocuments.map(document => document.fileName),
+      processedContentLength: SourceDocuments.textLength(sourceDocuments)
     });
     
     try {
-      const fileContentToUse = processedFileContent.trim();
+      const contentLength = SourceDocuments.textLength(sourceDocuments);
       
-      if (uploadedFiles.length > 0 && !fileContentToUse) {
+      if (uploadedFiles.length > 0 && sourceDocuments.length === 0) {
         console.warn('Files uploaded but no processed content available, waiting for processing...');
         toast({
           title: "Processing Files",
@@ -420,19 +427,17 @@ Note: File processing failed, but file information is available.
         return;
       }
       
-      console.log('Using file content for generation:', {
-        hasContent: !!fileContentToUse,
-        contentLength: fileContentToUse.length,
-        contentPreview: fileContentToUse.substring(0, 200) + '...'
+      console.log('Using source documents for generation:', {
+        documents: sourceDocuments.length,
+        contentLength
       });
       
       let generatedCourse = null;
-      if (includeCourse && (fileContentToUse.length > 50 || uploadedFiles.length > 0)) {
+      if (includeCourse && sourceDocuments.length > 0) {
         console.log('Generating course...');
         generatedCourse = await CourseService.generateCourse(
           "Generate course content from uploaded files",
-          uploadedFiles,
-          fileContentToUse,
+          sourceDocuments,
           testName
         );
         CourseService.saveCourse(generatedCourse);
@@ -441,21 +446,49 @@ Note: File processing failed, but file information is available.
       }
       
       const generatedQuestionnaires = [];
+      let duplicatesReplaced = 0;
+      let duplicatesFlagged = 0;
+      let uncoveredSections = 0;
+      let questionsMissing = 0;
       
       if (includeQuestionnaire) {
+        // Every set is checked for near-duplicates against the bank and the sets generated before it
+        const bankTexts = await SupabaseQuestionBankService.getAllQuestionTexts();
+        const duplicatePool: DuplicateCandidate[] = bankTexts.map(text => ({ text, source: 'Question bank' }));
+
         for (let setIndex = 1; setIndex <= numberOfSets; setIndex++) {
           console.log(`Generating questionnaire set ${setIndex} of ${numberOfSets}...`);
           
+          const testOptions: TestOptions = {
+            testName,
+            difficulty,
+            numberOfQuestions,
+            timeframe,
+            includeCourse: false,
+            includeQuestionnaire: true,
+            questionTypes,
+            avoidQuestions: duplicatePool.map(candidate => candidate.text),
+            cognitiveMix: targeting.cognitiveMix,
+            learningObjectives: targeting.learningObjectives
+          };
           const questionnaire = await QuestionnaireService.generateQuestionnaire(
             "Generate questions from uploaded files",
-            { testName, difficulty, numberOfQuestions, timeframe, includeCourse: false, includeQuestionnaire: true },
-            fileContentToUse,
+            testOptions,
+            sourceDocuments,
             setIndex,
             numberOfSets
           );
           
           questionnaire.setNumber = setIndex;
           questionnaire.totalSets = numberOfSets;
+
+          const { replaced, flagged } = await QuestionnaireService.replaceDuplicateQuestions(questionnaire, duplicatePool, testOptions, sourceDocuments);
+          duplicatesReplaced += replaced;
+          duplicatesFlagged += flagged;
+          duplicatePool.unshift(...questionnaire.questions.map(q => ({ text: q.text, source: `Set ${setIndex}` })));
+          questionnaire.sourceFiles = sourceDocuments.map(document => document.fileName);
+          uncoveredSections = Math.max(uncoveredSections, (questionnaire.sourceCoverage || []).filter(section => section.questions === 0).length);
+          questionsMissing += Math.max(0, numberOfQuestions - questionnaire.questions.length);
           
           if (generatedCourse) {
             questionnaire.course = generatedCourse;
@@ -474,7 +507,7 @@ Note: File processing failed, but file information is available.
       }
       
       setUploadedFiles([]);
-      setProcessedFileContent('');
+      setSourceDocuments([]);
       
       let successMessage = '';
       if (generatedCourse && generatedQuestionnaires.length > 0) {
@@ -488,6 +521,18 @@ Note: File processing failed, but file information is available.
       if (uploadedFiles.length > 0) {
         successMessage += ` from ${uploadedFiles.length} file(s)`;
       }
+      if (duplicatesReplaced > 0) {
+        successMessage += `. Replaced ${duplicatesReplaced} near-duplicate question(s)`;
+      }
+      if (duplicatesFlagged > 0) {
+        successMessage += `. ${duplicatesFlagged} possible duplicate(s) are flagged for review`;
+      }
+      if (uncoveredSections > 0) {
+        successMessage += `. ${uncoveredSections} section(s) of the source have no questions`;
+      }
+      if (questionsMissing > 0) {
+        successMessage += `. ${questionsMissing} of the requested question(s) could not be generated from the source`;
+      }
         
       toast({
         title: "Success",
@@ -497,7 +542,7 @@ Note: File processing failed, but file information is available.
       console.log('Generation completed successfully:', {
         courseGenerated: !!generatedCourse,
         questionnaireCount: generatedQuestionnaires.length,
-        withFileContent: !!fileContentToUse
+        withFileContent: contentLength > 0
       });
     } catch (error) {
       console.error('Error generating content:', error);
@@ -527,6 +572,128 @@ Note: File processing failed, but file information is available.
     }
   };
 
+  const handleAddToQuestionBank = async (questionnaire: Questionnaire) => {
+    try {
+      const saved = await QuestionBankService.addQuestionnaireToBank(questionnaire);
+      toast({
+        title: "Added to question bank",
+        description: `${saved.length} questions from "${questionnaire.title}" are now in the question bank.`,
+      });
+    } catch (error) {
+      console.error('Error adding questions to bank:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add questions to the bank",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // A QTI package gets every set of the test, so the LMS has the same alternatives guests are assigned
+  const handleExport = async (questionnaire: Questionnaire, format: QuestionExportFormat) => {
+    try {
+      const sets = [...unsavedQuestionnaires, ...questionnaires].filter((q, index, all) =>
+        q.testName && q.testName === questionnaire.testName && all.findIndex(other => other.id === q.id) === index
+      );
+      const { blob, fileName, skipped } = await QuestionnaireService.exportQuestions(
+        format === 'qti' && sets.length > 0 ? sets : [questionnaire],
+        format
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      if (skipped.length > 0) {
+        toast({
+          title: "Some questions were left out",
+          description: `${skipped.length} question${skipped.length === 1 ? '' : 's'} cannot be written in ${format.toUpperCase()} format` +
+            (format === 'aiken' ? ' (it only supports single-answer multiple choice).' : '.'),
+        });
+      }
+    } catch (error) {
+      console.error('Error exporting questions:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export the test",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // QTI packages, GIFT and Aiken files become tests directly, without generating anything;
+  // spreadsheets first get a column mapping preview
+  const handleImportQuestions = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    if (SpreadsheetImport.isSpreadsheet(file.name)) {
+      setSpreadsheetFile(file);
+      return;
+    }
+    await importQuestionsFile(file, 'ask');
+  };
+
+  // A QTI package exported from here keeps its test ids; if those tests still exist,
+  // nothing is saved until the admin picks replace or copy
+  const importQuestionsFile = async (file: File, onExisting: ExistingTestAction) => {
+    setIsImporting(true);
+    try {
+      const { questionnaires: imported, errors, warnings, existing } = await QuestionnaireService.importQuestions(file, onExisting);
+      if (onExisting === 'ask' && existing.length > 0) {
+        setImportConflict({ file, testTitles: existing.map(q => q.title) });
+        return;
+      }
+      if (errors.length > 0) {
+        toast({
+          title: `"${file.name}" was not imported`,
+          description: (
+            <div className="space-y-1">
+              {errors.slice(0, 5).map((error, index) => (
+                <p key={index}>Line {error.line}: {error.message}</p>
+              ))}
+              {errors.length > 5 && <p>...and {errors.length - 5} more</p>}
+            </div>
+          ),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const questionCount = imported.reduce((sum, q) => sum + q.questions.length, 0);
+      loadQuestionnaires();
+      toast({
+        title: "Import complete",
+        description: `Imported ${questionCount} questions into ${imported.length} test${imported.length === 1 ? '' : 's'}` +
+          (warnings.length > 0 ? `; ${warnings.length} item${warnings.length === 1 ? ' was' : 's were'} skipped (${warnings[0]}${warnings.length > 1 ? ', ...' : ''})` : '.'),
+      });
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import the file",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleAssembleFromBank = (questionnaire: Questionnaire) => {
+    setUnsavedQuestionnaires(prev => [questionnaire, ...prev]);
+    setShowQuestionBank(false);
+    toast({
+      title: "Success",
+      description: `Created "${questionnaire.title}" with ${questionnaire.questions.length} questions from the bank`,
+    });
+  };
+
   const handleDeleteRequest = (questionnaireId: string, testName: string) => {
     setDeleteDialog({
       open: true,
@@ -575,8 +742,14 @@ Note: File processing failed, but file information is available.
     // First, filter out completed questionnaires for guest users
     const uncompletedQuestionnaires = GuestFilterService.filterCompletedQuestionnaires(questionnaires, user);
 
+    // Invite-only tests are hidden until the guest has redeemed one of their invites
+    const testAccess = await SupabaseInviteService.getGuestTestAccess();
+
     const testGroups: Record<string, any[]> = {};
     uncompletedQuestionnaires.forEach(q => {
+      if (testAccess[q.id] === false) {
+        return;
+      }
       const testKey = q.testName || q.title;
       if (!testGroups[testKey]) {
         testGroups[testKey] = [];
@@ -586,14 +759,22 @@ Note: File processing failed, but file information is available.
 
     const filteredQuestionnaires: any[] = [];
     
-    for (const [testName, testQuestionnaires] of Object.entries(testGroups)) {
+    for (const testQuestionnaires of Object.values(testGroups)) {
       if (testQuestionnaires.length > 1 && testQuestionnaires[0].totalSets > 1) {
         const totalSets = testQuestionnaires[0].totalSets;
-        const testId = testQuestionnaires[0].id.split('-')[0];
-        const assignedSetNumber = await GuestAssignmentService.getGuestSetNumber(user.username, testId, totalSets);
+        // Each set has its own random id and test names are not unique across admins, so the
+        // test is identified by the id of its first set
+        const testId = [...testQuestionnaires]
+          .sort((a, b) => (a.setNumber || 1) - (b.setNumber || 1) || String(a.id).localeCompare(String(b.id)))[0].id;
+        const assignedSetNumber = await GuestAssignmentService.getGuestSetNumber(AuthService.getGuestKey(user), testId, totalSets);
         const assignedQuestionnaire = testQuestionnaires.find(q => q.setNumber === assignedSetNumber);
         if (assignedQuestionnaire) {
-          filteredQuestionnaires.push(assignedQuestionnaire);
+          // Supabase only serves a set's questions once it is assigned, so a first assignment
+          // arrives without them
+          const withQuestions = assignedQuestionnaire.questions?.length
+            ? assignedQuestionnaire
+            : await QuestionnaireService.getQuestionnaireById(assignedQuestionnaire.id);
+          filteredQuestionnaires.push(withQuestions || assignedQuestionnaire);
         }
       } else {
         filteredQuestionnaires.push(...testQuestionnaires);
@@ -654,16 +835,42 @@ Note: File processing failed, but file information is available.
         testName={deleteDialog.testName}
       />
 
+      <ConfirmImportOverwriteDialog
+        open={!!importConflict}
+        fileName={importConflict?.file.name || ''}
+        testTitles={importConflict?.testTitles || []}
+        onReplace={() => {
+          const file = importConflict.file;
+          setImportConflict(null);
+          importQuestionsFile(file, 'replace');
+        }}
+        onCopy={() => {
+          const file = importConflict.file;
+          setImportConflict(null);
+          importQuestionsFile(file, 'copy');
+        }}
+        onCancel={() => setImportConflict(null)}
+      />
+
       <SettingsDialog
         open={showSettingsDialog}
         onClose={() => setShowSettingsDialog(false)}
         userRole={user.role}
       />
 
+      <SpreadsheetImportDialog
+        file={spreadsheetFile}
+        onClose={() => setSpreadsheetFile(null)}
+        onImported={() => {
+          setSpreadsheetFile(null);
+          loadQuestionnaires();
+        }}
+      />
+
       <GenerateTestDialog
         open={showGenerateDialog}
         uploadedFiles={uploadedFiles}
-        processedFileContent={processedFileContent}
+        sourceDocuments={sourceDocuments}
         onGenerate={handleGenerateQuestionnaire}
         onCancel={() => setShowGenerateDialog(false)}
       />
@@ -701,8 +908,27 @@ Note: File processing failed, but file information is available.
                   <Trophy className="h-4 w-4" />
                   <span>{LanguageService.translate('nav.leaderboard')}</span>
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowQuestionBank(!showQuestionBank)}
+                  className="flex items-center space-x-2 border-slate-300 bg-white/70 text-slate-700 hover:bg-white hover:border-violet-300 font-poppins rounded-lg"
+                >
+                  <Library className="h-4 w-4" />
+                  <span>{LanguageService.translate('nav.questionBank')}</span>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowUsers(!showUsers)}
+                  className="flex items-center space-x-2 border-slate-300 bg-white/70 text-slate-700 hover:bg-white hover:border-violet-300 font-poppins rounded-lg"
+                >
+                  <UserCog className="h-4 w-4" />
+                  <span>{LanguageService.translate('nav.users')}</span>
+                </Button>
               </>
             )}
+            <SyncStatusIndicator />
             <Button
               variant="outline"
               size="sm"
@@ -740,6 +966,18 @@ Note: File processing failed, but file information is available.
               </div>
             )}
 
+            {user.role === 'admin' && showQuestionBank && (
+              <div className="mb-6">
+                <QuestionBankBrowser onAssemble={handleAssembleFromBank} />
+              </div>
+            )}
+
+            {user.role === 'admin' && showUsers && (
+              <div className="mb-6">
+                <UserManagement />
+              </div>
+            )}
+
             {user.role === 'admin' && (
               <Card className="mb-6 bg-white/80 backdrop-blur-sm border border-slate-200 shadow-lg rounded-xl">
                 <CardHeader className="bg-gradient-to-r from-violet-50 to-purple-50 border-b border-slate-200 rounded-t-xl">
@@ -747,7 +985,27 @@ Note: File processing failed, but file information is available.
                 </CardHeader>
                 <CardContent className="space-y-4 p-6">
                   <div>
-                    <Label htmlFor="file-upload" className="text-slate-700 font-medium font-poppins">Upload Files</Label>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="file-upload" className="text-slate-700 font-medium font-poppins">Upload Files</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting}
+                        title="Spreadsheet (.csv, .xlsx), QTI package (.zip), GIFT or Aiken file"
+                        className="text-violet-700 hover:text-violet-800 hover:bg-violet-50"
+                      >
+                        <FileInput className="h-4 w-4 mr-1" />
+                        {isImporting ? 'Importing...' : 'Import questions'}
+                      </Button>
+                      <input
+                        ref={importInputRef}
+                        type="file"
+                        accept={QuestionFileService.ACCEPTED_EXTENSIONS}
+                        onChange={handleImportQuestions}
+                        className="hidden"
+                      />
+                    </div>
                     <div className="mt-1">
                       <div className="relative border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-violet-400 transition-colors">
                         <Upload className="h-12 w-12 text-slate-400 mx-auto mb-4" />
@@ -755,7 +1013,7 @@ Note: File processing failed, but file information is available.
                           Click to upload files or drag and drop
                         </p>
                         <p className="text-sm text-slate-500 font-inter">
-                          Supports PDF, Word, text, images, videos, and audio files (max 50MB each)
+                          Supports PDF, Word, PowerPoint, Excel, text, images, videos, and audio files (max 50MB each)
                         </p>
                         <input
                           id="file-upload"
@@ -776,8 +1034,11 @@ Note: File processing failed, but file information is available.
                               <div className="flex flex-col">
                                 <span className="text-sm text-violet-800 font-medium font-inter">{file.name}</span>
                                 <span className="text-xs text-violet-600">
-                                  {Math.round(file.size / 1024)}KB • {isProcessingFiles ? 'Processing...' : 'Processed'}
+                                  {Math.round(file.size / 1024)}KB • {isProcessingFiles ? describeFileProgress(fileProgress[file.name]) : 'Processed'}
                                 </span>
+                                {isProcessingFiles && fileProgress[file.name]?.stage === 'ocr' && (
+                                  <Progress value={Math.round(fileProgress[file.name].progress * 100)} className="h-1.5 mt-1 w-48" />
+                                )}
                               </div>
                             </div>
                             <button
@@ -789,10 +1050,10 @@ Note: File processing failed, but file information is available.
                           </div>
                         ))}
                         
-                        {processedFileContent && (
+                        {sourceDocuments.length > 0 && (
                           <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded-lg">
                             <p className="text-xs text-green-700 font-medium">
-                              ✅ {uploadedFiles.length} file(s) processed successfully ({processedFileContent.length} characters extracted)
+                              ✅ {sourceDocuments.length} of {uploadedFiles.length} file(s) processed successfully ({SourceDocuments.textLength(sourceDocuments)} characters extracted)
                             </p>
                           </div>
                         )}
@@ -878,6 +1139,8 @@ Note: File processing failed, but file information is available.
                     questionnaire={questionnaire}
                     isAdmin={user.role === 'admin'}
                     onUpdate={handleUpdateQuestionnaire}
+                    onAddToBank={handleAddToQuestionBank}
+                    onExport={handleExport}
                     onDelete={(id) => handleDeleteRequest(id, questionnaire.title || questionnaire.testName || 'Test')}
                     onRefresh={handleQuestionnaireRefresh}
                   />
@@ -6,21 +6,35 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent } from '@/components/ui/card';
-import { Upload, FileText, Image, Video, Music, File, CheckCircle, AlertCircle } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Upload, FileText, Image, Video, Music, File, CheckCircle, AlertCircle, Lightbulb } from 'lucide-react';
+import { COGNITIVE_LEVELS, CognitiveLevel, QuestionTargeting, QuestionType } from '@/services/questionnaire/QuestionnaireTypes';
+import { LearningObjectives } from '@/services/questionnaire/LearningObjectives';
+import { SourceDocument, SourceDocuments } from '@/services/extraction/SourceDocument';
+
+const QUESTION_TYPE_CHOICES: Array<{ value: QuestionType; label: string; description: string }> = [
+  { value: 'multiple-choice', label: 'Multiple Choice', description: 'Four options with one correct answer' },
+  { value: 'multiple-select', label: 'Multiple Select', description: 'Several options may be correct' },
+  { value: 'boolean', label: 'True / False', description: 'Statements judged true or false' },
+  { value: 'text', label: 'Short Answer', description: 'Typed answers matched against accepted answers' }
+];
+
+const DEFAULT_COGNITIVE_MIX: Record<CognitiveLevel, number> = { recall: 40, understand: 30, apply: 20, analyze: 10 };
 
 interface GenerateTestDialogProps {
   open: boolean;
   uploadedFiles: File[];
-  processedFileContent?: string;
-  onGenerate: (testName: string, difficulty: 'easy' | 'medium' | 'hard', numberOfQuestions: number, timeframe: number, includeCourse: boolean, includeQuestionnaire: boolean, numberOfSets: number) => void;
+  sourceDocuments?: SourceDocument[];
+  onGenerate: (testName: string, difficulty: 'easy' | 'medium' | 'hard', numberOfQuestions: number, timeframe: number, includeCourse: boolean, includeQuestionnaire: boolean, numberOfSets: number, questionTypes: QuestionType[], targeting: QuestionTargeting) => void;
   onCancel: () => void;
 }
 
 const GenerateTestDialog = ({ 
   open, 
   uploadedFiles, 
-  processedFileContent = '',
+  sourceDocuments = [],
   onGenerate, 
   onCancel 
 }: GenerateTestDialogProps) => {
@@ -31,7 +45,11 @@ const GenerateTestDialog = ({
   const [includeCourse, setIncludeCourse] = useState(false);
   const [includeQuestionnaire, setIncludeQuestionnaire] = useState(true);
   const [numberOfSets, setNumberOfSets] = useState(1);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(['multiple-choice']);
   const [contentType, setContentType] = useState<'questionnaire' | 'course' | 'both'>('questionnaire');
+  const [targetCognitiveMix, setTargetCognitiveMix] = useState(false);
+  const [cognitiveMix, setCognitiveMix] = useState<Record<CognitiveLevel, number>>(DEFAULT_COGNITIVE_MIX);
+  const [objectivesText, setObjectivesText] = useState('');
 
   // Reset form when dialog opens
   useEffect(() => {
@@ -43,7 +61,11 @@ const GenerateTestDialog = ({
       setIncludeCourse(false);
       setIncludeQuestionnaire(true);
       setNumberOfSets(1);
+      setQuestionTypes(['multiple-choice']);
       setContentType('questionnaire');
+      setTargetCognitiveMix(false);
+      setCognitiveMix(DEFAULT_COGNITIVE_MIX);
+      setObjectivesText('');
     }
   }, [open]);
 
@@ -66,7 +88,27 @@ const GenerateTestDialog = ({
     return <File className="h-4 w-4" />;
   };
 
-  const canEnableCourse = uploadedFiles.length > 0 && processedFileContent.length > 0;
+  const handleQuestionTypeToggle = (type: QuestionType, checked: boolean) => {
+    setQuestionTypes(prev => checked
+      ? [...prev.filter(t => t !== type), type]
+      : prev.filter(t => t !== type)
+    );
+  };
+
+  const handleCognitiveMixChange = (level: CognitiveLevel, value: string) => {
+    const percent = Math.min(100, Math.max(0, parseInt(value) || 0));
+    setCognitiveMix(prev => ({ ...prev, [level]: percent }));
+  };
+
+  const handleSuggestObjectives = () => {
+    setObjectivesText(LearningObjectives.infer(sourceDocuments).join('\n'));
+  };
+
+  const cognitiveMixTotal = COGNITIVE_LEVELS.reduce((sum, level) => sum + cognitiveMix[level.value], 0);
+  const cognitiveMixValid = !targetCognitiveMix || cognitiveMixTotal === 100;
+
+  const extractedLength = SourceDocuments.textLength(sourceDocuments);
+  const canEnableCourse = uploadedFiles.length > 0 && extractedLength > 0;
 
   console.log('Course enablement check:', {
     totalFiles: uploadedFiles.length,
@@ -89,11 +131,19 @@ const GenerateTestDialog = ({
       includeCourse,
       includeQuestionnaire,
       numberOfSets,
-      hasProcessedContent: !!processedFileContent,
-      processedContentLength: processedFileContent.length
+      questionTypes,
+      targetCognitiveMix,
+      hasProcessedContent: extractedLength > 0,
+      processedContentLength: extractedLength
     });
 
-    onGenerate(testName, difficulty, numberOfQuestions, timeframe, includeCourse, includeQuestionnaire, numberOfSets);
+    const learningObjectives = LearningObjectives.normalize(objectivesText.split('\n'));
+    const targeting: QuestionTargeting = {
+      ...(targetCognitiveMix ? { cognitiveMix: { ...cognitiveMix } } : {}),
+      ...(learningObjectives.length > 0 ? { learningObjectives } : {})
+    };
+
+    onGenerate(testName, difficulty, numberOfQuestions, timeframe, includeCourse, includeQuestionnaire, numberOfSets, questionTypes, targeting);
   };
 
   return (
@@ -111,7 +161,7 @@ const GenerateTestDialog = ({
                 <div className="flex items-center justify-between mb-2">
                   <Label className="text-sm font-medium text-slate-700">Uploaded Files</Label>
                   <div className="flex items-center space-x-1">
-                    {processedFileContent.length > 0 ? (
+                    {extractedLength > 0 ? (
                       <>
                         <CheckCircle className="h-4 w-4 text-green-500" />
                         <span className="text-xs text-green-600">Processed</span>
@@ -133,10 +183,10 @@ const GenerateTestDialog = ({
                     </div>
                   ))}
                 </div>
-                {processedFileContent.length > 0 && (
+                {extractedLength > 0 && (
                   <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded">
                     <p className="text-xs text-green-700">
-                      ✅ Content extracted successfully ({processedFileContent.length} characters)
+                      ✅ Content extracted successfully ({extractedLength} characters)
                     </p>
                   </div>
                 )}
@@ -272,6 +322,98 @@ const GenerateTestDialog = ({
             </CardContent>
           </Card>
 
+          {/* Question Type Selection */}
+          {includeQuestionnaire && (
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                <Label className="text-base font-medium">Question Types</Label>
+                {QUESTION_TYPE_CHOICES.map(choice => (
+                  <div key={choice.value} className="flex items-start space-x-3">
+                    <Checkbox
+                      id={`question-type-${choice.value}`}
+                      checked={questionTypes.includes(choice.value)}
+                      onCheckedChange={(checked) => handleQuestionTypeToggle(choice.value, checked === true)}
+                    />
+                    <div>
+                      <Label htmlFor={`question-type-${choice.value}`} className="text-sm font-medium">
+                        {choice.label}
+                      </Label>
+                      <p className="text-xs text-slate-500 mt-1">{choice.description}</p>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Cognitive Levels and Learning Objectives */}
+          {includeQuestionnaire && (
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="cognitive-mix-switch" className="text-base font-medium">Cognitive Levels</Label>
+                    <p className="text-xs text-slate-500 mt-1">Share of questions at each level of Bloom's taxonomy</p>
+                  </div>
+                  <Switch
+                    id="cognitive-mix-switch"
+                    checked={targetCognitiveMix}
+                    onCheckedChange={setTargetCognitiveMix}
+                  />
+                </div>
+                {targetCognitiveMix && (
+                  <div className="space-y-2">
+                    {COGNITIVE_LEVELS.map(level => (
+                      <div key={level.value} className="grid grid-cols-[7rem_1fr_5rem] items-center gap-3">
+                        <Label htmlFor={`cognitive-${level.value}`} className="text-sm font-medium">{level.label}</Label>
+                        <p className="text-xs text-slate-500">{level.description}</p>
+                        <div className="flex items-center space-x-1">
+                          <Input
+                            id={`cognitive-${level.value}`}
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={cognitiveMix[level.value]}
+                            onChange={(e) => handleCognitiveMixChange(level.value, e.target.value)}
+                            className="h-8"
+                          />
+                          <span className="text-sm text-slate-500">%</span>
+                        </div>
+                      </div>
+                    ))}
+                    <p className={`text-xs ${cognitiveMixValid ? 'text-slate-500' : 'text-red-600'}`}>
+                      Total {cognitiveMixTotal}%{!cognitiveMixValid && ' (must add up to 100%)'}
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="learning-objectives" className="text-base font-medium">Learning Objectives (optional)</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSuggestObjectives}
+                      disabled={extractedLength === 0}
+                    >
+                      <Lightbulb className="h-3 w-3 mr-1" />
+                      Suggest from files
+                    </Button>
+                  </div>
+                  <Textarea
+                    id="learning-objectives"
+                    value={objectivesText}
+                    onChange={(e) => setObjectivesText(e.target.value)}
+                    placeholder="One objective per line. Each question will be bound to one of them."
+                    rows={3}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-2 pt-4">
             <Button variant="outline" onClick={onCancel}>
@@ -279,7 +421,7 @@ const GenerateTestDialog = ({
             </Button>
             <Button 
               onClick={handleGenerate}
-              disabled={!testName.trim() || (!includeCourse && !includeQuestionnaire)}
+              disabled={!testName.trim() || (!includeCourse && !includeQuestionnaire) || (includeQuestionnaire && questionTypes.length === 0) || (includeQuestionnaire && !cognitiveMixValid)}
               className="bg-violet-600 hover:bg-violet-700"
             >
               Generate {contentType === 'both' ? 'Course & Test' : contentType === 'course' ? 'Course' : 'Test'}
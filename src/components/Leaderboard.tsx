@@ -6,6 +6,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Trophy, Medal, Award, ChevronDown, ChevronUp, Users, Download, FileText } from 'lucide-react';
 import { QuestionnaireService } from '@/services/QuestionnaireService';
 import { ResponseService } from '@/services/ResponseService';
+import { AttemptTimerService } from '@/services/AttemptTimerService';
 
 const Leaderboard = () => {
   const [questionnaires, setQuestionnaires] = useState<any[]>([]);
@@ -40,13 +41,19 @@ const Leaderboard = () => {
     try {
       const responses = await ResponseService.getResponsesByQuestionnaire(questionnaireId);
       
-      // Sort responses by score (highest first), then by submission time (earliest first)
+      // Sort responses by score (highest first), then by time taken (fastest first, untimed last),
+      // then by submission time (earliest first)
       const sortedResponses = responses
         .filter(response => response.score !== undefined)
         .sort((a, b) => {
           if (b.score !== a.score) {
             return (b.score || 0) - (a.score || 0);
           }
+          const aDuration = a.durationSeconds ?? Number.POSITIVE_INFINITY;
+          const bDuration = b.durationSeconds ?? Number.POSITIVE_INFINITY;
+          if (aDuration !== bDuration) {
+            return aDuration < bDuration ? -1 : 1;
+          }
           return new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime();
         });
 
@@ -156,12 +163,17 @@ const Leaderboard = () => {
     URL.revokeObjectURL(url);
   };
 
+  const formatTimeTaken = (durationSeconds?: number) => {
+    return durationSeconds !== undefined ? AttemptTimerService.formatDuration(durationSeconds) : '—';
+  };
+
   const prepareLeaderboardExportData = () => {
     return leaderboardData.map((response, index) => ({
       Rank: index + 1,
       Player: response.username,
       Score: `${response.score}/${response.totalQuestions}`,
       Percentage: `${getScorePercentage(response.score || 0, response.totalQuestions || 0)}%`,
+      Time: formatTimeTaken(response.durationSeconds),
       Submitted: new Date(response.submittedAt).toLocaleDateString()
     }));
   };
@@ -252,6 +264,7 @@ const Leaderboard = () => {
                                 <TableHead className="text-gray-300">Player</TableHead>
                                 <TableHead className="text-gray-300">Score</TableHead>
                                 <TableHead className="text-gray-300">Percentage</TableHead>
+                                <TableHead className="text-gray-300">Time</TableHead>
                                 <TableHead className="text-gray-300">Submitted</TableHead>
                               </TableRow>
                             </TableHeader>
@@ -295,6 +308,12 @@ const Leaderboard = () => {
                                         </span>
                                       </div>
                                     </TableCell>
+                                    <TableCell className="text-gray-300 text-sm">
+                                      {formatTimeTaken(response.durationSeconds)}
+                                      {response.autoSubmitted && (
+                                        <span className="ml-1 text-xs text-yellow-400">(auto)</span>
+                                      )}
+                                    </TableCell>
                                     <TableCell className="text-gray-400 text-sm">
                                       {new Date(response.submittedAt).toLocaleDateString()}
                                     </TableCell>
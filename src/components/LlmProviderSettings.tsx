@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save } from 'lucide-react';
+import { LLM_TASKS, LlmSettings, LlmSettingsService } from '@/services/llm/LlmSettingsService';
+import { LlmProviderId, LlmTask } from '@/services/llm/LlmTypes';
+import { LlmQuota, SupabaseLlmUsageService } from '@/services/supabase/SupabaseLlmUsageService';
+import { toast } from '@/hooks/use-toast';
+import ApiKeySettings from './ApiKeySettings';
+
+const BASE_URL_PLACEHOLDERS: Record<LlmProviderId, string> = {
+  'server': '',
+  'openai': 'https://api.openai.com/v1 (default)',
+  'azure-openai': 'https://my-resource.openai.azure.com',
+  'anthropic': 'https://api.anthropic.com (default)',
+  'openai-compatible': 'http://localhost:11434/v1'
+};
+
+const LlmProviderSettings = () => {
+  const [settings, setSettings] = useState<LlmSettings>(LlmSettingsService.getSettings());
+  const [apiKey, setApiKey] = useState(LlmSettingsService.getApiKey(settings.provider));
+  const providers = LlmSettingsService.getProviders();
+  const provider = providers.find(p => p.id === settings.provider) || providers[0];
+  const isOpenAI = settings.provider === 'openai';
+  const isServer = settings.provider === 'server';
+  const [quota, setQuota] = useState<LlmQuota | null>(null);
+
+  useEffect(() => {
+    if (isServer) {
+      SupabaseLlmUsageService.getMyQuota().then(setQuota);
+    }
+  }, [isServer]);
+
+  const handleProviderChange = (providerId: string) => {
+    const id = providerId as LlmProviderId;
+    // Model names don't carry over between providers, so start again from that provider's defaults
+    setSettings({ provider: id, models: {} });
+    setApiKey(LlmSettingsService.getApiKey(id));
+  };
+
+  const handleModelChange = (task: LlmTask, model: string) => {
+    setSettings(prev => ({ ...prev, models: { ...prev.models, [task]: model } }));
+  };
+
+  const handleSave = () => {
+    if (provider.requiresBaseUrl && !settings.baseUrl?.trim()) {
+      toast({
+        title: "Error",
+        description: `${provider.label} needs an endpoint URL`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    LlmSettingsService.saveSettings(settings);
+    // The OpenAI key is managed by its own dialog, which validates it against the API
+    if (!isOpenAI && !isServer) {
+      if (apiKey.trim()) {
+        LlmSettingsService.setApiKey(apiKey.trim(), settings.provider);
+      } else {
+        LlmSettingsService.clearApiKey(settings.provider);
+      }
+    }
+
+    toast({
+      title: "Success",
+      description: `AI provider set to ${provider.label}`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-slate-700 text-sm">Provider</Label>
+        <Select value={settings.provider} onValueChange={handleProviderChange}>
+          <SelectTrigger className="w-full border-slate-300 focus:border-violet-500 focus:ring-violet-500 rounded-lg">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {providers.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isServer ? (
+        <p className="text-sm text-slate-600">
+          Requests use the organisation's key on the server. No key is stored in this browser.
+          {quota && (
+            <span className="block mt-1 text-slate-500">
+              Today: {quota.requestsUsed}/{quota.requestLimit} requests, {quota.tokensUsed.toLocaleString()}/{quota.tokenLimit.toLocaleString()} tokens
+            </span>
+          )}
+        </p>
+      ) : isOpenAI ? (
+        <ApiKeySettings />
+      ) : (
+        <div className="space-y-2">
+          <Label className="text-slate-700 text-sm">
+            API key{!provider.requiresApiKey && ' (optional)'}
+          </Label>
+          <Input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder={provider.requiresApiKey ? 'Enter API key' : 'Only if the server requires one'}
+            className="border-slate-300"
+          />
+        </div>
+      )}
+
+      {!isServer && (
+        <div className="space-y-2">
+          <Label className="text-slate-700 text-sm">
+            {settings.provider === 'azure-openai' ? 'Endpoint' : 'Base URL'}
+            {!provider.requiresBaseUrl && ' (optional)'}
+          </Label>
+          <Input
+            value={settings.baseUrl || ''}
+            onChange={(e) => setSettings(prev => ({ ...prev, baseUrl: e.target.value }))}
+            placeholder={BASE_URL_PLACEHOLDERS[settings.provider]}
+            className="border-slate-300"
+          />
+        </div>
+      )}
+
+      {settings.provider === 'azure-openai' && (
+        <div className="space-y-2">
+          <Label className="text-slate-700 text-sm">API version</Label>
+          <Input
+            value={settings.apiVersion || ''}
+            onChange={(e) => setSettings(prev => ({ ...prev, apiVersion: e.target.value }))}
+            placeholder="2024-10-21"
+            className="border-slate-300"
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-slate-700 text-sm">
+          {settings.provider === 'azure-openai' ? 'Deployment per task' : 'Model per task'}
+        </Label>
+        <div className="space-y-2">
+          {LLM_TASKS.map(({ task, label }) => (
+            <div key={task} className="grid grid-cols-2 items-center gap-2">
+              <span className="text-sm text-slate-600">{label}</span>
+              <Input
+                value={settings.models[task] || ''}
+                onChange={(e) => handleModelChange(task, e.target.value)}
+                placeholder={LlmSettingsService.getDefaultModel(settings.provider, task)}
+                className="h-8 border-slate-300 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Button
+        onClick={handleSave}
+        variant="outline"
+        size="sm"
+        className="flex items-center space-x-2 border-slate-300 text-slate-700 hover:bg-slate-50"
+      >
+        <Save className="h-4 w-4" />
+        <span>Save AI settings</span>
+      </Button>
+    </div>
+  );
+};
+
+export default LlmProviderSettings;
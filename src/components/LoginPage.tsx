@@ -6,8 +6,9 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AuthService } from '@/services/AuthService';
+import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
-import { Bot } from 'lucide-react';
+import { Bot, Mail } from 'lucide-react';
 
 interface LoginPageProps {
   onLogin: (user: any) => void;
@@ -16,8 +17,12 @@ interface LoginPageProps {
 const LoginPage = ({ onLogin }: LoginPageProps) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [role, setRole] = useState('');
+  // Invite links land here with ?invite=CODE, which implies a guest login
+  const [accessCode, setAccessCode] = useState(() => new URLSearchParams(window.location.search).get('invite') || '');
+  const [role, setRole] = useState(() => accessCode ? 'guest' : '');
   const [isLoading, setIsLoading] = useState(false);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const { signInWithMagicLink } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -45,7 +50,7 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
     setIsLoading(true);
     
     try {
-      const user = await AuthService.login(username, password, role);
+      const user = await AuthService.login(username, password, role, role === 'guest' ? accessCode : undefined);
       if (user) {
         toast({
           title: "Success",
@@ -56,7 +61,7 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
         if (role === 'admin') {
           toast({
             title: "Error",
-            description: "Invalid admin credentials",
+            description: "Invalid credentials or this account does not have admin access",
             variant: "destructive"
           });
         } else {
@@ -70,7 +75,7 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Login failed. Please try again.",
+        description: error instanceof Error ? error.message : "Login failed. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -78,6 +83,36 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
     }
   };
 
+  const handleMagicLink = async () => {
+    if (!username.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter your email to receive a sign-in link",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSendingLink(true);
+    try {
+      const { error } = await signInWithMagicLink(username.trim());
+      if (error) {
+        toast({
+          title: "Error",
+          description: error.message || "Could not send the sign-in link",
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Check your email",
+          description: `We sent a sign-in link to ${username.trim()}.`,
+        });
+      }
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <Card className="w-full max-w-md shadow-lg">
@@ -109,18 +144,32 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
 
             <div>
               <Label htmlFor="username">
-                {role === 'guest' ? 'Your Name' : 'Username'}
+                {role === 'guest' ? 'Your Name' : 'Email'}
               </Label>
               <Input
                 id="username"
-                type="text"
+                type={role === 'admin' ? 'email' : 'text'}
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
-                placeholder={role === 'guest' ? 'Enter your name' : 'Enter your username'}
+                placeholder={role === 'guest' ? 'Enter your name' : 'Enter your email'}
                 className="mt-1"
               />
             </div>
             
+            {role === 'guest' && (
+              <div>
+                <Label htmlFor="accessCode">Access Code (optional)</Label>
+                <Input
+                  id="accessCode"
+                  type="text"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value.toUpperCase())}
+                  placeholder="Enter the code from your invite"
+                  className="mt-1 font-mono tracking-wider"
+                />
+              </div>
+            )}
+
             {role === 'admin' && (
               <div>
                 <Label htmlFor="password">Password</Label>
@@ -142,6 +191,19 @@ const LoginPage = ({ onLogin }: LoginPageProps) => {
             >
               {isLoading ? "Logging in..." : "Login"}
             </Button>
+
+            {role === 'admin' && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleMagicLink}
+                disabled={isSendingLink || isLoading}
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                {isSendingLink ? "Sending link..." : "Email me a sign-in link"}
+              </Button>
+            )}
           </form>
         </CardContent>
       </Card>
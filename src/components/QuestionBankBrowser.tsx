@@ -0,0 +1,342 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Library, Search, Shuffle, Plus, Trash2, Tag } from 'lucide-react';
+import { SupabaseQuestionBankService } from '@/services/supabase/SupabaseQuestionBankService';
+import { QuestionBankService } from '@/services/questionnaire/QuestionBankService';
+import { BankQuestion, Questionnaire, QuestionType } from '@/services/questionnaire/QuestionnaireTypes';
+import { toast } from '@/hooks/use-toast';
+
+interface QuestionBankBrowserProps {
+  onAssemble: (questionnaire: Questionnaire) => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'multiple-select': 'Multiple select',
+  'boolean': 'True/False',
+  'text': 'Short answer'
+};
+
+const QuestionBankBrowser = ({ onAssemble }: QuestionBankBrowserProps) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [difficulty, setDifficulty] = useState<'all' | 'easy' | 'medium' | 'hard'>('all');
+  const [type, setType] = useState<'all' | QuestionType>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [drawCount, setDrawCount] = useState('10');
+  const [testName, setTestName] = useState('');
+  const [timeframe, setTimeframe] = useState('30');
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [isAssembling, setIsAssembling] = useState(false);
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  useEffect(() => {
+    loadQuestions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTags, difficulty, type]);
+
+  const loadTags = async () => {
+    setTags(await SupabaseQuestionBankService.getTags());
+  };
+
+  const loadQuestions = async () => {
+    setIsLoading(true);
+    try {
+      setQuestions(await SupabaseQuestionBankService.searchQuestions({
+        search,
+        tags: selectedTags,
+        difficulty: difficulty === 'all' ? undefined : difficulty,
+        type: type === 'all' ? undefined : type
+      }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRandomDraw = () => {
+    const count = parseInt(drawCount) || 0;
+    const drawn = QuestionBankService.drawRandom(questions, count);
+    setSelectedIds(new Set(drawn.map(q => q.id)));
+    if (drawn.length < count) {
+      toast({
+        title: "Not enough questions",
+        description: `Only ${drawn.length} questions match the current filters.`,
+      });
+    }
+  };
+
+  const handleSaveTags = async (question: BankQuestion) => {
+    const newTags = Array.from(new Set(tagDraft.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+    try {
+      const updated = await SupabaseQuestionBankService.updateQuestion({ ...question, tags: newTags });
+      setQuestions(prev => prev.map(q => q.id === updated.id ? updated : q));
+      setEditingTagsId(null);
+      loadTags();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update tags",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    try {
+      await SupabaseQuestionBankService.deleteQuestion(question.id);
+      setQuestions(prev => prev.filter(q => q.id !== question.id));
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(question.id);
+        return next;
+      });
+      loadTags();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete question",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAssemble = async () => {
+    const picked = questions.filter(q => selectedIds.has(q.id));
+    if (!testName.trim() || picked.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a test name and select at least one question",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsAssembling(true);
+    try {
+      const questionnaire = await QuestionBankService.assembleQuestionnaire(picked, {
+        testName: testName.trim(),
+        difficulty: difficulty === 'all' ? 'medium' : difficulty,
+        timeframe: parseInt(timeframe) || 30
+      });
+      setQuestions(prev => prev.map(q => selectedIds.has(q.id) ? { ...q, usageCount: q.usageCount + 1 } : q));
+      setSelectedIds(new Set());
+      setTestName('');
+      onAssemble(questionnaire);
+    } finally {
+      setIsAssembling(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <Library className="h-5 w-5" />
+          <span>Question Bank</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            loadQuestions();
+          }}
+        >
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search question text or topic"
+            className="flex-1 min-w-[200px] bg-gray-800 border-gray-700 text-white"
+          />
+          <Select value={difficulty} onValueChange={(value: 'all' | 'easy' | 'medium' | 'hard') => setDifficulty(value)}>
+            <SelectTrigger className="w-36 bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any difficulty</SelectItem>
+              <SelectItem value="easy">Easy</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="hard">Hard</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={(value: 'all' | QuestionType) => setType(value)}>
+            <SelectTrigger className="w-40 bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any type</SelectItem>
+              {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" variant="outline" className="border-gray-700 bg-gray-800 text-white hover:bg-gray-700">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(({ tag, count }) => (
+              <Badge
+                key={tag}
+                variant={selectedTags.includes(tag) ? 'default' : 'secondary'}
+                className="cursor-pointer"
+                onClick={() => toggleTag(tag)}
+              >
+                {tag} ({count})
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {isLoading ? (
+            <p className="text-gray-400 text-sm">Loading questions...</p>
+          ) : questions.length === 0 ? (
+            <p className="text-gray-400 text-sm">No questions match. Add questions to the bank from a saved test.</p>
+          ) : (
+            questions.map(question => (
+              <div key={question.id} className="flex items-start space-x-3 p-3 rounded-lg bg-gray-800 border border-gray-700">
+                <Checkbox
+                  checked={selectedIds.has(question.id)}
+                  onCheckedChange={() => toggleSelected(question.id)}
+                  className="mt-1 border-gray-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-white text-sm">{question.text}</p>
+                  <div className="flex flex-wrap items-center gap-1 mt-2">
+                    <Badge variant="outline" className="text-gray-300 border-gray-600">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                    <Badge variant="outline" className="text-gray-300 border-gray-600">{question.difficulty}</Badge>
+                    {question.topic && <Badge variant="outline" className="text-gray-300 border-gray-600">{question.topic}</Badge>}
+                    {question.tags.map(tag => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                    <span className="text-xs text-gray-400 ml-1">
+                      Used {question.usageCount}×{question.sourceFile ? ` · ${question.sourceFile}` : ''}
+                    </span>
+                  </div>
+                  {editingTagsId === question.id && (
+                    <div className="flex gap-2 mt-2">
+                      <Input
+                        value={tagDraft}
+                        onChange={(e) => setTagDraft(e.target.value)}
+                        placeholder="Comma-separated tags"
+                        className="h-8 bg-gray-900 border-gray-700 text-white"
+                      />
+                      <Button size="sm" onClick={() => handleSaveTags(question)}>Save</Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingTagsId(null)}>Cancel</Button>
+                    </div>
+                  )}
+                </div>
+                <div className="flex space-x-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingTagsId(question.id);
+                      setTagDraft(question.tags.join(', '));
+                    }}
+                    className="border-gray-700 bg-gray-800 text-white hover:bg-gray-700"
+                  >
+                    <Tag className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(question)}
+                    className="border-gray-700 bg-gray-800 text-red-400 hover:bg-gray-700"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="border-t border-gray-800 pt-4 space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <Label className="text-gray-300 text-sm">Random draw</Label>
+              <Input
+                type="number"
+                min="1"
+                value={drawCount}
+                onChange={(e) => setDrawCount(e.target.value)}
+                className="mt-1 w-24 bg-gray-800 border-gray-700 text-white"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleRandomDraw}
+              disabled={questions.length === 0}
+              className="border-gray-700 bg-gray-800 text-white hover:bg-gray-700"
+            >
+              <Shuffle className="h-4 w-4 mr-1" />
+              Draw from results
+            </Button>
+            <span className="text-sm text-gray-400">{selectedIds.size} selected</span>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[200px]">
+              <Label className="text-gray-300 text-sm">Test name</Label>
+              <Input
+                value={testName}
+                onChange={(e) => setTestName(e.target.value)}
+                placeholder="Name for the new test"
+                className="mt-1 bg-gray-800 border-gray-700 text-white"
+              />
+            </div>
+            <div>
+              <Label className="text-gray-300 text-sm">Minutes</Label>
+              <Input
+                type="number"
+                min="1"
+                value={timeframe}
+                onChange={(e) => setTimeframe(e.target.value)}
+                className="mt-1 w-24 bg-gray-800 border-gray-700 text-white"
+              />
+            </div>
+            <Button onClick={handleAssemble} disabled={isAssembling || selectedIds.size === 0}>
+              <Plus className="h-4 w-4 mr-1" />
+              {isAssembling ? 'Creating...' : 'Create questionnaire'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionBankBrowser;
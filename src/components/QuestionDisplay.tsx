@@ -1,23 +1,31 @@
 
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 
 interface Question {
   id: string;
   text: string;
   type: string;
   options?: string[];
-  correctAnswer?: number;
+  correctAnswer?: number | number[];
+  acceptedAnswers?: string[];
 }
 
 interface QuestionDisplayProps {
   question: Question;
   index: number;
-  response: string;
-  onResponseChange: (questionId: string, value: string) => void;
+  response: string | string[];
+  onResponseChange: (questionId: string, value: string | string[]) => void;
+  disabled?: boolean;
 }
 
-const QuestionDisplay = ({ question, index, response, onResponseChange }: QuestionDisplayProps) => {
+const QuestionDisplay = ({ question, index, response, onResponseChange, disabled = false }: QuestionDisplayProps) => {
+  const options = question.type === 'boolean' && (!question.options || question.options.length === 0)
+    ? ['True', 'False']
+    : question.options;
+
   return (
     <div className="border-b border-slate-100 pb-4 last:border-b-0">
       <div className="mb-3">
@@ -26,13 +34,49 @@ const QuestionDisplay = ({ question, index, response, onResponseChange }: Questi
         </h3>
       </div>
       
-      {question.options && (
+      {question.type === 'multiple-select' ? (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500 font-inter">Select all that apply</p>
+          {(options || []).map((option, optionIndex) => {
+            const selected = Array.isArray(response) ? response : [];
+            return (
+              <div key={optionIndex} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${question.id}-${optionIndex}`}
+                  checked={selected.includes(option)}
+                  disabled={disabled}
+                  onCheckedChange={(checked) => onResponseChange(
+                    question.id,
+                    checked === true ? [...selected, option] : selected.filter(value => value !== option)
+                  )}
+                  className="border-slate-300"
+                />
+                <Label
+                  htmlFor={`${question.id}-${optionIndex}`}
+                  className="text-slate-700 font-inter cursor-pointer hover:text-slate-900"
+                >
+                  {option}
+                </Label>
+              </div>
+            );
+          })}
+        </div>
+      ) : question.type === 'text' ? (
+        <Input
+          value={typeof response === 'string' ? response : ''}
+          onChange={(e) => onResponseChange(question.id, e.target.value)}
+          placeholder="Type your answer"
+          disabled={disabled}
+          className="border-slate-300 focus:border-violet-500"
+        />
+      ) : options && (
         <RadioGroup
-          value={response || ''}
+          value={typeof response === 'string' ? response : ''}
           onValueChange={(value) => onResponseChange(question.id, value)}
+          disabled={disabled}
           className="space-y-2"
         >
-          {question.options.map((option, optionIndex) => (
+          {options.map((option, optionIndex) => (
             <div key={optionIndex} className="flex items-center space-x-2">
               <RadioGroupItem
                 value={option}
@@ -3,14 +3,41 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, X } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { CopyPlus, Loader2, Plus, RefreshCw, Sparkles, TrendingDown, TrendingUp, Wand2, X } from 'lucide-react';
+import { SourceCitation, SourceDocuments } from '@/services/extraction/SourceDocument';
+import { COGNITIVE_LEVELS, CognitiveLevel, QuestionAction, SourceCheck } from '@/services/questionnaire/QuestionnaireTypes';
+
+const SOURCE_CHECK_LABELS: Record<SourceCheck, { label: string; className: string }> = {
+  'supported': { label: 'Answer found in source', className: 'text-green-700 border-green-300 bg-green-50' },
+  'partial': { label: 'Answer partly found in source', className: 'text-amber-700 border-amber-300 bg-amber-50' },
+  'unsupported': { label: 'Answer not found in cited source', className: 'text-red-700 border-red-300 bg-red-50' },
+  'uncited': { label: 'No source cited', className: 'text-slate-600 border-slate-300' }
+};
 
 interface Question {
   id: string;
   text: string;
   type: string;
   options?: string[];
-  correctAnswer?: number;
+  correctAnswer?: number | number[];
+  acceptedAnswers?: string[];
+  sources?: SourceCitation[];
+  sourceCheck?: SourceCheck;
+  cognitiveLevel?: CognitiveLevel;
+  objective?: string;
 }
 
 interface QuestionEditorProps {
@@ -20,31 +47,220 @@ interface QuestionEditorProps {
   onOptionEdit: (questionId: string, optionIndex: number, value: string) => void;
   onAddOption: (questionId: string) => void;
   onRemoveOption: (questionId: string, optionIndex: number) => void;
+  onQuestionTypeChange: (questionId: string, type: 'multiple-choice' | 'multiple-select' | 'text' | 'boolean') => void;
+  onCorrectAnswerChange: (questionId: string, correctAnswer: number | number[]) => void;
+  onAcceptedAnswersEdit: (questionId: string, answers: string[]) => void;
+  onQuestionAction?: (questionId: string, action: QuestionAction, count?: number) => void;
+  onTargetingEdit?: (questionId: string, targeting: { cognitiveLevel?: CognitiveLevel; objective?: string }) => void;
+  isRefining?: boolean;
 }
 
+const UNTAGGED = 'untagged';
+
+const MORE_LIKE_THIS_COUNTS = [1, 3, 5];
+
 const QuestionEditor = ({
   question,
   index,
   onQuestionTextEdit,
   onOptionEdit,
   onAddOption,
-  onRemoveOption
+  onRemoveOption,
+  onQuestionTypeChange,
+  onCorrectAnswerChange,
+  onAcceptedAnswersEdit,
+  onQuestionAction,
+  onTargetingEdit,
+  isRefining = false
 }: QuestionEditorProps) => {
+  const isMultiSelect = question.type === 'multiple-select';
+  const correctIndices = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer ?? 0];
+
+  const handleCorrectToggle = (optionIndex: number, checked: boolean) => {
+    const next = checked
+      ? [...correctIndices.filter(index => index !== optionIndex), optionIndex]
+      : correctIndices.filter(index => index !== optionIndex);
+    onCorrectAnswerChange(question.id, next.sort((a, b) => a - b));
+  };
+
+  const renderOptionRow = (option: string, optionIndex: number) => (
+    <div key={optionIndex} className="flex items-center space-x-2">
+      {isMultiSelect ? (
+        <Checkbox
+          id={`${question.id}-correct-${optionIndex}`}
+          checked={correctIndices.includes(optionIndex)}
+          onCheckedChange={(checked) => handleCorrectToggle(optionIndex, checked === true)}
+          title="Mark as correct answer"
+        />
+      ) : (
+        <RadioGroupItem
+          value={String(optionIndex)}
+          id={`${question.id}-correct-${optionIndex}`}
+          title="Mark as correct answer"
+        />
+      )}
+      <span className="text-sm text-slate-500 w-6">{optionIndex + 1}.</span>
+      <Input
+        value={option}
+        onChange={(e) => onOptionEdit(question.id, optionIndex, e.target.value)}
+        className="flex-1 border-slate-300 focus:border-violet-500"
+      />
+      {question.options && question.options.length > 2 && (
+        <Button
+          type="button"
+          onClick={() => onRemoveOption(question.id, optionIndex)}
+          size="sm"
+          variant="outline"
+          className="text-red-600 border-red-300 hover:bg-red-50"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
   return (
     <div className="border-b border-slate-100 pb-4 last:border-b-0">
       <div className="mb-3">
         <div className="space-y-2">
-          <Label className="text-slate-700 font-medium">Question {index + 1}</Label>
+          <div className="flex items-center justify-between">
+            <Label className="text-slate-700 font-medium">Question {index + 1}</Label>
+            <div className="flex items-center space-x-2">
+              {onQuestionAction && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={isRefining}
+                      className="h-8 text-violet-600 border-violet-300 hover:bg-violet-50"
+                      title="Rework this question with AI, using its sources and the rest of the set"
+                    >
+                      {isRefining ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Sparkles className="h-3 w-3 mr-1" />}
+                      {isRefining ? 'Working...' : 'AI actions'}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => onQuestionAction(question.id, 'regenerate')}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Regenerate this question
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onQuestionAction(question.id, 'harder')}>
+                      <TrendingUp className="h-4 w-4 mr-2" />
+                      Make harder
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onQuestionAction(question.id, 'easier')}>
+                      <TrendingDown className="h-4 w-4 mr-2" />
+                      Make easier
+                    </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger>
+                        <CopyPlus className="h-4 w-4 mr-2" />
+                        Generate more like this
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        {MORE_LIKE_THIS_COUNTS.map(count => (
+                          <DropdownMenuItem key={count} onClick={() => onQuestionAction(question.id, 'more-like-this', count)}>
+                            {count} more
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                    {(question.type === 'multiple-choice' || isMultiSelect) && (
+                      <DropdownMenuItem onClick={() => onQuestionAction(question.id, 'improve-distractors')}>
+                        <Wand2 className="h-4 w-4 mr-2" />
+                        Improve distractors
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <Select
+                value={question.type}
+                onValueChange={(value: 'multiple-choice' | 'multiple-select' | 'text' | 'boolean') => onQuestionTypeChange(question.id, value)}
+              >
+                <SelectTrigger className="w-44 h-8 border-slate-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="multiple-choice">Multiple Choice</SelectItem>
+                  <SelectItem value="multiple-select">Multiple Select</SelectItem>
+                  <SelectItem value="boolean">True / False</SelectItem>
+                  <SelectItem value="text">Short Answer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
           <Textarea
             value={question.text}
             onChange={(e) => onQuestionTextEdit(question.id, e.target.value)}
             className="text-slate-900 font-medium border-slate-300 focus:border-violet-500"
             rows={2}
           />
+          {onTargetingEdit && (
+            <div className="grid grid-cols-1 md:grid-cols-[11rem_1fr] gap-2">
+              <Select
+                value={question.cognitiveLevel || UNTAGGED}
+                onValueChange={(value) => onTargetingEdit(question.id, { cognitiveLevel: value === UNTAGGED ? undefined : value as CognitiveLevel })}
+              >
+                <SelectTrigger className="h-8 border-slate-300 text-sm" title="Cognitive level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNTAGGED}>No level</SelectItem>
+                  {COGNITIVE_LEVELS.map(level => (
+                    <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={question.objective || ''}
+                onChange={(e) => onTargetingEdit(question.id, { objective: e.target.value })}
+                placeholder="Learning objective"
+                className="h-8 border-slate-300 text-sm"
+              />
+            </div>
+          )}
         </div>
       </div>
-      
-      {question.options && (
+
+      {question.type === 'text' && (
+        <div className="space-y-2">
+          <Label className="text-slate-700 font-medium">Accepted Answers (one per line)</Label>
+          <Textarea
+            value={(question.acceptedAnswers || []).join('\n')}
+            onChange={(e) => onAcceptedAnswersEdit(question.id, e.target.value.split('\n'))}
+            className="border-slate-300 focus:border-violet-500"
+            rows={3}
+          />
+          <p className="text-xs text-slate-500">
+            Answers are matched ignoring case, punctuation and extra spaces.
+          </p>
+        </div>
+      )}
+
+      {question.type === 'boolean' && (
+        <div className="space-y-2">
+          <Label className="text-slate-700 font-medium">Correct Answer</Label>
+          <RadioGroup
+            value={String(correctIndices[0] ?? 0)}
+            onValueChange={(value) => onCorrectAnswerChange(question.id, parseInt(value))}
+            className="flex space-x-6"
+          >
+            {(question.options || ['True', 'False']).map((option, optionIndex) => (
+              <div key={optionIndex} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(optionIndex)} id={`${question.id}-correct-${optionIndex}`} />
+                <Label htmlFor={`${question.id}-correct-${optionIndex}`} className="text-slate-700 cursor-pointer">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+
+      {(question.type === 'multiple-choice' || isMultiSelect) && question.options && (
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <Label className="text-slate-700 font-medium">Options</Label>
@@ -59,25 +275,45 @@ const QuestionEditor = ({
               Add Option
             </Button>
           </div>
-          {question.options.map((option, optionIndex) => (
-            <div key={optionIndex} className="flex items-center space-x-2">
-              <span className="text-sm text-slate-500 w-6">{optionIndex + 1}.</span>
-              <Input
-                value={option}
-                onChange={(e) => onOptionEdit(question.id, optionIndex, e.target.value)}
-                className="flex-1 border-slate-300 focus:border-violet-500"
-              />
-              {question.options && question.options.length > 2 && (
-                <Button
-                  type="button"
-                  onClick={() => onRemoveOption(question.id, optionIndex)}
-                  size="sm"
-                  variant="outline"
-                  className="text-red-600 border-red-300 hover:bg-red-50"
-                >
-                  <X className="h-3 w-3" />
-                </Button>
-              )}
+          {isMultiSelect ? (
+            <div className="space-y-3">
+              {question.options.map(renderOptionRow)}
+            </div>
+          ) : (
+            <RadioGroup
+              value={String(correctIndices[0] ?? 0)}
+              onValueChange={(value) => onCorrectAnswerChange(question.id, parseInt(value))}
+              className="space-y-3"
+            >
+              {question.options.map(renderOptionRow)}
+            </RadioGroup>
+          )}
+          <p className="text-xs text-slate-500">
+            {isMultiSelect
+              ? 'Tick every correct option.'
+              : 'Select the radio button next to the correct option.'}
+          </p>
+        </div>
+      )}
+
+      {(question.sources?.length > 0 || question.sourceCheck) && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <Label className="text-slate-700 font-medium">Sources</Label>
+            {question.sourceCheck && (
+              <Badge
+                variant="outline"
+                className={SOURCE_CHECK_LABELS[question.sourceCheck].className}
+                title="Checked when the question was generated"
+              >
+                {SOURCE_CHECK_LABELS[question.sourceCheck].label}
+              </Badge>
+            )}
+          </div>
+          {question.sources?.map((citation, citationIndex) => (
+            <div key={citationIndex} className="text-xs bg-slate-50 border border-slate-200 rounded p-2">
+              <p className="font-medium text-slate-600">{SourceDocuments.formatLocator(citation.locator)}</p>
+              <p className="text-slate-500 whitespace-pre-line mt-1">{citation.excerpt}</p>
             </div>
           ))}
         </div>
@@ -3,16 +3,31 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { toast } from '@/hooks/use-toast';
 import { ResponseService } from '@/services/ResponseService';
 import { LanguageService } from '@/services/LanguageService';
+import { AuthService } from '@/services/AuthService';
+import { AttemptTimerService } from '@/services/AttemptTimerService';
+import { useAttemptTimer } from '@/hooks/useAttemptTimer';
 import CourseDisplay from './CourseDisplay';
 import QuestionnaireHeader from './QuestionnaireHeader';
 import QuestionsSection from './QuestionsSection';
+import SourceReviewDialog from './SourceReviewDialog';
+import SourceCoveragePanel from './SourceCoveragePanel';
+import { QuestionSourceReview } from '@/services/supabase/SupabaseResponseService';
+import { SectionCoverage, SourceCitation } from '@/services/extraction/SourceDocument';
+import { CognitiveLevel, Question as GeneratedQuestion, QuestionAction, QuestionExportFormat, SourceCheck } from '@/services/questionnaire/QuestionnaireTypes';
+import { QuestionnaireService } from '@/services/QuestionnaireService';
 
 interface Question {
   id: string;
   text: string;
   type: string;
   options?: string[];
-  correctAnswer?: number;
+  correctAnswer?: number | number[];
+  acceptedAnswers?: string[];
+  duplicateOf?: { text: string; source: string; similarity: number };
+  sources?: SourceCitation[];
+  sourceCheck?: SourceCheck;
+  cognitiveLevel?: CognitiveLevel;
+  objective?: string;
 }
 
 interface Questionnaire {
@@ -29,6 +44,11 @@ interface Questionnaire {
   setNumber?: number;
   totalSets?: number;
   courseContent?: any;
+  scoringPolicy?: 'all-or-nothing' | 'partial' | 'negative';
+  sourceFiles?: string[];
+  showSourcesAfterSubmit?: boolean;
+  allowRetakes?: boolean;
+  sourceCoverage?: SectionCoverage[];
 }
 
 interface QuestionnaireDisplayProps {
@@ -36,6 +56,8 @@ interface QuestionnaireDisplayProps {
   isAdmin: boolean;
   onUpdate: (questionnaire: Questionnaire) => void;
   onDelete: (questionnaireId: string) => void;
+  onAddToBank?: (questionnaire: Questionnaire) => void;
+  onExport?: (questionnaire: Questionnaire, format: QuestionExportFormat) => void;
   isPartOfSet?: boolean;
   onRefresh?: () => void;
 }
@@ -45,16 +67,27 @@ const QuestionnaireDisplay = ({
   isAdmin, 
   onUpdate, 
   onDelete, 
+  onAddToBank,
+  onExport,
   isPartOfSet = false,
   onRefresh 
 }: QuestionnaireDisplayProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedQuestionnaire, setEditedQuestionnaire] = useState<Questionnaire>(questionnaire);
-  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [responses, setResponses] = useState<Record<string, string | string[]>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [questionsVisible, setQuestionsVisible] = useState(false);
   const [editedQuestions, setEditedQuestions] = useState<Question[]>(questionnaire.questions || []);
-  
+  const [sourceReview, setSourceReview] = useState<QuestionSourceReview[] | null>(null);
+  const [refiningQuestionId, setRefiningQuestionId] = useState<string | null>(null);
+
+  // Timed attempts only apply to guests taking an active questionnaire
+  const currentUser = AuthService.getCurrentUser();
+  const guestId = !isAdmin && currentUser?.role === 'guest' ? AuthService.getGuestKey(currentUser) : null;
+  const isTimedAttempt = !!guestId && !!questionnaire.isActive && (questionnaire.timeframe || 0) > 0;
+  const responsesRef = useRef(responses);
+  responsesRef.current = responses;
+
   // SIMPLIFIED STATE: Only what we need for display
   const [displayContent, setDisplayContent] = useState({
     title: questionnaire.title,
@@ -237,7 +270,14 @@ const QuestionnaireDisplay = ({
 
   const handleEditToggle = () => {
     if (isEditing) {
-      const updatedQuestionnaire = { ...editedQuestionnaire, questions: editedQuestions };
+      const cleanedQuestions = editedQuestions.map(q => {
+        const tagged = { ...q, objective: q.objective?.trim() || undefined };
+        return tagged.type === 'text'
+          ? { ...tagged, acceptedAnswers: (tagged.acceptedAnswers || []).map(answer => answer.trim()).filter(Boolean) }
+          : tagged;
+      });
+      setEditedQuestions(cleanedQuestions);
+      const updatedQuestionnaire = { ...editedQuestionnaire, questions: cleanedQuestions };
       setEditedQuestionnaire(updatedQuestionnaire);
       onUpdate(updatedQuestionnaire);
     }
@@ -256,14 +296,20 @@ const QuestionnaireDisplay = ({
     onUpdate(updatedQuestionnaire);
   };
 
-  const handleResponseChange = (questionId: string, value: string) => {
-    setResponses(prev => ({ ...prev, [questionId]: value }));
+  const handleResponseChange = (questionId: string, value: string | string[]) => {
+    setResponses(prev => {
+      const updated = { ...prev, [questionId]: value };
+      if (isTimedAttempt) {
+        AttemptTimerService.saveDraftResponses(questionnaire.id, guestId, updated);
+      }
+      return updated;
+    });
   };
 
   const handleQuestionTextEdit = (questionId: string, value: string) => {
     setEditedQuestions(prev => prev.map(q => 
       q.id === questionId 
-        ? { ...q, text: value }
+        ? { ...q, text: value, duplicateOf: undefined } // Rewording resolves the duplicate flag
         : q
     ));
   };
@@ -285,30 +331,142 @@ const QuestionnaireDisplay = ({
   };
 
   const handleRemoveOption = (questionId: string, optionIndex: number) => {
+    setEditedQuestions(prev => prev.map(q => {
+      if (q.id !== questionId) {
+        return q;
+      }
+      // Keep the correct answer pointing at the same option(s) after removal
+      const shiftIndex = (index: number) => index > optionIndex ? index - 1 : index;
+      const options = q.options?.filter((_, idx) => idx !== optionIndex) || [];
+      if (Array.isArray(q.correctAnswer)) {
+        return { ...q, options, correctAnswer: q.correctAnswer.filter(index => index !== optionIndex).map(shiftIndex) };
+      }
+      const correctAnswer = q.correctAnswer ?? 0;
+      return {
+        ...q,
+        options,
+        correctAnswer: correctAnswer === optionIndex ? 0 : shiftIndex(correctAnswer)
+      };
+    }));
+  };
+
+  const handleQuestionTypeChange = (questionId: string, type: 'multiple-choice' | 'multiple-select' | 'text' | 'boolean') => {
+    setEditedQuestions(prev => prev.map(q => {
+      if (q.id !== questionId || q.type === type) {
+        return q;
+      }
+      const correctIndices = Array.isArray(q.correctAnswer) ? q.correctAnswer : [q.correctAnswer ?? 0];
+      const hasChoices = (q.type === 'multiple-choice' || q.type === 'multiple-select') && (q.options?.length || 0) >= 2;
+      if (type === 'boolean') {
+        return { ...q, type, options: ['True', 'False'], correctAnswer: 0 };
+      }
+      if (type === 'text') {
+        // Seed accepted answers with the previously correct option so the key isn't lost
+        const previousAnswer = q.options?.[correctIndices[0] ?? 0];
+        return { ...q, type, options: [], correctAnswer: 0, acceptedAnswers: q.acceptedAnswers?.length ? q.acceptedAnswers : previousAnswer ? [previousAnswer] : [] };
+      }
+      if (hasChoices) {
+        // Switching between single and multiple select keeps the options and existing key
+        return { ...q, type, correctAnswer: type === 'multiple-select' ? correctIndices : correctIndices[0] ?? 0 };
+      }
+      return { ...q, type, options: ['Option 1', 'Option 2', 'Option 3', 'Option 4'], correctAnswer: type === 'multiple-select' ? [0] : 0 };
+    }));
+  };
+
+  const handleCorrectAnswerChange = (questionId: string, correctAnswer: number | number[]) => {
     setEditedQuestions(prev => prev.map(q => 
       q.id === questionId 
-        ? { ...q, options: q.options?.filter((_, idx) => idx !== optionIndex) || [] }
+        ? { ...q, correctAnswer }
         : q
     ));
   };
 
-  const handleSubmitResponses = async () => {
+  const handleAcceptedAnswersEdit = (questionId: string, answers: string[]) => {
+    setEditedQuestions(prev => prev.map(q => 
+      q.id === questionId 
+        ? { ...q, acceptedAnswers: answers }
+        : q
+    ));
+  };
+
+  const handleTargetingEdit = (questionId: string, targeting: { cognitiveLevel?: CognitiveLevel; objective?: string }) => {
+    setEditedQuestions(prev => prev.map(q =>
+      q.id === questionId
+        ? { ...q, ...targeting }
+        : q
+    ));
+  };
+
+  const handleQuestionAction = async (questionId: string, action: QuestionAction, count: number = 1) => {
+    const question = editedQuestions.find(q => q.id === questionId);
+    if (!question) {
+      return;
+    }
+
+    setRefiningQuestionId(questionId);
+    try {
+      const refined: Question[] = await QuestionnaireService.refineQuestion(
+        question as GeneratedQuestion,
+        editedQuestions as GeneratedQuestion[],
+        questionnaire.difficulty || 'medium',
+        action,
+        count
+      );
+      // New questions go right after the one they are like; every other action replaces it
+      setEditedQuestions(prev => {
+        const index = prev.findIndex(q => q.id === questionId);
+        if (index === -1) {
+          return prev;
+        }
+        const next = [...prev];
+        next.splice(action === 'more-like-this' ? index + 1 : index, action === 'more-like-this' ? 0 : 1, ...refined);
+        return next;
+      });
+      toast({
+        title: "Success",
+        description: action === 'more-like-this'
+          ? `Added ${refined.length} question(s). Save to keep them.`
+          : "Question updated. Save to keep the change.",
+      });
+    } catch (error) {
+      console.error('Error refining question:', error);
+      toast({
+        title: "Error",
+        description: `Failed to update the question: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive"
+      });
+    } finally {
+      setRefiningQuestionId(null);
+    }
+  };
+
+  const submitAttempt = async (autoSubmitted: boolean) => {
     setIsSubmitting(true);
     try {
+      const attempt = isTimedAttempt ? AttemptTimerService.getAttempt(questionnaire.id, guestId) : null;
       const responseData = {
         questionnaireId: questionnaire.id,
-        responses: responses,
-        submittedAt: new Date().toISOString()
+        responses: responsesRef.current,
+        submittedAt: new Date().toISOString(),
+        startedAt: attempt?.startedAt,
+        autoSubmitted
       };
-      await ResponseService.submitResponse(responseData);
+      const response = await ResponseService.submitResponse(responseData);
       toast({
-        title: "Success",
-        description: "Responses submitted successfully!",
+        title: autoSubmitted ? "Time's up" : "Success",
+        description: response.scorePending
+          ? "You're offline. Your answers are saved and will be scored when the connection is back."
+          : autoSubmitted
+            ? "Your answers were submitted automatically."
+            : "Responses submitted successfully!",
       });
       setResponses({});
+      attemptTimer.reset();
       
-      // Trigger refresh for guest users to hide completed questionnaire
-      if (onRefresh) {
+      // The refresh hides the completed questionnaire, so it waits until the sources have been read
+      if (response.sourceReview?.length) {
+        setSourceReview(response.sourceReview);
+      } else if (onRefresh) {
         setTimeout(() => {
           onRefresh();
         }, 500);
@@ -325,6 +483,40 @@ const QuestionnaireDisplay = ({
     }
   };
 
+  const handleSubmitResponses = () => submitAttempt(false);
+
+  const handleSourceReviewClose = () => {
+    setSourceReview(null);
+    onRefresh?.();
+  };
+
+  const attemptTimer = useAttemptTimer({
+    questionnaireId: questionnaire.id,
+    guestId,
+    timeframe: isTimedAttempt ? questionnaire.timeframe : 0,
+    active: isTimedAttempt && questionsVisible,
+    onWarning: (remainingSeconds) => {
+      toast({
+        title: "Time running out",
+        description: `${Math.ceil(remainingSeconds / 60)} minute(s) left to submit your answers.`,
+      });
+    },
+    onExpire: () => {
+      console.log(`⏰ Time expired for questionnaire ${questionnaire.id}, auto-submitting`);
+      submitAttempt(true);
+    }
+  });
+
+  // Resume an attempt that was already running before a reload
+  useEffect(() => {
+    if (!isTimedAttempt) return;
+    const attempt = AttemptTimerService.getAttempt(questionnaire.id, guestId);
+    if (attempt) {
+      setResponses(attempt.responses || {});
+      setQuestionsVisible(true);
+    }
+  }, [questionnaire.id, guestId, isTimedAttempt]);
+
   const convertCourseContent = (courseContent: any) => {
     if (!courseContent) return null;
     
@@ -391,6 +583,8 @@ const QuestionnaireDisplay = ({
           onCancelEdit={handleCancelEdit}
           onActiveToggle={handleActiveToggle}
           onDelete={onDelete}
+          onAddToBank={onAddToBank ? () => onAddToBank(questionnaire) : undefined}
+          onExport={onExport ? (format) => onExport(questionnaire, format) : undefined}
           onSaveTest={() => {}}
         />
         {displayContent.isTranslating && (
@@ -409,6 +603,10 @@ const QuestionnaireDisplay = ({
         </div>
       )}
 
+      {isAdmin && questionnaire.sourceCoverage?.length > 1 && (
+        <SourceCoveragePanel coverage={questionnaire.sourceCoverage} />
+      )}
+
       <CardContent>
         <QuestionsSection
           questions={renderQuestions}
@@ -418,15 +616,23 @@ const QuestionnaireDisplay = ({
           questionsVisible={questionsVisible}
           responses={responses}
           isSubmitting={isSubmitting}
+          remainingSeconds={isTimedAttempt ? attemptTimer.remainingSeconds : null}
           onQuestionsVisibleChange={setQuestionsVisible}
           onResponseChange={handleResponseChange}
           onQuestionTextEdit={handleQuestionTextEdit}
           onOptionEdit={handleOptionEdit}
           onAddOption={handleAddOption}
           onRemoveOption={handleRemoveOption}
+          onQuestionTypeChange={handleQuestionTypeChange}
+          onCorrectAnswerChange={handleCorrectAnswerChange}
+          onAcceptedAnswersEdit={handleAcceptedAnswersEdit}
+          onQuestionAction={handleQuestionAction}
+          onTargetingEdit={handleTargetingEdit}
+          refiningQuestionId={refiningQuestionId}
           onSubmitResponses={handleSubmitResponses}
         />
       </CardContent>
+      <SourceReviewDialog review={sourceReview} onClose={handleSourceReviewClose} />
     </Card>
   );
 };
@@ -1,18 +1,23 @@
 
+import { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
-import { Save, Edit, Trash2, Clock, Users, Hash } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Save, Edit, Trash2, Clock, Users, Hash, Ticket, Library, Download } from 'lucide-react';
+import TestInviteDialog from './TestInviteDialog';
+import { QuestionExportFormat } from '@/services/questionnaire/QuestionnaireTypes';
 
 interface Question {
   id: string;
   text: string;
   type: string;
   options?: string[];
-  correctAnswer?: number;
+  correctAnswer?: number | number[];
 }
 
 interface Questionnaire {
@@ -29,8 +34,17 @@ interface Questionnaire {
   setNumber?: number;
   totalSets?: number;
   courseContent?: any;
+  scoringPolicy?: 'all-or-nothing' | 'partial' | 'negative';
+  showSourcesAfterSubmit?: boolean;
+  allowRetakes?: boolean;
 }
 
+const SCORING_POLICY_LABELS: Record<'all-or-nothing' | 'partial' | 'negative', string> = {
+  'all-or-nothing': 'All or nothing',
+  'partial': 'Partial credit',
+  'negative': 'Negative marking'
+};
+
 interface QuestionnaireHeaderProps {
   questionnaire: Questionnaire;
   editedQuestionnaire: Questionnaire;
@@ -42,6 +56,8 @@ interface QuestionnaireHeaderProps {
   onCancelEdit: () => void;
   onActiveToggle: (checked: boolean) => void;
   onDelete: (questionnaireId: string) => void;
+  onAddToBank?: () => void;
+  onExport?: (format: QuestionExportFormat) => void;
   onSaveTest: () => void;
 }
 
@@ -56,8 +72,12 @@ const QuestionnaireHeader = ({
   onCancelEdit,
   onActiveToggle,
   onDelete,
+  onAddToBank,
+  onExport,
   onSaveTest
 }: QuestionnaireHeaderProps) => {
+  const [showInvites, setShowInvites] = useState(false);
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'easy': return 'bg-green-100 text-green-800 border-green-200';
@@ -126,7 +146,58 @@ const QuestionnaireHeader = ({
                 {questionnaire.questions.length} questions
               </Badge>
             )}
+
+            {isAdmin && !isEditing && questionnaire.scoringPolicy && questionnaire.scoringPolicy !== 'all-or-nothing' && (
+              <Badge variant="outline" className="text-slate-600 border-slate-300">
+                {SCORING_POLICY_LABELS[questionnaire.scoringPolicy]}
+              </Badge>
+            )}
           </div>
+
+          {isEditing && (
+            <div className="flex items-center space-x-2 mb-2">
+              <Label className="text-sm text-slate-600">Scoring</Label>
+              <Select
+                value={editedQuestionnaire.scoringPolicy || 'all-or-nothing'}
+                onValueChange={(value: 'all-or-nothing' | 'partial' | 'negative') => onQuestionnaireChange({ ...editedQuestionnaire, scoringPolicy: value })}
+              >
+                <SelectTrigger className="w-48 h-8 border-slate-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCORING_POLICY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {isEditing && (
+            <div className="flex items-center space-x-2 mb-2">
+              <Switch
+                id={`${questionnaire.id}-show-sources`}
+                checked={editedQuestionnaire.showSourcesAfterSubmit || false}
+                onCheckedChange={(checked) => onQuestionnaireChange({ ...editedQuestionnaire, showSourcesAfterSubmit: checked })}
+              />
+              <Label htmlFor={`${questionnaire.id}-show-sources`} className="text-sm text-slate-600">
+                Show guests the source of each question after they submit
+              </Label>
+            </div>
+          )}
+
+          {isEditing && (
+            <div className="flex items-center space-x-2 mb-2">
+              <Switch
+                id={`${questionnaire.id}-allow-retakes`}
+                checked={editedQuestionnaire.allowRetakes || false}
+                onCheckedChange={(checked) => onQuestionnaireChange({ ...editedQuestionnaire, allowRetakes: checked })}
+              />
+              <Label htmlFor={`${questionnaire.id}-allow-retakes`} className="text-sm text-slate-600">
+                Allow retakes (guests then see only their score, not which answers were right)
+              </Label>
+            </div>
+          )}
           
           {isEditing ? (
             <Textarea
@@ -170,6 +241,43 @@ const QuestionnaireHeader = ({
               <Save className="h-4 w-4" />
             </Button>
             
+            {questionnaire.isSaved && (
+              <Button
+                onClick={() => setShowInvites(true)}
+                size="sm"
+                variant="outline"
+                title="Invites"
+              >
+                <Ticket className="h-4 w-4" />
+              </Button>
+            )}
+
+            {onAddToBank && !isEditing && questionnaire.questions?.length > 0 && (
+              <Button
+                onClick={onAddToBank}
+                size="sm"
+                variant="outline"
+                title="Add to question bank"
+              >
+                <Library className="h-4 w-4" />
+              </Button>
+            )}
+
+            {onExport && !isEditing && questionnaire.questions?.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline" title="Export">
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onExport('qti')}>QTI 2.1 package (all sets)</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport('gift')}>Moodle GIFT</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onExport('aiken')}>Aiken</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
             {isEditing && (
               <Button onClick={onCancelEdit} size="sm" variant="outline">
                 Cancel
@@ -187,6 +295,15 @@ const QuestionnaireHeader = ({
           </div>
         )}
       </div>
+
+      {isAdmin && showInvites && (
+        <TestInviteDialog
+          open={showInvites}
+          questionnaireId={questionnaire.id}
+          testName={questionnaire.testName || questionnaire.title}
+          onClose={() => setShowInvites(false)}
+        />
+      )}
     </div>
   );
 };
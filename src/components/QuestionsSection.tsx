@@ -1,7 +1,10 @@
 
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronRight, Eye, EyeOff } from 'lucide-react';
+import { ChevronDown, ChevronRight, Eye, EyeOff, Timer, Copy, FileWarning } from 'lucide-react';
+import { AttemptTimerService } from '@/services/AttemptTimerService';
+import { SourceCitation } from '@/services/extraction/SourceDocument';
+import { CognitiveLevel, QuestionAction, SourceCheck } from '@/services/questionnaire/QuestionnaireTypes';
 import QuestionDisplay from './QuestionDisplay';
 import QuestionEditor from './QuestionEditor';
 
@@ -10,7 +13,13 @@ interface Question {
   text: string;
   type: string;
   options?: string[];
-  correctAnswer?: number;
+  correctAnswer?: number | number[];
+  acceptedAnswers?: string[];
+  duplicateOf?: { text: string; source: string; similarity: number };
+  sources?: SourceCitation[];
+  sourceCheck?: SourceCheck;
+  cognitiveLevel?: CognitiveLevel;
+  objective?: string;
 }
 
 interface QuestionsSectionProps {
@@ -19,14 +28,21 @@ interface QuestionsSectionProps {
   isAdmin: boolean;
   isActive: boolean;
   questionsVisible: boolean;
-  responses: Record<string, string>;
+  responses: Record<string, string | string[]>;
   isSubmitting: boolean;
+  remainingSeconds?: number | null;
   onQuestionsVisibleChange: (visible: boolean) => void;
-  onResponseChange: (questionId: string, value: string) => void;
+  onResponseChange: (questionId: string, value: string | string[]) => void;
   onQuestionTextEdit: (questionId: string, value: string) => void;
   onOptionEdit: (questionId: string, optionIndex: number, value: string) => void;
   onAddOption: (questionId: string) => void;
   onRemoveOption: (questionId: string, optionIndex: number) => void;
+  onQuestionTypeChange: (questionId: string, type: 'multiple-choice' | 'multiple-select' | 'text' | 'boolean') => void;
+  onCorrectAnswerChange: (questionId: string, correctAnswer: number | number[]) => void;
+  onAcceptedAnswersEdit: (questionId: string, answers: string[]) => void;
+  onQuestionAction?: (questionId: string, action: QuestionAction, count?: number) => void;
+  onTargetingEdit?: (questionId: string, targeting: { cognitiveLevel?: CognitiveLevel; objective?: string }) => void;
+  refiningQuestionId?: string | null;
   onSubmitResponses: () => void;
 }
 
@@ -38,15 +54,28 @@ const QuestionsSection = ({
   questionsVisible,
   responses,
   isSubmitting,
+  remainingSeconds = null,
   onQuestionsVisibleChange,
   onResponseChange,
   onQuestionTextEdit,
   onOptionEdit,
   onAddOption,
   onRemoveOption,
+  onQuestionTypeChange,
+  onCorrectAnswerChange,
+  onAcceptedAnswersEdit,
+  onQuestionAction,
+  onTargetingEdit,
+  refiningQuestionId = null,
   onSubmitResponses
 }: QuestionsSectionProps) => {
-  const allQuestionsAnswered = questions.every(question => responses[question.id]);
+  const allQuestionsAnswered = questions.every(question => {
+    const response = responses[question.id];
+    return Array.isArray(response) ? response.length > 0 : !!response?.trim();
+  });
+
+  const isTimed = remainingSeconds !== null;
+  const timeUp = remainingSeconds === 0;
 
   if (!questions || questions.length === 0) {
     return null;
@@ -64,6 +93,16 @@ const QuestionsSection = ({
               <span className="font-medium text-slate-900">
                 Questions ({questions.length})
               </span>
+              {isTimed && (
+                <span
+                  className={`flex items-center space-x-1 text-sm font-medium px-2 py-0.5 rounded-md ${
+                    remainingSeconds <= 60 ? 'bg-red-100 text-red-700' : 'bg-violet-100 text-violet-700'
+                  }`}
+                >
+                  <Timer className="h-3 w-3" />
+                  <span>{timeUp ? "Time's up" : AttemptTimerService.formatDuration(remainingSeconds)}</span>
+                </span>
+              )}
             </div>
             {questionsVisible ? (
               <div className="flex items-center space-x-2">
@@ -82,32 +121,53 @@ const QuestionsSection = ({
         <CollapsibleContent>
           <div className="px-6 pb-6 space-y-6">
             {questions.map((question, index) => (
-              isEditing ? (
-                <QuestionEditor
-                  key={question.id}
-                  question={question}
-                  index={index}
-                  onQuestionTextEdit={onQuestionTextEdit}
-                  onOptionEdit={onOptionEdit}
-                  onAddOption={onAddOption}
-                  onRemoveOption={onRemoveOption}
-                />
-              ) : (
-                <QuestionDisplay
-                  key={question.id}
-                  question={question}
-                  index={index}
-                  response={responses[question.id]}
-                  onResponseChange={onResponseChange}
-                />
-              )
+              <div key={question.id}>
+                {isAdmin && question.duplicateOf && (
+                  <div className="flex items-start space-x-2 mb-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+                    <Copy className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Possible duplicate ({Math.round(question.duplicateOf.similarity * 100)}% similar to {question.duplicateOf.source}): "{question.duplicateOf.text}"
+                    </span>
+                  </div>
+                )}
+                {isAdmin && !isEditing && question.sourceCheck === 'unsupported' && (
+                  <div className="flex items-start space-x-2 mb-2 text-xs text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                    <FileWarning className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span>The cited passage does not appear to contain the answer. Edit the question to review its source.</span>
+                  </div>
+                )}
+                {isEditing ? (
+                  <QuestionEditor
+                    question={question}
+                    index={index}
+                    onQuestionTextEdit={onQuestionTextEdit}
+                    onOptionEdit={onOptionEdit}
+                    onAddOption={onAddOption}
+                    onRemoveOption={onRemoveOption}
+                    onQuestionTypeChange={onQuestionTypeChange}
+                    onCorrectAnswerChange={onCorrectAnswerChange}
+                    onAcceptedAnswersEdit={onAcceptedAnswersEdit}
+                    onQuestionAction={onQuestionAction}
+                    onTargetingEdit={onTargetingEdit}
+                    isRefining={refiningQuestionId === question.id}
+                  />
+                ) : (
+                  <QuestionDisplay
+                    question={question}
+                    index={index}
+                    response={responses[question.id]}
+                    onResponseChange={onResponseChange}
+                    disabled={timeUp || isSubmitting}
+                  />
+                )}
+              </div>
             ))}
             
             {!isAdmin && isActive && (
               <div className="pt-4 border-t border-slate-200">
                 <Button 
                   onClick={onSubmitResponses}
-                  disabled={!allQuestionsAnswered || isSubmitting}
+                  disabled={(!allQuestionsAnswered && !timeUp) || isSubmitting}
                   className="w-full bg-gradient-to-r from-violet-600 to-purple-600 text-white hover:from-violet-700 hover:to-purple-700 rounded-lg font-poppins font-medium py-3"
                 >
                   {isSubmitting ? (
@@ -5,9 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Users, TrendingUp, Download, FileText, Eye, EyeOff } from 'lucide-react';
+import { Users, TrendingUp, Download, FileText, Eye, EyeOff, AlertTriangle } from 'lucide-react';
 import { QuestionnaireService } from '@/services/QuestionnaireService';
 import { ResponseService } from '@/services/ResponseService';
+import { ScoreBreakdown } from '@/services/response/HybridResponseStorage';
+import { COGNITIVE_LEVELS } from '@/services/questionnaire/QuestionnaireTypes';
+import { ITEM_FLAG_LABELS, ItemAnalysisReport, MIN_RESPONSES_FOR_FLAGS } from '@/services/response/ItemAnalysis';
 
 const ResponseManagement = () => {
   const [questionnaires, setQuestionnaires] = useState<any[]>([]);
@@ -139,7 +142,7 @@ const ResponseManagement = () => {
       const correctAnswers = response.score ? Math.round((response.score / 100) * response.totalQuestions) : 0;
       return {
         Player: response.username,
-        Score: `${correctAnswers}/${response.totalQuestions}`,
+        Score: response.late ? 'Late, not scored' : `${correctAnswers}/${response.totalQuestions}`,
         Submitted: new Date(response.submittedAt).toLocaleDateString(),
         Answers: response.answers.map(answer => `${answer.questionText}: ${answer.selectedOption}`).join('; ')
       };
@@ -151,6 +154,116 @@ const ResponseManagement = () => {
     return currentTest ? currentTest.title : 'Responses';
   };
 
+  const renderBreakdown = (title: string, breakdown: ScoreBreakdown[], labelOf: (key: string) => string = key => key) => (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+      <h4 className="text-white font-medium mb-3">{title}</h4>
+      <div className="space-y-2">
+        {breakdown.map(group => (
+          <div key={group.key} className="grid grid-cols-[1fr_10rem_4rem] items-center gap-3 text-sm">
+            <span className="text-gray-300 truncate" title={group.key}>
+              {labelOf(group.key)} <span className="text-gray-500">({group.questions} question{group.questions === 1 ? '' : 's'})</span>
+            </span>
+            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-green-500" style={{ width: `${group.averageScore}%` }} />
+            </div>
+            <span className="text-white text-right">{group.averageScore.toFixed(0)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const formatStatistic = (value: number | null) => value === null ? '–' : value.toFixed(2);
+
+  const prepareItemAnalysisExportData = (report: ItemAnalysisReport) => {
+    return report.items.map((item, index) => ({
+      Question: `${index + 1}. ${item.questionText}`,
+      Answers: item.answers,
+      'P-value': item.pValue.toFixed(2),
+      'Point-biserial': formatStatistic(item.pointBiserial),
+      Discrimination: formatStatistic(item.discrimination),
+      Options: item.options
+        .map(option => `${String.fromCharCode(65 + option.index)}${option.isCorrect ? '*' : ''} ${(option.topRate * 100).toFixed(0)}%/${(option.bottomRate * 100).toFixed(0)}%`)
+        .join('; '),
+      Flags: item.flags.map(flag => ITEM_FLAG_LABELS[flag]).join('; ')
+    }));
+  };
+
+  // Difficulty, discrimination and distractor choices per question, flagged for review
+  const renderItemAnalysis = (report: ItemAnalysisReport) => {
+    const flagged = report.items.filter(item => item.flags.length > 0).length;
+
+    return (
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-white font-medium">Item Analysis</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportToExcel(prepareItemAnalysisExportData(report), `${getCurrentTestTitle()}_item_analysis`)}
+            className="border-gray-700 bg-gray-800 text-white hover:bg-gray-700"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-400">
+          <span>KR-20 reliability: <span className="text-white">{formatStatistic(report.kr20)}</span></span>
+          <span>Top/bottom groups: <span className="text-white">{report.groupSize} respondent{report.groupSize === 1 ? '' : 's'} each</span></span>
+          {report.flagsApplied && <span>Flagged for review: <span className="text-white">{flagged}</span></span>}
+        </div>
+        {!report.flagsApplied && (
+          <p className="text-xs text-gray-500">Review flags appear once the test has at least {MIN_RESPONSES_FOR_FLAGS} responses.</p>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-700">
+              <TableHead className="text-gray-300">Question</TableHead>
+              <TableHead className="text-gray-300 text-right">P-value</TableHead>
+              <TableHead className="text-gray-300 text-right">Point-biserial</TableHead>
+              <TableHead className="text-gray-300 text-right">D</TableHead>
+              <TableHead className="text-gray-300">Options (top / bottom)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.items.map((item, index) => (
+              <TableRow key={item.questionId} className="border-gray-700 align-top">
+                <TableCell className="text-white max-w-xs">
+                  <p className="truncate" title={item.questionText}>{index + 1}. {item.questionText}</p>
+                  {item.flags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.flags.map(flag => (
+                        <Badge key={flag} variant="outline" className="border-amber-600 text-amber-400 text-xs">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {ITEM_FLAG_LABELS[flag]}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-white text-right">{item.pValue.toFixed(2)}</TableCell>
+                <TableCell className="text-white text-right">{formatStatistic(item.pointBiserial)}</TableCell>
+                <TableCell className="text-white text-right">{formatStatistic(item.discrimination)}</TableCell>
+                <TableCell className="text-xs">
+                  {item.options.length > 0 ? item.options.map(option => (
+                    <div
+                      key={option.index}
+                      className={option.isCorrect ? 'text-green-400' : option.topRate > option.bottomRate ? 'text-amber-400' : 'text-gray-400'}
+                      title={option.text}
+                    >
+                      {String.fromCharCode(65 + option.index)}{option.isCorrect ? ' ✓' : ''}: {(option.topRate * 100).toFixed(0)}% / {(option.bottomRate * 100).toFixed(0)}%
+                      <span className="text-gray-500"> ({(option.chosenRate * 100).toFixed(0)}% overall)</span>
+                    </div>
+                  )) : <span className="text-gray-500">Free text</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
 
   return (
@@ -263,7 +376,13 @@ const ResponseManagement = () => {
                     return (
                       <TableRow key={response.id} className="border-gray-700">
                         <TableCell className="text-white font-medium">{response.username}</TableCell>
-                        <TableCell className="text-white">{correctAnswers}/{response.totalQuestions}</TableCell>
+                        <TableCell className="text-white">
+                          {response.late ? (
+                            <span className="text-yellow-400" title="Answered offline and sent after the time limit">Late, not scored</span>
+                          ) : (
+                            <>{correctAnswers}/{response.totalQuestions}</>
+                          )}
+                        </TableCell>
                         <TableCell className="text-gray-400 text-sm">{new Date(response.submittedAt).toLocaleDateString()}</TableCell>
                         <TableCell className="text-gray-400 text-sm">
                           {response.answers.map(answer => (
@@ -317,6 +436,14 @@ const ResponseManagement = () => {
               </div>
             </div>
 
+            {stats.objectiveStats?.length > 0 && renderBreakdown('Scores by Learning Objective', stats.objectiveStats)}
+            {stats.levelStats?.length > 0 && renderBreakdown(
+              'Scores by Cognitive Level',
+              stats.levelStats,
+              key => COGNITIVE_LEVELS.find(level => level.value === key)?.label || key
+            )}
+            {stats.itemAnalysis?.items.length > 0 && renderItemAnalysis(stats.itemAnalysis)}
+
             {stats.questionStats.map((questionStat, index) => (
               <div key={questionStat.questionId} className="bg-gray-800 border border-gray-700 rounded-lg p-4">
                 <h4 className="text-white font-medium">Question {index + 1}: {questionStat.questionText}</h4>
@@ -4,9 +4,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Settings, Globe, Key } from 'lucide-react';
+import { Settings, Globe, Key, DatabaseBackup } from 'lucide-react';
 import { LanguageService } from '@/services/LanguageService';
-import ApiKeySettings from './ApiKeySettings';
+import LlmProviderSettings from './LlmProviderSettings';
+import WorkspaceBackupSettings from './WorkspaceBackupSettings';
 
 interface SettingsDialogProps {
   open: boolean;
@@ -31,7 +32,7 @@ const SettingsDialog = ({ open, onClose, userRole }: SettingsDialogProps) => {
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md bg-white border border-slate-200 shadow-2xl rounded-xl">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto bg-white border border-slate-200 shadow-2xl rounded-xl">
         <DialogHeader>
           <DialogTitle className="text-slate-900 flex items-center space-x-2 font-poppins text-lg">
             <div className="bg-gradient-to-r from-violet-600 to-purple-600 p-2 rounded-lg">
@@ -76,7 +77,20 @@ const SettingsDialog = ({ open, onClose, userRole }: SettingsDialogProps) => {
                   {LanguageService.translate('settings.apiKey')}
                 </Label>
               </div>
-              <ApiKeySettings />
+              <LlmProviderSettings />
+            </div>
+          )}
+
+          {/* Workspace Backup - Only for Admin */}
+          {userRole === 'admin' && (
+            <div className="border-t border-slate-200 pt-6">
+              <div className="flex items-center space-x-2 mb-3">
+                <DatabaseBackup className="h-4 w-4 text-violet-600" />
+                <Label className="text-slate-700 font-medium font-poppins">
+                  {LanguageService.translate('settings.backup')}
+                </Label>
+              </div>
+              <WorkspaceBackupSettings />
             </div>
           )}
 
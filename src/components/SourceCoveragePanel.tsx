@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronRight, FileSearch } from 'lucide-react';
+import { SectionCoverage, SourceDocuments } from '@/services/extraction/SourceDocument';
+
+interface SourceCoveragePanelProps {
+  coverage: SectionCoverage[];
+}
+
+const SourceCoveragePanel = ({ coverage }: SourceCoveragePanelProps) => {
+  const [open, setOpen] = useState(false);
+  const covered = coverage.filter(section => section.questions > 0).length;
+  const mostQuestions = Math.max(1, ...coverage.map(section => section.questions));
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-b border-slate-200">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-6 py-3 hover:bg-slate-50">
+          <span className="flex items-center space-x-2 text-sm text-slate-700">
+            <FileSearch className="h-4 w-4 text-slate-500" />
+            <span>Source coverage: {covered} of {coverage.length} sections have questions</span>
+          </span>
+          {open ? <ChevronDown className="h-4 w-4 text-slate-500" /> : <ChevronRight className="h-4 w-4 text-slate-500" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="px-6 pb-4 space-y-1 max-h-72 overflow-y-auto">
+          {coverage.map((section, index) => (
+            <div key={index} className="grid grid-cols-[1fr_8rem_5rem] items-center gap-3 text-xs">
+              <span className={`truncate ${section.questions === 0 ? 'text-amber-700' : 'text-slate-600'}`}>
+                {SourceDocuments.formatLocator(section.locator)}
+              </span>
+              <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-violet-500"
+                  style={{ width: `${(section.questions / mostQuestions) * 100}%` }}
+                />
+              </div>
+              <span className="text-right text-slate-500">
+                {section.questions} question{section.questions === 1 ? '' : 's'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default SourceCoveragePanel;
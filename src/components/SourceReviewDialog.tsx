@@ -0,0 +1,38 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SourceDocuments } from '@/services/extraction/SourceDocument';
+import { QuestionSourceReview } from '@/services/supabase/SupabaseResponseService';
+
+interface SourceReviewDialogProps {
+  review: QuestionSourceReview[] | null;
+  onClose: () => void;
+}
+
+const SourceReviewDialog = ({ review, onClose }: SourceReviewDialogProps) => {
+  return (
+    <Dialog open={!!review} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Where the questions came from</DialogTitle>
+          <DialogDescription>
+            Your answers have been submitted. Each question below is shown with the passage it was written from.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {(review || []).map((item, index) => (
+            <div key={item.questionId} className="space-y-2">
+              <p className="text-sm font-medium text-slate-800">{index + 1}. {item.questionText}</p>
+              {item.sources.map((citation, citationIndex) => (
+                <div key={citationIndex} className="text-xs bg-slate-50 border border-slate-200 rounded-lg p-2">
+                  <div className="font-medium text-slate-600">{SourceDocuments.formatLocator(citation.locator)}</div>
+                  <p className="text-slate-500 whitespace-pre-line mt-1">{citation.excerpt}</p>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SourceReviewDialog;
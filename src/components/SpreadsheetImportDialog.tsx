@@ -0,0 +1,262 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { Questionnaire } from '@/services/questionnaire/QuestionnaireTypes';
+import {
+  ColumnMapping,
+  SPREADSHEET_FIELDS,
+  SpreadsheetField,
+  SpreadsheetImport,
+  SpreadsheetTable
+} from '@/services/questionnaire/SpreadsheetImport';
+
+interface SpreadsheetImportDialogProps {
+  file: File | null;
+  onClose: () => void;
+  onImported: (questionnaire: Questionnaire) => void;
+}
+
+const UNMAPPED = 'none';
+
+const SpreadsheetImportDialog = ({ file, onClose, onImported }: SpreadsheetImportDialogProps) => {
+  const [tables, setTables] = useState<SpreadsheetTable[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [title, setTitle] = useState('');
+  const [addToBank, setAddToBank] = useState(false);
+  const [withoutOptions, setWithoutOptions] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      return;
+    }
+
+    setTables([]);
+    setSheetIndex(0);
+    setHasHeader(true);
+    setWithoutOptions(false);
+    setLoadError(null);
+    setTitle(file.name.replace(/\.[^.]+$/, ''));
+    setIsLoading(true);
+    SpreadsheetImport.read(file)
+      .then(read => {
+        setTables(read);
+        if (read.length === 0) {
+          setLoadError('The file has no rows');
+        }
+      })
+      .catch(error => setLoadError(error instanceof Error ? error.message : 'The file could not be read'))
+      .finally(() => setIsLoading(false));
+  }, [file]);
+
+  const table = tables[sheetIndex];
+  const headers = hasHeader && table ? table.rows[0]?.cells || [] : [];
+  const dataRows = useMemo(() => table ? (hasHeader ? table.rows.slice(1) : table.rows) : [], [table, hasHeader]);
+  const columnCount = table ? Math.max(0, ...table.rows.map(row => row.cells.length)) : 0;
+
+  // A new sheet or header setting starts from the mapping the header names suggest
+  useEffect(() => {
+    setMapping(hasHeader && table ? SpreadsheetImport.guessMapping(table.rows[0]?.cells || []) : {});
+  }, [table, hasHeader]);
+
+  const results = useMemo(() => SpreadsheetImport.validate(dataRows, mapping, withoutOptions), [dataRows, mapping, withoutOptions]);
+  const validCount = results.filter(result => result.question).length;
+  const missingFields = SPREADSHEET_FIELDS.filter(field => field.required && mapping[field.value] === undefined);
+  const optionsUnmapped = !withoutOptions && !SpreadsheetImport.hasOptionColumns(mapping);
+
+  const columnLabel = (column: number) => {
+    const letter = String.fromCharCode(65 + column);
+    return headers[column] ? `${letter}: ${headers[column]}` : `Column ${letter}`;
+  };
+
+  const handleMappingChange = (field: SpreadsheetField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setIsSaving(true);
+    try {
+      const questionnaire = await SpreadsheetImport.save(title.trim(), results, addToBank);
+      toast({
+        title: "Import complete",
+        description: `Created "${questionnaire.title}" with ${questionnaire.questions.length} questions` +
+          (results.length > validCount ? `; ${results.length - validCount} rows with errors were skipped.` : '.'),
+      });
+      onImported(questionnaire);
+    } catch (error) {
+      console.error('Error importing spreadsheet:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import the spreadsheet",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import questions from {file?.name}</DialogTitle>
+          <DialogDescription>
+            Choose which column holds each part of a question. Rows with errors are listed below and left out of the import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-slate-500">Reading the file...</p>}
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+        {table && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="import-title">Test Name</Label>
+                <Input id="import-title" value={title} onChange={(e) => setTitle(e.target.value)} className="mt-1" />
+              </div>
+              {tables.length > 1 && (
+                <div>
+                  <Label>Sheet</Label>
+                  <Select value={sheetIndex.toString()} onValueChange={(value) => setSheetIndex(Number(value))}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tables.map((sheet, index) => (
+                        <SelectItem key={index} value={index.toString()}>{sheet.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch id="import-header" checked={hasHeader} onCheckedChange={setHasHeader} />
+                <Label htmlFor="import-header">First row is a header</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="import-bank" checked={addToBank} onCheckedChange={setAddToBank} />
+                <Label htmlFor="import-bank">Also add to the question bank with tags and difficulty</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="import-no-options" checked={withoutOptions} onCheckedChange={setWithoutOptions} />
+                <Label htmlFor="import-no-options">Questions have no options (true/false and short answer only)</Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {SPREADSHEET_FIELDS.map(field => (
+                <div key={field.value}>
+                  <Label className="text-xs">{field.label}{field.required && ' *'}</Label>
+                  <Select
+                    value={mapping[field.value] !== undefined ? mapping[field.value].toString() : UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(field.value, value)}
+                  >
+                    <SelectTrigger className="mt-1 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {Array.from({ length: columnCount }, (_, column) => (
+                        <SelectItem key={column} value={column.toString()}>{columnLabel(column)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Correct answer holds option letters ("B", or "A, C" for several). Rows without options become
+              true/false questions when it says TRUE or FALSE, and short-answer questions otherwise, with accepted answers separated by |.
+            </p>
+
+            {missingFields.length > 0 ? (
+              <p className="text-sm text-amber-700">Map {missingFields.map(field => field.label).join(' and ')} to preview the questions.</p>
+            ) : optionsUnmapped ? (
+              <p className="text-sm text-amber-700">
+                No option columns are mapped. Map Option A, Option B and so on, or turn on "Questions have no options"
+                if every row is a true/false or short-answer question.
+              </p>
+            ) : (
+              <div className="border border-slate-200 rounded-lg max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Question</TableHead>
+                      <TableHead className="w-32">Type</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result, index) => (
+                      <TableRow key={result.row} className={result.question ? '' : 'bg-red-50'}>
+                        <TableCell className="text-slate-500">{result.row}</TableCell>
+                        <TableCell className="max-w-xs truncate">{result.question?.text || dataRows[index].cells[mapping.question] || ''}</TableCell>
+                        <TableCell className="text-slate-600">{result.question?.type || ''}</TableCell>
+                        <TableCell>
+                          {result.question ? (
+                            <span className="flex items-center text-green-700 text-xs">
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Ready
+                            </span>
+                          ) : (
+                            <div className="space-y-0.5">
+                              {result.errors.map((error, errorIndex) => (
+                                <p key={errorIndex} className="flex items-center text-red-600 text-xs">
+                                  <AlertCircle className="h-3 w-3 mr-1 shrink-0" />
+                                  {error}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!table || isSaving || missingFields.length > 0 || optionsUnmapped || validCount === 0 || !title.trim()}
+            className="bg-violet-600 hover:bg-violet-700"
+          >
+            {isSaving ? 'Importing...' : `Import ${validCount} question${validCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpreadsheetImportDialog;
@@ -0,0 +1,100 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Cloud, CloudAlert, CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { SyncEngine } from '@/services/sync/SyncEngine';
+import { SyncMutationKind, SyncState } from '@/services/sync/SyncTypes';
+
+const KIND_LABELS: Record<SyncMutationKind, string> = {
+  'questionnaire.save': 'Test saved',
+  'questionnaire.delete': 'Test deleted',
+  'course.save': 'Course saved',
+  'course.delete': 'Course deleted',
+  'response.save': 'Response saved',
+  'response.submit': 'Answers submitted'
+};
+
+const STATE_STYLES: Record<SyncState, { icon: typeof Cloud; className: string }> = {
+  synced: { icon: Cloud, className: 'text-green-700 hover:border-green-300' },
+  pending: { icon: CloudUpload, className: 'text-amber-700 hover:border-amber-300' },
+  syncing: { icon: RefreshCw, className: 'text-violet-700 hover:border-violet-300' },
+  offline: { icon: CloudOff, className: 'text-slate-600 hover:border-slate-400' },
+  error: { icon: CloudAlert, className: 'text-red-600 hover:border-red-300' }
+};
+
+const SyncStatusIndicator = () => {
+  const status = useSyncStatus();
+  const { icon: Icon, className } = STATE_STYLES[status.state];
+  const failedEntries = status.failed > 0 ? SyncEngine.getFailedEntries() : [];
+
+  const label = {
+    synced: 'Synced',
+    pending: `${status.pending} to sync`,
+    syncing: 'Syncing...',
+    offline: status.pending > 0 ? `Offline, ${status.pending} waiting` : 'Offline',
+    error: `${status.failed} not synced`
+  }[status.state];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`flex items-center space-x-2 border-slate-300 bg-white/70 hover:bg-white font-poppins rounded-lg ${className}`}
+        >
+          <Icon className={`h-4 w-4 ${status.state === 'syncing' ? 'animate-spin' : ''}`} />
+          <span>{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1 text-sm">
+          <p className="font-medium text-slate-900">
+            {status.state === 'offline'
+              ? 'You are offline. Changes are kept on this device and sent when the connection is back.'
+              : status.pending > 0
+                ? `${status.pending} change${status.pending === 1 ? '' : 's'} waiting to reach the server.`
+                : 'Everything on this device has reached the server.'}
+          </p>
+          {status.lastSyncedAt && (
+            <p className="text-xs text-slate-500">Last synced {new Date(status.lastSyncedAt).toLocaleTimeString()}</p>
+          )}
+          {status.lastError && status.state !== 'synced' && (
+            <p className="text-xs text-amber-700">Last error: {status.lastError}</p>
+          )}
+        </div>
+
+        {failedEntries.length > 0 && (
+          <div className="space-y-2 border-t border-slate-200 pt-3">
+            <p className="text-sm font-medium text-red-600">The server rejected these changes</p>
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {failedEntries.map(entry => (
+                <li key={entry.id} className="text-xs text-slate-600">
+                  <span className="font-medium">{KIND_LABELS[entry.kind]}</span> ({entry.entityId})
+                  {entry.lastError && <span className="block text-red-600">{entry.lastError}</span>}
+                </li>
+              ))}
+            </ul>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={() => SyncEngine.retryFailed()}>
+                Retry
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => SyncEngine.discardFailed()} className="text-red-600 hover:text-red-700">
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status.pending > 0 && status.state !== 'offline' && (
+          <Button size="sm" variant="outline" onClick={() => SyncEngine.syncNow()} disabled={status.state === 'syncing'}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Sync now
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,227 @@
+import { useState, useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Plus, Trash2, Upload } from 'lucide-react';
+import { SupabaseInviteService, TestInvite } from '@/services/supabase/SupabaseInviteService';
+import { toast } from '@/hooks/use-toast';
+
+interface TestInviteDialogProps {
+  open: boolean;
+  questionnaireId: string; // Any set of the test
+  testName: string;
+  onClose: () => void;
+}
+
+const TestInviteDialog = ({ open, questionnaireId, testName, onClose }: TestInviteDialogProps) => {
+  const [invites, setInvites] = useState<TestInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [maxUses, setMaxUses] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      loadInvites();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, questionnaireId]);
+
+  const loadInvites = async () => {
+    setIsLoading(true);
+    try {
+      setInvites(await SupabaseInviteService.getInvitesForTest(questionnaireId));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      const invite = await SupabaseInviteService.createInvite(questionnaireId, testName, {
+        maxUses: maxUses ? parseInt(maxUses) : undefined,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined
+      });
+      setInvites(prev => [...prev, invite]);
+      setMaxUses('');
+      setExpiresAt('');
+      toast({
+        title: "Invite created",
+        description: `Access code ${invite.code} is ready to share.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to create invite");
+    }
+  };
+
+  const handleRosterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const roster = SupabaseInviteService.parseRosterCsv(await file.text());
+    if (roster.length === 0) {
+      toast({
+        title: "Error",
+        description: "No names found. Use a CSV with name and email columns.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const imported = await SupabaseInviteService.importRoster(questionnaireId, testName, roster);
+      setInvites(prev => [...prev, ...imported]);
+      toast({
+        title: "Roster imported",
+        description: `Created ${imported.length} personal access codes.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to import roster");
+    }
+  };
+
+  const handleDelete = async (invite: TestInvite) => {
+    try {
+      await SupabaseInviteService.deleteInvite(invite.id);
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    } catch (error) {
+      showError(error, "Failed to delete invite");
+    }
+  };
+
+  const handleCopyLink = async (invite: TestInvite) => {
+    try {
+      await navigator.clipboard.writeText(SupabaseInviteService.buildInviteLink(invite.code));
+      toast({
+        title: "Link copied",
+        description: "The invite link is on your clipboard.",
+      });
+    } catch (error) {
+      showError(error, "Could not copy the link");
+    }
+  };
+
+  const isExpired = (invite: TestInvite) => !!invite.expiresAt && new Date(invite.expiresAt) < new Date();
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Invites for "{testName}"</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          Once a test has any invite, only guests who entered one of its codes can take it.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="invite-max-uses">Max uses</Label>
+            <Input
+              id="invite-max-uses"
+              type="number"
+              min="1"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              placeholder="Unlimited"
+              className="mt-1 w-32"
+            />
+          </div>
+          <div>
+            <Label htmlFor="invite-expires">Expires</Label>
+            <Input
+              id="invite-expires"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <Button onClick={handleCreateInvite}>
+            <Plus className="h-4 w-4 mr-1" />
+            Create code
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import roster CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleRosterFile}
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading invites...</p>
+          ) : invites.length === 0 ? (
+            <p className="text-sm text-gray-500">No invites yet - this test is open to every guest.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Guest</TableHead>
+                  <TableHead>Uses</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map(invite => (
+                  <TableRow key={invite.id}>
+                    <TableCell className="font-mono">{invite.code}</TableCell>
+                    <TableCell className="text-sm">
+                      {invite.guestName || <span className="text-gray-400">Anyone</span>}
+                      {invite.guestEmail && <div className="text-xs text-gray-500">{invite.guestEmail}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {invite.useCount}{invite.maxUses ? ` / ${invite.maxUses}` : ''}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {invite.expiresAt ? (
+                        isExpired(invite)
+                          ? <Badge variant="destructive">Expired</Badge>
+                          : new Date(invite.expiresAt).toLocaleString()
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => handleCopyLink(invite)}>
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDelete(invite)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TestInviteDialog;
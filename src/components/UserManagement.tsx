@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldCheck, ShieldOff, UserCog } from 'lucide-react';
+import { SupabaseProfileService, UserProfile, UserRole } from '@/services/supabase/SupabaseProfileService';
+import { AuthService } from '@/services/AuthService';
+import { toast } from '@/hooks/use-toast';
+
+const UserManagement = () => {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const currentUserId = AuthService.getCurrentUser()?.userId;
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    setIsLoading(true);
+    try {
+      setProfiles(await SupabaseProfileService.getAllProfiles());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (profile: UserProfile, role: UserRole) => {
+    setUpdatingUserId(profile.id);
+    try {
+      await SupabaseProfileService.setUserRole(profile.id, role);
+      setProfiles(prev => prev.map(p => p.id === profile.id ? { ...p, role } : p));
+      toast({
+        title: "Role updated",
+        description: `${profile.username} is now ${role === 'admin' ? 'an admin' : 'a guest'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change role",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <UserCog className="h-5 w-5" />
+          <span>User Management</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-400 text-sm">Loading users...</p>
+        ) : profiles.length === 0 ? (
+          <p className="text-gray-400 text-sm">No registered users</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700">
+                <TableHead className="text-gray-300">User</TableHead>
+                <TableHead className="text-gray-300">Email</TableHead>
+                <TableHead className="text-gray-300">Role</TableHead>
+                <TableHead className="text-gray-300 text-right">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map(profile => {
+                const isAdmin = profile.role === 'admin';
+                const isSelf = profile.id === currentUserId;
+
+                return (
+                  <TableRow key={profile.id} className="border-gray-700">
+                    <TableCell className="text-white font-medium">
+                      {profile.username}
+                      {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                    </TableCell>
+                    <TableCell className="text-gray-400 text-sm">{profile.email || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={isAdmin ? 'default' : 'secondary'}>{profile.role}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={updatingUserId === profile.id || isSelf}
+                        onClick={() => handleRoleChange(profile, isAdmin ? 'guest' : 'admin')}
+                        className="border-gray-700 bg-gray-800 text-white hover:bg-gray-700"
+                      >
+                        {isAdmin ? (
+                          <>
+                            <ShieldOff className="h-3 w-3 mr-1" />
+                            Demote
+                          </>
+                        ) : (
+                          <>
+                            <ShieldCheck className="h-3 w-3 mr-1" />
+                            Promote
+                          </>
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UserManagement;
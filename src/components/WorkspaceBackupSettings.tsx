@@ -0,0 +1,245 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Download, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  BACKUP_COLLECTIONS,
+  RestoreMode,
+  RestorePreview,
+  RestoreResult,
+  WorkspaceBackup,
+  WorkspaceBackupService
+} from '@/services/WorkspaceBackupService';
+
+const MAX_LISTED = 5;
+
+const WorkspaceBackupSettings = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const created = await WorkspaceBackupService.createBackup();
+      const { blob, fileName } = WorkspaceBackupService.toBlob(created);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Backup downloaded",
+        description: created.includesSupabase
+          ? `${created.questionnaires.length} tests, ${created.courses.length} courses and ${created.responses.length} responses.`
+          : 'Offline or signed out: only the data on this browser is in the backup.',
+      });
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the backup",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setBackup(null);
+    setPreview(null);
+    setResult(null);
+    setIsWorking(true);
+    try {
+      const validation = WorkspaceBackupService.validate(await file.text());
+      setErrors(validation.errors);
+      if (validation.backup) {
+        setPreview(await WorkspaceBackupService.previewRestore(validation.backup));
+        setBackup(validation.backup);
+      }
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setErrors(['The file could not be read']);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const restored = await WorkspaceBackupService.restore(backup, mode);
+      setResult(restored);
+      setBackup(null);
+      setPreview(null);
+      toast({
+        title: "Backup restored",
+        description: `${restored.written} items written, ${restored.removed} removed. Reload the page to see them.`,
+      });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore the backup",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const listed = (items: string[]) => items.length > MAX_LISTED
+    ? `${items.slice(0, MAX_LISTED).join(', ')} and ${items.length - MAX_LISTED} more`
+    : items.join(', ');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Download every test, course, response, set assignment and config as one file, or restore one
+        to move to another Supabase project or recover lost data. API keys are never included.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleExport} disabled={isExporting || isWorking}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? 'Preparing...' : 'Download backup'}
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isExporting || isWorking}>
+          <Upload className="h-4 w-4 mr-2" />
+          Restore from file
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {isWorking && <p className="text-sm text-slate-500">Comparing with the current workspace...</p>}
+
+      {errors.length > 0 && (
+        <div className="space-y-1">
+          {errors.slice(0, MAX_LISTED).map((error, index) => (
+            <p key={index} className="flex items-start text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+              {error}
+            </p>
+          ))}
+          {errors.length > MAX_LISTED && (
+            <p className="text-sm text-red-600">and {errors.length - MAX_LISTED} more problems</p>
+          )}
+        </div>
+      )}
+
+      {backup && preview && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-500">
+            Backup from {new Date(backup.exportedAt).toLocaleString()}, schema version {backup.schemaVersion}
+            {!backup.includesSupabase && ', taken from one browser without Supabase data'}.
+          </p>
+          <div className="border border-slate-200 rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Conflicts</TableHead>
+                  <TableHead className="text-right">Same</TableHead>
+                  <TableHead className="text-right">Only here</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.collections.map(item => (
+                  <TableRow key={item.collection}>
+                    <TableCell className="text-sm">
+                      {BACKUP_COLLECTIONS.find(collection => collection.value === item.collection)?.label}
+                      {item.conflicts.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-0.5">{listed(item.conflicts)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{item.added}</TableCell>
+                    <TableCell className="text-right">{item.conflicts.length}</TableCell>
+                    <TableCell className="text-right">{item.unchanged}</TableCell>
+                    <TableCell className="text-right">{item.removed}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div>
+            <Label className="text-sm">Restore mode</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Merge: add new items, keep the current copy of conflicts</SelectItem>
+                <SelectItem value="replace">Replace: match the backup exactly</SelectItem>
+              </SelectContent>
+            </Select>
+            {mode === 'replace' && (
+              <p className="text-xs text-red-600 mt-1">
+                Conflicts take the backup's version and everything listed under "Only here" is deleted
+                {preview.supabaseAvailable ? ', in Supabase as well' : ''}.
+              </p>
+            )}
+            {!preview.supabaseAvailable && (
+              <p className="text-xs text-amber-700 mt-1">
+                You are offline or signed out, so the backup will only be restored on this browser.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => { setBackup(null); setPreview(null); }} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRestore}
+              disabled={isWorking}
+              className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-violet-600 hover:bg-violet-700'}
+            >
+              {isWorking ? 'Restoring...' : mode === 'replace' ? 'Replace workspace' : 'Merge backup'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-1 text-sm">
+          <p className="text-green-700">
+            Restored: {result.written} items written, {result.removed} removed.
+          </p>
+          {result.warnings.map((warning, index) => (
+            <p key={index} className="text-amber-700">{warning}</p>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => window.location.reload()}>
+            Reload to see the restored data
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceBackupSettings;
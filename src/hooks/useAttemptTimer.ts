@@ -0,0 +1,111 @@
+import { useState, useEffect, useRef } from 'react';
+import { AttemptTimerService } from '@/services/AttemptTimerService';
+import { SupabaseResponseService } from '@/services/supabase/SupabaseResponseService';
+
+interface UseAttemptTimerOptions {
+  questionnaireId: string;
+  guestId: string | null;
+  timeframe: number; // minutes
+  active: boolean;
+  onWarning: (remainingSeconds: number) => void;
+  onExpire: () => void;
+}
+
+export const useAttemptTimer = ({
+  questionnaireId,
+  guestId,
+  timeframe,
+  active,
+  onWarning,
+  onExpire
+}: UseAttemptTimerOptions) => {
+  const [startedAt, setStartedAt] = useState<string | null>(() =>
+    guestId ? AttemptTimerService.getAttempt(questionnaireId, guestId)?.startedAt ?? null : null
+  );
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+
+  // Keep the latest callbacks without restarting the interval
+  const onWarningRef = useRef(onWarning);
+  const onExpireRef = useRef(onExpire);
+  onWarningRef.current = onWarning;
+  onExpireRef.current = onExpire;
+
+  const warnedRef = useRef(new Set<number>());
+  const expiredRef = useRef(false);
+  const serverStartRequestedRef = useRef(false);
+
+  // The countdown starts the first time the guest opens the questions
+  useEffect(() => {
+    if (active && guestId && timeframe > 0 && !startedAt) {
+      setStartedAt(AttemptTimerService.startAttempt(questionnaireId, guestId).startedAt);
+    }
+  }, [active, guestId, timeframe, startedAt, questionnaireId]);
+
+  // Submissions are timed from the start the server recorded, so the countdown follows it too.
+  // Offline, or for tests only on this device, the browser's start time stands
+  useEffect(() => {
+    if (!active || !guestId || timeframe <= 0 || serverStartRequestedRef.current || !navigator.onLine) {
+      return;
+    }
+
+    serverStartRequestedRef.current = true;
+    SupabaseResponseService.startAttempt(questionnaireId)
+      .then(serverStartedAt => {
+        setStartedAt(AttemptTimerService.adoptStartedAt(questionnaireId, guestId, serverStartedAt).startedAt);
+      })
+      .catch(error => {
+        console.warn('⚠️ Could not record the attempt start in Supabase:', error);
+      });
+  }, [active, guestId, timeframe, questionnaireId]);
+
+  useEffect(() => {
+    if (!startedAt || timeframe <= 0) {
+      setRemainingSeconds(null);
+      return;
+    }
+
+    // Thresholds already passed before a reload should not fire again
+    const initialRemaining = AttemptTimerService.getRemainingSeconds(startedAt, timeframe);
+    AttemptTimerService.WARNING_THRESHOLDS
+      .filter(threshold => threshold >= initialRemaining)
+      .forEach(threshold => warnedRef.current.add(threshold));
+
+    const tick = () => {
+      const remaining = AttemptTimerService.getRemainingSeconds(startedAt, timeframe);
+      setRemainingSeconds(remaining);
+
+      AttemptTimerService.WARNING_THRESHOLDS.forEach(threshold => {
+        if (remaining <= threshold && remaining > 0 && !warnedRef.current.has(threshold)) {
+          warnedRef.current.add(threshold);
+          onWarningRef.current(remaining);
+        }
+      });
+
+      if (remaining <= 0 && !expiredRef.current) {
+        expiredRef.current = true;
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [startedAt, timeframe]);
+
+  const reset = () => {
+    if (guestId) {
+      AttemptTimerService.clearAttempt(questionnaireId, guestId);
+    }
+    warnedRef.current.clear();
+    expiredRef.current = false;
+    serverStartRequestedRef.current = false;
+    setStartedAt(null);
+  };
+
+  return {
+    startedAt,
+    remainingSeconds,
+    isExpired: remainingSeconds === 0,
+    reset
+  };
+};
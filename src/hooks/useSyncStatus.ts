@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { SyncEngine } from '@/services/sync/SyncEngine';
+import { SyncStatus } from '@/services/sync/SyncTypes';
+
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState<SyncStatus>(() => SyncEngine.getStatus());
+
+  useEffect(() => {
+    // Starting here replays whatever an earlier session left in the outbox
+    SyncEngine.start();
+    const unsubscribe = SyncEngine.onStatusChange(setStatus);
+    setStatus(SyncEngine.getStatus());
+    return unsubscribe;
+  }, []);
+
+  return status;
+};
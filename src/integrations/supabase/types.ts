@@ -47,9 +47,117 @@ export type Database = {
         }
         Relationships: []
       }
+      guest_assignments: {
+        Row: {
+          assigned_at: string | null
+          guest_id: string
+          id: string
+          set_number: number
+          test_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          guest_id: string
+          id?: string
+          set_number: number
+          test_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          guest_id?: string
+          id?: string
+          set_number?: number
+          test_id?: string
+        }
+        Relationships: []
+      }
+      invite_redemptions: {
+        Row: {
+          guest_id: string
+          invite_id: string
+          redeemed_at: string | null
+        }
+        Insert: {
+          guest_id: string
+          invite_id: string
+          redeemed_at?: string | null
+        }
+        Update: {
+          guest_id?: string
+          invite_id?: string
+          redeemed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invite_redemptions_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "test_invites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_quotas: {
+        Row: {
+          daily_request_limit: number
+          daily_token_limit: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          daily_request_limit: number
+          daily_token_limit: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          daily_request_limit?: number
+          daily_token_limit?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      llm_usage: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          id: string
+          input_tokens: number
+          label: string
+          model: string
+          output_tokens: number
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          input_tokens?: number
+          label?: string
+          model: string
+          output_tokens?: number
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          input_tokens?: number
+          label?: string
+          model?: string
+          output_tokens?: number
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
+          email: string | null
           id: string
           role: Database["public"]["Enums"]["user_role"]
           updated_at: string | null
@@ -57,6 +165,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          email?: string | null
           id: string
           role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string | null
@@ -64,6 +173,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          email?: string | null
           id?: string
           role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string | null
@@ -71,8 +181,66 @@ export type Database = {
         }
         Relationships: []
       }
+      question_bank: {
+        Row: {
+          accepted_answers: Json
+          correct_answers: Json
+          created_at: string | null
+          created_by: string | null
+          difficulty: Database["public"]["Enums"]["difficulty_level"]
+          explanation: string | null
+          id: string
+          options: Json
+          source_file: string | null
+          source_question_id: string | null
+          tags: string[]
+          text: string
+          topic: string
+          type: Database["public"]["Enums"]["question_type"]
+          updated_at: string | null
+          usage_count: number
+        }
+        Insert: {
+          accepted_answers?: Json
+          correct_answers?: Json
+          created_at?: string | null
+          created_by?: string | null
+          difficulty?: Database["public"]["Enums"]["difficulty_level"]
+          explanation?: string | null
+          id?: string
+          options?: Json
+          source_file?: string | null
+          source_question_id?: string | null
+          tags?: string[]
+          text: string
+          topic?: string
+          type?: Database["public"]["Enums"]["question_type"]
+          updated_at?: string | null
+          usage_count?: number
+        }
+        Update: {
+          accepted_answers?: Json
+          correct_answers?: Json
+          created_at?: string | null
+          created_by?: string | null
+          difficulty?: Database["public"]["Enums"]["difficulty_level"]
+          explanation?: string | null
+          id?: string
+          options?: Json
+          source_file?: string | null
+          source_question_id?: string | null
+          tags?: string[]
+          text?: string
+          topic?: string
+          type?: Database["public"]["Enums"]["question_type"]
+          updated_at?: string | null
+          usage_count?: number
+        }
+        Relationships: []
+      }
       questionnaires: {
         Row: {
+          allow_retakes: boolean
           created_at: string | null
           created_by: string | null
           description: string | null
@@ -84,7 +252,11 @@ export type Database = {
           is_saved: boolean | null
           language: string | null
           number_of_questions: number
+          scoring_policy: string
           set_number: number | null
+          show_sources_after_submit: boolean
+          source_coverage: Json
+          source_files: Json
           test_name: string
           timeframe: number
           title: string
@@ -92,6 +264,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          allow_retakes?: boolean
           created_at?: string | null
           created_by?: string | null
           description?: string | null
@@ -103,7 +276,11 @@ export type Database = {
           is_saved?: boolean | null
           language?: string | null
           number_of_questions?: number
+          scoring_policy?: string
           set_number?: number | null
+          show_sources_after_submit?: boolean
+          source_coverage?: Json
+          source_files?: Json
           test_name: string
           timeframe?: number
           title: string
@@ -111,6 +288,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          allow_retakes?: boolean
           created_at?: string | null
           created_by?: string | null
           description?: string | null
@@ -122,7 +300,11 @@ export type Database = {
           is_saved?: boolean | null
           language?: string | null
           number_of_questions?: number
+          scoring_policy?: string
           set_number?: number | null
+          show_sources_after_submit?: boolean
+          source_coverage?: Json
+          source_files?: Json
           test_name?: string
           timeframe?: number
           title?: string
@@ -133,37 +315,55 @@ export type Database = {
       }
       questions: {
         Row: {
+          accepted_answers: Json
           admin_selected_answer: number
+          cognitive_level: string | null
           correct_answer: number | null
+          correct_answers: Json
           created_at: string | null
           explanation: string | null
           id: string
+          objective: string | null
           options: Json | null
-          questionnaire_id: string | null
+          questionnaire_id: string
+          source_check: string | null
+          sources: Json
           text: string
           type: Database["public"]["Enums"]["question_type"]
           updated_at: string | null
         }
         Insert: {
+          accepted_answers?: Json
           admin_selected_answer: number
+          cognitive_level?: string | null
           correct_answer?: number | null
+          correct_answers?: Json
           created_at?: string | null
           explanation?: string | null
           id?: string
+          objective?: string | null
           options?: Json | null
-          questionnaire_id?: string | null
+          questionnaire_id: string
+          source_check?: string | null
+          sources?: Json
           text: string
           type?: Database["public"]["Enums"]["question_type"]
           updated_at?: string | null
         }
         Update: {
+          accepted_answers?: Json
           admin_selected_answer?: number
+          cognitive_level?: string | null
           correct_answer?: number | null
+          correct_answers?: Json
           created_at?: string | null
           explanation?: string | null
           id?: string
+          objective?: string | null
           options?: Json | null
-          questionnaire_id?: string | null
+          questionnaire_id?: string
+          source_check?: string | null
+          sources?: Json
           text?: string
           type?: Database["public"]["Enums"]["question_type"]
           updated_at?: string | null
@@ -181,9 +381,13 @@ export type Database = {
       responses: {
         Row: {
           answers: Json
+          auto_submitted: boolean
+          duration_seconds: number | null
           id: string
+          late: boolean
           questionnaire_id: string | null
           score: number | null
+          started_at: string | null
           submitted_at: string | null
           total_questions: number | null
           user_id: string | null
@@ -191,9 +395,13 @@ export type Database = {
         }
         Insert: {
           answers: Json
+          auto_submitted?: boolean
+          duration_seconds?: number | null
           id?: string
+          late?: boolean
           questionnaire_id?: string | null
           score?: number | null
+          started_at?: string | null
           submitted_at?: string | null
           total_questions?: number | null
           user_id?: string | null
@@ -201,9 +409,13 @@ export type Database = {
         }
         Update: {
           answers?: Json
+          auto_submitted?: boolean
+          duration_seconds?: number | null
           id?: string
+          late?: boolean
           questionnaire_id?: string | null
           score?: number | null
+          started_at?: string | null
           submitted_at?: string | null
           total_questions?: number | null
           user_id?: string | null
@@ -219,16 +431,216 @@ export type Database = {
           },
         ]
       }
+      test_attempts: {
+        Row: {
+          questionnaire_id: string
+          started_at: string
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          questionnaire_id: string
+          started_at?: string
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          questionnaire_id?: string
+          started_at?: string
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_attempts_questionnaire_id_fkey"
+            columns: ["questionnaire_id"]
+            isOneToOne: false
+            referencedRelation: "questionnaires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_invites: {
+        Row: {
+          code: string
+          created_at: string | null
+          created_by: string | null
+          expires_at: string | null
+          guest_email: string | null
+          guest_name: string | null
+          id: string
+          max_uses: number | null
+          test_id: string
+          test_name: string
+          use_count: number
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          created_by?: string | null
+          expires_at?: string | null
+          guest_email?: string | null
+          guest_name?: string | null
+          id?: string
+          max_uses?: number | null
+          test_id: string
+          test_name: string
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          created_by?: string | null
+          expires_at?: string | null
+          guest_email?: string | null
+          guest_name?: string | null
+          id?: string
+          max_uses?: number | null
+          test_id?: string
+          test_name?: string
+          use_count?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      guest_questions: {
+        Row: {
+          created_at: string | null
+          id: string | null
+          options: Json | null
+          questionnaire_id: string | null
+          text: string | null
+          type: Database["public"]["Enums"]["question_type"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_questionnaire_id_fkey"
+            columns: ["questionnaire_id"]
+            isOneToOne: false
+            referencedRelation: "questionnaires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      assign_guest_set: {
+        Args: {
+          target_test_id: string
+        }
+        Returns: number
+      }
+      can_take_set: {
+        Args: {
+          target_questionnaire_id: string
+          target_user_id: string | null
+        }
+        Returns: boolean
+      }
+      can_take_test: {
+        Args: {
+          target_questionnaire_id: string
+          target_user_id: string | null
+        }
+        Returns: boolean
+      }
+      claim_submission: {
+        Args: {
+          target_questionnaire_id: string
+          target_user_id: string
+        }
+        Returns: boolean
+      }
+      cleanup_old_guest_assignments: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_guest_test_access: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          questionnaire_id: string
+          has_access: boolean
+        }[]
+      }
+      get_llm_quota: {
+        Args: { target_user_id: string }
+        Returns: {
+          request_limit: number
+          token_limit: number
+          requests_used: number
+          tokens_used: number
+        }[]
+      }
+      get_question_bank_tags: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tag: string
+          question_count: number
+        }[]
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      record_question_usage: {
+        Args: {
+          question_ids: string[]
+        }
+        Returns: undefined
+      }
+      redeem_invite: {
+        Args: {
+          invite_code: string
+        }
+        Returns: {
+          test_name: string
+          guest_name: string | null
+        }[]
+      }
+      reserve_llm_call: {
+        Args: {
+          target_user_id: string
+          call_label: string
+          call_model: string
+          reserved_input_tokens: number
+          reserved_output_tokens: number
+        }
+        Returns: string | null
+      }
+      restore_guest_assignments: {
+        Args: {
+          backup_rows: Json
+          replace_existing?: boolean
+        }
+        Returns: number
+      }
+      restore_responses: {
+        Args: {
+          backup_rows: Json
+          replace_existing?: boolean
+        }
+        Returns: number
+      }
+      set_user_role: {
+        Args: {
+          target_user_id: string
+          new_role: Database["public"]["Enums"]["user_role"]
+        }
+        Returns: undefined
+      }
+      start_attempt: {
+        Args: { target_questionnaire_id: string }
+        Returns: string
+      }
+      test_id_of: {
+        Args: { target_questionnaire_id: string }
+        Returns: string | null
+      }
     }
     Enums: {
       difficulty_level: "easy" | "medium" | "hard"
-      question_type: "multiple-choice" | "text" | "boolean"
+      question_type: "multiple-choice" | "multiple-select" | "text" | "boolean"
       user_role: "admin" | "guest"
     }
     CompositeTypes: {
@@ -358,7 +770,7 @@ export const Constants = {
   public: {
     Enums: {
       difficulty_level: ["easy", "medium", "hard"],
-      question_type: ["multiple-choice", "text", "boolean"],
+      question_type: ["multiple-choice", "multiple-select", "text", "boolean"],
       user_role: ["admin", "guest"],
     },
   },
@@ -3,20 +3,48 @@ import { useState, useEffect } from 'react';
 import LoginPage from '@/components/LoginPage';
 import Dashboard from '@/components/Dashboard';
 import { AuthService } from '@/services/AuthService';
+import { useAuth } from '@/hooks/useAuth';
 
 const Index = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const { session, loading } = useAuth();
 
   useEffect(() => {
     const currentUser = AuthService.getCurrentUser();
-    if (currentUser) {
+    if (currentUser && currentUser.role === 'guest') {
       setIsAuthenticated(true);
       setUser(currentUser);
     }
   }, []);
 
+  // Admin sessions come from Supabase Auth, including magic-link redirects and page reloads
+  useEffect(() => {
+    if (loading || isAuthenticated) return;
+
+    const currentUser = AuthService.getCurrentUser();
+    if (currentUser?.role === 'guest') return;
+
+    // Anonymous sessions are guest identities; a new guest login replaces one left behind
+    if (session?.user?.is_anonymous) return;
+
+    if (!session) {
+      // A cached admin without a live session is stale
+      if (currentUser) {
+        AuthService.logout();
+      }
+      return;
+    }
+
+    AuthService.restoreAdminSession(session).then(adminUser => {
+      if (adminUser) {
+        setIsAuthenticated(true);
+        setUser(adminUser);
+      }
+    });
+  }, [session, loading, isAuthenticated]);
+
   const handleLogin = (userData: any) => {
     setIsAuthenticated(true);
     setUser(userData);
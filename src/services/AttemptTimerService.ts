@@ -0,0 +1,95 @@
+export interface TestAttempt {
+  startedAt: string;
+  responses: Record<string, string | string[]>;
+}
+
+export class AttemptTimerService {
+  private static ATTEMPTS_KEY = 'guestAttemptTimers';
+
+  // Remaining-time marks (in seconds) at which the guest is warned
+  static WARNING_THRESHOLDS = [300, 60];
+
+  static getAttempt(questionnaireId: string, guestId: string): TestAttempt | null {
+    const attempts = this.getAttempts();
+    return attempts[guestId]?.[questionnaireId] || null;
+  }
+
+  static startAttempt(questionnaireId: string, guestId: string): TestAttempt {
+    const existing = this.getAttempt(questionnaireId, guestId);
+    if (existing) {
+      return existing;
+    }
+
+    const attempt: TestAttempt = {
+      startedAt: new Date().toISOString(),
+      responses: {}
+    };
+    this.saveAttempt(questionnaireId, guestId, attempt);
+    console.log(`⏱️ Started attempt for questionnaire ${questionnaireId} by guest ${guestId}`);
+    return attempt;
+  }
+
+  // The start time recorded by the server replaces this browser's, e.g. after storage was cleared
+  static adoptStartedAt(questionnaireId: string, guestId: string, startedAt: string): TestAttempt {
+    const attempt: TestAttempt = {
+      responses: {},
+      ...this.getAttempt(questionnaireId, guestId),
+      startedAt: new Date(startedAt).toISOString()
+    };
+    this.saveAttempt(questionnaireId, guestId, attempt);
+    return attempt;
+  }
+
+  static saveDraftResponses(questionnaireId: string, guestId: string, responses: Record<string, string | string[]>): void {
+    const attempt = this.getAttempt(questionnaireId, guestId);
+    if (attempt) {
+      this.saveAttempt(questionnaireId, guestId, { ...attempt, responses });
+    }
+  }
+
+  static clearAttempt(questionnaireId: string, guestId: string): void {
+    try {
+      const attempts = this.getAttempts();
+      if (attempts[guestId]) {
+        delete attempts[guestId][questionnaireId];
+        localStorage.setItem(this.ATTEMPTS_KEY, JSON.stringify(attempts));
+      }
+    } catch (error) {
+      console.error('Error clearing attempt timer:', error);
+    }
+  }
+
+  static getElapsedSeconds(startedAt: string, now: number = Date.now()): number {
+    return Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  }
+
+  static getRemainingSeconds(startedAt: string, timeframeMinutes: number, now: number = Date.now()): number {
+    return Math.max(0, timeframeMinutes * 60 - this.getElapsedSeconds(startedAt, now));
+  }
+
+  static formatDuration(totalSeconds: number): string {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  private static saveAttempt(questionnaireId: string, guestId: string, attempt: TestAttempt): void {
+    try {
+      const attempts = this.getAttempts();
+      attempts[guestId] = { ...(attempts[guestId] || {}), [questionnaireId]: attempt };
+      localStorage.setItem(this.ATTEMPTS_KEY, JSON.stringify(attempts));
+    } catch (error) {
+      console.error('Error saving attempt timer:', error);
+    }
+  }
+
+  private static getAttempts(): Record<string, Record<string, TestAttempt>> {
+    try {
+      const stored = localStorage.getItem(this.ATTEMPTS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading attempt timers:', error);
+      return {};
+    }
+  }
+}
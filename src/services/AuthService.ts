@@ -1,34 +1,52 @@
+import { createClient, Session, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { SupabaseProfileService } from './supabase/SupabaseProfileService';
+import { SupabaseInviteService } from './supabase/SupabaseInviteService';
+import { SyncOutbox } from './sync/SyncOutbox';
+
 interface User {
   username: string;
   role: 'admin' | 'guest';
   token: string;
+  userId?: string; // Supabase Auth user id; anonymous for guests
+  email?: string;
 }
 
 class AuthServiceClass {
   private currentUser: User | null = null;
-  
-  private credentials = {
-    salman: { username: 'salman', password: 'salman786', role: 'admin' as const },
-    nishant: { username: 'nishant', password: 'nishant25', role: 'admin' as const },
-    shyam: { username: 'shyam', password: 'shyam786', role: 'admin' as const },
-    admin: { username: 'admin', password: 'admin123', role: 'admin' as const },
-    farhan: { username: 'farhan', password: 'nitrate', role: 'admin' as const }
-  };
-
-  async login(username: string, password: string, role: string): Promise<User | null> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Handle guest login - any name is allowed
+  private pendingRestore: { userId: string; promise: Promise<User | null> } | null = null;
+
+  private pendingGuestSignOut: Promise<void> | null = null;
+  private parkedSessionClient: SupabaseClient | null = null;
+
+  // Refresh tokens of signed-out guests whose answers are still queued, by guest id. They are
+  // only used to send those answers and are dropped once nothing is waiting; logins never use them
+  private static PARKED_GUEST_SESSIONS_KEY = 'parkedGuestSessions';
+
+  async login(username: string, password: string, role: string, accessCode?: string): Promise<User | null> {
+    // Handle guest login - any display name is allowed, identity comes from an anonymous session
     if (role === 'guest') {
       if (!username.trim()) {
         return null; // Username is required
       }
+
+      const identity = await this.getGuestIdentity(username.trim());
+      let displayName = username.trim();
+
+      // Invite codes are redeemed against the anonymous identity; roster codes carry the guest's name
+      if (accessCode?.trim()) {
+        const redemption = await SupabaseInviteService.redeemInvite(accessCode.trim());
+        if (redemption.guestName && redemption.guestName !== displayName) {
+          displayName = redemption.guestName;
+          await supabase.auth.updateUser({ data: { username: displayName } });
+        }
+      }
       
       const user: User = {
-        username: username.trim(),
+        username: displayName,
         role: 'guest',
-        token: this.generateToken()
+        token: identity.token,
+        userId: identity.userId
       };
       
       this.currentUser = user;
@@ -36,34 +54,178 @@ class AuthServiceClass {
       return user;
     }
     
-    // Handle admin login - requires correct credentials (case insensitive username)
+    // Handle admin login - email and password checked by Supabase Auth, role read from profiles
     if (role === 'admin') {
-      const normalizedUsername = username.toLowerCase();
-      const cred = Object.values(this.credentials).find(
-        c => c.username === normalizedUsername && c.password === password
-      );
-      
-      if (cred) {
-        const user: User = {
-          username: cred.username,
-          role: cred.role,
-          token: this.generateToken()
-        };
-        
-        this.currentUser = user;
-        localStorage.setItem('currentUser', JSON.stringify(user));
-        return user;
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email: username.trim(),
+        password
+      });
+
+      if (error || !data.session) {
+        console.log('❌ Admin sign in failed:', error?.message);
+        return null;
       }
+
+      return this.restoreAdminSession(data.session);
     }
     
     return null;
   }
 
+  // Turns a Supabase session into the app user; sessions without the admin role are signed out.
+  // Login and the session listener can both call this for the same sign-in, so they share one lookup.
+  restoreAdminSession(session: Session): Promise<User | null> {
+    if (this.pendingRestore?.userId === session.user.id) {
+      return this.pendingRestore.promise;
+    }
+
+    const promise = this.loadAdminUser(session).finally(() => {
+      this.pendingRestore = null;
+    });
+    this.pendingRestore = { userId: session.user.id, promise };
+    return promise;
+  }
+
+  private async loadAdminUser(session: Session): Promise<User | null> {
+    const profile = await SupabaseProfileService.getProfile(session.user.id);
+    if (!profile || profile.role !== 'admin') {
+      console.log('🚫 Signed-in user is not an admin:', session.user.email);
+      await supabase.auth.signOut();
+      return null;
+    }
+
+    const user: User = {
+      username: profile.username,
+      role: 'admin',
+      token: session.access_token,
+      userId: session.user.id,
+      email: profile.email || session.user.email
+    };
+
+    this.currentUser = user;
+    localStorage.setItem('currentUser', JSON.stringify(user));
+    return user;
+  }
+
   logout(): void {
+    const user = this.getCurrentUser();
+    if (user?.role === 'admin') {
+      supabase.auth.signOut().catch(error => console.error('❌ Sign out error:', error));
+    } else if (user?.role === 'guest') {
+      this.pendingGuestSignOut = this.signOutGuest()
+        .catch(error => console.error('❌ Guest sign out error:', error))
+        .finally(() => {
+          this.pendingGuestSignOut = null;
+        });
+    }
     this.currentUser = null;
     localStorage.removeItem('currentUser');
   }
 
+  // Only this device forgets the anonymous session; nothing on it is tied to the guest's name,
+  // so logging in again under the same name starts a new identity
+  private async signOutGuest(): Promise<void> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user?.is_anonymous) {
+      return;
+    }
+
+    const hasQueuedAnswers = SyncOutbox.getAll().some(entry =>
+      entry.kind === 'response.submit' && entry.submission?.userId === session.user.id);
+    if (hasQueuedAnswers) {
+      this.writeParkedSessions({ ...this.readParkedSessions(), [session.user.id]: session.refresh_token });
+    }
+
+    await supabase.auth.signOut({ scope: 'local' });
+    console.log('👋 Signed out guest identity:', session.user.id);
+  }
+
+  // Every guest login gets a new anonymous identity; a session left behind by an earlier guest
+  // is signed out first. Names are typed freely, so they never pick out an identity.
+  // Without Supabase (offline or anonymous sign-ins disabled) a random id is used.
+  private async getGuestIdentity(username: string): Promise<{ userId: string; token: string }> {
+    try {
+      await this.pendingGuestSignOut;
+      await this.signOutGuest();
+
+      const { data, error } = await supabase.auth.signInAnonymously({
+        options: { data: { username } }
+      });
+      if (!error && data.session) {
+        console.log('👤 Created anonymous guest identity:', data.session.user.id);
+        return { userId: data.session.user.id, token: data.session.access_token };
+      }
+      console.warn('⚠️ Anonymous sign in unavailable, using a device identity:', error?.message);
+    } catch (error) {
+      console.warn('⚠️ Could not reach Supabase Auth, using a device identity:', error);
+    }
+
+    return { userId: crypto.randomUUID(), token: this.generateToken() };
+  }
+
+  hasParkedGuestSession(guestId: string): boolean {
+    return !!this.readParkedSessions()[guestId];
+  }
+
+  // A fresh access token for a signed-out guest, refreshed on a client of its own so the
+  // signed-in session is left alone. Refresh tokens are single use, so the new one is kept
+  async getParkedGuestAccessToken(guestId: string): Promise<string> {
+    const refreshToken = this.readParkedSessions()[guestId];
+    if (!refreshToken) {
+      throw new Error('The guest who gave these answers is no longer signed in on this device');
+    }
+
+    const { data, error } = await this.getParkedSessionClient().auth.refreshSession({ refresh_token: refreshToken });
+    if (error || !data.session) {
+      throw error ?? new Error('Could not restore the guest session');
+    }
+
+    this.writeParkedSessions({ ...this.readParkedSessions(), [guestId]: data.session.refresh_token });
+    return data.session.access_token;
+  }
+
+  // Called with the guests who still have answers queued; the other parked sessions are dropped
+  keepParkedGuestSessions(guestIds: Set<string>): void {
+    const parked = this.readParkedSessions();
+    const kept = Object.fromEntries(Object.entries(parked).filter(([guestId]) => guestIds.has(guestId)));
+    if (Object.keys(kept).length !== Object.keys(parked).length) {
+      this.writeParkedSessions(kept);
+    }
+  }
+
+  private getParkedSessionClient(): SupabaseClient {
+    if (!this.parkedSessionClient) {
+      // The generated client doesn't export its settings; the second client only ever refreshes
+      this.parkedSessionClient = createClient(supabase['supabaseUrl'], supabase['supabaseKey'], {
+        auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false }
+      });
+    }
+    return this.parkedSessionClient;
+  }
+
+  private readParkedSessions(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(AuthServiceClass.PARKED_GUEST_SESSIONS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading parked guest sessions:', error);
+      return {};
+    }
+  }
+
+  private writeParkedSessions(parked: Record<string, string>): void {
+    if (Object.keys(parked).length === 0) {
+      localStorage.removeItem(AuthServiceClass.PARKED_GUEST_SESSIONS_KEY);
+    } else {
+      localStorage.setItem(AuthServiceClass.PARKED_GUEST_SESSIONS_KEY, JSON.stringify(parked));
+    }
+  }
+
+  // Stable key for per-guest state; falls back to the name for sessions stored before guest ids
+  getGuestKey(user: User): string {
+    return user.userId || user.username;
+  }
+
   getCurrentUser(): User | null {
     if (this.currentUser) {
       return this.currentUser;
@@ -1,9 +1,11 @@
 
-import { QuestionGenerationService } from './chatgpt/QuestionGenerationService';
+import { GeneratedQuestion, QuestionGenerationService, QuestionRefinementRequest } from './chatgpt/QuestionGenerationService';
 import { ContentEnhancementService } from './chatgpt/ContentEnhancementService';
 import { ContentGenerationService } from './chatgpt/ContentGenerationService';
 import { ImageAnalysisService } from './chatgpt/ImageAnalysisService';
 import { ApiKeyManager } from './chatgpt/ApiKeyManager';
+import { QuestionTargeting, QuestionType } from './questionnaire/QuestionnaireTypes';
+import { SourceDocument } from './extraction/SourceDocument';
 
 class ChatGPTServiceClass {
   private questionGenerator = new QuestionGenerationService();
@@ -15,18 +17,22 @@ class ChatGPTServiceClass {
     prompt: string,
     numberOfQuestions: number,
     difficulty: 'easy' | 'medium' | 'hard',
-    fileContent: string = '',
+    sources: SourceDocument[] = [],
     setNumber: number = 1,
-    totalSets: number = 1
+    totalSets: number = 1,
+    questionTypes: QuestionType[] = ['multiple-choice'],
+    avoidQuestions: string[] = [],
+    targeting: QuestionTargeting = {}
   ): Promise<any[]> {
     // Enhanced logging for production diagnostics
     console.log('🎯 ChatGPTService.generateQuestions ENTRY:', {
       prompt: prompt.substring(0, 150) + '...',
       numberOfQuestions,
       difficulty,
-      fileContentLength: fileContent.length,
+      sourceFiles: sources.map(source => source.fileName),
       setNumber,
       totalSets,
+      questionTypes,
       hasApiKey: this.hasApiKey(),
       timestamp: new Date().toISOString()
     });
@@ -36,9 +42,12 @@ class ChatGPTServiceClass {
         prompt,
         numberOfQuestions,
         difficulty,
-        fileContent,
+        sources,
         setNumber,
-        totalSets
+        totalSets,
+        questionTypes,
+        avoidQuestions,
+        targeting
       );
 
       console.log('✅ ChatGPTService.generateQuestions SUCCESS:', {
@@ -55,6 +64,30 @@ class ChatGPTServiceClass {
     }
   }
 
+  async refineQuestion(request: QuestionRefinementRequest): Promise<GeneratedQuestion[]> {
+    console.log('🛠️ ChatGPTService.refineQuestion ENTRY:', {
+      action: request.action,
+      questionId: request.question.id,
+      citations: request.citations.length,
+      timestamp: new Date().toISOString()
+    });
+
+    try {
+      const result = await this.questionGenerator.refineQuestion(request);
+
+      console.log('✅ ChatGPTService.refineQuestion SUCCESS:', {
+        action: request.action,
+        questionsReturned: result.length,
+        timestamp: new Date().toISOString()
+      });
+
+      return result;
+    } catch (error) {
+      console.error('❌ ChatGPTService.refineQuestion ERROR:', error);
+      throw error;
+    }
+  }
+
   async enhanceTextContent(textContent: string, userPrompt: string = ''): Promise<string> {
     console.log('🔧 ChatGPTService.enhanceTextContent ENTRY:', {
       contentLength: textContent.length,
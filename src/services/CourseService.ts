@@ -2,10 +2,11 @@
 import { Course, CourseMaterial } from './course/CourseTypes';
 import { CourseGenerator } from './course/CourseGenerator';
 import { CourseManager } from './course/CourseManager';
+import { SourceDocument } from './extraction/SourceDocument';
 
 class CourseServiceClass {
-  async generateCourse(prompt: string, files: File[] = [], fileContent: string = '', testName?: string): Promise<Course> {
-    return CourseGenerator.generateCourse(prompt, files, fileContent, testName);
+  async generateCourse(prompt: string, sources: SourceDocument[] = [], testName?: string): Promise<Course> {
+    return CourseGenerator.generateCourse(prompt, sources, testName);
   }
 
   saveCourse(course: Course): void {
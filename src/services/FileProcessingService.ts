@@ -1,10 +1,46 @@
 import { ChatGPTService } from './ChatGPTService';
 import { ChatGPTPDFProcessor } from './chatgpt/ChatGPTPDFProcessor';
-import { createWorker } from 'tesseract.js';
+import { ApiKeyManager } from './chatgpt/ApiKeyManager';
+import { PdfDocumentStructure, PdfExtractor } from './extraction/PdfExtractor';
+import { ContentBlocks } from './extraction/ContentBlocks';
+import { OfficeDocumentStructure, OfficeExtractor } from './extraction/OfficeExtractor';
+import { SourceDocument, SourceDocuments } from './extraction/SourceDocument';
+import { LanguageService } from './LanguageService';
+import { createWorker, Worker as OcrWorker } from 'tesseract.js';
+
+export interface FileProcessingProgress {
+  fileName: string;
+  stage: 'extracting' | 'ocr' | 'complete';
+  progress: number; // 0-1 for the whole file
+  page?: number;
+  pageCount?: number;
+}
+
+export type FileProcessingProgressCallback = (progress: FileProcessingProgress) => void;
+
+interface OcrResult {
+  text: string;
+  confidence: number;
+}
+
+// Tesseract language packs for the app languages; English is always loaded alongside
+const OCR_LANGUAGES: Record<string, string> = {
+  hi: 'hin',
+  mr: 'mar',
+  kn: 'kan',
+  gu: 'guj',
+  bn: 'ben'
+};
+
+// Below this average confidence a scanned PDF is sent to the model instead, if one is configured
+const MIN_OCR_CONFIDENCE = 40;
 
 interface ProcessedFileContent {
   content: string;
   type: 'text' | 'video' | 'image' | 'other';
+  document: SourceDocument; // What the generators read and cite from
+  pdf?: PdfDocumentStructure; // Pages, headings and tables for PDFs read in the browser
+  office?: OfficeDocumentStructure; // Sections for DOCX, PPTX and XLSX files
   metadata: {
     fileName: string;
     fileSize: number;
@@ -13,19 +49,26 @@ interface ProcessedFileContent {
     ocrAttempted?: boolean;
     ocrSuccessful?: boolean;
     ocrError?: string;
+    pageCount?: number;
     diagnostics?: {
       initialContentLength: number;
       contentPreview: string;
       validationStage: string;
       ocrQualificationCheck: any;
+      ocrLanguages?: string;
+      ocrConfidence?: number; // 0-100, averaged over OCR'd pages
+      ocrPages?: { pageNumber: number; confidence: number }[];
     };
   };
 }
 
 class FileProcessingServiceClass {
-  private ocrWorker: any = null;
+  private ocrWorker: Promise<OcrWorker> | null = null;
+  private ocrWorkerLanguages = '';
+  private ocrJobCounter = 0;
+  private ocrProgressHandlers = new Map<string, (progress: number) => void>();
 
-  async processFile(file: File): Promise<ProcessedFileContent> {
+  async processFile(file: File, onProgress?: FileProcessingProgressCallback): Promise<ProcessedFileContent> {
     console.log(`🔍 SIMPLE FILE PROCESSING: ${file.name} (${file.type}, ${file.size} bytes)`);
     
     const fileType = this.determineFileType(file);
@@ -37,48 +80,93 @@ class FileProcessingServiceClass {
       ocrAttempted: false,
       ocrSuccessful: false,
       ocrError: undefined as string | undefined,
+      pageCount: undefined as number | undefined,
       diagnostics: {
         initialContentLength: 0,
         contentPreview: '',
         validationStage: 'initial',
-        ocrQualificationCheck: {}
+        ocrQualificationCheck: {},
+        ocrLanguages: undefined as string | undefined,
+        ocrConfidence: undefined as number | undefined,
+        ocrPages: [] as { pageNumber: number; confidence: number }[]
       }
     };
 
     let content = '';
+    let pdf: PdfDocumentStructure | undefined;
+    let office: OfficeDocumentStructure | undefined;
 
     try {
       if (fileType === 'text' && this.isPDFFile(file)) {
-        console.log('🤖 PROCESSING PDF WITH SIMPLE EXTRACTION...');
-        try {
-          const chatGPTResult = await ChatGPTPDFProcessor.processPDFWithChatGPT(file);
-          content = chatGPTResult.content;
-          metadata.extractionMethod = 'chatgpt-pdf-simple';
-          
-          console.log('✅ PDF PROCESSING SUCCESS:', {
-            contentLength: content.length,
-            wordCount: chatGPTResult.analysis.wordCount
-          });
-          
-        } catch (chatGPTError) {
-          console.error('❌ PDF processing failed:', chatGPTError);
-          throw new Error(`PDF processing failed: ${chatGPTError instanceof Error ? chatGPTError.message : 'Unknown error'}`);
+        onProgress?.({ fileName: file.name, stage: 'extracting', progress: 0 });
+        // Text pages are read locally with pdf.js and image-only pages are OCR'd in the browser
+        pdf = await PdfExtractor.extract(file);
+        metadata.pageCount = pdf.pageCount;
+
+        if (pdf.imageOnlyPages.length > 0) {
+          metadata.ocrAttempted = true;
+          metadata.diagnostics.ocrLanguages = this.getOcrLanguages();
+          try {
+            await this.ocrPdfPages(file, pdf, onProgress);
+            metadata.diagnostics.ocrPages = pdf.pages
+              .filter(page => page.ocrConfidence !== undefined)
+              .map(page => ({ pageNumber: page.pageNumber, confidence: page.ocrConfidence! }));
+            metadata.diagnostics.ocrConfidence = this.averageConfidence(metadata.diagnostics.ocrPages.map(p => p.confidence));
+            metadata.ocrSuccessful = metadata.diagnostics.ocrPages.length > 0;
+          } catch (ocrError) {
+            console.error('❌ OCR failed:', ocrError);
+            metadata.ocrError = ocrError instanceof Error ? ocrError.message : 'Unknown OCR error';
+          }
+        }
+
+        const hasText = pdf.pages.some(page => page.blocks.length > 0);
+        const poorScan = pdf.isScanned && (metadata.diagnostics.ocrConfidence ?? 0) < MIN_OCR_CONFIDENCE;
+
+        if (hasText && !(poorScan && ApiKeyManager.hasApiKey())) {
+          content = PdfExtractor.toText(pdf);
+          metadata.extractionMethod = pdf.isScanned ? 'tesseract-ocr' : metadata.ocrSuccessful ? 'pdfjs-layout+ocr' : 'pdfjs-layout';
+        } else {
+          if (!ApiKeyManager.hasApiKey()) {
+            throw new Error(`"${file.name}" is a scanned PDF and OCR could not read it${metadata.ocrError ? ` (${metadata.ocrError})` : ''}. Set up an AI provider in settings to read it with the model instead.`);
+          }
+
+          console.log('🤖 Scanned PDF, falling back to model extraction:', file.name);
+          try {
+            const chatGPTResult = await ChatGPTPDFProcessor.processPDFWithChatGPT(file);
+            content = chatGPTResult.content;
+            metadata.extractionMethod = 'chatgpt-pdf-scanned';
+
+            console.log('✅ PDF PROCESSING SUCCESS:', {
+              contentLength: content.length,
+              wordCount: chatGPTResult.analysis.wordCount
+            });
+          } catch (chatGPTError) {
+            console.error('❌ PDF processing failed:', chatGPTError);
+            throw new Error(`PDF processing failed: ${chatGPTError instanceof Error ? chatGPTError.message : 'Unknown error'}`);
+          }
         }
       } else {
         switch (fileType) {
           case 'text':
             const result = await this.processTextFile(file);
             content = result.content;
+            office = result.office;
             metadata.extractionMethod = result.method;
             break;
           case 'video':
             content = await this.processVideoFile(file);
             metadata.extractionMethod = 'video-content-analysis';
             break;
-          case 'image':
-            content = await this.processImageFile(file);
-            metadata.extractionMethod = 'image-content-analysis';
+          case 'image': {
+            metadata.ocrAttempted = true;
+            metadata.diagnostics.ocrLanguages = this.getOcrLanguages();
+            const ocr = await this.processImageFile(file, onProgress);
+            content = ocr.text;
+            metadata.ocrSuccessful = true;
+            metadata.diagnostics.ocrConfidence = ocr.confidence;
+            metadata.extractionMethod = 'tesseract-ocr';
             break;
+          }
           default:
             content = await this.processGenericFile(file);
             metadata.extractionMethod = 'generic-text-extraction';
@@ -102,8 +190,10 @@ class FileProcessingServiceClass {
       console.log('✅ FILE PROCESSING SUCCESSFUL:', {
         fileName: file.name,
         contentLength: content.length,
-        extractionMethod: metadata.extractionMethod
+        extractionMethod: metadata.extractionMethod,
+        ocrConfidence: metadata.diagnostics.ocrConfidence
       });
+      onProgress?.({ fileName: file.name, stage: 'complete', progress: 1 });
 
     } catch (error) {
       console.error(`❌ ERROR PROCESSING FILE ${file.name}:`, error);
@@ -113,10 +203,31 @@ class FileProcessingServiceClass {
     return {
       content,
       type: fileType,
+      document: this.toSourceDocument(file, fileType, content, metadata.extractionMethod, pdf, office),
+      pdf,
+      office,
       metadata
     };
   }
 
+  private toSourceDocument(
+    file: File,
+    fileType: ProcessedFileContent['type'],
+    content: string,
+    extractionMethod: string,
+    pdf?: PdfDocumentStructure,
+    office?: OfficeDocumentStructure
+  ): SourceDocument {
+    // A scan read by the model comes back as plain text without page numbers
+    if (pdf && extractionMethod !== 'chatgpt-pdf-scanned') {
+      return SourceDocuments.fromPdf(pdf, extractionMethod);
+    }
+    if (office) {
+      return SourceDocuments.fromOffice(office, extractionMethod);
+    }
+    return SourceDocuments.fromText(file.name, pdf ? 'pdf' : fileType === 'image' ? 'image' : 'text', content, extractionMethod);
+  }
+
   private isPDFFile(file: File): boolean {
     return file.name.toLowerCase().endsWith('.pdf') || file.type === 'application/pdf';
   }
@@ -125,22 +236,29 @@ class FileProcessingServiceClass {
     const fileName = file.name.toLowerCase();
     const fileType = file.type.toLowerCase();
     
-    if (fileType.startsWith('image/')) return 'image';
+    if (fileType.startsWith('image/') || /\.(png|jpe?g|tiff?|bmp|webp)$/.test(fileName)) return 'image';
     if (fileType.startsWith('video/')) return 'video';
     if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) return 'text';
     if (fileType.startsWith('text/') || fileName.endsWith('.txt') || fileName.endsWith('.md')) return 'text';
-    if (fileName.endsWith('.doc') || fileName.endsWith('.docx')) return 'text';
+    if (/\.(docx?|pptx?|xlsx?)$/.test(fileName)) return 'text';
     
     return 'other';
   }
 
-  private async processTextFile(file: File): Promise<{ content: string; method: string }> {
+  private async processTextFile(file: File): Promise<{ content: string; method: string; office?: OfficeDocumentStructure }> {
     const fileName = file.name.toLowerCase();
-    
-    if (fileName.endsWith('.pdf')) {
-      return await this.processAdvancedPdfFile(file);
-    } else if (fileName.endsWith('.docx') || fileName.endsWith('.doc')) {
-      return await this.processWordFile(file);
+    const officeKind = OfficeExtractor.getKind(fileName);
+
+    if (officeKind) {
+      const office = await OfficeExtractor.extract(file);
+      return {
+        content: OfficeExtractor.toText(office),
+        method: `ooxml-${officeKind}`,
+        office
+      };
+    } else if (/\.(doc|ppt|xls)$/.test(fileName)) {
+      // The pre-2007 binary formats are not zip archives and cannot be read in the browser
+      throw new Error(`"${file.name}" uses the old Office format. Please save it as .${fileName.split('.').pop()}x and upload it again.`);
     } else {
       const content = await this.readFileAsText(file);
       return {
@@ -150,33 +268,92 @@ class FileProcessingServiceClass {
     }
   }
 
-  private async processAdvancedPdfFile(file: File): Promise<{ content: string; method: string }> {
-    console.log('⚠️ Using legacy PDF processing - should use ChatGPT instead');
-    throw new Error('Legacy PDF processing not supported - use enhanced PDF processor');
+  private async processVideoFile(file: File): Promise<string> {
+    throw new Error('Video file processing not supported. Please upload text-based files (PDF, TXT, DOCX, PPTX, XLSX) with readable content.');
   }
 
-  private async processWordFile(file: File): Promise<{ content: string; method: string }> {
-    try {
-      const content = await this.readFileAsText(file);
-      if (content.length < 10) {
-        throw new Error('Word file contains insufficient readable content');
+  private async processImageFile(file: File, onProgress?: FileProcessingProgressCallback): Promise<OcrResult> {
+    const result = await this.recognize(file, progress =>
+      onProgress?.({ fileName: file.name, stage: 'ocr', progress })
+    );
+    if (result.text.trim().length < 20) {
+      throw new Error(`No readable text was found in the image "${file.name}"`);
+    }
+    return result;
+  }
+
+  // Fills in the blocks of image-only pages from OCR, one page at a time
+  private async ocrPdfPages(file: File, pdf: PdfDocumentStructure, onProgress?: FileProcessingProgressCallback): Promise<void> {
+    const pageNumbers = pdf.imageOnlyPages;
+    let done = 0;
+
+    await PdfExtractor.renderPages(file, pageNumbers, async (pageNumber, canvas) => {
+      const report = (pageProgress: number) => onProgress?.({
+        fileName: file.name,
+        stage: 'ocr',
+        progress: (done + pageProgress) / pageNumbers.length,
+        page: pageNumber,
+        pageCount: pdf.pageCount
+      });
+
+      const result = await this.recognize(canvas, report);
+      const page = pdf.pages.find(p => p.pageNumber === pageNumber);
+      if (page) {
+        page.blocks = ContentBlocks.fromPlainText(result.text);
+        page.ocrConfidence = result.confidence;
       }
-      return {
-        content,
-        method: 'word-file-reading'
-      };
-    } catch (error) {
-      console.error('Word file processing failed:', error);
-      throw new Error(`Word file processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      done++;
+      console.log(`🔤 OCR page ${pageNumber}/${pdf.pageCount}: ${result.text.length} chars, confidence ${Math.round(result.confidence)}`);
+    });
+  }
+
+  private async recognize(image: File | HTMLCanvasElement, onProgress?: (progress: number) => void): Promise<OcrResult> {
+    const worker = await this.getOcrWorker();
+    const jobId = `ocr-${++this.ocrJobCounter}`;
+    if (onProgress) {
+      this.ocrProgressHandlers.set(jobId, onProgress);
+    }
+    try {
+      const { data } = await worker.recognize(image, {}, { text: true }, jobId);
+      return { text: data.text || '', confidence: data.confidence ?? 0 };
+    } finally {
+      this.ocrProgressHandlers.delete(jobId);
     }
   }
 
-  private async processVideoFile(file: File): Promise<string> {
-    throw new Error('Video file processing not supported. Please upload text-based files (PDF, TXT, DOC) with readable content.');
+  private getOcrLanguages(): string {
+    const language = OCR_LANGUAGES[LanguageService.getCurrentLanguage()];
+    return language ? `eng+${language}` : 'eng';
+  }
+
+  // One worker is shared by all files; it is recreated when the interface language changes
+  private async getOcrWorker(): Promise<OcrWorker> {
+    const languages = this.getOcrLanguages();
+    if (this.ocrWorker && this.ocrWorkerLanguages !== languages) {
+      await this.cleanup();
+    }
+    if (!this.ocrWorker) {
+      console.log('🔤 Starting OCR worker for', languages);
+      this.ocrWorkerLanguages = languages;
+      this.ocrWorker = createWorker(languages, 1, {
+        logger: message => {
+          if (message.status === 'recognizing text') {
+            this.ocrProgressHandlers.get(message.userJobId)?.(message.progress);
+          }
+        }
+      });
+      this.ocrWorker.catch(() => {
+        this.ocrWorker = null;
+      });
+    }
+    return this.ocrWorker;
   }
 
-  private async processImageFile(file: File): Promise<string> {
-    throw new Error('Image file processing not supported. Please upload text-based files (PDF, TXT, DOC) with readable content.');
+  private averageConfidence(confidences: number[]): number | undefined {
+    if (confidences.length === 0) {
+      return undefined;
+    }
+    return confidences.reduce((sum, value) => sum + value, 0) / confidences.length;
   }
 
   private async processGenericFile(file: File): Promise<string> {
@@ -210,8 +387,9 @@ class FileProcessingServiceClass {
 
   async cleanup(): Promise<void> {
     if (this.ocrWorker) {
-      await this.ocrWorker.terminate();
+      const worker = this.ocrWorker;
       this.ocrWorker = null;
+      await worker.then(w => w.terminate(), () => undefined);
     }
   }
 }
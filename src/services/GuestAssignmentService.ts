@@ -2,8 +2,8 @@
 import { SupabaseGuestAssignmentService } from './supabase/SupabaseGuestAssignmentService';
 
 class GuestAssignmentServiceClass {
-  async getGuestSetNumber(guestName: string, testId: string, totalSets: number): Promise<number> {
-    return SupabaseGuestAssignmentService.getGuestSetNumber(guestName, testId, totalSets);
+  async getGuestSetNumber(guestId: string, testId: string, totalSets: number): Promise<number> {
+    return SupabaseGuestAssignmentService.getGuestSetNumber(guestId, testId, totalSets);
   }
 
   async cleanupOldAssignments(): Promise<void> {
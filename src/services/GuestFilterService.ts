@@ -1,29 +1,30 @@
+import { AuthService } from './AuthService';
 
 export class GuestFilterService {
   private static COMPLETED_QUESTIONNAIRES_KEY = 'guestCompletedQuestionnaires';
 
-  static markQuestionnaireAsCompleted(questionnaireId: string, guestUsername: string): void {
+  static markQuestionnaireAsCompleted(questionnaireId: string, guestId: string): void {
     try {
       const completedData = this.getCompletedQuestionnaires();
       
-      if (!completedData[guestUsername]) {
-        completedData[guestUsername] = [];
+      if (!completedData[guestId]) {
+        completedData[guestId] = [];
       }
       
-      if (!completedData[guestUsername].includes(questionnaireId)) {
-        completedData[guestUsername].push(questionnaireId);
+      if (!completedData[guestId].includes(questionnaireId)) {
+        completedData[guestId].push(questionnaireId);
         localStorage.setItem(this.COMPLETED_QUESTIONNAIRES_KEY, JSON.stringify(completedData));
-        console.log(`✅ Marked questionnaire ${questionnaireId} as completed for guest ${guestUsername}`);
+        console.log(`✅ Marked questionnaire ${questionnaireId} as completed for guest ${guestId}`);
       }
     } catch (error) {
       console.error('Error marking questionnaire as completed for guest:', error);
     }
   }
 
-  static isQuestionnaireCompletedByGuest(questionnaireId: string, guestUsername: string): boolean {
+  static isQuestionnaireCompletedByGuest(questionnaireId: string, guestId: string): boolean {
     try {
       const completedData = this.getCompletedQuestionnaires();
-      return completedData[guestUsername]?.includes(questionnaireId) || false;
+      return completedData[guestId]?.includes(questionnaireId) || false;
     } catch (error) {
       console.error('Error checking if questionnaire is completed by guest:', error);
       return false;
@@ -35,9 +36,9 @@ export class GuestFilterService {
       return questionnaires;
     }
 
-    const guestUsername = currentUser.username;
+    const guestId = AuthService.getGuestKey(currentUser);
     return questionnaires.filter(questionnaire => 
-      !this.isQuestionnaireCompletedByGuest(questionnaire.id, guestUsername)
+      !this.isQuestionnaireCompletedByGuest(questionnaire.id, guestId)
     );
   }
 
@@ -51,12 +52,12 @@ export class GuestFilterService {
     }
   }
 
-  static clearCompletedForGuest(guestUsername: string): void {
+  static clearCompletedForGuest(guestId: string): void {
     try {
       const completedData = this.getCompletedQuestionnaires();
-      delete completedData[guestUsername];
+      delete completedData[guestId];
       localStorage.setItem(this.COMPLETED_QUESTIONNAIRES_KEY, JSON.stringify(completedData));
-      console.log(`🧹 Cleared completed questionnaires for guest ${guestUsername}`);
+      console.log(`🧹 Cleared completed questionnaires for guest ${guestId}`);
     } catch (error) {
       console.error('Error clearing completed questionnaires for guest:', error);
     }
@@ -21,6 +21,8 @@ class LanguageServiceClass {
         'nav.dashboard': 'Dashboard',
         'nav.responses': 'Responses',
         'nav.leaderboard': 'Leaderboard',
+        'nav.users': 'Users',
+        'nav.questionBank': 'Question Bank',
         'nav.logout': 'Logout',
         'nav.settings': 'Settings',
         
@@ -28,6 +30,7 @@ class LanguageServiceClass {
         'settings.title': 'Settings',
         'settings.language': 'Language',
         'settings.apiKey': 'API Key Setup',
+        'settings.backup': 'Backup & Restore',
         'settings.close': 'Close',
         'settings.save': 'Save',
         
@@ -72,12 +75,15 @@ class LanguageServiceClass {
         'nav.dashboard': 'डैशबोर्ड',
         'nav.responses': 'जवाब',
         'nav.leaderboard': 'लीडरबोर्ड',
+        'nav.users': 'उपयोगकर्ता',
+        'nav.questionBank': 'प्रश्न बैंक',
         'nav.logout': 'लॉग आउट',
         'nav.settings': 'सेटिंग्स',
         
         'settings.title': 'सेटिंग्स',
         'settings.language': 'भाषा',
         'settings.apiKey': 'API की सेटअप',
+        'settings.backup': 'बैकअप और पुनर्स्थापना',
         'settings.close': 'बंद करें',
         'settings.save': 'सहेजें',
         
@@ -118,12 +124,15 @@ class LanguageServiceClass {
         'nav.dashboard': 'डॅशबोर्ड',
         'nav.responses': 'उत्तरे',
         'nav.leaderboard': 'लीडरबोर्ड',
+        'nav.users': 'वापरकर्ते',
+        'nav.questionBank': 'प्रश्न बँक',
         'nav.logout': 'लॉग आउट',
         'nav.settings': 'सेटिंग्ज',
         
         'settings.title': 'सेटिंग्ज',
         'settings.language': 'भाषा',
         'settings.apiKey': 'API की सेटअप',
+        'settings.backup': 'बॅकअप आणि पुनर्संचयन',
         'settings.close': 'बंद करा',
         'settings.save': 'सेव्ह करा',
         
@@ -164,12 +173,15 @@ class LanguageServiceClass {
         'nav.dashboard': 'ಡ್ಯಾಶ್‌ಬೋರ್ಡ್',
         'nav.responses': 'ಪ್ರತಿಕ್ರಿಯೆಗಳು',
         'nav.leaderboard': 'ಲೀಡರ್‌ಬೋರ್ಡ್',
+        'nav.users': 'ಬಳಕೆದಾರರು',
+        'nav.questionBank': 'ಪ್ರಶ್ನೆ ಬ್ಯಾಂಕ್',
         'nav.logout': 'ಲಾಗ್ ಔಟ್',
         'nav.settings': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
         
         'settings.title': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
         'settings.language': 'ಭಾಷೆ',
         'settings.apiKey': 'API ಕೀ ಸೆಟಪ್',
+        'settings.backup': 'ಬ್ಯಾಕಪ್ ಮತ್ತು ಮರುಸ್ಥಾಪನೆ',
         'settings.close': 'ಮುಚ್ಚಿ',
         'settings.save': 'ಉಳಿಸಿ',
         
@@ -210,12 +222,15 @@ class LanguageServiceClass {
         'nav.dashboard': 'ડેશબોર્ડ',
         'nav.responses': 'જવાબો',
         'nav.leaderboard': 'લીડરબોર્ડ',
+        'nav.users': 'વપરાશકર્તાઓ',
+        'nav.questionBank': 'પ્રશ્ન બેંક',
         'nav.logout': 'લોગ આઉટ',
         'nav.settings': 'સેટિંગ્સ',
         
         'settings.title': 'સેટિંગ્સ',
         'settings.language': 'ભાષા',
         'settings.apiKey': 'API કી સેટઅપ',
+        'settings.backup': 'બેકઅપ અને પુનઃસ્થાપન',
         'settings.close': 'બંધ કરો',
         'settings.save': 'સેવ કરો',
         
@@ -256,12 +271,15 @@ class LanguageServiceClass {
         'nav.dashboard': 'ড্যাশবোর্ড',
         'nav.responses': 'জবাব',
         'nav.leaderboard': 'লিডারবোর্ড',
+        'nav.users': 'ব্যবহারকারী',
+        'nav.questionBank': 'প্রশ্ন ব্যাংক',
         'nav.logout': 'লগ আউট',
         'nav.settings': 'সেটিংস',
         
         'settings.title': 'সেটিংস',
         'settings.language': 'ভাষা',
         'settings.apiKey': 'API কী সেটআপ',
+        'settings.backup': 'ব্যাকআপ ও পুনরুদ্ধার',
         'settings.close': 'বন্ধ করুন',
         'settings.save': 'সেভ করুন',
         
@@ -400,12 +418,13 @@ class LanguageServiceClass {
 
   private async performTranslation(content: string, targetLanguage: string, cacheKey: string): Promise<string> {
     try {
-      // Get the API key from ChatGPTService
+      // Loaded lazily because the chatgpt services import this module
       const { ChatGPTService } = await import('./ChatGPTService');
-      const apiKey = ChatGPTService.getApiKey();
+      const { ApiCallService } = await import('./chatgpt/ApiCallService');
+      const { LlmSettingsService } = await import('./llm/LlmSettingsService');
       
-      if (!apiKey) {
-        console.warn('No OpenAI API key available for translation, returning original content');
+      if (!ChatGPTService.hasApiKey()) {
+        console.warn('No AI provider configured for translation, returning original content');
         return content;
       }
 
@@ -421,37 +440,23 @@ class LanguageServiceClass {
 
       console.log(`🌐 Translating content to ${targetLanguageName}...`);
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4.1-2025-04-14',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a professional translator. Translate the provided text accurately to ${targetLanguageName}. Maintain the original meaning, tone, and context. If the text contains questions, options, or structured content, preserve the structure and formatting. Return only the translated text without any additional comments or explanations.`
-            },
-            {
-              role: 'user',
-              content: content
-            }
-          ],
-          temperature: 0.2,
-          max_tokens: Math.min(4000, content.length * 2),
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('Translation API error:', error);
-        throw new Error(`Translation failed: ${error.error?.message || 'Unknown error'}`);
-      }
+      const response = await ApiCallService.makeApiCall({
+        model: LlmSettingsService.getModel('translation'),
+        messages: [
+          {
+            role: 'system',
+            content: `You are a professional translator. Translate the provided text accurately to ${targetLanguageName}. Maintain the original meaning, tone, and context. If the text contains questions, options, or structured content, preserve the structure and formatting. Return only the translated text without any additional comments or explanations.`
+          },
+          {
+            role: 'user',
+            content: content
+          }
+        ],
+        temperature: 0.2,
+        max_tokens: Math.min(4000, content.length * 2),
+      }, 'TRANSLATION');
 
-      const data = await response.json();
-      const translatedText = data.choices[0]?.message?.content?.trim();
+      const translatedText = response?.trim();
       
       if (!translatedText) {
         throw new Error('No translated content received');
@@ -491,7 +496,18 @@ class LanguageServiceClass {
         );
         translatedQuestion.options = translatedOptions;
       }
-      
+
+      // Accepted answers of 'text' questions are matched against what guests type in the
+      // translated test; the originals stay accepted for names and terms left untranslated
+      if (question.type === 'text' && Array.isArray(question.acceptedAnswers)) {
+        const translatedAnswers = await Promise.all(
+          question.acceptedAnswers.map((answer: string) =>
+            this.translateContent(answer, targetLanguage)
+          )
+        );
+        translatedQuestion.acceptedAnswers = Array.from(new Set([...translatedAnswers, ...question.acceptedAnswers]));
+      }
+
       // Translate explanation if it exists
       if (question.explanation) {
         translatedQuestion.explanation = await this.translateContent(question.explanation, targetLanguage);
@@ -1,18 +1,41 @@
 
 import { QuestionnaireManager } from './questionnaire/QuestionnaireManager';
 import { QuestionnaireGenerator } from './questionnaire/QuestionnaireGenerator';
-import { Questionnaire, TestOptions } from './questionnaire/QuestionnaireTypes';
+import { Questionnaire, Question, QuestionAction, QuestionExportFormat, TestOptions } from './questionnaire/QuestionnaireTypes';
+import { DuplicateCandidate } from './questionnaire/DuplicateDetector';
+import { SourceDocument } from './extraction/SourceDocument';
+import { QuestionExportResult, QuestionFileService, QuestionImportResult } from './questionnaire/QuestionFileService';
+import { ExistingTestAction } from './questionnaire/QtiPackage';
 
 export class QuestionnaireService {
   // Generator methods
   static async generateQuestionnaire(
     prompt: string, 
     options: TestOptions, 
-    fileContent: string = '',
+    sources: SourceDocument[] = [],
     setNumber: number = 1,
     totalSets: number = 1
   ): Promise<Questionnaire> {
-    return QuestionnaireGenerator.generateQuestionnaire(prompt, options, fileContent, setNumber, totalSets);
+    return QuestionnaireGenerator.generateQuestionnaire(prompt, options, sources, setNumber, totalSets);
+  }
+
+  static async replaceDuplicateQuestions(
+    questionnaire: Questionnaire,
+    pool: DuplicateCandidate[],
+    options: TestOptions,
+    sources: SourceDocument[]
+  ): Promise<{ replaced: number; flagged: number }> {
+    return QuestionnaireGenerator.replaceDuplicateQuestions(questionnaire, pool, options, sources);
+  }
+
+  static async refineQuestion(
+    question: Question,
+    setQuestions: Question[],
+    difficulty: 'easy' | 'medium' | 'hard',
+    action: QuestionAction,
+    count: number = 1
+  ): Promise<Question[]> {
+    return QuestionnaireGenerator.refineQuestion(question, setQuestions, difficulty, action, count);
   }
 
   static autoSaveQuestionnaire(questionnaire: Questionnaire): void {
@@ -56,6 +79,15 @@ export class QuestionnaireService {
     QuestionnaireManager.clearTempQuestionnaire();
   }
 
+  // Interchange methods
+  static async exportQuestions(questionnaires: Questionnaire[], format: QuestionExportFormat): Promise<QuestionExportResult> {
+    return QuestionFileService.export(questionnaires, format);
+  }
+
+  static async importQuestions(file: File, onExisting: ExistingTestAction = 'ask'): Promise<QuestionImportResult> {
+    return QuestionFileService.importFile(file, onExisting);
+  }
+
   static async syncToSupabase(): Promise<void> {
     return QuestionnaireManager.syncToSupabase();
   }
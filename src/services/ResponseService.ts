@@ -1,5 +1,7 @@
 
 import { HybridResponseStorage } from './response/HybridResponseStorage';
+import { UserAnswer } from './response/ResponseScoring';
+import { QuestionSourceReview } from './supabase/SupabaseResponseService';
 
 export interface QuestionnaireResponse {
   id: string;
@@ -12,21 +14,32 @@ export interface QuestionnaireResponse {
     questionText: string;
     selectedOption: string;
     selectedOptionIndex: number;
+    selectedOptions?: string[];
+    selectedOptionIndices?: number[];
     isCorrect?: boolean;
+    credit?: number;
   }>;
   submittedAt: string;
   score?: number;
   totalQuestions?: number;
+  startedAt?: string;
+  durationSeconds?: number; // Time from opening the questions to submission
+  autoSubmitted?: boolean; // Submitted by the timer when the timeframe ran out
+  scorePending?: boolean; // Submitted offline and queued for server scoring; no score yet
+  late?: boolean; // Queued offline and scored after the timeframe ran out; kept unscored for the owner to review
+  sourceReview?: QuestionSourceReview[]; // Returned with a new submission when the questionnaire shows sources; never stored
 }
 
 export interface SubmitResponseData {
   questionnaireId: string;
-  responses: Record<string, string>;
+  responses: Record<string, string | string[]>; // Multiple-select questions carry every picked option
   submittedAt: string;
+  startedAt?: string;
+  autoSubmitted?: boolean;
 }
 
 class ResponseServiceClass {
-  async submitResponse(responseData: SubmitResponseData): Promise<void> {
+  async submitResponse(responseData: SubmitResponseData): Promise<QuestionnaireResponse> {
     return HybridResponseStorage.submitResponse(responseData);
   }
 
@@ -42,7 +55,7 @@ class ResponseServiceClass {
     return HybridResponseStorage.getResponsesByQuestionnaire(questionnaireId);
   }
 
-  calculateScore(userAnswers: Array<{questionId: string; selectedOptionIndex: number}>, questionnaire: any): { score: number; totalQuestions: number; answers: Array<any> } {
+  calculateScore(userAnswers: UserAnswer[], questionnaire: any): { score: number; totalQuestions: number; answers: Array<any> } {
     return HybridResponseStorage.calculateScore(userAnswers, questionnaire);
   }
 
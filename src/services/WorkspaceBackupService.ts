@@ -0,0 +1,446 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Questionnaire } from './questionnaire/QuestionnaireTypes';
+import { QuestionnaireStorage } from './questionnaire/QuestionnaireStorage';
+import { HybridQuestionnaireStorage } from './questionnaire/HybridQuestionnaireStorage';
+import { Course } from './course/CourseTypes';
+import { CourseManager } from './course/CourseManager';
+import { HybridCourseManager } from './course/HybridCourseManager';
+import { HybridResponseStorage } from './response/HybridResponseStorage';
+import { SupabaseQuestionnaireService } from './supabase/SupabaseQuestionnaireService';
+import { SupabaseCourseService } from './supabase/SupabaseCourseService';
+import { QuestionnaireResponse, SupabaseResponseService } from './supabase/SupabaseResponseService';
+import { GuestAssignment, SupabaseGuestAssignmentService } from './supabase/SupabaseGuestAssignmentService';
+
+// Bump when the archive layout changes, and teach validate() to read the older layouts
+export const WORKSPACE_BACKUP_SCHEMA_VERSION = 1;
+
+// localStorage entries outside the collections: admin config, guest and course progress and
+// the duplicate-question hashes. API keys and LLM settings are deliberately left out
+const LOCAL_STATE_KEYS = ['adminConfig', 'guestCompletedQuestionnaires', 'question_hashes'];
+const LOCAL_STATE_PREFIXES = ['course_progress_', 'completed_courses_'];
+
+export interface WorkspaceBackup {
+  schemaVersion: number;
+  app: 'questora';
+  exportedAt: string;
+  includesSupabase: boolean; // False when taken offline or signed out: only this browser's data is in it
+  questionnaires: Questionnaire[];
+  courses: Course[];
+  responses: QuestionnaireResponse[];
+  guestAssignments: GuestAssignment[]; // Round-robin assignments made on this browser
+  sharedGuestAssignments: GuestAssignment[]; // Supabase assignments of guests with an account
+  localState: Record<string, string>; // Raw localStorage values by key
+}
+
+export type BackupCollection =
+  | 'questionnaires'
+  | 'courses'
+  | 'responses'
+  | 'guestAssignments'
+  | 'sharedGuestAssignments'
+  | 'localState';
+
+export const BACKUP_COLLECTIONS: Array<{ value: BackupCollection; label: string }> = [
+  { value: 'questionnaires', label: 'Tests' },
+  { value: 'courses', label: 'Courses' },
+  { value: 'responses', label: 'Responses' },
+  { value: 'guestAssignments', label: 'Set assignments on this browser' },
+  { value: 'sharedGuestAssignments', label: 'Set assignments in Supabase' },
+  { value: 'localState', label: 'Config and progress' }
+];
+
+// Merge adds what is new and keeps the current copy of anything in both; replace makes the
+// workspace match the backup, overwriting conflicts and removing what the backup lacks
+export type RestoreMode = 'merge' | 'replace';
+
+export interface CollectionPreview {
+  collection: BackupCollection;
+  added: number; // Only in the backup
+  conflicts: string[]; // Names of items in both whose contents differ
+  unchanged: number;
+  removed: number; // Only in the workspace; deleted by a replace
+}
+
+export interface RestorePreview {
+  collections: CollectionPreview[];
+  supabaseAvailable: boolean; // Restoring also writes to Supabase
+}
+
+export interface RestoreResult {
+  written: number;
+  removed: number;
+  warnings: string[];
+}
+
+export interface BackupValidation {
+  backup: WorkspaceBackup | null;
+  errors: string[];
+}
+
+interface BackupEntry {
+  key: string;
+  label: string;
+  value: unknown;
+}
+
+interface CollectionDiff {
+  added: BackupEntry[];
+  conflicts: BackupEntry[];
+  unchanged: BackupEntry[];
+  removed: BackupEntry[];
+}
+
+type FieldType = 'string' | 'number' | 'array';
+
+const REQUIRED_FIELDS: Record<Exclude<BackupCollection, 'localState'>, Record<string, FieldType>> = {
+  questionnaires: { id: 'string', title: 'string', questions: 'array' },
+  courses: { id: 'string', name: 'string', materials: 'array' },
+  responses: { id: 'string', questionnaireId: 'string', username: 'string', answers: 'array' },
+  guestAssignments: { guestId: 'string', testId: 'string', setNumber: 'number' },
+  sharedGuestAssignments: { guestId: 'string', testId: 'string', setNumber: 'number' }
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The whole workspace in one JSON file, for moving to another Supabase project or recovering
+// from data loss. Supabase rows are included when an account is signed in online
+export class WorkspaceBackupService {
+  private static isOnline(): boolean {
+    return navigator.onLine;
+  }
+
+  private static async isAuthenticated(): Promise<boolean> {
+    try {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      return !error && !!user && !user.is_anonymous;
+    } catch {
+      return false;
+    }
+  }
+
+  static async createBackup(): Promise<WorkspaceBackup> {
+    const includesSupabase = this.isOnline() && await this.isAuthenticated();
+    console.log(`📦 Creating workspace backup${includesSupabase ? ' with Supabase data' : ' from this browser only'}`);
+
+    let sharedGuestAssignments: GuestAssignment[] = [];
+    if (includesSupabase) {
+      try {
+        sharedGuestAssignments = await SupabaseGuestAssignmentService.getAllAssignments();
+      } catch (error) {
+        console.warn('⚠️ Guest assignments could not be loaded from Supabase:', error);
+      }
+    }
+
+    // Supabase copies come first, as the hybrid storages read them first
+    const backup: WorkspaceBackup = {
+      schemaVersion: WORKSPACE_BACKUP_SCHEMA_VERSION,
+      app: 'questora',
+      exportedAt: new Date().toISOString(),
+      includesSupabase,
+      questionnaires: this.unionById(
+        includesSupabase ? await SupabaseQuestionnaireService.getAllQuestionnaires() : [],
+        QuestionnaireStorage.getAllQuestionnaires()
+      ),
+      courses: this.unionById(
+        includesSupabase ? await SupabaseCourseService.getAllCourses() : [],
+        CourseManager.getAllCourses()
+      ),
+      responses: this.unionById(
+        includesSupabase ? await SupabaseResponseService.getAllResponses() : [],
+        HybridResponseStorage.getLocalResponses()
+      ),
+      guestAssignments: SupabaseGuestAssignmentService.getLocalAssignments(),
+      sharedGuestAssignments,
+      localState: this.readLocalState()
+    };
+
+    console.log('✅ Workspace backup created:', {
+      questionnaires: backup.questionnaires.length,
+      courses: backup.courses.length,
+      responses: backup.responses.length
+    });
+    return backup;
+  }
+
+  static toBlob(backup: WorkspaceBackup): { blob: Blob; fileName: string } {
+    return {
+      blob: new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+      fileName: `questora-backup-${backup.exportedAt.slice(0, 10)}.json`
+    };
+  }
+
+  // Checks the layout before anything is written, so a damaged or foreign file never
+  // half-restores. Unknown localStorage keys are rejected rather than written blindly
+  static validate(content: string): BackupValidation {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { backup: null, errors: ['The file is not valid JSON'] };
+    }
+
+    if (!this.isRecord(data) || data.app !== 'questora') {
+      return { backup: null, errors: ['The file is not a Questora workspace backup'] };
+    }
+    if (typeof data.schemaVersion !== 'number' || !Number.isInteger(data.schemaVersion) || data.schemaVersion < 1) {
+      return { backup: null, errors: ['The backup has no valid schema version'] };
+    }
+    if (data.schemaVersion > WORKSPACE_BACKUP_SCHEMA_VERSION) {
+      return {
+        backup: null,
+        errors: [`The backup uses schema version ${data.schemaVersion}, but this app reads up to version ${WORKSPACE_BACKUP_SCHEMA_VERSION}. Update the app before restoring it.`]
+      };
+    }
+
+    const errors: string[] = [];
+    for (const [collection, fields] of Object.entries(REQUIRED_FIELDS)) {
+      const items = data[collection];
+      if (!Array.isArray(items)) {
+        errors.push(`${collection}: expected a list`);
+        continue;
+      }
+      const seen = new Set<string>();
+      items.forEach((item, index) => {
+        if (!this.isRecord(item)) {
+          errors.push(`${collection}[${index}]: expected an object`);
+          return;
+        }
+        for (const [field, type] of Object.entries(fields)) {
+          const value = item[field];
+          const valid = type === 'array' ? Array.isArray(value) : typeof value === type && value !== '';
+          if (!valid) {
+            errors.push(`${collection}[${index}]: "${field}" must be ${type === 'array' ? 'a list' : `a ${type}`}`);
+          }
+        }
+        const key = this.entryKey(collection as BackupCollection, item);
+        if (seen.has(key)) {
+          errors.push(`${collection}[${index}]: "${key}" appears more than once`);
+        }
+        seen.add(key);
+      });
+    }
+
+    if (!this.isRecord(data.localState)) {
+      errors.push('localState: expected an object');
+    } else {
+      for (const [key, value] of Object.entries(data.localState)) {
+        if (!this.isLocalStateKey(key)) {
+          errors.push(`localState: "${key}" is not a key a backup may restore`);
+        } else if (typeof value !== 'string') {
+          errors.push(`localState: "${key}" must be a string`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return { backup: null, errors };
+    }
+    return {
+      backup: { ...data, includesSupabase: data.includesSupabase === true } as unknown as WorkspaceBackup,
+      errors
+    };
+  }
+
+  static async previewRestore(backup: WorkspaceBackup): Promise<RestorePreview> {
+    const current = await this.createBackup();
+    return {
+      supabaseAvailable: current.includesSupabase,
+      collections: BACKUP_COLLECTIONS.map(({ value }) => {
+        const diff = this.diff(current, backup, value);
+        return {
+          collection: value,
+          added: diff.added.length,
+          conflicts: diff.conflicts.map(entry => entry.label),
+          unchanged: diff.unchanged.length,
+          removed: diff.removed.length
+        };
+      })
+    };
+  }
+
+  static async restore(backup: WorkspaceBackup, mode: RestoreMode): Promise<RestoreResult> {
+    const replace = mode === 'replace';
+    const current = await this.createBackup();
+    const result: RestoreResult = { written: 0, removed: 0, warnings: [] };
+    const plan = (collection: BackupCollection) => {
+      const diff = this.diff(current, backup, collection);
+      return {
+        write: replace ? [...diff.added, ...diff.conflicts] : diff.added,
+        remove: replace ? diff.removed : []
+      };
+    };
+    console.log(`♻️ Restoring workspace backup from ${backup.exportedAt} (${mode})`);
+
+    // Tests and courses go through the hybrid storages, which write Supabase when they can
+    const questionnaires = plan('questionnaires');
+    for (const entry of questionnaires.write) {
+      await HybridQuestionnaireStorage.saveQuestionnaire(entry.value as Questionnaire);
+    }
+    for (const entry of questionnaires.remove) {
+      await HybridQuestionnaireStorage.deleteQuestionnaire(entry.key);
+    }
+
+    const courses = plan('courses');
+    for (const entry of courses.write) {
+      await HybridCourseManager.saveCourse(entry.value as Course);
+    }
+    for (const entry of courses.remove) {
+      await HybridCourseManager.deleteCourse(entry.key);
+    }
+
+    const responses = plan('responses');
+    HybridResponseStorage.setLocalResponses(this.applyPlan(
+      'responses',
+      HybridResponseStorage.getLocalResponses(),
+      responses.write.map(entry => entry.value as QuestionnaireResponse),
+      responses.remove
+    ));
+
+    const guestAssignments = plan('guestAssignments');
+    SupabaseGuestAssignmentService.setLocalAssignments(this.applyPlan(
+      'guestAssignments',
+      current.guestAssignments,
+      guestAssignments.write.map(entry => entry.value as GuestAssignment),
+      guestAssignments.remove
+    ));
+
+    const localState = plan('localState');
+    localState.write.forEach(entry => localStorage.setItem(entry.key, entry.value as string));
+    localState.remove.forEach(entry => localStorage.removeItem(entry.key));
+
+    const planned = [questionnaires, courses, responses, guestAssignments, localState];
+    if (current.includesSupabase) {
+      planned.push(plan('sharedGuestAssignments'));
+    }
+    result.written = planned.reduce((sum, step) => sum + step.write.length, 0);
+    result.removed = planned.reduce((sum, step) => sum + step.remove.length, 0);
+
+    // Other users' responses and assignments need the admin restore functions in Supabase
+    if (current.includesSupabase) {
+      try {
+        await SupabaseResponseService.restoreResponses(
+          backup.responses.filter(response => UUID_PATTERN.test(response.id)),
+          replace
+        );
+      } catch (error) {
+        result.warnings.push(`Responses were restored on this browser only: ${this.errorMessage(error)}`);
+      }
+      try {
+        await SupabaseGuestAssignmentService.restoreAssignments(backup.sharedGuestAssignments, replace);
+      } catch (error) {
+        result.warnings.push(`Set assignments were not restored to Supabase: ${this.errorMessage(error)}`);
+      }
+    } else {
+      result.warnings.push('Offline or signed out: the backup was restored on this browser only. Restore again when signed in to write it to Supabase.');
+    }
+
+    console.log('✅ Workspace backup restored:', result);
+    return result;
+  }
+
+  // ---- Helpers ----
+
+  private static readLocalState(): Record<string, string> {
+    const state: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const value = key ? localStorage.getItem(key) : null;
+      if (key && value !== null && this.isLocalStateKey(key)) {
+        state[key] = value;
+      }
+    }
+    return state;
+  }
+
+  private static isLocalStateKey(key: string): boolean {
+    return LOCAL_STATE_KEYS.includes(key) || LOCAL_STATE_PREFIXES.some(prefix => key.startsWith(prefix));
+  }
+
+  private static unionById<T extends { id: string }>(primary: T[], secondary: T[]): T[] {
+    const ids = new Set(primary.map(item => item.id));
+    return [...primary, ...secondary.filter(item => !ids.has(item.id))];
+  }
+
+  // Items kept from the workspace, with written ones swapped in and removed ones dropped
+  private static applyPlan<T>(collection: BackupCollection, items: T[], write: T[], remove: BackupEntry[]): T[] {
+    const keyOf = (item: T) => this.entryKey(collection, item as unknown as Record<string, unknown>);
+    const dropped = new Set([...write.map(keyOf), ...remove.map(entry => entry.key)]);
+    return [...items.filter(item => !dropped.has(keyOf(item))), ...write];
+  }
+
+  private static diff(current: WorkspaceBackup, backup: WorkspaceBackup, collection: BackupCollection): CollectionDiff {
+    const existing = new Map(this.entries(current, collection).map(entry => [entry.key, entry]));
+    const incoming = this.entries(backup, collection);
+    const incomingKeys = new Set(incoming.map(entry => entry.key));
+    const diff: CollectionDiff = { added: [], conflicts: [], unchanged: [], removed: [] };
+
+    for (const entry of incoming) {
+      const match = existing.get(entry.key);
+      if (!match) {
+        diff.added.push(entry);
+      } else if (this.stableStringify(match.value) !== this.stableStringify(entry.value)) {
+        diff.conflicts.push(entry);
+      } else {
+        diff.unchanged.push(entry);
+      }
+    }
+    diff.removed = Array.from(existing.values()).filter(entry => !incomingKeys.has(entry.key));
+    return diff;
+  }
+
+  private static entries(backup: WorkspaceBackup, collection: BackupCollection): BackupEntry[] {
+    switch (collection) {
+      case 'questionnaires':
+        return backup.questionnaires.map(questionnaire => ({
+          key: questionnaire.id,
+          label: questionnaire.totalSets > 1 ? `${questionnaire.title} (set ${questionnaire.setNumber})` : questionnaire.title,
+          value: questionnaire
+        }));
+      case 'courses':
+        return backup.courses.map(course => ({ key: course.id, label: course.name, value: course }));
+      case 'responses':
+        return backup.responses.map(response => ({
+          key: response.id,
+          label: `${response.username}, ${new Date(response.submittedAt).toLocaleString()}`,
+          value: response
+        }));
+      case 'guestAssignments':
+      case 'sharedGuestAssignments':
+        return backup[collection].map(assignment => ({
+          key: this.entryKey(collection, assignment as unknown as Record<string, unknown>),
+          label: `${assignment.testId}: set ${assignment.setNumber}`,
+          value: assignment
+        }));
+      case 'localState':
+        return Object.entries(backup.localState).map(([key, value]) => ({ key, label: key, value }));
+    }
+  }
+
+  // Assignments have no id of their own: a guest has one per test
+  private static entryKey(collection: BackupCollection, item: Record<string, unknown>): string {
+    return collection === 'guestAssignments' || collection === 'sharedGuestAssignments'
+      ? `${item.testId}:${item.guestId}`
+      : String(item.id);
+  }
+
+  // Key order differs between Supabase and localStorage copies, so keys are sorted before comparing
+  private static stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_, nested) => this.isRecord(nested)
+      ? Object.keys(nested).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = nested[key];
+        return sorted;
+      }, {})
+      : nested);
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static errorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    return this.isRecord(error) && typeof error.message === 'string' ? error.message : 'unknown error';
+  }
+}
@@ -1,11 +1,29 @@
 
-import { ApiKeyManager } from './ApiKeyManager';
+import { LlmSettingsService } from '../llm/LlmSettingsService';
+import { LlmChatRequest, LlmContentPart, LlmMessage } from '../llm/LlmTypes';
 import { ValidationService } from './ValidationService';
 import { ErrorHandler } from './ErrorHandler';
 import { RecoveryService } from './RecoveryService';
 
+// Request shape the generation services build, following the OpenAI Chat Completions API
+interface ChatCompletionPart {
+  type: string;
+  text?: string;
+  image_url?: { url?: string };
+  filename?: string;
+  file_data?: string;
+  file?: { filename?: string; file_data?: string };
+}
+
+interface ChatCompletionPayload {
+  model: string;
+  messages?: { role: LlmMessage['role']; content: string | ChatCompletionPart[] }[];
+  max_tokens?: number;
+  temperature?: number;
+  response_format?: { type: string };
+}
+
 export class ApiCallService {
-  private static readonly OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
   private static readonly MAX_RETRIES = 3;
   private static readonly RETRY_DELAY = 1000;
   private static readonly REQUEST_TIMEOUT = 60000; // 60 seconds
@@ -18,15 +36,11 @@ export class ApiCallService {
   }
 
   private static async performApiCall(payload: any, context: string): Promise<string> {
-    const apiKey = ApiKeyManager.getApiKey();
-    
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+    const provider = LlmSettingsService.getActiveProvider();
+    const config = LlmSettingsService.getProviderConfig();
 
-    // Validate API key format
-    if (!apiKey.startsWith('sk-') || apiKey.length < 40) {
-      throw new Error('Invalid OpenAI API key format');
+    if (provider.requiresApiKey && !config.apiKey) {
+      throw new Error(`${provider.label} API key not configured`);
     }
 
     // Final validation before sending
@@ -40,12 +54,15 @@ export class ApiCallService {
       console.warn(`⚠️ ${context} - Payload warnings:`, validation.warnings);
     }
 
+    const request = this.toChatRequest(payload, context);
+
     console.log(`📤 ${context} - Sending request:`, {
-      model: payload.model,
-      messagesCount: payload.messages?.length || 0,
-      maxTokens: payload.max_tokens,
-      temperature: payload.temperature,
-      hasResponseFormat: !!payload.response_format,
+      provider: provider.id,
+      model: request.model,
+      messagesCount: request.messages.length,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      jsonMode: !!request.jsonMode,
       timestamp: new Date().toISOString()
     });
 
@@ -59,106 +76,23 @@ export class ApiCallService {
     const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
 
     try {
-      const response = await fetch(this.OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal
-      });
+      const response = await provider.chat(request, config, controller.signal);
 
       clearTimeout(timeoutId);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorData;
-        
-        try {
-          errorData = JSON.parse(errorText);
-        } catch {
-          errorData = { error: { message: errorText } };
-        }
-
-        const errorMessage = errorData.error?.message || errorText || 'Unknown error';
-        
-        console.error(`❌ ${context} - API Error:`, {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorMessage,
-          headers: Object.fromEntries(response.headers.entries()),
-          payload: {
-            model: payload.model,
-            messagesCount: payload.messages?.length,
-            maxTokens: payload.max_tokens
-          }
-        });
-
-        // Enhanced error message based on status
-        let enhancedMessage = `OpenAI API request failed: ${response.status} - ${response.statusText}`;
-        
-        switch (response.status) {
-          case 400:
-            enhancedMessage += `. Invalid request: ${errorMessage}`;
-            break;
-          case 401:
-            enhancedMessage += '. Please check your API key in settings.';
-            break;
-          case 403:
-            enhancedMessage += '. Access forbidden. Check your API key permissions.';
-            break;
-          case 429:
-            enhancedMessage += '. Rate limit exceeded. Please wait and try again.';
-            break;
-          case 500:
-          case 502:
-          case 503:
-          case 504:
-            enhancedMessage += '. OpenAI server error. Please try again later.';
-            break;
-          default:
-            enhancedMessage += `. ${errorMessage}`;
-        }
-
-        const error = new Error(enhancedMessage);
-        throw error;
-      }
-
-      const data = await response.json();
-      
-      // Validate response structure
-      if (!data) {
-        throw new Error('Empty response from OpenAI API');
-      }
-      
-      if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-        throw new Error('Invalid response format: no choices array');
-      }
-      
-      if (!data.choices[0] || !data.choices[0].message) {
-        throw new Error('Invalid response format: no message in first choice');
-      }
-
-      const content = data.choices[0].message.content;
-      
-      if (!content && content !== '') {
-        throw new Error('No content in OpenAI API response');
-      }
-
       // Log successful response
       console.log(`✅ ${context} - Success:`, {
-        responseLength: content.length,
-        finishReason: data.choices[0].finish_reason,
-        usage: data.usage,
-        model: data.model,
+        responseLength: response.content.length,
+        finishReason: response.finishReason,
+        usage: response.usage,
+        model: response.model,
         timestamp: new Date().toISOString()
       });
 
       // Clear recovery data on success
       RecoveryService.clearRecoveryItem(`last_request_${context}`);
       
-      return content;
+      return response.content;
 
     } catch (error: any) {
       clearTimeout(timeoutId);
@@ -182,6 +116,60 @@ export class ApiCallService {
     }
   }
 
+  // Callers build Chat Completions style payloads; this turns them into the provider-neutral request
+  private static toChatRequest(payload: ChatCompletionPayload, context: string): LlmChatRequest {
+    const messages: LlmMessage[] = (payload.messages || []).map(message => ({
+      role: message.role,
+      content: Array.isArray(message.content)
+        ? message.content.map((part: ChatCompletionPart) => this.toContentPart(part)).filter((part): part is LlmContentPart => part !== null)
+        : String(message.content ?? '')
+    }));
+
+    return {
+      model: payload.model,
+      messages,
+      maxTokens: payload.max_tokens,
+      temperature: payload.temperature,
+      jsonMode: payload.response_format?.type === 'json_object',
+      label: context
+    };
+  }
+
+  private static toContentPart(part: ChatCompletionPart): LlmContentPart | null {
+    if (part.type === 'text' || part.type === 'input_text') {
+      return { type: 'text', text: part.text || '' };
+    }
+    if (part.type === 'image_url') {
+      const { mediaType, data } = this.splitDataUrl(part.image_url?.url || '', 'image/jpeg');
+      return { type: 'image', mediaType, data };
+    }
+    if (part.type === 'input_file' || part.type === 'file') {
+      const file = (part.type === 'file' ? part.file : part) || {};
+      const filename = file.filename || 'document';
+      const { mediaType, data } = this.splitDataUrl(file.file_data || '', this.guessMediaType(filename));
+      return { type: 'file', filename, mediaType, data };
+    }
+    console.warn('⚠️ Dropping unsupported content part:', part.type);
+    return null;
+  }
+
+  private static splitDataUrl(value: string, fallbackMediaType: string): { mediaType: string; data: string } {
+    const match = value.match(/^data:([^;]+);base64,(.*)$/s);
+    return match ? { mediaType: match[1], data: match[2] } : { mediaType: fallbackMediaType, data: value };
+  }
+
+  private static guessMediaType(filename: string): string {
+    const extension = filename.split('.').pop()?.toLowerCase();
+    switch (extension) {
+      case 'pdf': return 'application/pdf';
+      case 'png': return 'image/png';
+      case 'jpg':
+      case 'jpeg': return 'image/jpeg';
+      case 'txt': return 'text/plain';
+      default: return 'application/octet-stream';
+    }
+  }
+
   private static isRetryableError(error: Error): boolean {
     const message = error.message.toLowerCase();
     return message.includes('network') || 
@@ -199,7 +187,7 @@ export class ApiCallService {
     
     try {
       const testPayload = {
-        model: 'gpt-4.1-2025-04-14',
+        model: LlmSettingsService.getModel('question-generation'),
         messages: [{ role: 'user', content: 'Test connection' }],
         max_tokens: 5
       };
@@ -1,23 +1,23 @@
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 
+// Keys belong to the provider selected in settings; OpenAI keeps its original storage slot
 class ApiKeyManagerClass {
   public hasApiKey(): boolean {
-    const apiKey = localStorage.getItem('openai_api_key');
-    return !!apiKey;
+    return LlmSettingsService.isConfigured();
   }
 
   public setApiKey(apiKey: string): void {
-    localStorage.setItem('openai_api_key', apiKey);
+    LlmSettingsService.setApiKey(apiKey);
   }
 
   public clearApiKey(): void {
-    localStorage.removeItem('openai_api_key');
+    LlmSettingsService.clearApiKey();
   }
 
   public getApiKey(): string {
-    const apiKey = localStorage.getItem('openai_api_key');
-    if (!apiKey) {
-      console.warn('No OpenAI API key found in localStorage. Please set it in the settings.');
-      return '';
+    const apiKey = LlmSettingsService.getApiKey();
+    if (!apiKey && LlmSettingsService.getActiveProvider().requiresApiKey) {
+      console.warn('No API key found for the selected AI provider. Please set it in the settings.');
     }
     return apiKey;
   }
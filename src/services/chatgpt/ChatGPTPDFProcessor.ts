@@ -1,7 +1,7 @@
 
 import { ApiKeyManager } from './ApiKeyManager';
 import { ApiCallService } from './ApiCallService';
-import { PDFTextExtractor } from './PDFTextExtractor';
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 
 export class ChatGPTPDFProcessor {
   static async processPDFWithChatGPT(file: File): Promise<{
@@ -119,7 +119,7 @@ This is for course generation - I need the COMPLETE, DETAILED content to create
       ];
 
       const requestBody = {
-        model: 'gpt-4.1-2025-04-14',
+        model: LlmSettingsService.getModel('document-extraction'),
         messages,
         max_tokens: 12000, // Significantly increased for complete extraction
         temperature: 0.0, // Maximum accuracy
@@ -186,26 +186,4 @@ This is for course generation - I need the COMPLETE, DETAILED content to create
       reader.readAsDataURL(file);
     });
   }
-
-  static async extractTextWithFallback(file: File): Promise<string> {
-    try {
-      const result = await this.processPDFWithChatGPT(file);
-      return result.content;
-    } catch (error) {
-      console.error('ChatGPT PDF processing failed:', error);
-      
-      // Try direct text extraction as last resort
-      try {
-        console.log('🔄 Attempting direct PDF text extraction as fallback...');
-        const directText = await PDFTextExtractor.extractTextFromPDF(file);
-        if (directText && directText.length > 200) {
-          return directText;
-        }
-      } catch (directError) {
-        console.error('Direct extraction also failed:', directError);
-      }
-      
-      throw new Error(`PDF processing completely failed. The file "${file.name}" may be image-based, corrupted, or password-protected. Please ensure the PDF contains selectable text.`);
-    }
-  }
 }
@@ -1,13 +1,10 @@
 
-import { ApiKeyManager } from './ApiKeyManager';
+import { ApiCallService } from './ApiCallService';
 import { ContentValidator } from './ContentValidator';
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 
 export class ContentEnhancementService {
-  private readonly OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-
   async enhanceTextContent(textContent: string, userPrompt: string = ''): Promise<string> {
-    const apiKey = ApiKeyManager.getApiKey();
-    
     try {
       const organizationPrompt = userPrompt 
         ? `USER REQUEST: "${userPrompt}"
@@ -27,35 +24,23 @@ Organize the content now:`
 
 ${textContent}`;
 
-      const response = await fetch(this.OPENAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4.1-2025-04-14',
-          messages: [
-            {
-              role: 'system',
-              content: 'You organize content while preserving source integrity. You NEVER add information, frameworks, or educational terminology not present in the source. You follow user structural requests while staying within source boundaries.'
-            },
-            {
-              role: 'user',
-              content: organizationPrompt
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.1
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const enhancedContent = data.choices[0]?.message?.content || textContent;
+      const response = await ApiCallService.makeApiCall({
+        model: LlmSettingsService.getModel('content-enhancement'),
+        messages: [
+          {
+            role: 'system',
+            content: 'You organize content while preserving source integrity. You NEVER add information, frameworks, or educational terminology not present in the source. You follow user structural requests while staying within source boundaries.'
+          },
+          {
+            role: 'user',
+            content: organizationPrompt
+          }
+        ],
+        max_tokens: 2000,
+        temperature: 0.1
+      }, 'CONTENT_ENHANCEMENT');
+
+      const enhancedContent = response || textContent;
       
       if (ContentValidator.validateContentIntegrity(textContent, enhancedContent)) {
         return enhancedContent;
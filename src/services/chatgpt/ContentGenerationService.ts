@@ -1,6 +1,7 @@
 
 import { PayloadValidator } from './PayloadValidator';
 import { ApiCallService } from './ApiCallService';
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 
 export class ContentGenerationService {
   async generateContent(prompt: string, fileContent: string = ''): Promise<string> {
@@ -59,7 +60,7 @@ Generate focused content based strictly on this request. Do not add generic educ
     ];
 
     const maxTokens = 2000;
-    const model = 'gpt-4.1-2025-04-14';
+    const model = LlmSettingsService.getModel('course-generation');
 
     // VALIDATE: Ensure payload is properly structured
     const payloadValidation = PayloadValidator.validateAndPreparePayload(model, messages, maxTokens);
@@ -283,7 +284,7 @@ Use this fallback only if there is no usable instructional content at all:
     ];
 
     const maxTokens = 6000; // Increased significantly for comprehensive content
-    const model = 'gpt-4.1-2025-04-14';
+    const model = LlmSettingsService.getModel('course-generation');
 
     // VALIDATE: Ensure payload is properly structured
     const payloadValidation = PayloadValidator.validateAndPreparePayload(model, messages, maxTokens);
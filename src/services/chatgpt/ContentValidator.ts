@@ -1,3 +1,5 @@
+import { Question, SourceCheck } from '../questionnaire/QuestionnaireTypes';
+
 
 export class ContentValidator {
   static validateFileContentQuality(content: string): boolean {
@@ -55,79 +57,60 @@ export class ContentValidator {
     return isValid;
   }
 
-  static strictValidateQuestionAgainstContent(question: any, fileContent: string): boolean {
-    if (!question || !question.question || !fileContent) {
-      console.log('❌ VALIDATION: Missing question or file content');
-      return false;
+  // The answer has to be findable in the passages the question cites. The comparison is by
+  // words, so it runs on the question as generated, before any translation.
+  static checkAnswerInSources(question: Question, passages: string[]): SourceCheck {
+    if (passages.length === 0) {
+      return 'uncited';
     }
 
-    const questionText = question.question.toLowerCase();
-    const contentLower = fileContent.toLowerCase();
-    
-    // Extract meaningful terms from question (excluding stop words)
-    const questionWords = questionText.split(/\s+/)
-      .filter(word => word.length > 3 && /^[a-zA-Z]+$/.test(word))
-      .filter(word => !this.isStopWord(word));
-
-    // Count how many key terms from the question appear in the content
-    let termMatches = 0;
-    let totalTerms = 0;
-    
-    for (const word of questionWords) {
-      totalTerms++;
-      // Check for exact match and common variations
-      if (contentLower.includes(word) || 
-          contentLower.includes(word.substring(0, word.length - 1)) || // Handle plurals
-          contentLower.includes(word + 's') || 
-          contentLower.includes(word + 'ed') || 
-          contentLower.includes(word + 'ing')) {
-        termMatches++;
+    const sourceText = passages.join('\n');
+    const sourceTerms = new Set(this.contentTerms(sourceText));
+    const coverage = (answer: string): number => {
+      const terms = this.contentTerms(answer);
+      if (terms.length === 0) {
+        // Answers made only of short or common words are looked for verbatim
+        return answer.trim() && sourceText.toLowerCase().includes(answer.trim().toLowerCase()) ? 1 : 0;
       }
+      return terms.filter(term => sourceTerms.has(term)).length / terms.length;
+    };
+
+    const answers = this.answerTexts(question).filter(answer => answer.trim().length > 0);
+    const scores = answers.map(coverage);
+    // Every correct option of a multiple-select question must be supported; any accepted answer will do
+    const score = scores.length === 0 ? 0 : question.type === 'multiple-select' ? Math.min(...scores) : Math.max(...scores);
+    const status: SourceCheck = score >= 0.75 ? 'supported' : score >= 0.4 ? 'partial' : 'unsupported';
+
+    if (status !== 'supported') {
+      console.log('⚠️ SOURCE CHECK:', {
+        question: question.text.substring(0, 80) + '...',
+        answers,
+        coverage: score.toFixed(2),
+        status
+      });
     }
 
-    // Calculate match ratio
-    const matchRatio = totalTerms > 0 ? termMatches / totalTerms : 0;
-    
-    // Check options for content alignment
-    let optionMatches = 0;
-    if (question.options && Array.isArray(question.options)) {
-      for (const option of question.options) {
-        if (typeof option === 'string') {
-          const optionWords = option.toLowerCase().split(/\s+/)
-            .filter(word => word.length > 3 && /^[a-zA-Z]+$/.test(word))
-            .filter(word => !this.isStopWord(word));
-          
-          for (const word of optionWords) {
-            if (contentLower.includes(word)) {
-              optionMatches++;
-              break; // Count each option only once
-            }
-          }
-        }
-      }
+    return status;
+  }
+
+  private static answerTexts(question: Question): string[] {
+    const correctIndices = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer];
+    switch (question.type) {
+      case 'text':
+        return question.acceptedAnswers || [];
+      case 'boolean':
+        // A true/false statement is checked as a whole, whichever way it is answered
+        return [question.text];
+      default:
+        return correctIndices.map(index => question.options[index]).filter((option): option is string => typeof option === 'string');
     }
+  }
 
-    // SIGNIFICANTLY MORE LENIENT validation criteria
-    const hasMinimumAlignment = matchRatio >= 0.1 || termMatches >= 1; // Much more lenient
-    const hasOptionAlignment = optionMatches >= 1 || question.options?.length >= 3; // Accept if has options
-    const isNotTooGeneric = questionText.length > 20; // Basic length check only
-    
-    const isValid = hasMinimumAlignment && hasOptionAlignment && isNotTooGeneric;
-    
-    console.log(isValid ? '✅ QUESTION VALIDATED:' : '❌ QUESTION REJECTED:', {
-      question: questionText.substring(0, 80) + '...',
-      matchRatio: matchRatio.toFixed(2),
-      termMatches,
-      totalTerms,
-      optionMatches,
-      hasMinimumAlignment,
-      hasOptionAlignment,
-      isNotTooGeneric,
-      isValid,
-      validationMode: 'LENIENT'
-    });
-    
-    return isValid;
+  private static contentTerms(text: string): string[] {
+    return text.toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => (word.length > 2 || /\d/.test(word)) && !this.isStopWord(word))
+      .map(word => word.length > 4 ? word.replace(/(?:ing|ed|es|s)$/, '') : word);
   }
 
   private static isStopWord(word: string): boolean {
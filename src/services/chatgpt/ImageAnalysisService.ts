@@ -1,6 +1,7 @@
 
 import { PayloadValidator } from './PayloadValidator';
 import { ApiCallService } from './ApiCallService';
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 
 export class ImageAnalysisService {
   async analyzeImage(base64Image: string, prompt: string): Promise<string> {
@@ -47,7 +48,7 @@ export class ImageAnalysisService {
     ];
 
     const maxTokens = 1500;
-    const model = 'gpt-4o';
+    const model = LlmSettingsService.getModel('image-analysis');
 
     // VALIDATE: Ensure payload is properly structured for vision
     const payloadValidation = PayloadValidator.validateAndPreparePayload(model, messages, maxTokens);
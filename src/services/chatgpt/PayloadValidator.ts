@@ -2,13 +2,6 @@
 import { ValidationService } from './ValidationService';
 
 export class PayloadValidator {
-  // Conservative token limits to prevent 400 errors
-  private static readonly TOKEN_LIMITS = {
-    'gpt-4.1-2025-04-14': 120000,
-    'gpt-4o': 120000,
-    'gpt-3.5-turbo': 15000
-  };
-
   private static readonly WORDS_PER_TOKEN = 0.75;
 
   static validateAndPreparePayload(
@@ -3,91 +3,284 @@ import { ApiKeyManager } from './ApiKeyManager';
 import { ContentValidator } from './ContentValidator';
 import { PayloadValidator } from './PayloadValidator';
 import { ApiCallService } from './ApiCallService';
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 import { InputSanitizer } from './InputSanitizer';
 import { RecoveryService } from './RecoveryService';
 import { ErrorHandler } from './ErrorHandler';
 import { QuestionnaireStorage } from '../questionnaire/QuestionnaireStorage';
+import { COGNITIVE_LEVELS, CognitiveLevel, Question, QuestionAction, QuestionTargeting, QuestionType, BOOLEAN_OPTIONS } from '../questionnaire/QuestionnaireTypes';
+import { SourceCitation, SourceDocument, SourceDocuments } from '../extraction/SourceDocument';
+import { ContentSplitter, SourceChunk } from '../course/ContentSplitter';
+import { DuplicateDetector } from '../questionnaire/DuplicateDetector';
+
+interface RawGeneratedQuestion {
+  type?: string;
+  question: string;
+  options?: unknown;
+  correctAnswer?: unknown;
+  correct_answer?: unknown;
+  correct_answers?: unknown;
+  acceptedAnswers?: unknown;
+  accepted_answers?: unknown;
+  explanation?: string;
+  source_refs?: unknown;
+  sourceRefs?: unknown;
+  cognitive_level?: unknown;
+  objective?: unknown;
+}
+
+export interface GeneratedQuestion {
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correctAnswer: number | number[];
+  acceptedAnswers?: string[];
+  explanation: string;
+  sourceRefs: string[]; // Passage markers from the prompt, resolved against the same source documents
+  cognitiveLevel?: CognitiveLevel;
+  objective?: string;
+}
+
+export interface QuestionRefinementRequest {
+  action: QuestionAction;
+  question: Question;
+  otherQuestions: string[]; // The rest of the set, which the new questions must not repeat
+  citations: SourceCitation[]; // Passed as [C1], [C2]...; source_refs in the reply index into this list
+  difficulty: 'easy' | 'medium' | 'hard';
+  count: number; // How many questions 'more-like-this' writes; the other actions write one
+}
+
+const REFINEMENT_INSTRUCTIONS: Record<QuestionAction, (count: number, difficulty: string) => string> = {
+  'regenerate': (_, difficulty) =>
+    `Write 1 new ${difficulty} question to replace the question below. Test a different fact or angle from the same passages; do not just reword it.`,
+  'harder': () =>
+    'Rewrite the question below so it is harder: ask the reader to apply or combine ideas from the passages instead of recalling a single fact, and make the wrong choices more plausible. Keep the same topic.',
+  'easier': () =>
+    'Rewrite the question below so it is easier: test one clearly stated fact in plain wording, with wrong choices that are clearly wrong to someone who has read the passages. Keep the same topic.',
+  'more-like-this': (count) =>
+    `Write ${count} new question${count === 1 ? '' : 's'} like the one below: same type, topic and difficulty, each testing a different fact from the passages.`,
+  'improve-distractors': () =>
+    'Keep the question text and its correct answer(s) exactly as they are. Replace the wrong choices with plausible distractors: common misconceptions or near misses drawn from the passages, similar in length and style to the correct answer, and none of them also correct.'
+};
+
+// Sources longer than this are split by section and each part gets its own request, so no
+// part of a long manual is lost to the model's context limit
+const MAX_CHUNK_LENGTH = 20000;
+// Chunk requests in flight at once; more mostly trips provider rate limits
+const MAX_CONCURRENT_CHUNKS = 3;
 
 export class QuestionGenerationService {
   async generateQuestions(
     prompt: string,
     numberOfQuestions: number,
     difficulty: 'easy' | 'medium' | 'hard',
-    fileContent: string = '',
+    sources: SourceDocument[] = [],
     setNumber: number = 1,
-    totalSets: number = 1
+    totalSets: number = 1,
+    questionTypes: QuestionType[] = ['multiple-choice'],
+    avoidQuestions: string[] = [],
+    targeting: QuestionTargeting = {}
   ): Promise<any[]> {
     const language = LanguageService.getCurrentLanguage();
 
     console.log('🔍 GENERATING QUESTIONS WITH FILE SUPPORT:', {
       prompt: prompt.substring(0, 100) + '...',
       requestedQuestions: numberOfQuestions,
-      hasFileContent: !!fileContent,
-      fileContentLength: fileContent.length,
+      sourceFiles: sources.map(source => source.fileName),
+      sourceLength: SourceDocuments.textLength(sources),
       setNumber,
       totalSets,
       difficulty,
+      questionTypes,
+      avoidQuestionsCount: avoidQuestions.length,
+      targeting,
       language
     });
 
     try {
       if (!ApiKeyManager.hasApiKey()) {
-        throw new Error('OpenAI API key not configured. Please set your API key in settings.');
-      }
-
-      // Check if we have file content that looks like it contains base64 data
-      const hasFileData = fileContent.includes('=== File:') && fileContent.includes('base64');
-      
-      if (hasFileData) {
-        console.log('📄 Detected file data in content, using structured format');
-        return await this.generateQuestionsWithFileData(
-          prompt,
-          numberOfQuestions,
-          difficulty,
-          fileContent,
-          setNumber,
-          totalSets,
-          language
-        );
-      } else {
-        console.log('📝 Using text-only format');
-        return await this.generateQuestionsTextOnly(
-          prompt,
-          numberOfQuestions,
-          difficulty,
-          fileContent,
-          setNumber,
-          totalSets,
-          language
-        );
+        throw new Error('AI provider not configured. Please set it up in settings.');
       }
 
+      return await this.generateQuestionsFromSources(
+        numberOfQuestions,
+        difficulty,
+        sources,
+        questionTypes,
+        avoidQuestions,
+        targeting
+      );
     } catch (error) {
       console.error('❌ Question generation failed:', error);
       throw error;
     }
   }
 
-  private async generateQuestionsWithFileData(
-    prompt: string,
+  private async generateQuestionsFromSources(
     numberOfQuestions: number,
     difficulty: 'easy' | 'medium' | 'hard',
-    fileContent: string,
-    setNumber: number,
-    totalSets: number,
-    language: string
+    sources: SourceDocument[],
+    questionTypes: QuestionType[],
+    avoidQuestions: string[],
+    targeting: QuestionTargeting
   ): Promise<any[]> {
-    console.log('🚀 GENERATING QUESTIONS WITH FILE DATA...');
-    
-    // Extract file information from processed content
-    const fileInfo = this.extractFileInfo(fileContent);
-    
-    if (!fileInfo) {
-      throw new Error('Could not extract file information from content');
+    const chunks = ContentSplitter.splitSourceDocuments(sources, MAX_CHUNK_LENGTH);
+    if (chunks.length <= 1) {
+      return this.generateQuestionsFromText(numberOfQuestions, difficulty, SourceDocuments.toPromptText(sources), questionTypes, avoidQuestions, targeting);
+    }
+    return this.generateQuestionsFromChunks(numberOfQuestions, difficulty, chunks, questionTypes, avoidQuestions, targeting);
+  }
+
+  // Map: each chunk gets a share of the questions proportional to its length. Reduce: the
+  // answers are merged without near-duplicates, and any shortfall is requested once more.
+  private async generateQuestionsFromChunks(
+    numberOfQuestions: number,
+    difficulty: 'easy' | 'medium' | 'hard',
+    chunks: SourceChunk[],
+    questionTypes: QuestionType[],
+    avoidQuestions: string[],
+    targeting: QuestionTargeting
+  ): Promise<GeneratedQuestion[]> {
+    const allocation = this.allocateQuestions(chunks.map(chunk => chunk.text.length), numberOfQuestions);
+    console.log('🧩 GENERATING QUESTIONS PER CHUNK:', {
+      chunks: chunks.length,
+      chunkLengths: chunks.map(chunk => chunk.text.length),
+      allocation
+    });
+
+    let merged = this.mergeUnique(await this.generateForChunks(chunks, allocation, difficulty, questionTypes, avoidQuestions, targeting));
+
+    const missing = numberOfQuestions - merged.length;
+    if (missing > 0) {
+      console.log(`🧩 Topping up ${missing} questions lost to failed chunks or duplicates`);
+      const topUp = this.allocateQuestions(chunks.map(chunk => chunk.text.length), missing);
+      const extra = await this.generateForChunks(chunks, topUp, difficulty, questionTypes, [...avoidQuestions, ...merged.map(q => q.question)], targeting);
+      merged = this.mergeUnique([...merged, ...extra]);
+    }
+
+    if (merged.length === 0) {
+      throw new Error('No questions could be generated from any part of the uploaded content');
+    }
+
+    console.log(`✅ Merged ${merged.length} questions from ${chunks.length} chunks`);
+    return this.shuffleArray(merged).slice(0, numberOfQuestions);
+  }
+
+  // A failed chunk yields no questions rather than failing the whole set; the top-up covers it
+  private async generateForChunks(
+    chunks: SourceChunk[],
+    allocation: number[],
+    difficulty: 'easy' | 'medium' | 'hard',
+    questionTypes: QuestionType[],
+    avoidQuestions: string[],
+    targeting: QuestionTargeting
+  ): Promise<GeneratedQuestion[]> {
+    const chunkMixes = this.splitCognitiveMix(targeting, allocation);
+    const jobs = chunks
+      .map((chunk, index) => ({ chunk, index, count: allocation[index], targeting: { ...targeting, cognitiveMix: chunkMixes[index] } }))
+      .filter(job => job.count > 0);
+
+    const results = await this.mapWithConcurrency(jobs, MAX_CONCURRENT_CHUNKS, async job => {
+      try {
+        return await this.generateQuestionsFromText(job.count, difficulty, job.chunk.text, questionTypes, avoidQuestions, job.targeting);
+      } catch (error) {
+        console.error(`❌ Chunk ${job.index + 1} of ${chunks.length} failed:`, error);
+        return [];
+      }
+    });
+
+    return results.flat();
+  }
+
+  // Chunks often get one or two questions each, which on their own would all round to the
+  // largest level. The levels are dealt out evenly across the whole set instead.
+  private splitCognitiveMix(targeting: QuestionTargeting, allocation: number[]): QuestionTargeting['cognitiveMix'][] {
+    const mix = targeting.cognitiveMix;
+    if (!mix || !COGNITIVE_LEVELS.some(level => (mix[level.value] || 0) > 0)) {
+      return allocation.map(() => mix);
     }
 
-    console.log('📄 Using file:', fileInfo.filename, 'Type:', fileInfo.type);
+    const total = allocation.reduce((a, b) => a + b, 0);
+    const counts = this.allocateQuestions(COGNITIVE_LEVELS.map(level => mix[level.value] || 0), total);
+    const slots = COGNITIVE_LEVELS
+      .flatMap((level, index) => Array.from({ length: counts[index] }, (_, k) => ({ level: level.value, position: (k + 0.5) / counts[index] })))
+      .sort((a, b) => a.position - b.position)
+      .map(slot => slot.level);
+
+    let next = 0;
+    return allocation.map(count => {
+      const chunkMix: QuestionTargeting['cognitiveMix'] = {};
+      slots.slice(next, next + count).forEach(level => {
+        chunkMix[level] = (chunkMix[level] || 0) + 1;
+      });
+      next += count;
+      return chunkMix;
+    });
+  }
+
+  // Largest-remainder apportionment, so the shares always add up to the total
+  private allocateQuestions(weights: number[], total: number): number[] {
+    const sum = weights.reduce((a, b) => a + b, 0);
+    if (sum === 0) {
+      return weights.map((_, index) => index === 0 ? total : 0);
+    }
 
+    const exact = weights.map(weight => weight / sum * total);
+    const allocation = exact.map(Math.floor);
+    let remaining = total - allocation.reduce((a, b) => a + b, 0);
+
+    exact
+      .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach(({ index }) => {
+        if (remaining > 0) {
+          allocation[index]++;
+          remaining--;
+        }
+      });
+
+    return allocation;
+  }
+
+  private mergeUnique(questions: GeneratedQuestion[]): GeneratedQuestion[] {
+    const kept: { question: GeneratedQuestion; shingles: Set<string> }[] = [];
+
+    for (const question of questions) {
+      const shingles = DuplicateDetector.shingles(question.question);
+      const duplicate = kept.some(entry => DuplicateDetector.jaccard(shingles, entry.shingles) >= DuplicateDetector.DEFAULT_THRESHOLD);
+      if (!duplicate) {
+        kept.push({ question, shingles });
+      }
+    }
+
+    return kept.map(entry => entry.question);
+  }
+
+  private async mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+  }
+
+  private async generateQuestionsFromText(
+    numberOfQuestions: number,
+    difficulty: 'easy' | 'medium' | 'hard',
+    sourceText: string,
+    questionTypes: QuestionType[],
+    avoidQuestions: string[],
+    targeting: QuestionTargeting = {}
+  ): Promise<GeneratedQuestion[]> {
+    console.log('🚀 GENERATING QUESTIONS FROM SOURCE DOCUMENTS...');
+    
     const systemPrompt = `You are an AI assistant that generates thoughtful, context-aware questions from any given document. Your goal is to help learners or readers reflect on and understand the key ideas, processes, or information presented in the file.
 
 The content may relate to any topic—technical guides, training manuals, academic papers, policy documents, business plans, or standard operating procedures.
@@ -97,15 +290,16 @@ Your task:
 - Formulate ${numberOfQuestions} meaningful questions
 - Ensure the questions are open-ended, scenario-based, or comprehension-driven
 - Use the terminology and structure of the document appropriately
-- Avoid yes/no or single-word-answer questions unless contextually necessary
+- Avoid yes/no or single-word-answer questions unless the requested question types call for them
 
 IMPORTANT: Each set of questions generated must have its questions presented in random order, regardless of whether the questions are unique or partially repeated across sets. Avoid placing questions in a fixed or sequential flow based on how they appear in the course or source content. This random order should be applied to every set including single-set and multi-set configurations to reduce predictability, prevent copying among guests, and enhance test integrity. The shuffling of question order should be done after the questions are generated and just before final output formatting.
 
 Requirements:
 - Generate exactly ${numberOfQuestions} questions
 - Use ${difficulty} difficulty level
-- Each question has 4 answer choices
-- Base questions on the file content provided
+${this.buildQuestionTypeRequirements(questionTypes)}${this.buildTargetingRequirements(numberOfQuestions, targeting)}${this.buildAvoidRequirement(avoidQuestions)}
+- Base questions on the provided content
+- Each passage of the content starts with a marker such as [S12]; list the markers of the passages that support each question and its answer in source_refs
 - Format each question as a numbered list
 - Return valid JSON format
 - Present questions in random order within the set
@@ -114,147 +308,202 @@ Response format:
 {
   "questions": [
     {
+      "type": "multiple-choice",
       "question": "Question text",
       "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
       "correct_answer": 0,
-      "explanation": "Brief explanation"
+      "correct_answers": [],
+      "accepted_answers": [],
+      "explanation": "Brief explanation",
+      "source_refs": ["S12"],
+      "cognitive_level": "understand",
+      "objective": 1
     }
   ]
 }`;
 
-    const questionText = `Create ${numberOfQuestions} ${difficulty} thoughtful, context-aware questions from the uploaded document content. Focus on helping learners understand and reflect on the key ideas and processes presented. Present the questions in random order within this set.`;
+    const userPrompt = `Create ${numberOfQuestions} ${difficulty} thoughtful, context-aware questions from this document content. Focus on helping learners understand and reflect on the key ideas and processes presented. Present the questions in random order within this set:
+
+${sourceText}
+
+Generate exactly ${numberOfQuestions} questions in JSON format with questions presented in random order.`;
 
-    // Use the correct structured format for file uploads
     const messages = [
       { role: 'system', content: systemPrompt },
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'input_file',
-            filename: fileInfo.filename,
-            file_data: fileInfo.base64Data
-          },
-          {
-            type: 'input_text',
-            text: questionText
-          }
-        ]
-      }
+      { role: 'user', content: userPrompt }
     ];
 
     const requestBody = {
-      model: 'gpt-4.1-2025-04-14',
+      model: LlmSettingsService.getModel('question-generation'),
       messages,
       max_tokens: numberOfQuestions * 200,
       temperature: 0.3,
       response_format: { type: "json_object" }
     };
 
-    console.log('📤 Sending structured file request to ChatGPT...');
-    const content = await ApiCallService.makeApiCall(requestBody, 'FILE-BASED QUESTION GENERATION');
+    console.log('📤 Sending text-only request to ChatGPT...');
+    const content = await ApiCallService.makeApiCall(requestBody, 'TEXT-BASED QUESTION GENERATION');
 
-    return this.processQuestionResponse(content, numberOfQuestions);
+    return this.processQuestionResponse(content, numberOfQuestions, questionTypes, targeting.learningObjectives);
   }
 
-  private async generateQuestionsTextOnly(
-    prompt: string,
-    numberOfQuestions: number,
-    difficulty: 'easy' | 'medium' | 'hard',
-    fileContent: string,
-    setNumber: number,
-    totalSets: number,
-    language: string
-  ): Promise<any[]> {
-    console.log('🚀 GENERATING QUESTIONS WITH TEXT CONTENT...');
-    
-    const systemPrompt = `You are an AI assistant that generates thoughtful, context-aware questions from any given document. Your goal is to help learners or readers reflect on and understand the key ideas, processes, or information presented in the file.
+  async refineQuestion(request: QuestionRefinementRequest): Promise<GeneratedQuestion[]> {
+    const { action, question, citations, difficulty } = request;
+    const count = action === 'more-like-this' ? Math.max(1, request.count) : 1;
+    const questionType = question.type || 'multiple-choice';
 
-The content may relate to any topic—technical guides, training manuals, academic papers, policy documents, business plans, or standard operating procedures.
+    console.log('🛠️ REFINING QUESTION:', { action, questionId: question.id, count, citations: citations.length });
 
-Your task:
-- Extract the core ideas from the provided document
-- Formulate ${numberOfQuestions} meaningful questions
-- Ensure the questions are open-ended, scenario-based, or comprehension-driven
-- Use the terminology and structure of the document appropriately
-- Avoid yes/no or single-word-answer questions unless contextually necessary
+    if (!ApiKeyManager.hasApiKey()) {
+      throw new Error('AI provider not configured. Please set it up in settings.');
+    }
 
-IMPORTANT: Each set of questions generated must have its questions presented in random order, regardless of whether the questions are unique or partially repeated across sets. Avoid placing questions in a fixed or sequential flow based on how they appear in the course or source content. This random order should be applied to every set including single-set and multi-set configurations to reduce predictability, prevent copying among guests, and enhance test integrity. The shuffling of question order should be done after the questions are generated and just before final output formatting.
+    // A replacement or a new question must not repeat the one it is based on either
+    const avoidQuestions = action === 'regenerate' || action === 'more-like-this'
+      ? [question.text, ...request.otherQuestions]
+      : request.otherQuestions;
+
+    const systemPrompt = `You revise single questions of an assessment that was generated from source documents.
+
+Task: ${REFINEMENT_INSTRUCTIONS[action](count, difficulty)}
 
 Requirements:
-- Generate exactly ${numberOfQuestions} questions
-- Use ${difficulty} difficulty level
-- Each question has 4 answer choices
-- Base questions on the provided content
-- Format each question as a numbered list
+${this.buildQuestionTypeRequirements([questionType])}${this.buildAvoidRequirement(avoidQuestions)}
+- Write in the same language as the question below
+- Set cognitive_level on every question to the Bloom's level it tests: "recall", "understand", "apply" or "analyze"
+- ${citations.length > 0
+    ? 'Base every question only on the source passages; each starts with a marker such as [C1]. List the markers of the passages that support each question and its answer in source_refs'
+    : 'No source passages are stored for this question; stay within what the question and the rest of the set already cover, and leave source_refs empty'}
 - Return valid JSON format
-- Present questions in random order within the set
 
 Response format:
 {
   "questions": [
     {
+      "type": "${questionType}",
       "question": "Question text",
       "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
       "correct_answer": 0,
-      "explanation": "Brief explanation"
+      "correct_answers": [],
+      "accepted_answers": [],
+      "explanation": "Brief explanation",
+      "source_refs": ["C1"],
+      "cognitive_level": "apply"
     }
   ]
 }`;
 
-    const userPrompt = `Create ${numberOfQuestions} ${difficulty} thoughtful, context-aware questions from this document content. Focus on helping learners understand and reflect on the key ideas and processes presented. Present the questions in random order within this set:
-
-${fileContent}
-
-Generate exactly ${numberOfQuestions} questions in JSON format with questions presented in random order.`;
-
-    const messages = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ];
+    const passages = citations
+      .map((citation, index) => `[C${index + 1}] (${SourceDocuments.formatLocator(citation.locator)})\n${citation.excerpt}`)
+      .join('\n\n');
+    const userPrompt = `${passages ? `Source passages:\n\n${passages}\n\n` : ''}Question:\n${this.describeQuestion(question)}`;
 
     const requestBody = {
-      model: 'gpt-4.1-2025-04-14',
-      messages,
-      max_tokens: numberOfQuestions * 200,
-      temperature: 0.3,
+      model: LlmSettingsService.getModel('question-generation'),
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      max_tokens: count * 300,
+      temperature: action === 'regenerate' || action === 'more-like-this' ? 0.5 : 0.3,
       response_format: { type: "json_object" }
     };
 
-    console.log('📤 Sending text-only request to ChatGPT...');
-    const content = await ApiCallService.makeApiCall(requestBody, 'TEXT-BASED QUESTION GENERATION');
+    const content = await ApiCallService.makeApiCall(requestBody, `QUESTION ${action.toUpperCase()}`);
+    const questions = this.processQuestionResponse(content, count, [questionType]);
+
+    if (questions.length === 0) {
+      throw new Error('The AI response contained no usable question');
+    }
 
-    return this.processQuestionResponse(content, numberOfQuestions);
+    // The model sometimes rewords the stem anyway; only the choices were meant to change
+    return action === 'improve-distractors'
+      ? questions.map(q => ({ ...q, question: question.text }))
+      : questions;
   }
 
-  private extractFileInfo(fileContent: string): { filename: string; type: string; base64Data: string } | null {
-    try {
-      // Look for file information in the processed content
-      const fileMatch = fileContent.match(/=== File: (.+?) ===/);
-      const typeMatch = fileContent.match(/Type: (.+?)[\n\r]/);
-      const base64Match = fileContent.match(/base64:([A-Za-z0-9+/=\s]+)/);
-      
-      if (!fileMatch || !base64Match) {
-        console.warn('Could not extract file info from content');
-        return null;
-      }
+  private describeQuestion(question: Question): string {
+    const lines = [`Type: ${question.type}`, `Text: ${question.text}`];
+    const correctIndices = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer ?? 0];
 
-      const filename = fileMatch[1].trim();
-      const type = typeMatch ? typeMatch[1].trim() : 'document';
-      const base64Data = base64Match[1].replace(/\s/g, ''); // Remove whitespace
+    if (question.type === 'text') {
+      lines.push(`Accepted answers: ${(question.acceptedAnswers || []).join('; ')}`);
+    } else {
+      (question.options || []).forEach((option, index) => {
+        lines.push(`${index}. ${option}${correctIndices.includes(index) ? ' (correct)' : ''}`);
+      });
+    }
 
-      return {
-        filename,
-        type,
-        base64Data
-      };
-    } catch (error) {
-      console.error('Error extracting file info:', error);
-      return null;
+    return lines.join('\n');
+  }
+
+  private buildQuestionTypeRequirements(questionTypes: QuestionType[]): string {
+    const lines: string[] = [];
+
+    if (questionTypes.length > 1) {
+      lines.push(`- Mix these question types across the set: ${questionTypes.join(', ')}`);
+    } else {
+      lines.push(`- Every question must be of type "${questionTypes[0] || 'multiple-choice'}"`);
     }
+    if (questionTypes.includes('multiple-choice')) {
+      lines.push('- "multiple-choice" questions have exactly 4 answer choices and correct_answer is the index of the right one');
+    }
+    if (questionTypes.includes('multiple-select')) {
+      lines.push('- "multiple-select" questions have 4 to 6 answer choices, two or more of them correct, and correct_answers lists the indices of every correct choice');
+    }
+    if (questionTypes.includes('boolean')) {
+      lines.push('- "boolean" questions are true/false statements with options ["True", "False"] and correct_answer 0 for True or 1 for False');
+    }
+    if (questionTypes.includes('text')) {
+      lines.push('- "text" questions are short-answer questions with an empty options array and accepted_answers listing every acceptable answer of one to five words');
+    }
+
+    return lines.join('\n');
+  }
+
+  // Turns the admin's percentages into counts for this request, so chunks and top-ups keep the mix
+  private buildTargetingRequirements(numberOfQuestions: number, targeting: QuestionTargeting): string {
+    const lines = ['- Set cognitive_level on every question to the Bloom\'s level it tests: "recall", "understand", "apply" or "analyze"'];
+
+    const mix = targeting.cognitiveMix;
+    if (mix && COGNITIVE_LEVELS.some(level => (mix[level.value] || 0) > 0)) {
+      const counts = this.allocateQuestions(COGNITIVE_LEVELS.map(level => mix[level.value] || 0), numberOfQuestions);
+      const parts = COGNITIVE_LEVELS
+        .map((level, index) => ({ level, count: counts[index] }))
+        .filter(part => part.count > 0)
+        .map(part => `${part.count} ${part.level.value} (${part.level.description.toLowerCase()})`);
+      lines.push(`- Cognitive levels: exactly ${parts.join(', ')}`);
+    }
+
+    const objectives = targeting.learningObjectives || [];
+    if (objectives.length > 0) {
+      lines.push(`- Each question must assess one of these learning objectives; set objective to its number and spread the questions across them:\n${objectives.map((objective, index) => `  ${index + 1}. ${objective}`).join('\n')}`);
+    } else {
+      lines.push('- Leave objective out');
+    }
+
+    return `\n${lines.join('\n')}`;
   }
 
-  private processQuestionResponse(content: string, numberOfQuestions: number): any[] {
+  // Earlier sets and the question bank are listed so the model writes genuinely new questions
+  private buildAvoidRequirement(avoidQuestions: string[]): string {
+    if (avoidQuestions.length === 0) {
+      return '';
+    }
+
+    const listed = avoidQuestions
+      .slice(0, 60)
+      .map(text => `  - ${text.length > 200 ? text.substring(0, 200) + '...' : text}`);
+
+    return `\n- Do not repeat or paraphrase any of these existing questions; cover different facts or angles instead:\n${listed.join('\n')}`;
+  }
+
+  private processQuestionResponse(
+    content: string,
+    numberOfQuestions: number,
+    questionTypes: QuestionType[] = ['multiple-choice'],
+    objectives: string[] = []
+  ): GeneratedQuestion[] {
     if (!content) {
       throw new Error('No response from AI');
     }
@@ -275,14 +524,12 @@ Generate exactly ${numberOfQuestions} questions in JSON format with questions pr
 
     // Simple validation and formatting
     const validQuestions = questions
-      .filter(q => q && q.question && q.options && Array.isArray(q.options))
-      .map(q => ({
-        question: q.question,
-        options: q.options.slice(0, 4),
-        correctAnswer: typeof q.correctAnswer === 'number' ? q.correctAnswer : 
-                       typeof q.correct_answer === 'number' ? q.correct_answer : 0,
-        explanation: q.explanation || 'Based on the provided content'
-      }))
+      .filter(q => q && q.question)
+      .map(q => {
+        const normalized = this.normalizeQuestion(q, questionTypes);
+        return normalized && this.withTargeting(normalized, q, objectives);
+      })
+      .filter(q => q !== null)
       .slice(0, numberOfQuestions);
 
     // Additional client-side shuffling to ensure random order
@@ -293,6 +540,64 @@ Generate exactly ${numberOfQuestions} questions in JSON format with questions pr
     return shuffledQuestions;
   }
 
+  private withTargeting(question: GeneratedQuestion, raw: RawGeneratedQuestion, objectives: string[]): GeneratedQuestion {
+    const level = String(raw.cognitive_level ?? '').trim().toLowerCase();
+    const cognitiveLevel = COGNITIVE_LEVELS.find(entry => entry.value === level)?.value;
+    // Models give the objective's number as asked, or now and then its text
+    const rawObjective = raw.objective;
+    const objective = typeof rawObjective === 'number' || /^\d+$/.test(String(rawObjective ?? '').trim())
+      ? objectives[Number(rawObjective) - 1]
+      : objectives.find(text => text.toLowerCase() === String(rawObjective ?? '').trim().toLowerCase());
+
+    return {
+      ...question,
+      ...(cognitiveLevel ? { cognitiveLevel } : {}),
+      ...(objective ? { objective } : {})
+    };
+  }
+
+  private normalizeQuestion(q: RawGeneratedQuestion, questionTypes: QuestionType[]): GeneratedQuestion | null {
+    const requestedType: QuestionType = questionTypes.includes(q.type as QuestionType) ? q.type as QuestionType : questionTypes[0] || 'multiple-choice';
+    const correctAnswer = typeof q.correctAnswer === 'number' ? q.correctAnswer :
+                          typeof q.correct_answer === 'number' ? q.correct_answer : 0;
+    const explanation = q.explanation || '';
+    const rawRefs = q.source_refs ?? q.sourceRefs ?? [];
+    const sourceRefs = (Array.isArray(rawRefs) ? rawRefs : [rawRefs]).map(String);
+
+    if (requestedType === 'text') {
+      const rawAccepted = q.accepted_answers || q.acceptedAnswers || [];
+      const acceptedAnswers = (Array.isArray(rawAccepted) ? rawAccepted : [rawAccepted])
+        .map((answer: unknown) => String(answer).trim())
+        .filter((answer: string) => answer.length > 0);
+      if (acceptedAnswers.length === 0) {
+        return null;
+      }
+      return { type: 'text', question: q.question, options: [], correctAnswer: 0, acceptedAnswers, explanation, sourceRefs };
+    }
+
+    if (requestedType === 'boolean') {
+      return { type: 'boolean', question: q.question, options: [...BOOLEAN_OPTIONS], correctAnswer: correctAnswer === 1 ? 1 : 0, explanation, sourceRefs };
+    }
+
+    if (!Array.isArray(q.options) || q.options.length < 2) {
+      return null;
+    }
+
+    if (requestedType === 'multiple-select') {
+      const options = q.options.slice(0, 6).map(String);
+      const rawCorrect = Array.isArray(q.correct_answers) ? q.correct_answers : [correctAnswer];
+      const correctAnswers = [...new Set(rawCorrect.filter((index): index is number =>
+        typeof index === 'number' && index >= 0 && index < options.length
+      ))].sort((a, b) => a - b);
+      if (correctAnswers.length === 0) {
+        return null;
+      }
+      return { type: 'multiple-select', question: q.question, options, correctAnswer: correctAnswers, explanation, sourceRefs };
+    }
+
+    return { type: 'multiple-choice', question: q.question, options: q.options.slice(0, 4).map(String), correctAnswer, explanation, sourceRefs };
+  }
+
   // Utility method for shuffling array (Fisher-Yates algorithm)
   private shuffleArray<T>(array: T[]): T[] {
     const shuffled = [...array];
@@ -1,4 +1,5 @@
 
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 import { ErrorHandler, ErrorDetails } from './ErrorHandler';
 
 export class RecoveryService {
@@ -192,9 +193,8 @@ export class RecoveryService {
     }
     
     // Check API key presence
-    const apiKey = localStorage.getItem('openai_api_key');
-    if (!apiKey) {
-      issues.push('OpenAI API key not configured');
+    if (!LlmSettingsService.isConfigured()) {
+      issues.push(`${LlmSettingsService.getActiveProvider().label} is not configured`);
     }
     
     // Check for excessive recovery data
@@ -1,3 +1,4 @@
+import { LlmSettingsService } from '../llm/LlmSettingsService';
 
 export class ValidationService {
   // Comprehensive validation for all OpenAI API calls
@@ -14,8 +15,6 @@ export class ValidationService {
     // Model validation
     if (!payload.model || typeof payload.model !== 'string') {
       errors.push('Model is required and must be a string');
-    } else if (!['gpt-4.1-2025-04-14', 'gpt-4o', 'gpt-3.5-turbo'].includes(payload.model)) {
-      warnings.push(`Unusual model: ${payload.model}`);
     }
 
     // Messages validation
@@ -52,7 +51,7 @@ export class ValidationService {
           message.content.forEach((item: any, itemIndex: number) => {
             if (!item || !item.type) {
               errors.push(`Message ${index}, content item ${itemIndex} missing type`);
-            } else if (!['text', 'image_url'].includes(item.type)) {
+            } else if (!['text', 'image_url', 'input_file', 'file'].includes(item.type)) {
               errors.push(`Message ${index}, content item ${itemIndex} has invalid type: ${item.type}`);
             }
 
@@ -122,13 +121,7 @@ export class ValidationService {
 
   // Check if content will fit within model limits
   static validateTokenLimits(messages: any[], model: string, maxTokens: number): { isValid: boolean; estimatedTokens: number; modelLimit: number; error?: string } {
-    const modelLimits = {
-      'gpt-4.1-2025-04-14': 120000,
-      'gpt-4o': 120000,
-      'gpt-3.5-turbo': 15000
-    };
-
-    const modelLimit = modelLimits[model as keyof typeof modelLimits] || 15000;
+    const modelLimit = LlmSettingsService.getContextLimit(model);
     
     let totalTokens = 0;
     for (const message of messages) {
@@ -1,3 +1,12 @@
+import { ContentBlocks } from '../extraction/ContentBlocks';
+import { SourceDocument, SourceDocuments, SourceLocator, SourcePassage } from '../extraction/SourceDocument';
+
+export interface SourceChunk {
+  passages: SourcePassage[];
+  text: string; // Prompt text, with the passage markers the model cites
+  locators: SourceLocator[];
+}
+
 
 export class ContentSplitter {
   static splitContentIntelligently(content: string, targetLength: number): string[] {
@@ -67,4 +76,87 @@ export class ContentSplitter {
     // More lenient filtering - accept chunks with at least 50 characters
     return chunks.filter(chunk => chunk.trim().length > 50);
   }
+
+  // Every ref in a chunk resolves against the full document list. A passage longer than a chunk
+  // is cut into parts that keep its ref, so a question citing a part cites the whole passage.
+  // Once a chunk is half full it ends where a new page, slide or heading starts.
+  static splitSourceDocuments(documents: SourceDocument[], targetLength: number): SourceChunk[] {
+    const groups: SourcePassage[][] = [];
+    let current: SourcePassage[] = [];
+    let currentLength = 0;
+
+    const passages = SourceDocuments.passages(documents).flatMap(passage => this.splitPassage(passage, targetLength));
+    for (const passage of passages) {
+      const length = ContentBlocks.blockToText(passage.block).length;
+      const last = current[current.length - 1];
+      const startsSection = !!last && (
+        last.documentIndex !== passage.documentIndex ||
+        last.sectionIndex !== passage.sectionIndex ||
+        last.heading !== passage.heading
+      );
+
+      if (current.length > 0 && (currentLength + length > targetLength || (startsSection && currentLength >= targetLength / 2))) {
+        groups.push(current);
+        current = [];
+        currentLength = 0;
+      }
+      current.push(passage);
+      currentLength += length;
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    return groups.map(passages => ({
+      passages,
+      text: SourceDocuments.passagesToPromptText(passages),
+      locators: SourceDocuments.uniqueLocators(passages.map(passage => passage.locator))
+    }));
+  }
+
+  // Tables are cut between rows, each part repeating the header row; paragraphs and list items
+  // between sentences, and a single sentence longer than a chunk at the chunk length
+  private static splitPassage(passage: SourcePassage, targetLength: number): SourcePassage[] {
+    const { block } = passage;
+    if (ContentBlocks.blockToText(block).length <= targetLength || block.type === 'heading') {
+      return [passage];
+    }
+
+    if (block.type === 'table') {
+      const [header, ...rows] = block.rows;
+      const headerLength = ContentBlocks.blockToText({ type: 'table', rows: [header] }).length + 1;
+      const rowGroups = this.groupByLength(rows, row => ContentBlocks.blockToText({ type: 'table', rows: [row] }).length + 1, targetLength - headerLength);
+      return rowGroups.map(group => ({ ...passage, block: { type: 'table', rows: [header, ...group] } }));
+    }
+
+    const sentences = (block.text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [block.text])
+      .flatMap(sentence => sentence.length > targetLength
+        ? Array.from({ length: Math.ceil(sentence.length / targetLength) }, (_, index) => sentence.slice(index * targetLength, (index + 1) * targetLength))
+        : [sentence]);
+    return this.groupByLength(sentences, sentence => sentence.length, targetLength)
+      .map(group => ({ ...passage, block: { ...block, text: group.join('').trim() } }));
+  }
+
+  private static groupByLength<T>(items: T[], lengthOf: (item: T) => number, targetLength: number): T[][] {
+    const groups: T[][] = [];
+    let current: T[] = [];
+    let currentLength = 0;
+
+    for (const item of items) {
+      const length = lengthOf(item);
+      if (current.length > 0 && currentLength + length > targetLength) {
+        groups.push(current);
+        current = [];
+        currentLength = 0;
+      }
+      current.push(item);
+      currentLength += length;
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    return groups;
+  }
 }
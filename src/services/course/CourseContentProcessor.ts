@@ -1,57 +1,24 @@
 
 import { CourseMaterial } from './CourseTypes';
 import { ContentProcessor } from './ContentProcessor';
-import { FileProcessingService } from '../FileProcessingService';
+import { SourceDocument, SourceDocuments } from '../extraction/SourceDocument';
 
 export class CourseContentProcessor {
-  static async processAndValidateContent(
-    files: File[], 
-    fileContent: string = ''
-  ): Promise<string> {
-    console.log('📄 PROCESSING FILES WITH CHATGPT-ENHANCED VALIDATION...');
-    
-    let validatedFileContent = '';
-    
-    if (files && files.length > 0) {
-      for (const file of files) {
-        try {
-          console.log(`🔍 Processing file: ${file.name}`);
-          const processedFile = await FileProcessingService.processFile(file);
-          
-          console.log(`📋 File processing result for ${file.name}:`, {
-            type: processedFile.type,
-            contentLength: processedFile.content?.length || 0,
-            extractionMethod: processedFile.metadata.extractionMethod
-          });
-
-          // ENHANCED: Accept any content over 100 characters (very lenient)
-          if (!processedFile.content || processedFile.content.length < 100) {
-            console.warn(`⚠️ LOW CONTENT: ${file.name} - ${processedFile.content?.length || 0} chars, but proceeding anyway`);
-          }
-
-          validatedFileContent += processedFile.content + '\n\n';
-          console.log(`✅ PROCESSED: Content extracted from ${file.name} (${processedFile.content.length} characters)`);
-          
-        } catch (error) {
-          console.error(`❌ File processing error ${file.name}:`, error);
-          // Don't throw error, generate fallback content instead
-          const fallbackContent = this.generateFallbackContent(file);
-          validatedFileContent += fallbackContent + '\n\n';
-          console.log(`🔄 FALLBACK: Generated content for ${file.name}`);
-        }
-      }
-    } else if (fileContent && fileContent.trim().length > 20) {
-      validatedFileContent = fileContent;
-      console.log('✅ VALIDATED: Content provided via parameter');
-    } else {
+  // Files were already read when they were uploaded; this only flattens them for the course writer
+  static processAndValidateContent(sources: SourceDocument[]): string {
+    console.log('📄 VALIDATING SOURCE DOCUMENTS FOR COURSE GENERATION...');
+
+    if (sources.length === 0) {
       console.error('❌ NO VALID CONTENT: Course generation blocked');
       throw new Error('Course generation requires uploaded files with readable content. Please upload files containing text that can be processed.');
     }
 
+    let validatedFileContent = SourceDocuments.toText(sources);
+
     // Ensure we always have some content
-    if (!validatedFileContent || validatedFileContent.trim().length < 100) {
+    if (SourceDocuments.textLength(sources) < 100) {
       console.warn('⚠️ Insufficient total content, generating comprehensive fallback');
-      validatedFileContent = this.generateComprehensiveFallback(files);
+      validatedFileContent = this.generateComprehensiveFallback(sources.map(source => source.fileName));
     }
 
     console.log('✅ CONTENT PROCESSING COMPLETE:', {
@@ -71,28 +38,8 @@ export class CourseContentProcessor {
     }
   }
 
-  private static generateFallbackContent(file: File): string {
-    const fileName = file.name;
-    const topic = fileName.replace(/\.[^/.]+$/, "").replace(/_/g, ' ').replace(/-/g, ' ');
-    
-    return `Educational Content from ${fileName}
-
-Topic: ${topic}
-
-This document provides comprehensive educational material covering essential concepts and practical applications in ${topic}. The content is structured to support thorough learning and assessment generation.
-
-Key Learning Areas:
-- Core principles and fundamental concepts
-- Practical applications and real-world scenarios
-- Problem-solving methodologies and techniques
-- Critical analysis and evaluation approaches
-- Professional best practices and industry standards
-
-The material includes detailed explanations, examples, and practical insights to ensure effective learning outcomes and successful knowledge assessment.`;
-  }
-
-  private static generateComprehensiveFallback(files: File[]): string {
-    const fileNames = files?.map(f => f.name.replace(/\.[^/.]+$/, "").replace(/_/g, ' ')) || ['Document'];
+  private static generateComprehensiveFallback(sourceFileNames: string[]): string {
+    const fileNames = sourceFileNames.map(name => name.replace(/\.[^/.]+$/, "").replace(/_/g, ' '));
     const mainTopic = fileNames[0] || 'Educational Content';
     
     return `Comprehensive Educational Content: ${mainTopic}
@@ -3,20 +3,21 @@ import { CourseContentProcessor } from './CourseContentProcessor';
 import { CourseSectionCreator } from './CourseSectionCreator';
 import { CourseNameGenerator } from './CourseNameGenerator';
 import { PDFGenerationService } from '../PDFGenerationService';
+import { SourceDocument, SourceDocuments } from '../extraction/SourceDocument';
 
 export class CourseGenerator {
   static async generateCourse(
     prompt: string, 
-    files: File[] = [], 
-    fileContent: string = '', 
+    sources: SourceDocument[] = [], 
     testName?: string
   ): Promise<Course> {
+    const fileContent = SourceDocuments.toText(sources);
     console.log('🔍 SYSTEM PROMPT GUIDED COURSE GENERATION START:', { 
       prompt: prompt.substring(0, 150) + '...', 
-      fileCount: files.length, 
+      fileCount: sources.length, 
       hasFileContent: !!fileContent,
-      fileContentLength: fileContent?.length || 0,
-      fileNames: files.map(f => f.name),
+      fileContentLength: fileContent.length,
+      fileNames: sources.map(source => source.fileName),
       testName,
       timestamp: new Date().toISOString(),
       usingSystemPrompt: true
@@ -26,17 +27,14 @@ export class CourseGenerator {
 
     try {
       // SYSTEM PROMPT RULE: Validate content requirements
-      if (!fileContent || fileContent.length < 200) {
+      if (SourceDocuments.textLength(sources) < 200) {
         throw new Error('Course generation requires substantial file content (minimum 200 characters). The system prompt mandates content extraction from uploaded files only.');
       }
 
       console.log('✅ SYSTEM PROMPT VALIDATION: File content meets minimum requirements');
       
       // SYSTEM PROMPT RULE: Process content strictly from files
-      const validatedFileContent = await CourseContentProcessor.processAndValidateContent(
-        files, 
-        fileContent
-      );
+      const validatedFileContent = CourseContentProcessor.processAndValidateContent(sources);
 
       // SYSTEM PROMPT RULE: Create structured course materials (3 pages default)
       console.log('🔒 GENERATING: Course sections following System Prompt structure (3-page default)');
@@ -51,6 +49,12 @@ export class CourseGenerator {
         throw new Error('Unable to generate course sections from the file content following system prompt guidelines. Please ensure your file contains substantial readable educational content.');
       }
 
+      // The course is written from the whole upload, so every material cites all of it
+      const sourceLocators = SourceDocuments.sectionLocators(sources);
+      materials.forEach(material => {
+        material.sources = sourceLocators;
+      });
+
       // SYSTEM PROMPT RULE: Estimate time based on content (beginner-friendly)
       const estimatedTime = this.calculateBeginnerFriendlyTime(materials);
 
@@ -93,7 +97,7 @@ export class CourseGenerator {
         error: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack?.split('\n').slice(0, 3) : undefined,
         prompt: prompt.substring(0, 100),
-        fileCount: files.length,
+        fileCount: sources.length,
         timestamp: new Date().toISOString()
       });
       
@@ -157,167 +161,6 @@ export class CourseGenerator {
     return `This beginner-friendly course is generated from uploaded file content following structured learning principles. The course presents key concepts, practical applications, and important considerations in an accessible format. Content is based strictly on the provided file material with approximately ${wordCount} words, estimated reading time of ${estimatedReadingTime} minutes.`;
   }
 
-  // ENHANCED: Analyze content structure and themes for better course generation
-  private static async analyzeContentForCourse(fileContent: string, userPrompt: string): Promise<{
-    type: string;
-    complexity: 'basic' | 'intermediate' | 'advanced';
-    keyTopics: string[];
-    hasStructure: boolean;
-    wordCount: number;
-    sections: string[];
-    learningObjectives: string[];
-  }> {
-    console.log('🔍 ANALYZING CONTENT for Enhanced Course Generation...');
-
-    const wordCount = fileContent.split(/\s+/).length;
-    
-    // Identify content type
-    const type = this.identifyEducationalContentType(fileContent);
-    
-    // Assess complexity
-    const complexity = this.assessEducationalComplexity(fileContent);
-    
-    // Extract key topics
-    const keyTopics = this.extractEducationalTopics(fileContent);
-    
-    // Detect structure
-    const sections = this.detectContentSections(fileContent);
-    const hasStructure = sections.length > 0;
-    
-    // Infer learning objectives
-    const learningObjectives = this.inferLearningObjectives(fileContent, userPrompt);
-
-    const analysis = {
-      type,
-      complexity,
-      keyTopics,
-      hasStructure,
-      wordCount,
-      sections,
-      learningObjectives
-    };
-
-    console.log('✅ CONTENT ANALYSIS COMPLETE:', analysis);
-    return analysis;
-  }
-
-  private static identifyEducationalContentType(content: string): string {
-    const patterns = {
-      'academic_course': /syllabus|curriculum|lecture|assignment|semester|module|unit/i,
-      'technical_manual': /procedure|instruction|step|method|process|technique/i,
-      'research_paper': /abstract|methodology|conclusion|references|findings|hypothesis/i,
-      'training_material': /training|workshop|skill|competency|learning|development/i,
-      'business_document': /strategy|analysis|report|presentation|proposal|plan/i
-    };
-
-    for (const [type, pattern] of Object.entries(patterns)) {
-      if (pattern.test(content)) {
-        return type;
-      }
-    }
-    
-    return 'general_educational';
-  }
-
-  private static assessEducationalComplexity(content: string): 'basic' | 'intermediate' | 'advanced' {
-    const advancedTerms = /methodology|framework|implementation|optimization|sophisticated|comprehensive|intricate/gi;
-    const intermediateTerms = /analysis|concept|principle|application|understanding|knowledge/gi;
-    const basicTerms = /simple|basic|introduction|overview|fundamental|elementary/gi;
-
-    const advancedCount = (content.match(advancedTerms) || []).length;
-    const intermediateCount = (content.match(intermediateTerms) || []).length;
-    const basicCount = (content.match(basicTerms) || []).length;
-
-    const avgWordsPerSentence = content.split(/[.!?]/).reduce((sum, s) => sum + s.split(' ').length, 0) / content.split(/[.!?]/).length;
-
-    if (advancedCount > 10 || avgWordsPerSentence > 25) {
-      return 'advanced';
-    } else if (intermediateCount > 15 || avgWordsPerSentence > 18) {
-      return 'intermediate';
-    }
-    return 'basic';
-  }
-
-  private static extractEducationalTopics(content: string): string[] {
-    // Extract meaningful educational terms
-    const educationalWords = content.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => 
-        word.length > 5 && 
-        !/^(and|the|for|are|but|not|you|all|can|had|her|was|one|our|out|may|new|now|see|two|who|did|get|has|him|his|how|its|old|day|come|make|than|time|very|what|with|have|from|they|know|want|been|good|much|some|will|said|each|which|their|would|there|think|where|being|every|great|might|shall|still|those|under|while|could|should|would|through|during|before|after|above|below|between|among|within)$/.test(word)
-      );
-
-    const wordCount: { [key: string]: number } = {};
-    educationalWords.forEach(word => {
-      wordCount[word] = (wordCount[word] || 0) + 1;
-    });
-
-    return Object.entries(wordCount)
-      .filter(([, count]) => count >= 2) // Only include words that appear multiple times
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 12)
-      .map(([word]) => word);
-  }
-
-  private static detectContentSections(content: string): string[] {
-    const lines = content.split('\n');
-    const sections: string[] = [];
-    
-    lines.forEach(line => {
-      const trimmed = line.trim();
-      // Look for various section header patterns
-      if (
-        /^#+\s/.test(trimmed) || // Markdown headers
-        /^\d+\.\s/.test(trimmed) || // Numbered sections
-        /^[A-Z][^a-z]*:/.test(trimmed) || // ALL CAPS headers with colon
-        /^(chapter|section|unit|module|lesson|part)\s+\d+/i.test(trimmed) || // Explicit section indicators
-        (/^[A-Z]/.test(trimmed) && trimmed.length < 100 && trimmed.endsWith(':')) // Capitalized short lines ending with colon
-      ) {
-        sections.push(trimmed);
-      }
-    });
-    
-    return sections.slice(0, 10); // Limit to reasonable number
-  }
-
-  private static inferLearningObjectives(content: string, userPrompt: string): string[] {
-    const objectives: string[] = [];
-    
-    // Extract explicit learning objectives if present
-    const objectivePatterns = [
-      /(?:learning objectives?|goals?|aims?|outcomes?)[:\s]+(.*)/gi,
-      /(?:students? will|learners? will|participants? will)[:\s]+(.*)/gi,
-      /(?:by the end|after completing|upon completion)[:\s]+(.*)/gi
-    ];
-
-    objectivePatterns.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches) {
-        matches.forEach(match => {
-          const objective = match.replace(pattern, '$1').trim();
-          if (objective.length > 10 && objective.length < 200) {
-            objectives.push(objective);
-          }
-        });
-      }
-    });
-
-    // If no explicit objectives found, infer from content and prompt
-    if (objectives.length === 0) {
-      const topicWords = this.extractEducationalTopics(content).slice(0, 5);
-      const promptWords = userPrompt.toLowerCase().split(/\s+/).filter(w => w.length > 4).slice(0, 3);
-      
-      objectives.push(`Understand key concepts related to ${topicWords.slice(0, 3).join(', ')}`);
-      if (promptWords.length > 0) {
-        objectives.push(`Apply knowledge from ${promptWords.join(' ')} context`);
-      }
-      objectives.push(`Analyze and evaluate information presented in the content`);
-    }
-
-    return objectives.slice(0, 5); // Limit to reasonable number
-  }
-
   private static async createStructuredCourseMaterials(
     prompt: string,
     fileContent: string,
@@ -1,3 +1,4 @@
+import { SourceLocator } from '../extraction/SourceDocument';
 
 export interface CourseMaterial {
   id: string;
@@ -5,6 +6,7 @@ export interface CourseMaterial {
   content: string;
   title: string;
   order: number;
+  sources?: SourceLocator[]; // Pages, slides or sheets the material was written from
 }
 
 export interface Course {
@@ -14,6 +16,7 @@ export interface Course {
   materials: CourseMaterial[];
   estimatedTime: number;
   createdAt: string;
+  updatedAt?: string; // Stamped on every save; the newer copy wins when syncing with Supabase
   difficulty: 'easy' | 'medium' | 'hard';
   pdfUrl?: string;
   isActive?: boolean;
@@ -2,6 +2,7 @@
 import { Course } from './CourseTypes';
 import { CourseManager } from './CourseManager';
 import { SupabaseCourseService } from '../supabase/SupabaseCourseService';
+import { SyncEngine } from '../sync/SyncEngine';
 import { supabase } from '@/integrations/supabase/client';
 
 export class HybridCourseManager {
@@ -23,19 +24,11 @@ export class HybridCourseManager {
       console.log('💾 Saving course with hybrid approach:', course.id);
       
       // Always save to local storage first
+      course.updatedAt = new Date().toISOString();
       CourseManager.saveCourse(course);
       
-      // Try to save to Supabase if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
-        try {
-          await SupabaseCourseService.saveCourse(course);
-          console.log('✅ Course saved to both local and Supabase');
-        } catch (error) {
-          console.warn('⚠️ Failed to save to Supabase, saved locally only:', error);
-        }
-      } else {
-        console.log('📴 Offline or not authenticated, saved locally only');
-      }
+      // Supabase gets it through the outbox: now when online, otherwise once reconnected
+      await SyncEngine.record('course.save', course.id);
     } catch (error) {
       console.error('❌ Failed to save course:', error);
       throw error;
@@ -50,7 +43,7 @@ export class HybridCourseManager {
       if (this.isOnline() && await this.isAuthenticated()) {
         try {
           const supabaseCourses = await SupabaseCourseService.getAllCourses();
-          courses = supabaseCourses;
+          courses = SyncEngine.withPendingChanges('course', supabaseCourses, CourseManager.getAllCourses());
           console.log('✅ Loaded courses from Supabase:', courses.length);
         } catch (error) {
           console.warn('⚠️ Failed to load from Supabase, falling back to local storage:', error);
@@ -72,8 +65,14 @@ export class HybridCourseManager {
 
   static async getCourseById(id: string): Promise<Course | null> {
     try {
+      // Changes Supabase hasn't received yet are only on this device
+      const pending = SyncEngine.getPendingIds('course');
+      if (pending.deleted.has(id)) {
+        return null;
+      }
+
       // Try Supabase first if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
+      if (!pending.saved.has(id) && this.isOnline() && await this.isAuthenticated()) {
         try {
           const course = await SupabaseCourseService.getCourseById(id);
           if (course) {
@@ -105,17 +104,7 @@ export class HybridCourseManager {
       // Delete from local storage
       CourseManager.deleteCourse(id);
       
-      // Try to delete from Supabase if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
-        try {
-          await SupabaseCourseService.deleteCourse(id);
-          console.log('✅ Course deleted from both local and Supabase');
-        } catch (error) {
-          console.warn('⚠️ Failed to delete from Supabase, deleted locally only:', error);
-        }
-      } else {
-        console.log('📴 Offline or not authenticated, deleted locally only');
-      }
+      await SyncEngine.record('course.delete', id);
     } catch (error) {
       console.error('❌ Failed to delete course:', error);
       throw error;
@@ -0,0 +1,62 @@
+// Structured text shared by every extractor, so PDFs, Office files and OCR output
+// reach the generators in the same shape
+export type ContentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list-item'; text: string }
+  | { type: 'table'; rows: string[][] };
+
+// A page, slide or sheet; the label is printed as a marker before its blocks
+export interface ContentSection {
+  label: string;
+  page?: number;
+  slide?: number;
+  sheet?: string;
+  blocks: ContentBlock[];
+}
+
+export const LIST_ITEM_PATTERN = /^(?:[•▪◦●○■\-*–]|\(?\d{1,3}[.)]|\(?[a-z][.)])\s+/i;
+
+export class ContentBlocks {
+  // Plain text for the generators: markdown-style headings and tables, with section markers
+  static sectionsToText(sections: ContentSection[]): string {
+    return sections
+      .filter(section => section.blocks.length > 0)
+      .map(section => [
+        ...(section.label ? [`[${section.label}]`] : []),
+        ...section.blocks.map(block => this.blockToText(block))
+      ].join('\n\n'))
+      .join('\n\n');
+  }
+
+  static blockToText(block: ContentBlock): string {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'table':
+        return block.rows.map(row => `| ${row.join(' | ')} |`).join('\n');
+      default:
+        return block.text;
+    }
+  }
+
+  // Blocks for text that has no layout information, such as OCR output
+  static fromPlainText(text: string): ContentBlock[] {
+    return text
+      .split(/\n\s*\n/)
+      .map(chunk => chunk.split('\n').map(line => line.trim()).filter(Boolean))
+      .filter(lines => lines.length > 0)
+      .map((lines): ContentBlock => {
+        const joined = lines.reduce((paragraph, line) => paragraph ? this.joinLines(paragraph, line) : line, '');
+        return LIST_ITEM_PATTERN.test(joined) ? { type: 'list-item', text: joined } : { type: 'paragraph', text: joined };
+      });
+  }
+
+  // Joins wrapped lines, undoing end-of-line hyphenation
+  static joinLines(text: string, next: string): string {
+    if (/[a-z]-$/i.test(text) && /^[a-z]/.test(next)) {
+      return text.slice(0, -1) + next;
+    }
+    return `${text} ${next}`;
+  }
+}
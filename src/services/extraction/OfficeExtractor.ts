@@ -0,0 +1,411 @@
+import JSZip from 'jszip';
+import { ContentBlock, ContentBlocks, ContentSection } from './ContentBlocks';
+
+export type OfficeDocumentKind = 'docx' | 'pptx' | 'xlsx';
+
+export interface OfficeDocumentStructure {
+  fileName: string;
+  kind: OfficeDocumentKind;
+  sections: ContentSection[]; // The whole document for DOCX, one per slide or sheet otherwise
+}
+
+// One worksheet as rows of cell text, numbered as in the spreadsheet; empty rows are left out
+export interface SpreadsheetSheet {
+  name: string;
+  rows: Array<{ number: number; cells: string[] }>;
+}
+
+// Large spreadsheets are mostly data rather than teaching material; keep the top of each sheet
+const MAX_SHEET_ROWS = 500;
+
+// Office Open XML files are zip archives of XML parts; these read the parts that carry text
+export class OfficeExtractor {
+  static getKind(fileName: string): OfficeDocumentKind | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    return extension === 'docx' || extension === 'pptx' || extension === 'xlsx' ? extension : null;
+  }
+
+  static async extract(file: File): Promise<OfficeDocumentStructure> {
+    const kind = this.getKind(file.name);
+    if (!kind) {
+      throw new Error(`"${file.name}" is not a .docx, .pptx or .xlsx file`);
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (error) {
+      throw new Error(`"${file.name}" could not be opened. It may be corrupted or saved in an older Office format.`);
+    }
+
+    console.log(`📄 Extracting ${kind.toUpperCase()} content:`, file.name);
+    const sections = kind === 'docx'
+      ? await this.extractDocx(zip)
+      : kind === 'pptx'
+        ? await this.extractPptx(zip)
+        : await this.extractXlsx(zip);
+
+    console.log(`✅ ${kind.toUpperCase()} extraction complete:`, {
+      fileName: file.name,
+      sections: sections.length,
+      blocks: sections.reduce((sum, section) => sum + section.blocks.length, 0)
+    });
+
+    return { fileName: file.name, kind, sections };
+  }
+
+  // Every sheet in full, for imports that need each row rather than teaching content
+  static async readSpreadsheet(file: File): Promise<SpreadsheetSheet[]> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (error) {
+      throw new Error(`"${file.name}" could not be opened. It may be corrupted or saved in an older Excel format.`);
+    }
+
+    const sheets = await this.readWorksheets(zip);
+    return sheets.map(({ name, worksheet, sharedStrings }) => ({ name, rows: this.readSheetRows(worksheet, sharedStrings) }));
+  }
+
+  static toText(document: OfficeDocumentStructure): string {
+    return ContentBlocks.sectionsToText(document.sections);
+  }
+
+  // ---- DOCX ----
+
+  private static async extractDocx(zip: JSZip): Promise<ContentSection[]> {
+    const body = (await this.readXml(zip, 'word/document.xml'))?.getElementsByTagName('w:body')[0];
+    if (!body) {
+      throw new Error('The document has no body (word/document.xml is missing)');
+    }
+
+    const styleNames = await this.readDocxStyleNames(zip);
+    const blocks: ContentBlock[] = [];
+    this.collectDocxBlocks(body, styleNames, blocks);
+    return [{ label: '', blocks }];
+  }
+
+  private static collectDocxBlocks(container: Element, styleNames: Map<string, string>, blocks: ContentBlock[]): void {
+    for (const element of Array.from(container.children)) {
+      if (element.tagName === 'w:sdt') {
+        // Content controls (e.g. a generated table of contents) wrap ordinary paragraphs
+        const content = this.childrenByTag(element, 'w:sdtContent')[0];
+        if (content) {
+          this.collectDocxBlocks(content, styleNames, blocks);
+        }
+      } else if (element.tagName === 'w:p') {
+        const block = this.docxParagraphToBlock(element, styleNames);
+        if (block) {
+          blocks.push(block);
+        }
+      } else if (element.tagName === 'w:tbl') {
+        const rows = this.childrenByTag(element, 'w:tr').map(row =>
+          this.childrenByTag(row, 'w:tc').map(cell =>
+            Array.from(cell.getElementsByTagName('w:p')).map(p => this.docxParagraphText(p)).filter(Boolean).join(' ')
+          )
+        ).filter(row => row.some(cell => cell.length > 0));
+        if (rows.length > 0) {
+          blocks.push({ type: 'table', rows });
+        }
+      }
+    }
+  }
+
+  // Style ids are localised (e.g. "Überschrift1"), but style names are always "heading N"
+  private static async readDocxStyleNames(zip: JSZip): Promise<Map<string, string>> {
+    const styles = await this.readXml(zip, 'word/styles.xml');
+    const names = new Map<string, string>();
+    if (!styles) {
+      return names;
+    }
+    for (const style of Array.from(styles.getElementsByTagName('w:style'))) {
+      const id = style.getAttribute('w:styleId');
+      const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val');
+      if (id && name) {
+        names.set(id, name.toLowerCase());
+      }
+    }
+    return names;
+  }
+
+  private static docxParagraphToBlock(paragraph: Element, styleNames: Map<string, string>): ContentBlock | null {
+    const text = this.docxParagraphText(paragraph);
+    if (!text) {
+      return null;
+    }
+
+    const properties = this.childrenByTag(paragraph, 'w:pPr')[0];
+    const styleId = properties?.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || '';
+    const styleName = styleNames.get(styleId) || styleId.toLowerCase();
+    const headingMatch = styleName.match(/^heading\s*(\d)$/);
+    const outlineLevel = properties?.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+
+    if (styleName === 'title') {
+      return { type: 'heading', level: 1, text };
+    }
+    if (headingMatch) {
+      return { type: 'heading', level: Math.min(Number(headingMatch[1]), 3), text };
+    }
+    if (outlineLevel !== null && outlineLevel !== undefined && Number(outlineLevel) < 9) {
+      return { type: 'heading', level: Math.min(Number(outlineLevel) + 1, 3), text };
+    }
+
+    const numbering = properties?.getElementsByTagName('w:numPr')[0];
+    if (numbering || styleName.startsWith('list')) {
+      const depth = Number(numbering?.getElementsByTagName('w:ilvl')[0]?.getAttribute('w:val') || 0);
+      return { type: 'list-item', text: `${'  '.repeat(depth)}- ${text}` };
+    }
+
+    return { type: 'paragraph', text };
+  }
+
+  private static docxParagraphText(paragraph: Element): string {
+    // Walked in document order so tabs and breaks land between the right runs
+    const collect = (element: Element): string => Array.from(element.children).map(child => {
+      if (child.tagName === 'w:t') return child.textContent || '';
+      if (child.tagName === 'w:tab' || child.tagName === 'w:br') return ' ';
+      return collect(child);
+    }).join('');
+    return collect(paragraph).replace(/\s+/g, ' ').trim();
+  }
+
+  // ---- PPTX ----
+
+  private static async extractPptx(zip: JSZip): Promise<ContentSection[]> {
+    const presentation = await this.readXml(zip, 'ppt/presentation.xml');
+    if (!presentation) {
+      throw new Error('The presentation has no slide list (ppt/presentation.xml is missing)');
+    }
+
+    const relationships = await this.readRelationships(zip, 'ppt/presentation.xml');
+    const slidePaths = Array.from(presentation.getElementsByTagName('p:sldId'))
+      .map(slide => relationships.get(slide.getAttribute('r:id') || ''))
+      .filter((path): path is string => !!path);
+
+    const sections: ContentSection[] = [];
+    for (const [index, slidePath] of slidePaths.entries()) {
+      const slide = await this.readXml(zip, slidePath);
+      if (!slide) {
+        continue;
+      }
+
+      const blocks = this.pptxShapesToBlocks(slide);
+      const notesPath = Array.from((await this.readRelationships(zip, slidePath, true)).values())
+        .find(path => path.includes('notesSlide'));
+      const notes = notesPath ? await this.readXml(zip, notesPath) : null;
+      const notesText = notes ? this.pptxNotesText(notes) : '';
+      if (notesText) {
+        blocks.push({ type: 'paragraph', text: `Speaker notes: ${notesText}` });
+      }
+
+      sections.push({ label: `Slide ${index + 1}`, slide: index + 1, blocks });
+    }
+    return sections;
+  }
+
+  private static pptxShapesToBlocks(slide: Document): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+
+    for (const shape of Array.from(slide.getElementsByTagName('p:sp'))) {
+      const placeholderType = shape.getElementsByTagName('p:ph')[0]?.getAttribute('type');
+      // Slide numbers, dates and footers repeat on every slide
+      if (placeholderType === 'sldNum' || placeholderType === 'dt' || placeholderType === 'ftr') {
+        continue;
+      }
+
+      const paragraphs = Array.from(shape.getElementsByTagName('a:p'))
+        .map(p => ({
+          text: this.drawingParagraphText(p),
+          level: Number(p.getElementsByTagName('a:pPr')[0]?.getAttribute('lvl') || 0)
+        }))
+        .filter(p => p.text);
+
+      if (placeholderType === 'title' || placeholderType === 'ctrTitle') {
+        if (paragraphs.length > 0) {
+          blocks.unshift({ type: 'heading', level: 2, text: paragraphs.map(p => p.text).join(' ') });
+        }
+      } else if (placeholderType === 'subTitle') {
+        paragraphs.forEach(p => blocks.push({ type: 'paragraph', text: p.text }));
+      } else {
+        // Body text on slides is almost always bullet points
+        paragraphs.forEach(p => blocks.push({ type: 'list-item', text: `${'  '.repeat(p.level)}- ${p.text}` }));
+      }
+    }
+
+    for (const table of Array.from(slide.getElementsByTagName('a:tbl'))) {
+      const rows = Array.from(table.getElementsByTagName('a:tr')).map(row =>
+        Array.from(row.getElementsByTagName('a:tc')).map(cell =>
+          Array.from(cell.getElementsByTagName('a:p')).map(p => this.drawingParagraphText(p)).filter(Boolean).join(' ')
+        )
+      ).filter(row => row.some(cell => cell.length > 0));
+      if (rows.length > 0) {
+        blocks.push({ type: 'table', rows });
+      }
+    }
+
+    return blocks;
+  }
+
+  private static pptxNotesText(notes: Document): string {
+    const body = Array.from(notes.getElementsByTagName('p:sp'))
+      .find(shape => shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') === 'body');
+    if (!body) {
+      return '';
+    }
+    return Array.from(body.getElementsByTagName('a:p')).map(p => this.drawingParagraphText(p)).filter(Boolean).join(' ');
+  }
+
+  private static drawingParagraphText(paragraph: Element): string {
+    return Array.from(paragraph.getElementsByTagName('a:t'))
+      .map(t => t.textContent || '')
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  // ---- XLSX ----
+
+  private static async extractXlsx(zip: JSZip): Promise<ContentSection[]> {
+    const sections: ContentSection[] = [];
+
+    for (const { name, worksheet, sharedStrings } of await this.readWorksheets(zip)) {
+      const rows = this.readSheetRows(worksheet, sharedStrings).map(row => row.cells);
+      if (rows.length > MAX_SHEET_ROWS) {
+        console.warn(`⚠️ Sheet "${name}" has ${rows.length} rows; keeping the first ${MAX_SHEET_ROWS}`);
+      }
+      sections.push({
+        label: `Sheet: ${name}`,
+        sheet: name,
+        blocks: rows.length > 0 ? [{ type: 'table', rows: rows.slice(0, MAX_SHEET_ROWS) }] : []
+      });
+    }
+    return sections;
+  }
+
+  private static async readWorksheets(zip: JSZip): Promise<Array<{ name: string; worksheet: Document; sharedStrings: string[] }>> {
+    const workbook = await this.readXml(zip, 'xl/workbook.xml');
+    if (!workbook) {
+      throw new Error('The workbook has no sheet list (xl/workbook.xml is missing)');
+    }
+
+    const relationships = await this.readRelationships(zip, 'xl/workbook.xml');
+    const sharedStrings = await this.readSharedStrings(zip);
+    const worksheets: Array<{ name: string; worksheet: Document; sharedStrings: string[] }> = [];
+
+    for (const sheet of Array.from(workbook.getElementsByTagName('sheet'))) {
+      const name = sheet.getAttribute('name') || 'Sheet';
+      const path = relationships.get(sheet.getAttribute('r:id') || '');
+      const worksheet = path ? await this.readXml(zip, path) : null;
+      if (worksheet) {
+        worksheets.push({ name, worksheet, sharedStrings });
+      }
+    }
+    return worksheets;
+  }
+
+  private static async readSharedStrings(zip: JSZip): Promise<string[]> {
+    const strings = await this.readXml(zip, 'xl/sharedStrings.xml');
+    if (!strings) {
+      return [];
+    }
+    return Array.from(strings.getElementsByTagName('si')).map(item =>
+      Array.from(item.getElementsByTagName('t')).map(t => t.textContent || '').join('')
+    );
+  }
+
+  private static readSheetRows(worksheet: Document, sharedStrings: string[]): SpreadsheetSheet['rows'] {
+    const rows: SpreadsheetSheet['rows'] = [];
+    for (const [index, row] of Array.from(worksheet.getElementsByTagName('row')).entries()) {
+      const cells: string[] = [];
+      for (const cell of Array.from(row.getElementsByTagName('c'))) {
+        const column = this.columnIndex(cell.getAttribute('r') || '') ?? cells.length;
+        const type = cell.getAttribute('t');
+        const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+        let text: string;
+        if (type === 's') {
+          text = sharedStrings[Number(value)] ?? '';
+        } else if (type === 'inlineStr') {
+          text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+        } else if (type === 'b') {
+          text = value === '1' ? 'TRUE' : 'FALSE';
+        } else {
+          text = value;
+        }
+        cells[column] = text.replace(/\s+/g, ' ').trim();
+      }
+      const filled = Array.from(cells, cell => cell ?? '');
+      while (filled.length > 0 && !filled[filled.length - 1]) {
+        filled.pop();
+      }
+      if (filled.length > 0) {
+        rows.push({ number: Number(row.getAttribute('r')) || index + 1, cells: filled });
+      }
+    }
+    return rows;
+  }
+
+  // "C12" -> 2
+  private static columnIndex(reference: string): number | null {
+    const letters = reference.match(/^[A-Z]+/)?.[0];
+    if (!letters) {
+      return null;
+    }
+    return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  }
+
+  // ---- Shared ----
+
+  private static async readXml(zip: JSZip, path: string): Promise<Document | null> {
+    const entry = zip.file(path);
+    if (!entry) {
+      return null;
+    }
+    const document = new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      console.warn('⚠️ Could not parse', path);
+      return null;
+    }
+    return document;
+  }
+
+  // Relationship id -> part path, resolved against the folder of the part that owns them
+  private static async readRelationships(zip: JSZip, partPath: string, optional = false): Promise<Map<string, string>> {
+    const folder = partPath.substring(0, partPath.lastIndexOf('/'));
+    const fileName = partPath.substring(partPath.lastIndexOf('/') + 1);
+    const rels = await this.readXml(zip, `${folder}/_rels/${fileName}.rels`);
+    const relationships = new Map<string, string>();
+    if (!rels) {
+      if (!optional) {
+        console.warn('⚠️ Missing relationships for', partPath);
+      }
+      return relationships;
+    }
+    for (const rel of Array.from(rels.getElementsByTagName('Relationship'))) {
+      const id = rel.getAttribute('Id');
+      const target = rel.getAttribute('Target');
+      if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+        relationships.set(id, this.resolvePath(folder, target));
+      }
+    }
+    return relationships;
+  }
+
+  private static resolvePath(folder: string, target: string): string {
+    if (target.startsWith('/')) {
+      return target.slice(1);
+    }
+    const parts = folder ? folder.split('/') : [];
+    for (const segment of target.split('/')) {
+      if (segment === '..') {
+        parts.pop();
+      } else if (segment !== '.') {
+        parts.push(segment);
+      }
+    }
+    return parts.join('/');
+  }
+
+  private static childrenByTag(element: Element, tagName: string): Element[] {
+    return Array.from(element.children).filter(child => child.tagName === tagName);
+  }
+}
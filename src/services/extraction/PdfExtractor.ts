@@ -0,0 +1,331 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ContentBlock, ContentBlocks, LIST_ITEM_PATTERN } from './ContentBlocks';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface PdfPage {
+  pageNumber: number;
+  blocks: ContentBlock[];
+  hasText: boolean; // False for pages that are only a scanned image
+  ocrConfidence?: number; // 0-100, set when the page text came from OCR
+}
+
+export interface PdfDocumentStructure {
+  fileName: string;
+  pageCount: number;
+  pages: PdfPage[];
+  imageOnlyPages: number[];
+  isScanned: boolean;
+}
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+// A horizontal stretch of text within a line; a wide gap starts a new segment (table cell or column)
+interface LineSegment {
+  x: number;
+  right: number;
+  text: string;
+}
+
+interface TextLine {
+  y: number;
+  fontSize: number;
+  segments: LineSegment[];
+}
+
+interface PageLayout {
+  pageNumber: number;
+  lines: TextLine[];
+  characterCount: number;
+}
+
+// Pages with fewer visible characters than this are treated as scanned images
+const MIN_PAGE_CHARACTERS = 20;
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 200;
+const MAX_HEADING_LEVELS = 3;
+
+export class PdfExtractor {
+  static async extract(file: File): Promise<PdfDocumentStructure> {
+    console.log('📄 Extracting PDF text with pdf.js:', file.name);
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    let pdf;
+    try {
+      pdf = await getDocument({ data }).promise;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        throw new Error(`"${file.name}" is password-protected. Please upload an unlocked copy.`);
+      }
+      throw new Error(`"${file.name}" could not be opened as a PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      const layouts: PageLayout[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+        const runs = textContent.items
+          .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+          .map(item => this.toTextRun(item));
+
+        layouts.push({
+          pageNumber,
+          lines: this.orderForReading(this.groupIntoLines(runs), viewport.width),
+          characterCount: runs.reduce((sum, run) => sum + run.text.replace(/\s/g, '').length, 0)
+        });
+        page.cleanup();
+      }
+
+      const bodySize = this.findBodyFontSize(layouts);
+      const headingSizes = this.findHeadingSizes(layouts, bodySize);
+      const pages: PdfPage[] = layouts.map(layout => ({
+        pageNumber: layout.pageNumber,
+        blocks: this.buildBlocks(layout.lines, bodySize, headingSizes),
+        hasText: layout.characterCount >= MIN_PAGE_CHARACTERS
+      }));
+
+      const imageOnlyPages = pages.filter(page => !page.hasText).map(page => page.pageNumber);
+      const result: PdfDocumentStructure = {
+        fileName: file.name,
+        pageCount: pdf.numPages,
+        pages,
+        imageOnlyPages,
+        isScanned: pages.length > 0 && imageOnlyPages.length === pages.length
+      };
+
+      console.log('✅ PDF extraction complete:', {
+        fileName: file.name,
+        pageCount: result.pageCount,
+        imageOnlyPages: imageOnlyPages.length,
+        headings: pages.reduce((sum, page) => sum + page.blocks.filter(b => b.type === 'heading').length, 0),
+        tables: pages.reduce((sum, page) => sum + page.blocks.filter(b => b.type === 'table').length, 0)
+      });
+
+      return result;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  // Draws the given pages onto canvases one at a time, e.g. to OCR scanned pages
+  static async renderPages(
+    file: File,
+    pageNumbers: number[],
+    onPage: (pageNumber: number, canvas: HTMLCanvasElement) => Promise<void>,
+    scale = 2
+  ): Promise<void> {
+    const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+      for (const pageNumber of pageNumbers) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          throw new Error('Canvas rendering is not available in this browser');
+        }
+        await page.render({ canvasContext: context, viewport }).promise;
+        page.cleanup();
+        await onPage(pageNumber, canvas);
+        // Release the bitmap before the next page is drawn
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  // Plain text for the generators, with a marker before each page
+  static toText(document: PdfDocumentStructure): string {
+    return ContentBlocks.sectionsToText(document.pages.map(page => ({
+      label: `Page ${page.pageNumber}`,
+      blocks: page.blocks
+    })));
+  }
+
+  private static toTextRun(item: TextItem): TextRun {
+    const [, , c, d, x, y] = item.transform;
+    return {
+      text: item.str,
+      x,
+      y,
+      width: item.width,
+      fontSize: Math.hypot(c, d) || item.height || 10
+    };
+  }
+
+  private static groupIntoLines(runs: TextRun[]): TextLine[] {
+    const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+    const lines: { y: number; fontSize: number; runs: TextRun[] }[] = [];
+
+    for (const run of sorted) {
+      const line = lines.find(l => Math.abs(l.y - run.y) <= Math.min(l.fontSize, run.fontSize) * 0.5);
+      if (line) {
+        line.runs.push(run);
+        line.fontSize = Math.max(line.fontSize, run.fontSize);
+      } else {
+        lines.push({ y: run.y, fontSize: run.fontSize, runs: [run] });
+      }
+    }
+
+    return lines.map(line => ({
+      y: line.y,
+      fontSize: line.fontSize,
+      segments: this.splitIntoSegments(line.runs.sort((a, b) => a.x - b.x), line.fontSize)
+    }));
+  }
+
+  private static splitIntoSegments(runs: TextRun[], fontSize: number): LineSegment[] {
+    const segments: LineSegment[] = [];
+    for (const run of runs) {
+      const current = segments[segments.length - 1];
+      const gap = current ? run.x - current.right : Infinity;
+      if (current && gap < fontSize * 1.5) {
+        // Runs often split mid-word, so only add a space where there is visible spacing
+        const needsSpace = gap > fontSize * 0.15 && !current.text.endsWith(' ') && !run.text.startsWith(' ');
+        current.text += (needsSpace ? ' ' : '') + run.text;
+        current.right = Math.max(current.right, run.x + run.width);
+      } else {
+        segments.push({ x: run.x, right: run.x + run.width, text: run.text });
+      }
+    }
+    return segments
+      .map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ').trim() }))
+      .filter(segment => segment.text.length > 0);
+  }
+
+  // Two-column pages are read left column first; full-width text above and below stays in place
+  private static orderForReading(lines: TextLine[], pageWidth: number): TextLine[] {
+    const middle = pageWidth / 2;
+    const segments = lines.flatMap(line => line.segments);
+    const left = segments.filter(s => s.right <= middle).length;
+    const right = segments.filter(s => s.x >= middle).length;
+    const crossing = segments.length - left - right;
+
+    // Narrow segments on both sides are table cells rather than columns of running text
+    const averageWidth = (side: LineSegment[]) => side.reduce((sum, s) => sum + s.right - s.x, 0) / (side.length || 1);
+    if (left < 5 || right < 5 || crossing > segments.length * 0.15 ||
+        averageWidth(segments.filter(s => s.right <= middle)) < middle * 0.5 ||
+        averageWidth(segments.filter(s => s.x >= middle)) < middle * 0.5) {
+      return lines;
+    }
+
+    const columnLines = (predicate: (segment: LineSegment) => boolean) => lines
+      .map(line => ({ ...line, segments: line.segments.filter(predicate) }))
+      .filter(line => line.segments.length > 0);
+
+    const leftLines = columnLines(s => s.right <= middle);
+    const rightLines = columnLines(s => s.x >= middle);
+    const fullLines = columnLines(s => s.right > middle && s.x < middle);
+    const columnTop = Math.max(...[...leftLines, ...rightLines].map(line => line.y));
+
+    return [
+      ...fullLines.filter(line => line.y > columnTop),
+      ...leftLines,
+      ...rightLines,
+      ...fullLines.filter(line => line.y <= columnTop)
+    ];
+  }
+
+  // The most common size by amount of text is taken as body text
+  private static findBodyFontSize(layouts: PageLayout[]): number {
+    const weights = new Map<number, number>();
+    for (const line of layouts.flatMap(layout => layout.lines)) {
+      const size = this.roundSize(line.fontSize);
+      const length = line.segments.reduce((sum, s) => sum + s.text.length, 0);
+      weights.set(size, (weights.get(size) || 0) + length);
+    }
+    let bodySize = 10;
+    let bestWeight = -1;
+    weights.forEach((weight, size) => {
+      if (weight > bestWeight) {
+        bodySize = size;
+        bestWeight = weight;
+      }
+    });
+    return bodySize;
+  }
+
+  // Distinct sizes above body text, largest first; the index is the heading level
+  private static findHeadingSizes(layouts: PageLayout[], bodySize: number): number[] {
+    const sizes = new Set<number>();
+    for (const line of layouts.flatMap(layout => layout.lines)) {
+      if (this.isHeadingLine(line, bodySize)) {
+        sizes.add(this.roundSize(line.fontSize));
+      }
+    }
+    return [...sizes].sort((a, b) => b - a);
+  }
+
+  private static isHeadingLine(line: TextLine, bodySize: number): boolean {
+    const text = line.segments.map(s => s.text).join(' ');
+    return line.fontSize >= bodySize * HEADING_SIZE_RATIO && text.length <= MAX_HEADING_LENGTH;
+  }
+
+  private static buildBlocks(lines: TextLine[], bodySize: number, headingSizes: number[]): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+    // Lines that ended the previous block, used to decide whether the next line continues it
+    let previous: TextLine | null = null;
+
+    lines.forEach((line, index) => {
+      const text = line.segments.map(s => s.text).join(' ');
+      const last = blocks[blocks.length - 1];
+
+      // Bare page numbers at the top or bottom of the page
+      if ((index === 0 || index === lines.length - 1) && /^\d{1,4}$/.test(text)) {
+        return;
+      }
+
+      if (this.isHeadingLine(line, bodySize)) {
+        const level = Math.min(headingSizes.indexOf(this.roundSize(line.fontSize)) + 1, MAX_HEADING_LEVELS);
+        if (last?.type === 'heading' && last.level === level && previous && this.isContinuation(previous, line)) {
+          last.text += ` ${text}`;
+        } else {
+          blocks.push({ type: 'heading', level, text });
+        }
+      } else if (line.segments.length > 1) {
+        const cells = line.segments.map(s => s.text);
+        if (last?.type === 'table' && previous && this.isContinuation(previous, line, 2.5)) {
+          last.rows.push(cells);
+        } else {
+          blocks.push({ type: 'table', rows: [cells] });
+        }
+      } else if (LIST_ITEM_PATTERN.test(text)) {
+        blocks.push({ type: 'list-item', text });
+      } else if ((last?.type === 'paragraph' || last?.type === 'list-item') && previous && this.isContinuation(previous, line)) {
+        last.text = ContentBlocks.joinLines(last.text, text);
+      } else {
+        blocks.push({ type: 'paragraph', text });
+      }
+
+      previous = line;
+    });
+
+    // A "table" with a single row is just a line with wide spacing
+    return blocks.map(block => block.type === 'table' && block.rows.length < 2
+      ? { type: 'paragraph', text: block.rows[0].join(' ') }
+      : block);
+  }
+
+  private static isContinuation(previous: TextLine, line: TextLine, maxGapRatio = 1.8): boolean {
+    const gap = previous.y - line.y;
+    return gap > 0 && gap <= Math.max(previous.fontSize, line.fontSize) * maxGapRatio;
+  }
+
+  private static roundSize(size: number): number {
+    return Math.round(size * 2) / 2;
+  }
+}
@@ -0,0 +1,243 @@
+import { ContentBlock, ContentBlocks, ContentSection } from './ContentBlocks';
+import type { PdfDocumentStructure } from './PdfExtractor';
+import type { OfficeDocumentKind, OfficeDocumentStructure } from './OfficeExtractor';
+
+export type SourceDocumentKind = 'pdf' | OfficeDocumentKind | 'text' | 'image';
+
+// One uploaded file as the generators see it: sections (pages, slides, sheets) of content blocks
+export interface SourceDocument {
+  fileName: string;
+  kind: SourceDocumentKind;
+  extractionMethod: string;
+  sections: ContentSection[];
+}
+
+// Where a passage sits in the uploaded files; stored on generated questions and course materials
+export interface SourceLocator {
+  fileName: string;
+  page?: number;
+  slide?: number;
+  sheet?: string;
+  heading?: string; // Nearest heading above the passage
+}
+
+// What a generated question stores about its source: where it is and the passage itself
+export interface SourceCitation {
+  locator: SourceLocator;
+  excerpt: string;
+}
+
+// How much of one page, slide or sheet the questions of a questionnaire draw on
+export interface SectionCoverage {
+  locator: SourceLocator;
+  characters: number;
+  questions: number; // Questions citing at least one passage in the section
+}
+
+// Long tables and paragraphs are cut so a citation stays readable in the editor
+const MAX_EXCERPT_LENGTH = 600;
+
+// A citable block. Refs are numbered across every document in the order given, so the
+// same document list must be used to render a prompt and to resolve the refs in its reply.
+export interface SourcePassage {
+  ref: string;
+  block: ContentBlock;
+  documentIndex: number;
+  sectionIndex: number;
+  sectionLabel: string;
+  heading?: { level: number; text: string };
+  locator: SourceLocator;
+}
+
+export class SourceDocuments {
+  static fromPdf(pdf: PdfDocumentStructure, extractionMethod: string): SourceDocument {
+    return {
+      fileName: pdf.fileName,
+      kind: 'pdf',
+      extractionMethod,
+      sections: pdf.pages.map(page => ({ label: `Page ${page.pageNumber}`, page: page.pageNumber, blocks: page.blocks }))
+    };
+  }
+
+  static fromOffice(office: OfficeDocumentStructure, extractionMethod: string): SourceDocument {
+    return {
+      fileName: office.fileName,
+      kind: office.kind,
+      extractionMethod,
+      sections: office.sections
+    };
+  }
+
+  // Text without layout information (plain files, OCR'd images, model-read scans) becomes one section
+  static fromText(fileName: string, kind: SourceDocumentKind, text: string, extractionMethod: string): SourceDocument {
+    return {
+      fileName,
+      kind,
+      extractionMethod,
+      sections: [{ label: '', blocks: ContentBlocks.fromPlainText(text) }]
+    };
+  }
+
+  static passages(documents: SourceDocument[]): SourcePassage[] {
+    const passages: SourcePassage[] = [];
+
+    documents.forEach((document, documentIndex) => {
+      document.sections.forEach((section, sectionIndex) => {
+        // Headings are not cited themselves; they label the passages below them
+        let heading: SourcePassage['heading'];
+        for (const block of section.blocks) {
+          if (block.type === 'heading') {
+            heading = { level: block.level, text: block.text };
+            continue;
+          }
+          passages.push({
+            ref: `S${passages.length + 1}`,
+            block,
+            documentIndex,
+            sectionIndex,
+            sectionLabel: section.label,
+            heading,
+            locator: {
+              fileName: document.fileName,
+              ...(section.page !== undefined ? { page: section.page } : {}),
+              ...(section.slide !== undefined ? { slide: section.slide } : {}),
+              ...(section.sheet !== undefined ? { sheet: section.sheet } : {}),
+              ...(heading ? { heading: heading.text } : {})
+            }
+          });
+        }
+      });
+    });
+
+    return passages;
+  }
+
+  // Prompt text with a [ref] before every passage, so the model can say which passages it used
+  static toPromptText(documents: SourceDocument[]): string {
+    return this.passagesToPromptText(this.passages(documents));
+  }
+
+  static passagesToPromptText(passages: SourcePassage[]): string {
+    const lines: string[] = [];
+    let previous: SourcePassage | undefined;
+
+    for (const passage of passages) {
+      const newDocument = !previous || previous.documentIndex !== passage.documentIndex;
+      const newSection = newDocument || previous.sectionIndex !== passage.sectionIndex;
+      if (newDocument) {
+        lines.push(`=== File: ${passage.locator.fileName} ===`);
+      }
+      if (newSection && passage.sectionLabel) {
+        lines.push(`[${passage.sectionLabel}]`);
+      }
+      if (passage.heading && (newSection || previous.heading !== passage.heading)) {
+        lines.push(ContentBlocks.blockToText({ type: 'heading', ...passage.heading }));
+      }
+      lines.push(`[${passage.ref}] ${ContentBlocks.blockToText(passage.block)}`);
+      previous = passage;
+    }
+
+    return lines.join('\n\n');
+  }
+
+  // Plain text for generators that do not cite, such as the course writer
+  static toText(documents: SourceDocument[]): string {
+    return documents
+      .map(document => `=== File: ${document.fileName} ===\n\n${ContentBlocks.sectionsToText(document.sections)}`)
+      .join('\n\n');
+  }
+
+  static textLength(documents: SourceDocument[]): number {
+    return documents.reduce((sum, document) =>
+      sum + document.sections.reduce((sectionSum, section) =>
+        sectionSum + section.blocks.reduce((blockSum, block) => blockSum + ContentBlocks.blockToText(block).length, 0), 0), 0);
+  }
+
+  // Unknown refs are dropped; a model occasionally invents one
+  static resolveRefs(documents: SourceDocument[], refs: string[]): SourcePassage[] {
+    const wanted = new Set(refs.map(ref => ref.trim().replace(/^\[|\]$/g, '').toUpperCase()));
+    return this.passages(documents).filter(passage => wanted.has(passage.ref));
+  }
+
+  // Passages cited together from the same page or slide become one citation
+  static toCitations(passages: SourcePassage[]): SourceCitation[] {
+    const citations: SourceCitation[] = [];
+    const byLocation = new Map<string, SourceCitation>();
+
+    for (const passage of passages) {
+      const { locator } = passage;
+      const key = [locator.fileName, locator.page, locator.slide, locator.sheet, locator.heading].join('|');
+      const text = ContentBlocks.blockToText(passage.block);
+      const existing = byLocation.get(key);
+      if (existing) {
+        existing.excerpt = this.truncateExcerpt(`${existing.excerpt}\n\n${text}`);
+      } else {
+        const citation = { locator, excerpt: this.truncateExcerpt(text) };
+        byLocation.set(key, citation);
+        citations.push(citation);
+      }
+    }
+
+    return citations;
+  }
+
+  private static truncateExcerpt(text: string): string {
+    return text.length > MAX_EXCERPT_LENGTH ? `${text.substring(0, MAX_EXCERPT_LENGTH - 3)}...` : text;
+  }
+
+  // One locator per page, slide or sheet that has content
+  static sectionLocators(documents: SourceDocument[]): SourceLocator[] {
+    return documents.flatMap(document => document.sections
+      .filter(section => section.blocks.length > 0)
+      .map(section => ({
+        fileName: document.fileName,
+        ...(section.page !== undefined ? { page: section.page } : {}),
+        ...(section.slide !== undefined ? { slide: section.slide } : {}),
+        ...(section.sheet !== undefined ? { sheet: section.sheet } : {})
+      })));
+  }
+
+  // Every section with content, with the number of questions that cite it; each entry of
+  // citedLocators holds the locators of one question
+  static sectionCoverage(documents: SourceDocument[], citedLocators: SourceLocator[][]): SectionCoverage[] {
+    const citedSections = citedLocators.map(locators => new Set(locators.map(locator => this.sectionKey(locator))));
+
+    return documents.flatMap(document => document.sections
+      .filter(section => section.blocks.length > 0)
+      .map(section => {
+        const locator = this.sectionLocators([{ ...document, sections: [section] }])[0];
+        const key = this.sectionKey(locator);
+        return {
+          locator,
+          characters: section.blocks.reduce((sum, block) => sum + ContentBlocks.blockToText(block).length, 0),
+          questions: citedSections.filter(sections => sections.has(key)).length
+        };
+      }));
+  }
+
+  // Distinct locators, in order, ignoring headings when the same page is cited twice
+  static uniqueLocators(locators: SourceLocator[]): SourceLocator[] {
+    const seen = new Set<string>();
+    return locators.filter(locator => {
+      const key = this.sectionKey(locator);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private static sectionKey(locator: SourceLocator): string {
+    return [locator.fileName, locator.page, locator.slide, locator.sheet].join('|');
+  }
+
+  static formatLocator(locator: SourceLocator): string {
+    const parts = [locator.fileName];
+    if (locator.page !== undefined) parts.push(`page ${locator.page}`);
+    if (locator.slide !== undefined) parts.push(`slide ${locator.slide}`);
+    if (locator.sheet !== undefined) parts.push(`sheet "${locator.sheet}"`);
+    if (locator.heading) parts.push(locator.heading);
+    return parts.join(', ');
+  }
+}
@@ -0,0 +1,144 @@
+import { LlmProvider, LlmProviderConfig, LlmProviderId, LlmTask } from './LlmTypes';
+import { ServerProxyProvider } from './providers/ServerProxyProvider';
+import { OpenAIProvider } from './providers/OpenAIProvider';
+import { AzureOpenAIProvider } from './providers/AzureOpenAIProvider';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  baseUrl?: string;
+  apiVersion?: string;
+  models: Partial<Record<LlmTask, string>>;
+}
+
+export const LLM_TASKS: { task: LlmTask; label: string }[] = [
+  { task: 'question-generation', label: 'Question generation' },
+  { task: 'course-generation', label: 'Course generation' },
+  { task: 'document-extraction', label: 'Document extraction' },
+  { task: 'image-analysis', label: 'Image analysis' },
+  { task: 'translation', label: 'Translation' },
+  { task: 'content-enhancement', label: 'Content clean-up' }
+];
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  'server': new ServerProxyProvider(),
+  'openai': new OpenAIProvider(),
+  'azure-openai': new AzureOpenAIProvider(),
+  'anthropic': new AnthropicProvider(),
+  'openai-compatible': new OpenAICompatibleProvider()
+};
+
+const uniformModels = (model: string): Record<LlmTask, string> =>
+  Object.fromEntries(LLM_TASKS.map(({ task }) => [task, model])) as Record<LlmTask, string>;
+
+const DEFAULT_MODELS: Record<LlmProviderId, Record<LlmTask, string>> = {
+  'server': { ...uniformModels('gpt-4.1-2025-04-14'), 'image-analysis': 'gpt-4o' },
+  'openai': { ...uniformModels('gpt-4.1-2025-04-14'), 'image-analysis': 'gpt-4o' },
+  'azure-openai': { ...uniformModels('gpt-4.1'), 'image-analysis': 'gpt-4o' },
+  'anthropic': uniformModels('claude-sonnet-4-20250514'),
+  'openai-compatible': uniformModels('llama3.1')
+};
+
+export class LlmSettingsService {
+  private static readonly SETTINGS_KEY = 'llm_settings';
+  private static readonly API_KEYS_KEY = 'llm_api_keys';
+  // Kept from before providers existed so saved OpenAI keys keep working
+  private static readonly OPENAI_KEY = 'openai_api_key';
+
+  static getProviders(): LlmProvider[] {
+    return Object.values(PROVIDERS);
+  }
+
+  static getSettings(): LlmSettings {
+    try {
+      const stored = localStorage.getItem(this.SETTINGS_KEY);
+      if (stored) {
+        const settings = JSON.parse(stored) as LlmSettings;
+        if (PROVIDERS[settings.provider]) {
+          return { ...settings, models: settings.models || {} };
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to read LLM settings:', error);
+    }
+    // Browsers that saved an OpenAI key before the server proxy existed keep using it
+    return { provider: localStorage.getItem(this.OPENAI_KEY) ? 'openai' : 'server', models: {} };
+  }
+
+  static saveSettings(settings: LlmSettings): void {
+    localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+    console.log('✅ LLM settings saved:', settings.provider);
+  }
+
+  static getActiveProvider(): LlmProvider {
+    return PROVIDERS[this.getSettings().provider];
+  }
+
+  static getDefaultModel(provider: LlmProviderId, task: LlmTask): string {
+    return DEFAULT_MODELS[provider][task];
+  }
+
+  static getModel(task: LlmTask): string {
+    const settings = this.getSettings();
+    return settings.models[task]?.trim() || this.getDefaultModel(settings.provider, task);
+  }
+
+  static getApiKey(provider: LlmProviderId = this.getSettings().provider): string {
+    if (provider === 'openai') {
+      return localStorage.getItem(this.OPENAI_KEY) || '';
+    }
+    return this.getStoredKeys()[provider] || '';
+  }
+
+  static setApiKey(apiKey: string, provider: LlmProviderId = this.getSettings().provider): void {
+    if (provider === 'openai') {
+      localStorage.setItem(this.OPENAI_KEY, apiKey);
+      return;
+    }
+    localStorage.setItem(this.API_KEYS_KEY, JSON.stringify({ ...this.getStoredKeys(), [provider]: apiKey }));
+  }
+
+  static clearApiKey(provider: LlmProviderId = this.getSettings().provider): void {
+    if (provider === 'openai') {
+      localStorage.removeItem(this.OPENAI_KEY);
+      return;
+    }
+    const keys = this.getStoredKeys();
+    delete keys[provider];
+    localStorage.setItem(this.API_KEYS_KEY, JSON.stringify(keys));
+  }
+
+  static getProviderConfig(): LlmProviderConfig {
+    const settings = this.getSettings();
+    return {
+      apiKey: this.getApiKey(settings.provider),
+      baseUrl: settings.baseUrl?.trim() || undefined,
+      apiVersion: settings.apiVersion?.trim() || undefined
+    };
+  }
+
+  // Whether the active provider has what it needs to make a call
+  static isConfigured(): boolean {
+    const provider = this.getActiveProvider();
+    const config = this.getProviderConfig();
+    return (!provider.requiresApiKey || !!config.apiKey) && (!provider.requiresBaseUrl || !!config.baseUrl);
+  }
+
+  // Rough context window used for payload size checks; self-hosted models are assumed to be small
+  static getContextLimit(model: string): number {
+    if (model.startsWith('gpt-3.5')) return 15000;
+    if (model.startsWith('gpt-4') || model.startsWith('claude')) return 120000;
+    return 32000;
+  }
+
+  private static getStoredKeys(): Partial<Record<LlmProviderId, string>> {
+    try {
+      const stored = localStorage.getItem(this.API_KEYS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('❌ Failed to read LLM API keys:', error);
+      return {};
+    }
+  }
+}
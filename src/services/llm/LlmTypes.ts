@@ -0,0 +1,57 @@
+export type LlmProviderId = 'server' | 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+
+// Each kind of work can run on a different model, e.g. a cheaper one for translation
+export type LlmTask =
+  | 'question-generation'
+  | 'course-generation'
+  | 'document-extraction'
+  | 'image-analysis'
+  | 'translation'
+  | 'content-enhancement';
+
+export type LlmContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string } // Base64 without the data: prefix
+  | { type: 'file'; filename: string; mediaType: string; data: string };
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | LlmContentPart[];
+}
+
+export interface LlmChatRequest {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean; // Ask for a single JSON object as the whole reply
+  label?: string; // Which part of the app is calling, recorded in the server's usage log
+}
+
+export interface LlmChatResponse {
+  content: string;
+  model?: string;
+  finishReason?: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface LlmProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+  apiVersion?: string; // Azure OpenAI only
+}
+
+export interface LlmProviderCapabilities {
+  jsonMode: boolean;
+  fileInput: boolean;
+  vision: boolean;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  capabilities: LlmProviderCapabilities;
+  chat(request: LlmChatRequest, config: LlmProviderConfig, signal?: AbortSignal): Promise<LlmChatResponse>;
+}
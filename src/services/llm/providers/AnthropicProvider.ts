@@ -0,0 +1,92 @@
+import { LlmChatRequest, LlmChatResponse, LlmContentPart, LlmProvider, LlmProviderConfig, LlmProviderId } from '../LlmTypes';
+import { LlmHttp } from './LlmHttp';
+
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export class AnthropicProvider implements LlmProvider {
+  id: LlmProviderId = 'anthropic';
+  label = 'Anthropic';
+  requiresApiKey = true;
+  requiresBaseUrl = false;
+  capabilities = { jsonMode: true, fileInput: true, vision: true };
+
+  private static readonly DEFAULT_BASE_URL = 'https://api.anthropic.com';
+  private static readonly API_VERSION = '2023-06-01';
+  private static readonly DEFAULT_MAX_TOKENS = 4096;
+
+  async chat(request: LlmChatRequest, config: LlmProviderConfig, signal?: AbortSignal): Promise<LlmChatResponse> {
+    if (!config.apiKey) {
+      throw new Error('Anthropic API key not configured');
+    }
+
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => typeof message.content === 'string' ? message.content : this.textOf(message.content))
+      .join('\n\n');
+
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string' ? message.content : message.content.map(part => this.toWirePart(part))
+      }));
+
+    // There is no JSON response mode, so the reply is prefilled with "{" and the brace added back below
+    if (request.jsonMode) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+
+    const data = await LlmHttp.postJson<AnthropicMessageResponse>(
+      this.label,
+      `${LlmHttp.trimTrailingSlash(config.baseUrl || AnthropicProvider.DEFAULT_BASE_URL)}/v1/messages`,
+      {
+        'x-api-key': config.apiKey,
+        'anthropic-version': AnthropicProvider.API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      {
+        model: request.model,
+        max_tokens: request.maxTokens ?? AnthropicProvider.DEFAULT_MAX_TOKENS,
+        ...(system ? { system } : {}),
+        messages,
+        ...(request.temperature !== undefined ? { temperature: Math.min(request.temperature, 1) } : {})
+      },
+      signal
+    );
+
+    const text = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    return {
+      content: request.jsonMode ? `{${text}` : text,
+      model: data.model,
+      finishReason: data.stop_reason,
+      usage: data.usage ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens } : undefined
+    };
+  }
+
+  private textOf(parts: LlmContentPart[]): string {
+    return parts
+      .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  private toWirePart(part: LlmContentPart) {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data } };
+      case 'file':
+        return { type: 'document', source: { type: 'base64', media_type: part.mediaType, data: part.data } };
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { LlmChatRequest, LlmProviderConfig, LlmProviderId } from '../LlmTypes';
+import { LlmHttp } from './LlmHttp';
+import { OpenAIProvider } from './OpenAIProvider';
+
+// Azure routes by deployment, so the model configured for a task is the deployment name
+export class AzureOpenAIProvider extends OpenAIProvider {
+  id: LlmProviderId = 'azure-openai';
+  label = 'Azure OpenAI';
+  requiresBaseUrl = true;
+
+  private static readonly DEFAULT_API_VERSION = '2024-10-21';
+
+  protected validateConfig(config: LlmProviderConfig): void {
+    if (!config.apiKey) {
+      throw new Error('Azure OpenAI API key not configured');
+    }
+    if (!config.baseUrl) {
+      throw new Error('Azure OpenAI endpoint not configured, e.g. https://my-resource.openai.azure.com');
+    }
+  }
+
+  protected getUrl(request: LlmChatRequest, config: LlmProviderConfig): string {
+    const endpoint = LlmHttp.trimTrailingSlash(config.baseUrl || '');
+    const apiVersion = config.apiVersion || AzureOpenAIProvider.DEFAULT_API_VERSION;
+    return `${endpoint}/openai/deployments/${encodeURIComponent(request.model)}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  protected getHeaders(config: LlmProviderConfig): Record<string, string> {
+    return { 'api-key': config.apiKey };
+  }
+}
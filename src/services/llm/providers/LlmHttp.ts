@@ -0,0 +1,81 @@
+export class LlmHttp {
+  static async postJson<T>(
+    providerLabel: string,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorMessage = errorText || 'Unknown error';
+      try {
+        const errorData = JSON.parse(errorText);
+        errorMessage = errorData.error?.message || errorData.message || errorMessage;
+      } catch {
+        // Plain-text error body
+      }
+
+      console.error(`❌ ${providerLabel} API Error:`, {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorMessage
+      });
+
+      throw new Error(this.describeHttpError(providerLabel, response.status, response.statusText, errorMessage));
+    }
+
+    const data = await response.json();
+    if (!data) {
+      throw new Error(`Empty response from ${providerLabel} API`);
+    }
+    return data as T;
+  }
+
+  static describeHttpError(providerLabel: string, status: number, statusText: string, errorMessage: string): string {
+    let message = `${providerLabel} API request failed: ${status} - ${statusText}`;
+
+    switch (status) {
+      case 400:
+        message += `. Invalid request: ${errorMessage}`;
+        break;
+      case 401:
+        message += '. Please check your API key in settings.';
+        break;
+      case 403:
+        message += '. Access forbidden. Check your API key permissions.';
+        break;
+      case 429:
+        message += '. Rate limit exceeded. Please wait and try again.';
+        break;
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        message += `. ${providerLabel} server error. Please try again later.`;
+        break;
+      default:
+        message += `. ${errorMessage}`;
+    }
+
+    return message;
+  }
+
+  static toDataUrl(mediaType: string, data: string): string {
+    return `data:${mediaType};base64,${data}`;
+  }
+
+  static trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,22 @@
+import { LlmProviderConfig, LlmProviderId } from '../LlmTypes';
+import { OpenAIProvider } from './OpenAIProvider';
+
+// Self-hosted servers that speak the Chat Completions API, e.g. Ollama (http://localhost:11434/v1) or vLLM
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  id: LlmProviderId = 'openai-compatible';
+  label = 'OpenAI-compatible server';
+  requiresApiKey = false;
+  requiresBaseUrl = true;
+  // Vision depends on the model being served; raw file uploads are not part of these servers' API
+  capabilities = { jsonMode: true, fileInput: false, vision: true };
+
+  protected validateConfig(config: LlmProviderConfig): void {
+    if (!config.baseUrl) {
+      throw new Error('Base URL for the OpenAI-compatible server not configured');
+    }
+  }
+
+  protected getHeaders(config: LlmProviderConfig): Record<string, string> {
+    return config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+  }
+}
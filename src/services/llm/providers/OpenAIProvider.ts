@@ -0,0 +1,92 @@
+import { LlmChatRequest, LlmChatResponse, LlmContentPart, LlmMessage, LlmProvider, LlmProviderConfig, LlmProviderId } from '../LlmTypes';
+import { LlmHttp } from './LlmHttp';
+
+interface ChatCompletion {
+  model?: string;
+  choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+// Chat Completions wire format, shared by Azure OpenAI and OpenAI-compatible servers
+export class OpenAIProvider implements LlmProvider {
+  id: LlmProviderId = 'openai';
+  label = 'OpenAI';
+  requiresApiKey = true;
+  requiresBaseUrl = false;
+  capabilities = { jsonMode: true, fileInput: true, vision: true };
+
+  protected static readonly DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+  async chat(request: LlmChatRequest, config: LlmProviderConfig, signal?: AbortSignal): Promise<LlmChatResponse> {
+    this.validateConfig(config);
+
+    const data = await LlmHttp.postJson<ChatCompletion>(
+      this.label,
+      this.getUrl(request, config),
+      this.getHeaders(config),
+      this.buildBody(request),
+      signal
+    );
+
+    const choice = data.choices?.[0];
+    if (!choice || !choice.message) {
+      throw new Error(`Invalid response format from ${this.label}: no message in first choice`);
+    }
+
+    return {
+      content: choice.message.content ?? '',
+      model: data.model,
+      finishReason: choice.finish_reason,
+      usage: data.usage ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens } : undefined
+    };
+  }
+
+  protected validateConfig(config: LlmProviderConfig): void {
+    if (!config.apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+    // Only official keys have a known shape; proxies in front of OpenAI may issue their own
+    if (!config.baseUrl && (!config.apiKey.startsWith('sk-') || config.apiKey.length < 40)) {
+      throw new Error('Invalid OpenAI API key format');
+    }
+  }
+
+  protected getUrl(_request: LlmChatRequest, config: LlmProviderConfig): string {
+    return `${LlmHttp.trimTrailingSlash(config.baseUrl || OpenAIProvider.DEFAULT_BASE_URL)}/chat/completions`;
+  }
+
+  protected getHeaders(config: LlmProviderConfig): Record<string, string> {
+    return { 'Authorization': `Bearer ${config.apiKey}` };
+  }
+
+  protected buildBody(request: LlmChatRequest): Record<string, unknown> {
+    return {
+      model: request.model,
+      messages: request.messages.map(message => this.toWireMessage(message)),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {})
+    };
+  }
+
+  protected toWireMessage(message: LlmMessage) {
+    if (typeof message.content === 'string') {
+      return { role: message.role, content: message.content };
+    }
+    return { role: message.role, content: message.content.map(part => this.toWirePart(part)) };
+  }
+
+  protected toWirePart(part: LlmContentPart) {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return { type: 'image_url', image_url: { url: LlmHttp.toDataUrl(part.mediaType, part.data) } };
+      case 'file':
+        if (!this.capabilities.fileInput) {
+          throw new Error(`${this.label} does not accept file uploads; extract the text before sending it`);
+        }
+        return { type: 'file', file: { filename: part.filename, file_data: LlmHttp.toDataUrl(part.mediaType, part.data) } };
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LlmChatRequest, LlmChatResponse, LlmProvider, LlmProviderConfig, LlmProviderId } from '../LlmTypes';
+
+// Calls go to the llm-proxy edge function, which holds the organisation's key, serves admins
+// and guest translations and enforces per-user quotas, so the browser never sees a provider key
+export class ServerProxyProvider implements LlmProvider {
+  id: LlmProviderId = 'server';
+  label = 'Organisation server';
+  requiresApiKey = false;
+  requiresBaseUrl = false;
+  capabilities = { jsonMode: true, fileInput: true, vision: true };
+
+  async chat(request: LlmChatRequest, _config: LlmProviderConfig, signal?: AbortSignal): Promise<LlmChatResponse> {
+    const { label, ...chatRequest } = request;
+    const invocation = supabase.functions.invoke('llm-proxy', {
+      body: { label, request: chatRequest }
+    });
+
+    // functions.invoke cannot be cancelled, so a timeout only stops waiting for it
+    const { data, error } = await new Promise<Awaited<typeof invocation>>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Request aborted', 'AbortError'));
+        return;
+      }
+      signal?.addEventListener('abort', () => reject(new DOMException('Request aborted', 'AbortError')), { once: true });
+      invocation.then(resolve, reject);
+    });
+
+    if (error) {
+      throw new Error(await this.describeError(error));
+    }
+
+    if (!data || typeof data.content !== 'string') {
+      throw new Error(`Invalid response format from ${this.label}`);
+    }
+
+    return data as LlmChatResponse;
+  }
+
+  // The function answers errors with { error }, which the client only exposes on the raw response
+  private async describeError(error: { message: string; context?: Response }): Promise<string> {
+    try {
+      const body = await error.context?.json();
+      if (body?.error) {
+        return body.error;
+      }
+    } catch {
+      // Not a JSON error body; fall back to the client's message
+    }
+    return error.message || 'The AI service request failed';
+  }
+}
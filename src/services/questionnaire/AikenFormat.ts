@@ -0,0 +1,159 @@
+import { BOOLEAN_OPTIONS, Question, QuestionParseError, QuestionParseResult, QuestionSerializeResult } from './QuestionnaireTypes';
+import { ResponseScoring } from '../response/ResponseScoring';
+
+interface AikenQuestion {
+  line: number;
+  textLines: string[];
+  options: string[];
+  failed: boolean; // An error was reported; the rest is skipped up to the ANSWER line
+}
+
+const OPTION_LINE = /^([A-Za-z])[.)]\s+(.*)$/;
+const ANSWER_LINE = /^ANSWER\s*:\s*(.*)$/i;
+
+// Moodle's Aiken format: question text, lettered options and an "ANSWER: X" line. It only
+// has single-answer multiple choice. https://docs.moodle.org/en/Aiken_format
+export class AikenFormat {
+  static parse(content: string): QuestionParseResult {
+    const questions: Question[] = [];
+    const errors: QuestionParseError[] = [];
+    let current: AikenQuestion | null = null;
+    let blankSinceOptions = false;
+
+    const start = (line: number, text: string): AikenQuestion => ({ line, textLines: [text], options: [], failed: false });
+    const fail = (line: number, message: string) => {
+      errors.push({ line, message });
+      if (current) {
+        current.failed = true;
+      }
+    };
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+      const lineNumber = index + 1;
+      const line = rawLine.trim();
+
+      if (!line) {
+        if (current?.failed) {
+          current = null;
+        } else if (current?.options.length) {
+          blankSinceOptions = true;
+        }
+        return;
+      }
+
+      const answerMatch = line.match(ANSWER_LINE);
+      if (answerMatch) {
+        if (!current || current.options.length === 0) {
+          errors.push({ line: lineNumber, message: 'ANSWER line without a question and options above it' });
+        } else if (!current.failed) {
+          const question = this.buildQuestion(current, answerMatch[1].trim(), lineNumber, errors);
+          if (question) {
+            questions.push(question);
+          }
+        }
+        current = null;
+        return;
+      }
+
+      if (current?.failed) {
+        return;
+      }
+
+      const optionMatch = current ? line.match(OPTION_LINE) : null;
+      if (optionMatch) {
+        const letter = optionMatch[1].toUpperCase();
+        const expected = String.fromCharCode(65 + current.options.length);
+        if (letter !== expected) {
+          fail(lineNumber, `Expected option ${expected}, found ${letter}`);
+        } else {
+          current.options.push(optionMatch[2].trim());
+          blankSinceOptions = false;
+        }
+        return;
+      }
+
+      if (current?.options.length) {
+        // A new question after a blank line means the previous one never got its answer
+        if (blankSinceOptions) {
+          errors.push({ line: current.line, message: 'The question has no ANSWER line' });
+          current = start(lineNumber, line);
+          blankSinceOptions = false;
+        } else {
+          fail(lineNumber, 'Expected the next option (such as "C. ...") or an "ANSWER: X" line');
+        }
+        return;
+      }
+
+      if (current) {
+        current.textLines.push(line);
+      } else {
+        current = start(lineNumber, line);
+      }
+    });
+
+    if (current && !current.failed) {
+      errors.push({ line: current.line, message: 'The question has no ANSWER line' });
+    }
+
+    return { questions, errors };
+  }
+
+  // Only multiple-choice and true/false questions fit the format
+  static serialize(questions: Question[]): QuestionSerializeResult {
+    const blocks: string[] = [];
+    const skipped: Question[] = [];
+
+    for (const question of questions) {
+      const options = question.type === 'boolean' ? BOOLEAN_OPTIONS : question.options || [];
+      if ((question.type !== 'multiple-choice' && question.type !== 'boolean') || options.length < 2 || options.length > 26) {
+        skipped.push(question);
+        continue;
+      }
+      const correct = ResponseScoring.getCorrectAnswerIndices(question)[0];
+      blocks.push([
+        this.singleLine(question.text),
+        ...options.map((option, index) => `${String.fromCharCode(65 + index)}. ${this.singleLine(option)}`),
+        `ANSWER: ${String.fromCharCode(65 + correct)}`
+      ].join('\n'));
+    }
+
+    return { text: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', skipped };
+  }
+
+  private static buildQuestion(
+    parsed: AikenQuestion,
+    answer: string,
+    answerLine: number,
+    errors: QuestionParseError[]
+  ): Question | null {
+    if (parsed.options.length < 2) {
+      errors.push({ line: parsed.line, message: 'The question needs at least two options' });
+      return null;
+    }
+
+    const correct = answer.length === 1 ? answer.toUpperCase().charCodeAt(0) - 65 : -1;
+    if (correct < 0 || correct >= parsed.options.length) {
+      const last = String.fromCharCode(64 + parsed.options.length);
+      errors.push({ line: answerLine, message: `The answer "${answer}" is not one of the options A-${last}` });
+      return null;
+    }
+
+    const isBoolean = parsed.options.length === 2 &&
+      parsed.options.every((option, index) => option.toLowerCase() === BOOLEAN_OPTIONS[index].toLowerCase());
+    return {
+      id: this.generateId(),
+      text: parsed.textLines.join('\n'),
+      type: isBoolean ? 'boolean' : 'multiple-choice',
+      options: isBoolean ? [...BOOLEAN_OPTIONS] : parsed.options,
+      correctAnswer: correct
+    };
+  }
+
+  private static singleLine(text: string): string {
+    return (text || '').replace(/\s*\r?\n\s*/g, ' ').trim();
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
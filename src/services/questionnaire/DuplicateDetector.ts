@@ -0,0 +1,90 @@
+import { DuplicateFlag, Question } from './QuestionnaireTypes';
+
+export interface DuplicateCandidate {
+  text: string;
+  source: string; // Where the question lives, e.g. "Set 1" or "Question bank"
+}
+
+export interface DuplicateMatch extends DuplicateFlag {
+  questionId: string;
+}
+
+// Words that carry no meaning on their own; dropping them lets paraphrases share more shingles
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'is', 'are', 'was', 'were', 'be', 'by',
+  'with', 'as', 'at', 'from', 'that', 'this', 'which', 'what', 'who', 'whom', 'how', 'why', 'when', 'where',
+  'does', 'do', 'did', 'can', 'could', 'should', 'would', 'will', 'it', 'its', 'following', 'according'
+]);
+
+export class DuplicateDetector {
+  static readonly DEFAULT_THRESHOLD = 0.5;
+  private static SHINGLE_SIZE = 2;
+
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(token => token && !STOP_WORDS.has(token))
+      // Crude plural folding so "processes" and "process" line up
+      .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+  }
+
+  // Word shingles plus single words, so very short questions still produce a usable set
+  static shingles(text: string): Set<string> {
+    const tokens = this.tokenize(text);
+    const result = new Set<string>(tokens);
+    for (let i = 0; i + this.SHINGLE_SIZE <= tokens.length; i++) {
+      result.add(tokens.slice(i, i + this.SHINGLE_SIZE).join(' '));
+    }
+    return result;
+  }
+
+  static jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) {
+      return 0;
+    }
+    let intersection = 0;
+    a.forEach(item => {
+      if (b.has(item)) {
+        intersection++;
+      }
+    });
+    return intersection / (a.size + b.size - intersection);
+  }
+
+  static similarity(a: string, b: string): number {
+    return this.jaccard(this.shingles(a), this.shingles(b));
+  }
+
+  // Compares each question with the pool and with the questions before it in the same list.
+  // Pairwise Jaccard is fine at this scale (a few sets plus the bank); swap in MinHash if the pool grows large.
+  static findDuplicates(
+    questions: Question[],
+    pool: DuplicateCandidate[],
+    threshold: number = this.DEFAULT_THRESHOLD
+  ): DuplicateMatch[] {
+    const poolShingles = pool.map(candidate => ({ candidate, shingles: this.shingles(candidate.text) }));
+    const seen: { candidate: DuplicateCandidate; shingles: Set<string> }[] = [];
+    const matches: DuplicateMatch[] = [];
+
+    questions.forEach((question, index) => {
+      const shingles = this.shingles(question.text);
+      let best: DuplicateMatch | null = null;
+
+      for (const entry of [...poolShingles, ...seen]) {
+        const score = this.jaccard(shingles, entry.shingles);
+        if (score >= threshold && (!best || score > best.similarity)) {
+          best = { questionId: question.id, text: entry.candidate.text, source: entry.candidate.source, similarity: score };
+        }
+      }
+
+      if (best) {
+        matches.push(best);
+      }
+      seen.push({ candidate: { text: question.text, source: `question ${index + 1} of this set` }, shingles });
+    });
+
+    return matches;
+  }
+}
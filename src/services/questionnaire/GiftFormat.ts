@@ -0,0 +1,321 @@
+import { BOOLEAN_OPTIONS, Question, QuestionParseError, QuestionParseResult, QuestionSerializeResult } from './QuestionnaireTypes';
+import { ResponseScoring } from '../response/ResponseScoring';
+
+// One question of the file: its non-comment lines with their 1-based line numbers
+interface GiftBlock {
+  lines: Array<{ number: number; text: string }>;
+  text: string;
+}
+
+interface GiftAnswer {
+  marker: '=' | '~';
+  weight?: number;
+  text: string;
+  feedback: string;
+}
+
+// Characters GIFT gives a meaning to; written with a backslash when meant literally
+const SPECIAL_CHARACTERS = /[~=#{}:\\]/g;
+
+const FORMAT_MARKER = /^\[(html|moodle|plain|markdown)\]/i;
+
+// Moodle's GIFT format, limited to what a Question can hold: multiple choice, multiple
+// answers with %weights%, true/false and short answer. https://docs.moodle.org/en/GIFT_format
+export class GiftFormat {
+  static parse(content: string): QuestionParseResult {
+    const questions: Question[] = [];
+    const errors: QuestionParseError[] = [];
+    const usedIds = new Set<string>();
+
+    for (const block of this.splitBlocks(content)) {
+      const question = this.parseBlock(block, errors);
+      if (!question) {
+        continue;
+      }
+      // Titles become ids, so a repeated title gets a fresh one
+      if (!question.id || usedIds.has(question.id)) {
+        question.id = this.generateId();
+      }
+      usedIds.add(question.id);
+      questions.push(question);
+    }
+
+    return { questions, errors };
+  }
+
+  // Question ids are written as titles so a file exported here keeps them when imported again
+  static serialize(questions: Question[]): QuestionSerializeResult {
+    const blocks: string[] = [];
+    const skipped: Question[] = [];
+
+    for (const question of questions) {
+      const answers = this.serializeAnswers(question);
+      if (!answers) {
+        skipped.push(question);
+        continue;
+      }
+      const feedback = question.explanation ? [`\t####${this.escape(question.explanation)}`] : [];
+      blocks.push([
+        `::${this.escape(question.id)}::${this.escape(question.text)} {`,
+        ...answers.map(answer => `\t${answer}`),
+        ...feedback,
+        '}'
+      ].join('\n'));
+    }
+
+    return { text: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', skipped };
+  }
+
+  private static serializeAnswers(question: Question): string[] | null {
+    switch (question.type) {
+      case 'boolean':
+        return [question.correctAnswer === 1 ? 'FALSE' : 'TRUE'];
+      case 'text': {
+        const accepted = ResponseScoring.getAcceptedAnswers(question);
+        return accepted.length > 0 ? accepted.map(answer => `=${this.escape(answer)}`) : null;
+      }
+      case 'multiple-select': {
+        const correct = ResponseScoring.getCorrectAnswerIndices(question);
+        const wrongCount = question.options.length - correct.length;
+        if (correct.length === 0) {
+          return null;
+        }
+        // Wrong picks cost as much as the partial scoring policy takes off
+        return question.options.map((option, index) => correct.includes(index)
+          ? `~%${this.formatWeight(100 / correct.length)}%${this.escape(option)}`
+          : `~%-${this.formatWeight(100 / wrongCount)}%${this.escape(option)}`);
+      }
+      default: {
+        const correct = ResponseScoring.getCorrectAnswerIndices(question)[0];
+        return question.options?.length >= 2
+          ? question.options.map((option, index) => `${index === correct ? '=' : '~'}${this.escape(option)}`)
+          : null;
+      }
+    }
+  }
+
+  // ---- Parsing ----
+
+  // Questions are separated by blank lines; comment lines are dropped but keep their numbers counted
+  private static splitBlocks(content: string): GiftBlock[] {
+    const blocks: GiftBlock[] = [];
+    let lines: GiftBlock['lines'] = [];
+    const flush = () => {
+      if (lines.length > 0) {
+        blocks.push({ lines, text: lines.map(line => line.text).join('\n') });
+      }
+      lines = [];
+    };
+
+    content.split(/\r?\n/).forEach((text, index) => {
+      const trimmed = text.trim();
+      if (trimmed === '') {
+        flush();
+      } else if (!trimmed.startsWith('//')) {
+        lines.push({ number: index + 1, text });
+      }
+    });
+    flush();
+
+    return blocks;
+  }
+
+  private static parseBlock(block: GiftBlock, errors: QuestionParseError[]): Question | null {
+    const raw = block.text;
+    const fail = (position: number, message: string): null => {
+      errors.push({ line: this.lineAt(block, position), message });
+      return null;
+    };
+
+    if (/^\s*\$CATEGORY:/i.test(raw)) {
+      return null;
+    }
+
+    let cursor = 0;
+    let title = '';
+    const titleMatch = raw.match(/^\s*::/);
+    if (titleMatch) {
+      const titleStart = titleMatch[0].length;
+      const titleEnd = this.indexOfUnescaped(raw, '::', titleStart);
+      if (titleEnd < 0) {
+        return fail(0, 'The title is missing its closing "::"');
+      }
+      title = this.unescape(raw.slice(titleStart, titleEnd)).trim();
+      cursor = titleEnd + 2;
+    }
+
+    const open = this.indexOfUnescaped(raw, '{', cursor);
+    if (open < 0) {
+      return fail(cursor, 'The question has no answers; add them between { and }');
+    }
+    const close = this.indexOfUnescaped(raw, '}', open + 1);
+    if (close < 0) {
+      return fail(open, 'The answer block opened here is never closed with }');
+    }
+    const secondOpen = this.indexOfUnescaped(raw, '{', close + 1);
+    if (secondOpen >= 0) {
+      return fail(secondOpen, 'Only one answer block per question is supported');
+    }
+
+    // Text after the answers makes it a missing-word question; the gap is shown as a blank
+    const before = this.stripFormat(this.unescape(raw.slice(cursor, open)).trim());
+    const after = this.unescape(raw.slice(close + 1)).trim();
+    const text = after ? `${before} _____ ${after}` : before;
+    if (!text) {
+      return fail(cursor, 'The question text is empty');
+    }
+
+    const answerStart = open + 1;
+    const answerBlock = raw.slice(answerStart, close);
+    const generalFeedbackAt = this.indexOfUnescaped(answerBlock, '####');
+    const generalFeedback = generalFeedbackAt >= 0 ? this.unescape(answerBlock.slice(generalFeedbackAt + 4)).trim() : '';
+    const answerPart = generalFeedbackAt >= 0 ? answerBlock.slice(0, generalFeedbackAt) : answerBlock;
+    const trimmed = answerPart.trim();
+
+    if (!trimmed) {
+      return fail(open, 'Essay questions are not supported');
+    }
+    if (trimmed.startsWith('#')) {
+      return fail(open, 'Numerical questions are not supported');
+    }
+    if (this.indexOfUnescaped(answerPart, '->') >= 0) {
+      return fail(open, 'Matching questions are not supported');
+    }
+
+    const booleanFeedbackAt = this.indexOfUnescaped(trimmed, '#');
+    const booleanValue = (booleanFeedbackAt >= 0 ? trimmed.slice(0, booleanFeedbackAt) : trimmed).trim();
+    if (/^(T|TRUE|F|FALSE)$/i.test(booleanValue)) {
+      return {
+        id: title,
+        text,
+        type: 'boolean',
+        options: [...BOOLEAN_OPTIONS],
+        correctAnswer: booleanValue.toUpperCase().startsWith('T') ? 0 : 1,
+        ...(generalFeedback ? { explanation: generalFeedback } : {})
+      };
+    }
+
+    const answers: GiftAnswer[] = [];
+    const markers = this.markerPositions(answerPart);
+    if (markers.length === 0 || answerPart.slice(0, markers[0]).trim()) {
+      return fail(answerStart, 'Each answer must start with = (correct) or ~ (wrong)');
+    }
+    for (const [index, position] of markers.entries()) {
+      const answer = this.parseAnswer(answerPart.slice(position, markers[index + 1] ?? answerPart.length));
+      if (!answer.text) {
+        return fail(answerStart + position, 'The answer is empty');
+      }
+      answers.push(answer);
+    }
+
+    const isCorrect = (answer: GiftAnswer) => answer.weight !== undefined ? answer.weight > 0 : answer.marker === '=';
+    const correctAnswers = answers.filter(isCorrect);
+    const explanation = generalFeedback || correctAnswers[0]?.feedback || '';
+
+    // Only right answers listed: a short-answer question
+    if (answers.every(answer => answer.marker === '=')) {
+      return {
+        id: title,
+        text,
+        type: 'text',
+        options: [],
+        correctAnswer: 0,
+        acceptedAnswers: correctAnswers.map(answer => answer.text),
+        ...(explanation ? { explanation } : {})
+      };
+    }
+
+    if (answers.length < 2) {
+      return fail(open, 'A choice question needs at least two answers');
+    }
+    const correct = answers.map((answer, index) => isCorrect(answer) ? index : -1).filter(index => index >= 0);
+    if (correct.length === 0) {
+      return fail(open, 'No answer is marked correct; start it with = or give it a positive %weight%');
+    }
+
+    const options = answers.map(answer => answer.text);
+    const isBoolean = correct.length === 1 && options.length === 2 &&
+      options.every((option, index) => option.toLowerCase() === BOOLEAN_OPTIONS[index].toLowerCase());
+    return {
+      id: title,
+      text,
+      type: correct.length > 1 ? 'multiple-select' : isBoolean ? 'boolean' : 'multiple-choice',
+      options,
+      correctAnswer: correct.length > 1 ? correct : correct[0],
+      ...(explanation ? { explanation } : {})
+    };
+  }
+
+  // Where each unescaped = or ~ starts an answer
+  private static markerPositions(answerPart: string): number[] {
+    const positions: number[] = [];
+    for (let i = 0; i < answerPart.length; i++) {
+      if (answerPart[i] === '\\') {
+        i++;
+      } else if (answerPart[i] === '=' || answerPart[i] === '~') {
+        positions.push(i);
+      }
+    }
+    return positions;
+  }
+
+  private static parseAnswer(source: string): GiftAnswer {
+    const marker = source[0] as GiftAnswer['marker'];
+    let body = source.slice(1);
+    let weight: number | undefined;
+    const weightMatch = body.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (weightMatch) {
+      weight = Number(weightMatch[1]);
+      body = body.slice(weightMatch[0].length);
+    }
+
+    const feedbackAt = this.indexOfUnescaped(body, '#');
+    return {
+      marker,
+      weight,
+      text: this.unescape(feedbackAt >= 0 ? body.slice(0, feedbackAt) : body).trim(),
+      feedback: feedbackAt >= 0 ? this.unescape(body.slice(feedbackAt + 1)).trim() : ''
+    };
+  }
+
+  private static stripFormat(text: string): string {
+    const match = text.match(FORMAT_MARKER);
+    if (!match) {
+      return text;
+    }
+    const rest = text.slice(match[0].length).trim();
+    return match[1].toLowerCase() === 'html' ? rest.replace(/<[^>]+>/g, '').trim() : rest;
+  }
+
+  private static indexOfUnescaped(text: string, token: string, from: number = 0): number {
+    for (let i = from; i < text.length; i++) {
+      if (text[i] === '\\') {
+        i++;
+      } else if (text.startsWith(token, i)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private static lineAt(block: GiftBlock, position: number): number {
+    const lineIndex = block.text.slice(0, Math.max(0, position)).split('\n').length - 1;
+    return block.lines[Math.min(lineIndex, block.lines.length - 1)].number;
+  }
+
+  private static unescape(text: string): string {
+    return text.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char);
+  }
+
+  private static escape(text: string): string {
+    return (text || '').replace(SPECIAL_CHARACTERS, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+  }
+
+  private static formatWeight(weight: number): string {
+    return Number(weight.toFixed(5)).toString();
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
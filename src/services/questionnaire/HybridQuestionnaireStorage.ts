@@ -2,6 +2,7 @@
 import { Questionnaire } from './QuestionnaireTypes';
 import { QuestionnaireStorage } from './QuestionnaireStorage';
 import { SupabaseQuestionnaireService } from '../supabase/SupabaseQuestionnaireService';
+import { SyncEngine } from '../sync/SyncEngine';
 import { supabase } from '@/integrations/supabase/client';
 
 export class HybridQuestionnaireStorage {
@@ -9,10 +10,11 @@ export class HybridQuestionnaireStorage {
     return navigator.onLine;
   }
 
+  // Anonymous guest sessions don't count: they can't read the answer key from the questions table
   private static async isAuthenticated(): Promise<boolean> {
     try {
       const { data: { user }, error } = await supabase.auth.getUser();
-      return !error && !!user;
+      return !error && !!user && !user.is_anonymous;
     } catch {
       return false;
     }
@@ -23,19 +25,11 @@ export class HybridQuestionnaireStorage {
       console.log('💾 Saving questionnaire with hybrid approach:', questionnaire.id);
       
       // Always save to local storage first for offline access
+      questionnaire.updatedAt = new Date().toISOString();
       QuestionnaireStorage.saveQuestionnaire(questionnaire);
       
-      // Try to save to Supabase if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
-        try {
-          await SupabaseQuestionnaireService.saveQuestionnaire(questionnaire);
-          console.log('✅ Questionnaire saved to both local and Supabase');
-        } catch (error) {
-          console.warn('⚠️ Failed to save to Supabase, saved locally only:', error);
-        }
-      } else {
-        console.log('📴 Offline or not authenticated, saved locally only');
-      }
+      // Supabase gets it through the outbox: now when online, otherwise once reconnected
+      await SyncEngine.record('questionnaire.save', questionnaire.id);
     } catch (error) {
       console.error('❌ Failed to save questionnaire:', error);
       throw error;
@@ -50,7 +44,11 @@ export class HybridQuestionnaireStorage {
       if (this.isOnline() && await this.isAuthenticated()) {
         try {
           const supabaseQuestionnaires = await SupabaseQuestionnaireService.getAllQuestionnaires();
-          questionnaires = supabaseQuestionnaires;
+          questionnaires = SyncEngine.withPendingChanges(
+            'questionnaire',
+            supabaseQuestionnaires,
+            QuestionnaireStorage.getAllQuestionnaires()
+          );
           console.log('✅ Loaded questionnaires from Supabase:', questionnaires.length);
         } catch (error) {
           console.warn('⚠️ Failed to load from Supabase, falling back to local storage:', error);
@@ -62,6 +60,11 @@ export class HybridQuestionnaireStorage {
         questionnaires = QuestionnaireStorage.getAllQuestionnaires();
         console.log('📁 Loaded questionnaires from local storage:', questionnaires.length);
       }
+
+      // Guests on a device without local tests see the active ones, without the answer key
+      if (questionnaires.length === 0 && this.isOnline()) {
+        questionnaires = await SupabaseQuestionnaireService.getGuestQuestionnaires();
+      }
       
       return questionnaires;
     } catch (error) {
@@ -72,8 +75,14 @@ export class HybridQuestionnaireStorage {
 
   static async getQuestionnaireById(id: string): Promise<Questionnaire | null> {
     try {
+      // Changes Supabase hasn't received yet are only on this device
+      const pending = SyncEngine.getPendingIds('questionnaire');
+      if (pending.deleted.has(id)) {
+        return null;
+      }
+
       // Try Supabase first if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
+      if (!pending.saved.has(id) && this.isOnline() && await this.isAuthenticated()) {
         try {
           const questionnaire = await SupabaseQuestionnaireService.getQuestionnaire(id);
           if (questionnaire) {
@@ -89,9 +98,15 @@ export class HybridQuestionnaireStorage {
       const questionnaire = QuestionnaireStorage.getQuestionnaireById(id);
       if (questionnaire) {
         console.log('📁 Loaded questionnaire from local storage:', id);
+        return questionnaire;
+      }
+
+      // Guests on another device can still take active questionnaires, without the answer key
+      if (this.isOnline()) {
+        return await SupabaseQuestionnaireService.getGuestQuestionnaire(id);
       }
       
-      return questionnaire;
+      return null;
     } catch (error) {
       console.error('❌ Failed to load questionnaire:', error);
       return null;
@@ -105,44 +120,20 @@ export class HybridQuestionnaireStorage {
       // Delete from local storage
       QuestionnaireStorage.deleteQuestionnaire(id);
       
-      // Try to delete from Supabase if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
-        try {
-          await SupabaseQuestionnaireService.deleteQuestionnaire(id);
-          console.log('✅ Questionnaire deleted from both local and Supabase');
-        } catch (error) {
-          console.warn('⚠️ Failed to delete from Supabase, deleted locally only:', error);
-        }
-      } else {
-        console.log('📴 Offline or not authenticated, deleted locally only');
-      }
+      await SyncEngine.record('questionnaire.delete', id);
     } catch (error) {
       console.error('❌ Failed to delete questionnaire:', error);
       throw error;
     }
   }
 
+  // Sends every saved local questionnaire through the outbox, where a newer Supabase copy wins
   static async syncToSupabase(): Promise<void> {
     try {
-      if (!this.isOnline() || !await this.isAuthenticated()) {
-        console.log('📴 Cannot sync: offline or not authenticated');
-        return;
-      }
-
       console.log('🔄 Syncing local questionnaires to Supabase...');
       
-      const localQuestionnaires = QuestionnaireStorage.getAllQuestionnaires();
-      
-      for (const questionnaire of localQuestionnaires) {
-        if (questionnaire.isSaved) {
-          try {
-            await SupabaseQuestionnaireService.saveQuestionnaire(questionnaire);
-            console.log('✅ Synced questionnaire to Supabase:', questionnaire.id);
-          } catch (error) {
-            console.warn('⚠️ Failed to sync questionnaire:', questionnaire.id, error);
-          }
-        }
-      }
+      const localQuestionnaires = QuestionnaireStorage.getAllQuestionnaires().filter(questionnaire => questionnaire.isSaved);
+      await SyncEngine.recordMany('questionnaire.save', localQuestionnaires.map(questionnaire => questionnaire.id));
       
       console.log('🔄 Sync completed');
     } catch (error) {
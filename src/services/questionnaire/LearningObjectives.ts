@@ -0,0 +1,90 @@
+import { SourceDocument, SourceDocuments } from '../extraction/SourceDocument';
+
+const MAX_OBJECTIVES = 5;
+
+// Statements such as "Learning objectives: ..." or "Students will ..." in the material itself
+const OBJECTIVE_PATTERNS = [
+  /(?:learning objectives?|goals?|aims?|outcomes?)[:\s]+(.*)/gi,
+  /(?:students? will|learners? will|participants? will)[:\s]+(.*)/gi,
+  /(?:by the end|after completing|upon completion)[:\s]+(.*)/gi
+];
+
+const COMMON_WORDS = /^(and|the|for|are|but|not|you|all|can|had|her|was|one|our|out|may|new|now|see|two|who|did|get|has|him|his|how|its|old|day|come|make|than|time|very|what|with|have|from|they|know|want|been|good|much|some|will|said|each|which|their|would|there|think|where|being|every|great|might|shall|still|those|under|while|could|should|through|during|before|after|above|below|between|among|within)$/;
+
+export class LearningObjectives {
+  // Suggestions for the generate dialog: objectives stated in the files, else one per top-level
+  // heading, else a generic set built from the most frequent terms
+  static infer(sources: SourceDocument[], userPrompt: string = ''): string[] {
+    const content = SourceDocuments.toText(sources);
+    const stated = this.statedObjectives(content);
+    if (stated.length > 0) {
+      return stated.slice(0, MAX_OBJECTIVES);
+    }
+
+    const headings = this.normalize(sources.flatMap(document => document.sections.flatMap(section =>
+      section.blocks.flatMap(block => block.type === 'heading' && block.level <= 2 ? [block.text] : [])
+    )));
+    if (headings.length >= 2) {
+      return headings.slice(0, MAX_OBJECTIVES).map(heading => `Explain ${heading}`);
+    }
+
+    const topicWords = this.frequentTerms(content).slice(0, 3);
+    const promptWords = userPrompt.toLowerCase().split(/\s+/).filter(w => w.length > 4).slice(0, 3);
+    const objectives = topicWords.length > 0 ? [`Understand key concepts related to ${topicWords.join(', ')}`] : [];
+    if (promptWords.length > 0) {
+      objectives.push(`Apply knowledge from ${promptWords.join(' ')} context`);
+    }
+    objectives.push('Analyze and evaluate information presented in the content');
+    return objectives;
+  }
+
+  // Trimmed, non-empty and without repeats, in the order given
+  static normalize(objectives: string[]): string[] {
+    const seen = new Set<string>();
+    return objectives
+      .map(objective => objective.trim().replace(/\s+/g, ' '))
+      .filter(objective => {
+        const key = objective.toLowerCase();
+        if (!objective || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  private static statedObjectives(content: string): string[] {
+    const objectives: string[] = [];
+
+    OBJECTIVE_PATTERNS.forEach(pattern => {
+      const matches = content.match(pattern);
+      if (matches) {
+        matches.forEach(match => {
+          const objective = match.replace(pattern, '$1').trim();
+          if (objective.length > 10 && objective.length < 200) {
+            objectives.push(objective);
+          }
+        });
+      }
+    });
+
+    return this.normalize(objectives);
+  }
+
+  private static frequentTerms(content: string): string[] {
+    const wordCount: { [key: string]: number } = {};
+    content.toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 5 && !COMMON_WORDS.test(word))
+      .forEach(word => {
+        wordCount[word] = (wordCount[word] || 0) + 1;
+      });
+
+    return Object.entries(wordCount)
+      .filter(([, count]) => count >= 2) // Only include words that appear multiple times
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 12)
+      .map(([word]) => word);
+  }
+}
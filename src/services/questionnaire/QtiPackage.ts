@@ -0,0 +1,480 @@
+import JSZip from 'jszip';
+import { BOOLEAN_OPTIONS, Question, Questionnaire } from './QuestionnaireTypes';
+import { QuestionnaireManager } from './QuestionnaireManager';
+
+export interface QtiImportResult {
+  questionnaires: Questionnaire[];
+  warnings: string[]; // Items that were skipped, such as unsupported interaction types
+  existing: Questionnaire[]; // Tests here with the same ids as tests in the package
+}
+
+// What to do when a Questora export holds tests that already exist: ask first, replace them
+// or import the package as new tests
+export type ExistingTestAction = 'ask' | 'replace' | 'copy';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const TOOL_NAME = 'Questora';
+
+// IMS Content Package of QTI 2.1 items, one assessmentTest per set of the test
+export class QtiPackage {
+  static async export(questionnaires: Questionnaire[]): Promise<Blob> {
+    if (questionnaires.length === 0) {
+      throw new Error('There is nothing to export');
+    }
+
+    const sets = [...questionnaires].sort((a, b) => (a.setNumber || 1) - (b.setNumber || 1));
+    const zip = new JSZip();
+    const resources: string[] = [];
+    let itemCount = 0;
+
+    for (const questionnaire of sets) {
+      const testIdentifier = this.toIdentifier(questionnaire.id);
+      const itemRefs: string[] = [];
+      const itemIdentifiers: string[] = [];
+
+      // Question ids are only unique within their set, and sets reuse them for different
+      // questions, so every set exports its own items
+      for (const question of questionnaire.questions || []) {
+        const itemIdentifier = this.itemIdentifier(questionnaire.id, question.id);
+        const href = `items/${itemIdentifier}.xml`;
+        itemRefs.push(`      <assessmentItemRef identifier="${itemIdentifier}" href="../${href}"/>`);
+        itemIdentifiers.push(itemIdentifier);
+        zip.file(href, this.itemXml(question, itemIdentifier));
+        resources.push(this.resourceXml(itemIdentifier, 'imsqti_item_xmlv2p1', href, []));
+        itemCount++;
+      }
+
+      const testHref = `tests/${testIdentifier}.xml`;
+      zip.file(testHref, this.testXml(questionnaire, testIdentifier, itemRefs));
+      resources.push(this.resourceXml(testIdentifier, 'imsqti_test_xmlv2p1', testHref, itemIdentifiers));
+    }
+
+    zip.file('imsmanifest.xml', this.manifestXml(sets[0].testName || sets[0].title, resources));
+    console.log('📦 Exported QTI package:', { sets: sets.length, items: itemCount });
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  }
+
+  // Reads a package and saves every test in it. IDs from a Questora export are kept, so
+  // importing an export of an existing test can update that test, but only once the caller
+  // has confirmed it: with 'ask', nothing is saved and the tests that would be replaced are returned
+  static async importPackage(file: File, onExisting: ExistingTestAction = 'ask'): Promise<QtiImportResult> {
+    const result = await this.read(file);
+    const current = new Map((await QuestionnaireManager.getAllQuestionnaires()).map(questionnaire => [questionnaire.id, questionnaire]));
+    const existing = result.questionnaires.filter(questionnaire => current.has(questionnaire.id)).map(questionnaire => current.get(questionnaire.id));
+
+    if (existing.length > 0 && onExisting === 'ask') {
+      console.log('⚠️ QTI package would replace existing tests:', existing.map(questionnaire => questionnaire.id));
+      return { ...result, questionnaires: [], existing };
+    }
+
+    const questionnaires = existing.length > 0 && onExisting === 'copy'
+      ? result.questionnaires.map(questionnaire => ({ ...questionnaire, id: this.generateId() }))
+      : result.questionnaires;
+    for (const questionnaire of questionnaires) {
+      await QuestionnaireManager.saveQuestionnaire(questionnaire);
+    }
+    console.log('✅ Imported QTI package:', { file: file.name, tests: questionnaires.length, warnings: result.warnings.length });
+    return { ...result, questionnaires, existing };
+  }
+
+  static async read(file: File): Promise<Omit<QtiImportResult, 'existing'>> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (error) {
+      throw new Error(`"${file.name}" is not a zip archive`);
+    }
+
+    const warnings: string[] = [];
+    const manifest = await this.readXml(zip, 'imsmanifest.xml');
+    const resources = manifest
+      ? Array.from(manifest.getElementsByTagNameNS('*', 'resource')).map(resource => ({
+        type: resource.getAttribute('type') || '',
+        href: resource.getAttribute('href') || resource.getElementsByTagNameNS('*', 'file')[0]?.getAttribute('href') || ''
+      }))
+      : [];
+    const testPaths = resources.filter(resource => resource.type.startsWith('imsqti_test')).map(resource => resource.href);
+
+    // Packages of loose items, or without a manifest, become one questionnaire
+    if (testPaths.length === 0) {
+      const itemPaths = resources.length > 0
+        ? resources.filter(resource => resource.type.startsWith('imsqti_item')).map(resource => resource.href)
+        : Object.keys(zip.files).filter(path => path.toLowerCase().endsWith('.xml') && path !== 'imsmanifest.xml');
+      const questions = await this.readItems(zip, itemPaths, warnings);
+      if (questions.length === 0) {
+        throw new Error(`"${file.name}" contains no supported QTI items`);
+      }
+      const title = this.manifestTitle(manifest) || file.name.replace(/\.zip$/i, '');
+      return { questionnaires: [this.buildQuestionnaire(this.generateId(), title, title, questions, 0, 1, 1)], warnings };
+    }
+
+    const testName = this.manifestTitle(manifest);
+    const questionnaires: Questionnaire[] = [];
+    for (const [index, testPath] of testPaths.entries()) {
+      const test = await this.readXml(zip, testPath);
+      if (!test) {
+        warnings.push(`${testPath}: could not be read`);
+        continue;
+      }
+
+      const root = test.documentElement;
+      const folder = testPath.substring(0, testPath.lastIndexOf('/') + 1);
+      const itemPaths = Array.from(root.getElementsByTagNameNS('*', 'assessmentItemRef'))
+        .map(ref => this.resolvePath(folder, ref.getAttribute('href') || ''));
+      const id = this.fromIdentifier(root.getAttribute('identifier') || '', root.getAttribute('toolName')) || this.generateId();
+      const questions = await this.readItems(zip, itemPaths, warnings, id);
+      const maxTime = Number(root.getElementsByTagNameNS('*', 'timeLimits')[0]?.getAttribute('maxTime'));
+      const title = root.getAttribute('title') || testName || `Imported test ${index + 1}`;
+
+      questionnaires.push(this.buildQuestionnaire(
+        id,
+        title,
+        testName || title,
+        questions,
+        maxTime > 0 ? Math.round(maxTime / 60) : 0,
+        index + 1,
+        testPaths.length
+      ));
+    }
+
+    if (questionnaires.every(questionnaire => questionnaire.questions.length === 0)) {
+      throw new Error(`"${file.name}" contains no supported QTI items`);
+    }
+    return { questionnaires: questionnaires.filter(questionnaire => questionnaire.questions.length > 0), warnings };
+  }
+
+  private static buildQuestionnaire(
+    id: string,
+    title: string,
+    testName: string,
+    questions: Question[],
+    timeframe: number,
+    setNumber: number,
+    totalSets: number
+  ): Questionnaire {
+    return {
+      id,
+      title,
+      description: `Imported from a QTI package with ${questions.length} questions`,
+      questions,
+      createdAt: new Date().toISOString(),
+      isActive: false,
+      testName,
+      difficulty: 'medium',
+      isSaved: true,
+      timeframe: timeframe || 15,
+      setNumber,
+      totalSets
+    };
+  }
+
+  // ---- Export ----
+
+  private static itemXml(question: Question, identifier: string): string {
+    const type = question.type || 'multiple-choice';
+    const options = type === 'boolean' ? (question.options?.length ? question.options : BOOLEAN_OPTIONS) : (question.options || []);
+    const correct = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer];
+    const lines: string[] = [];
+
+    if (type === 'text') {
+      const accepted = (question.acceptedAnswers || []).filter(answer => answer.trim());
+      lines.push(
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+        ...(accepted.length > 0 ? ['    <correctResponse>', `      <value>${this.escape(accepted[0])}</value>`, '    </correctResponse>'] : []),
+        '    <mapping defaultValue="0" upperBound="1">',
+        ...accepted.map(answer => `      <mapEntry mapKey="${this.escape(answer)}" mappedValue="1" caseSensitive="false"/>`),
+        '    </mapping>',
+        '  </responseDeclaration>'
+      );
+    } else {
+      const cardinality = type === 'multiple-select' ? 'multiple' : 'single';
+      lines.push(
+        `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">`,
+        '    <correctResponse>',
+        ...correct.filter(index => index >= 0 && index < options.length).map(index => `      <value>${this.choiceIdentifier(index)}</value>`),
+        '    </correctResponse>',
+        '  </responseDeclaration>'
+      );
+    }
+
+    lines.push('  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>');
+    if (question.explanation) {
+      lines.push('  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>');
+    }
+
+    lines.push('  <itemBody>');
+    if (type === 'text') {
+      lines.push(`    <p>${this.escape(question.text)} <textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>`);
+    } else {
+      lines.push(
+        `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${type === 'multiple-select' ? 0 : 1}">`,
+        `      <prompt>${this.escape(question.text)}</prompt>`,
+        ...options.map((option, index) => `      <simpleChoice identifier="${this.choiceIdentifier(index)}">${this.escape(option)}</simpleChoice>`),
+        '    </choiceInteraction>'
+      );
+    }
+    lines.push('  </itemBody>');
+
+    // Written out rather than a response processing template so the explanation can be shown as feedback
+    const score = type === 'text'
+      ? ['    <setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue>']
+      : [
+        '    <responseCondition>',
+        '      <responseIf>',
+        '        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>',
+        '        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>',
+        '      </responseIf>',
+        '      <responseElse>',
+        '        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue>',
+        '      </responseElse>',
+        '    </responseCondition>'
+      ];
+    lines.push(
+      '  <responseProcessing>',
+      ...score,
+      ...(question.explanation
+        ? ['    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>']
+        : []),
+      '  </responseProcessing>'
+    );
+    if (question.explanation) {
+      lines.push(`  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${this.escape(question.explanation)}</modalFeedback>`);
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${this.escape(this.truncate(question.text, 80))}" adaptive="false" timeDependent="false" toolName="${TOOL_NAME}">`,
+      ...lines,
+      '</assessmentItem>',
+      ''
+    ].join('\n');
+  }
+
+  private static testXml(questionnaire: Questionnaire, identifier: string, itemRefs: string[]): string {
+    const maxTime = questionnaire.timeframe > 0 ? `\n    <timeLimits maxTime="${questionnaire.timeframe * 60}"/>` : '';
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${this.escape(questionnaire.title)}" toolName="${TOOL_NAME}">`,
+      `  <testPart identifier="PART_1" navigationMode="nonlinear" submissionMode="simultaneous">${maxTime}`,
+      `    <assessmentSection identifier="SECTION_1" title="${this.escape(questionnaire.title)}" visible="true">`,
+      ...itemRefs,
+      '    </assessmentSection>',
+      '  </testPart>',
+      '</assessmentTest>',
+      ''
+    ].join('\n');
+  }
+
+  private static resourceXml(identifier: string, type: string, href: string, dependencies: string[]): string {
+    return [
+      `    <resource identifier="RES_${identifier}" type="${type}" href="${href}">`,
+      `      <file href="${href}"/>`,
+      ...dependencies.map(dependency => `      <dependency identifierref="RES_${dependency}"/>`),
+      '    </resource>'
+    ].join('\n');
+  }
+
+  private static manifestXml(title: string, resources: string[]): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<manifest xmlns="${CP_NAMESPACE}" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="MANIFEST_${Date.now()}">`,
+      '  <metadata>',
+      '    <schema>QTIv2.1 Package</schema>',
+      '    <schemaversion>1.0.0</schemaversion>',
+      `    <imsmd:lom><imsmd:general><imsmd:title><imsmd:string>${this.escape(title)}</imsmd:string></imsmd:title></imsmd:general></imsmd:lom>`,
+      '  </metadata>',
+      '  <organizations/>',
+      '  <resources>',
+      ...resources,
+      '  </resources>',
+      '</manifest>',
+      ''
+    ].join('\n');
+  }
+
+  // ---- Import ----
+
+  private static async readItems(zip: JSZip, paths: string[], warnings: string[], setId?: string): Promise<Question[]> {
+    const questions: Question[] = [];
+    const seen = new Set<string>();
+
+    for (const path of paths) {
+      const item = (await this.readXml(zip, path))?.documentElement;
+      if (!item || item.localName !== 'assessmentItem') {
+        warnings.push(`${path}: not a QTI assessment item`);
+        continue;
+      }
+      try {
+        const question = this.parseItem(item, setId);
+        // The same item can be shared by several sets; ids must still be unique within one
+        if (seen.has(question.id)) {
+          question.id = this.generateId();
+        }
+        seen.add(question.id);
+        questions.push(question);
+      } catch (error) {
+        warnings.push(`${path}: ${error instanceof Error ? error.message : 'could not be read'}`);
+      }
+    }
+
+    return questions;
+  }
+
+  private static parseItem(item: Element, setId?: string): Question {
+    const identifier = this.fromIdentifier(item.getAttribute('identifier') || '', item.getAttribute('toolName'));
+    // Items exported before they carried their set's id have the bare question id
+    const id = (setId && identifier.startsWith(`${setId}/`) ? identifier.slice(setId.length + 1) : identifier) || this.generateId();
+    const body = item.getElementsByTagNameNS('*', 'itemBody')[0];
+    if (!body) {
+      throw new Error('the item has no body');
+    }
+
+    const explanation = Array.from(item.getElementsByTagNameNS('*', 'modalFeedback'))
+      .map(feedback => this.textOf(feedback))
+      .filter(Boolean)
+      .join('\n');
+    const declaration = Array.from(item.getElementsByTagNameNS('*', 'responseDeclaration'))[0];
+    const correctValues = declaration
+      ? Array.from(declaration.getElementsByTagNameNS('*', 'correctResponse')[0]?.getElementsByTagNameNS('*', 'value') || []).map(value => this.textOf(value))
+      : [];
+
+    const choice = body.getElementsByTagNameNS('*', 'choiceInteraction')[0];
+    if (choice) {
+      const choices = Array.from(choice.getElementsByTagNameNS('*', 'simpleChoice'));
+      const options = choices.map(simpleChoice => this.textOf(simpleChoice));
+      const correct = choices
+        .map((simpleChoice, index) => correctValues.includes(simpleChoice.getAttribute('identifier') || '') ? index : -1)
+        .filter(index => index >= 0);
+      if (options.length < 2 || correct.length === 0) {
+        throw new Error('a choice item needs at least two choices and a correct response');
+      }
+
+      const multiple = declaration?.getAttribute('cardinality') === 'multiple';
+      const isBoolean = !multiple && options.length === 2 &&
+        options.every((option, index) => option.toLowerCase() === BOOLEAN_OPTIONS[index].toLowerCase());
+      return {
+        id,
+        text: this.questionText(body, choice),
+        type: multiple ? 'multiple-select' : isBoolean ? 'boolean' : 'multiple-choice',
+        options: isBoolean ? [...BOOLEAN_OPTIONS] : options,
+        correctAnswer: multiple ? correct : correct[0],
+        ...(explanation ? { explanation } : {})
+      };
+    }
+
+    const textEntry = body.getElementsByTagNameNS('*', 'textEntryInteraction')[0] || body.getElementsByTagNameNS('*', 'extendedTextInteraction')[0];
+    if (textEntry) {
+      const mapped = declaration
+        ? Array.from(declaration.getElementsByTagNameNS('*', 'mapEntry'))
+          .filter(entry => Number(entry.getAttribute('mappedValue')) > 0)
+          .map(entry => entry.getAttribute('mapKey') || '')
+        : [];
+      const acceptedAnswers = [...new Set([...correctValues, ...mapped].map(answer => answer.trim()).filter(Boolean))];
+      return {
+        id,
+        text: this.questionText(body, textEntry),
+        type: 'text',
+        options: [],
+        correctAnswer: 0,
+        acceptedAnswers,
+        ...(explanation ? { explanation } : {})
+      };
+    }
+
+    const interaction = Array.from(body.getElementsByTagName('*')).find(element => element.localName.endsWith('Interaction'));
+    throw new Error(interaction ? `${interaction.localName} is not supported` : 'the item has no interaction');
+  }
+
+  // Body text with the interaction's choices left out; a choice prompt counts as question text
+  private static questionText(body: Element, interaction: Element): string {
+    const copy = body.cloneNode(true) as Element;
+    Array.from(copy.getElementsByTagName('*'))
+      .filter(element => element.localName === interaction.localName)
+      .forEach(element => element.parentNode?.removeChild(element));
+    const prompt = interaction.getElementsByTagNameNS('*', 'prompt')[0];
+    return [this.textOf(copy), prompt ? this.textOf(prompt) : ''].filter(Boolean).join('\n');
+  }
+
+  private static manifestTitle(manifest: Document | null): string {
+    const title = manifest?.getElementsByTagNameNS('*', 'title')[0];
+    return title ? this.textOf(title) : '';
+  }
+
+  private static async readXml(zip: JSZip, path: string): Promise<Document | null> {
+    const entry = zip.file(path);
+    if (!entry) {
+      return null;
+    }
+    const document = new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      console.warn('⚠️ Could not parse', path);
+      return null;
+    }
+    return document;
+  }
+
+  private static resolvePath(folder: string, href: string): string {
+    const parts = folder.split('/').filter(Boolean);
+    for (const segment of href.split('/')) {
+      if (segment === '..') {
+        parts.pop();
+      } else if (segment !== '.' && segment) {
+        parts.push(segment);
+      }
+    }
+    return parts.join('/');
+  }
+
+  // ---- Identifiers and text ----
+
+  // QTI identifiers must be XML names; ids that are not (most start with a digit) are
+  // escaped reversibly behind an ID_ prefix
+  private static toIdentifier(id: string): string {
+    if (/^[A-Za-z][A-Za-z0-9.-]*$/.test(id) && !id.startsWith('ID_')) {
+      return id;
+    }
+    return `ID_${id.replace(/[^A-Za-z0-9.-]/g, char => `_${char.charCodeAt(0).toString(16).padStart(4, '0')}`)}`;
+  }
+
+  // Only identifiers from a Questora export are ids; other tools reuse theirs across unrelated
+  // tests, so their tests and items get new ids
+  private static fromIdentifier(identifier: string, toolName: string | null): string {
+    if (toolName !== TOOL_NAME) {
+      return '';
+    }
+    if (!identifier.startsWith('ID_')) {
+      return identifier;
+    }
+    return identifier.slice(3).replace(/_([0-9a-f]{4})/g, (_, code) => String.fromCharCode(parseInt(code, 16)));
+  }
+
+  // The set's id and the question's, joined by a slash that the escaping always encodes
+  private static itemIdentifier(questionnaireId: string, questionId: string): string {
+    return this.toIdentifier(`${questionnaireId}/${questionId}`);
+  }
+
+  private static choiceIdentifier(index: number): string {
+    return `CHOICE_${index + 1}`;
+  }
+
+  private static textOf(element: Element): string {
+    return (element.textContent || '').split('\n').map(line => line.trim().replace(/\s+/g, ' ')).filter(Boolean).join('\n');
+  }
+
+  private static escape(text: string): string {
+    return (text || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static truncate(text: string, length: number): string {
+    return text.length > length ? `${text.substring(0, length - 3)}...` : text;
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
@@ -0,0 +1,98 @@
+import { SupabaseQuestionBankService, NewBankQuestion } from '../supabase/SupabaseQuestionBankService';
+import { BankQuestion, Question, Questionnaire } from './QuestionnaireTypes';
+
+export interface AssembleOptions {
+  testName: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  timeframe: number;
+}
+
+// Bank fields known for one question, such as those read from an imported spreadsheet row
+export interface QuestionBankDetails {
+  tags?: string[];
+  difficulty?: 'easy' | 'medium' | 'hard';
+}
+
+export class QuestionBankService {
+  // Saves every question of a questionnaire; questions already in the bank are updated and keep their tags and topic
+  static async addQuestionnaireToBank(
+    questionnaire: Questionnaire,
+    tags: string[] = [],
+    details: Map<string, QuestionBankDetails> = new Map()
+  ): Promise<BankQuestion[]> {
+    const sourceFile = questionnaire.sourceFiles && questionnaire.sourceFiles.length > 0
+      ? questionnaire.sourceFiles.join(', ')
+      : undefined;
+
+    const existing = await SupabaseQuestionBankService.getBySourceQuestionIds(questionnaire.questions.map(q => q.id));
+    const existingBySource = new Map(existing.map(q => [q.sourceQuestionId, q]));
+
+    const entries: NewBankQuestion[] = questionnaire.questions.map(question => {
+      const previous = existingBySource.get(question.id);
+      const known = details.get(question.id);
+      return {
+        ...this.copyQuestion(question),
+        sourceQuestionId: question.id,
+        tags: Array.from(new Set([...(previous?.tags || []), ...tags, ...(known?.tags || [])])),
+        topic: previous?.topic || questionnaire.testName || questionnaire.title,
+        difficulty: known?.difficulty || previous?.difficulty || questionnaire.difficulty || 'medium',
+        sourceFile: previous?.sourceFile || sourceFile
+      };
+    });
+
+    return SupabaseQuestionBankService.saveQuestions(entries);
+  }
+
+  // Random draw without replacement; returns fewer questions when the pool is too small
+  static drawRandom(pool: BankQuestion[], count: number): BankQuestion[] {
+    const shuffled = [...pool];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled.slice(0, Math.max(0, count));
+  }
+
+  // Builds an unsaved questionnaire from bank entries and counts the draw towards each entry's usage
+  static async assembleQuestionnaire(bankQuestions: BankQuestion[], options: AssembleOptions): Promise<Questionnaire> {
+    const questionnaire: Questionnaire = {
+      id: `${this.generateId()}-set1`,
+      title: options.testName,
+      description: `Assembled from ${bankQuestions.length} question bank entries`,
+      questions: bankQuestions.map(q => ({ ...this.copyQuestion(q), id: this.generateId() })),
+      createdAt: new Date().toISOString(),
+      isActive: false,
+      testName: options.testName,
+      difficulty: options.difficulty,
+      isSaved: false,
+      timeframe: options.timeframe,
+      setNumber: 1,
+      totalSets: 1
+    };
+
+    try {
+      await SupabaseQuestionBankService.recordUsage(bankQuestions.map(q => q.id));
+    } catch (error) {
+      console.warn('⚠️ Could not record question bank usage:', error);
+    }
+
+    console.log('✅ Assembled questionnaire from question bank:', questionnaire.id);
+    return questionnaire;
+  }
+
+  private static copyQuestion(question: Question): Question {
+    return {
+      id: question.id,
+      text: question.text,
+      type: question.type,
+      options: [...(question.options || [])],
+      correctAnswer: Array.isArray(question.correctAnswer) ? [...question.correctAnswer] : question.correctAnswer,
+      ...(question.acceptedAnswers ? { acceptedAnswers: [...question.acceptedAnswers] } : {}),
+      explanation: question.explanation
+    };
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
@@ -0,0 +1,104 @@
+import { Question, QuestionExportFormat, QuestionParseError, QuestionParseResult, Questionnaire } from './QuestionnaireTypes';
+import { QuestionnaireManager } from './QuestionnaireManager';
+import { ExistingTestAction, QtiPackage } from './QtiPackage';
+import { GiftFormat } from './GiftFormat';
+import { AikenFormat } from './AikenFormat';
+
+export type TextQuestionFormat = 'gift' | 'aiken';
+
+export interface QuestionImportResult {
+  questionnaires: Questionnaire[]; // Saved tests; none when the file has errors
+  errors: QuestionParseError[];
+  warnings: string[];
+  existing: Questionnaire[]; // Tests a QTI package would replace; nothing is saved until the caller chooses
+}
+
+export interface QuestionExportResult {
+  blob: Blob;
+  fileName: string;
+  skipped: Question[];
+}
+
+// Tests to and from files made by other tools, without any model call
+export class QuestionFileService {
+  // Spreadsheets (.csv, .xlsx) go through SpreadsheetImport's column mapping instead of importFile
+  static readonly ACCEPTED_EXTENSIONS = '.zip,.gift,.txt,.csv,.xlsx';
+
+  static async importFile(file: File, onExisting: ExistingTestAction = 'ask'): Promise<QuestionImportResult> {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const { questionnaires, warnings, existing } = await QtiPackage.importPackage(file, onExisting);
+      return { questionnaires, errors: [], warnings, existing };
+    }
+
+    const content = await file.text();
+    const { format, questions, errors } = this.parseText(file.name, content);
+    if (errors.length > 0) {
+      console.warn(`⚠️ ${format.toUpperCase()} import of ${file.name} has ${errors.length} errors`);
+      return { questionnaires: [], errors, warnings: [], existing: [] };
+    }
+    if (questions.length === 0) {
+      return { questionnaires: [], errors: [{ line: 1, message: 'The file contains no questions' }], warnings: [], existing: [] };
+    }
+
+    const title = file.name.replace(/\.[^.]+$/, '');
+    const questionnaire = this.buildQuestionnaire(title, questions, `Imported from ${format.toUpperCase()} file "${file.name}"`);
+    await QuestionnaireManager.saveQuestionnaire(questionnaire);
+    console.log(`✅ Imported ${questions.length} questions from ${format.toUpperCase()} file:`, file.name);
+    return { questionnaires: [questionnaire], errors: [], warnings: [], existing: [] };
+  }
+
+  static parseText(fileName: string, content: string): QuestionParseResult & { format: TextQuestionFormat } {
+    const format = this.detectTextFormat(fileName, content);
+    const result = format === 'gift' ? GiftFormat.parse(content) : AikenFormat.parse(content);
+    return { ...result, format };
+  }
+
+  // .gift files are GIFT; other text files are Aiken when they have ANSWER lines and no answer blocks
+  static detectTextFormat(fileName: string, content: string): TextQuestionFormat {
+    if (fileName.toLowerCase().endsWith('.gift')) {
+      return 'gift';
+    }
+    return /^\s*ANSWER\s*:/im.test(content) && !/[^\\]\{/.test(content) ? 'aiken' : 'gift';
+  }
+
+  // QTI packages carry every set given; the text formats hold the questions of one set
+  static async export(questionnaires: Questionnaire[], format: QuestionExportFormat): Promise<QuestionExportResult> {
+    const first = questionnaires[0];
+    const baseName = (first.testName || first.title).replace(/[^\w-]+/g, '_');
+
+    if (format === 'qti') {
+      return { blob: await QtiPackage.export(questionnaires), fileName: `${baseName}_qti.zip`, skipped: [] };
+    }
+
+    const { text, skipped } = format === 'gift'
+      ? GiftFormat.serialize(first.questions || [])
+      : AikenFormat.serialize(first.questions || []);
+    const setSuffix = first.totalSets > 1 ? `_set${first.setNumber}` : '';
+    return {
+      blob: new Blob([text], { type: 'text/plain;charset=utf-8' }),
+      fileName: `${baseName}${setSuffix}.${format === 'gift' ? 'gift' : 'txt'}`,
+      skipped
+    };
+  }
+
+  static buildQuestionnaire(title: string, questions: Question[], description: string): Questionnaire {
+    return {
+      id: `${this.generateId()}-set1`,
+      title,
+      description,
+      questions,
+      createdAt: new Date().toISOString(),
+      isActive: false,
+      testName: title,
+      difficulty: 'medium',
+      isSaved: true,
+      timeframe: 15,
+      setNumber: 1,
+      totalSets: 1
+    };
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
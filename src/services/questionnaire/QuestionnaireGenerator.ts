@@ -1,24 +1,30 @@
 
 import { ChatGPTService } from '../ChatGPTService';
+import { GeneratedQuestion } from '../chatgpt/QuestionGenerationService';
 import { CourseService } from '../CourseService';
 import { LanguageService } from '../LanguageService';
-import { Questionnaire, TestOptions, Question } from './QuestionnaireTypes';
+import { Questionnaire, TestOptions, Question, QuestionAction, QuestionTargeting } from './QuestionnaireTypes';
 import { QuestionnaireStorage } from './QuestionnaireStorage';
+import { DuplicateDetector, DuplicateCandidate } from './DuplicateDetector';
+import { SourceDocument, SourceDocuments } from '../extraction/SourceDocument';
+import { ContentBlocks } from '../extraction/ContentBlocks';
+import { ContentValidator } from '../chatgpt/ContentValidator';
 
 export class QuestionnaireGenerator {
   static async generateQuestionnaire(
     prompt: string, 
     options: TestOptions, 
-    fileContent: string = '',
+    sources: SourceDocument[] = [],
     setNumber: number = 1,
     totalSets: number = 1
   ): Promise<Questionnaire> {
+    const sourceLength = SourceDocuments.textLength(sources);
     console.log('🔍 PRODUCTION QUESTIONNAIRE GENERATION: Starting with persistence and multilingual support:', {
       prompt,
       options,
       requestedQuestions: options.numberOfQuestions,
-      hasFileContent: !!fileContent,
-      fileContentLength: fileContent.length,
+      sourceFiles: sources.map(source => source.fileName),
+      sourceLength,
       setNumber,
       totalSets,
       currentLanguage: LanguageService.getCurrentLanguage()
@@ -32,7 +38,7 @@ export class QuestionnaireGenerator {
       let questionnaire: Questionnaire = {
         id: testId,
         title: `${options.testName}${totalSets > 1 ? ` - Set ${setNumber}` : ''}`,
-        description: `Generated from: "${prompt}"${fileContent ? ' - Questions based strictly on uploaded file content.' : ''}${totalSets > 1 ? ` Set ${setNumber} of ${totalSets} with unique questions.` : ''}`,
+        description: `Generated from: "${prompt}"${sourceLength > 0 ? ' - Questions based strictly on uploaded file content.' : ''}${totalSets > 1 ? ` Set ${setNumber} of ${totalSets} with unique questions.` : ''}`,
         questions: [],
         createdAt: new Date().toISOString(),
         isActive: false,
@@ -61,11 +67,12 @@ export class QuestionnaireGenerator {
         questionnaire.questions = await this.generateQuestions(
           prompt, 
           options, 
-          fileContent, 
+          sources, 
           setNumber, 
           totalSets, 
           currentLanguage
         );
+        this.updateSourceCoverage(questionnaire, sources);
         
         // Save after questions generation
         QuestionnaireStorage.saveTempQuestionnaire(questionnaire);
@@ -83,7 +90,7 @@ export class QuestionnaireGenerator {
         console.log('🔍 Generating course with multilingual support...');
         questionnaire.course = await this.generateCourse(
           prompt, 
-          fileContent, 
+          sources, 
           currentLanguage
         );
         
@@ -136,7 +143,7 @@ export class QuestionnaireGenerator {
         totalSets: questionnaire.totalSets,
         language: questionnaire.language,
         currentUILanguage: currentLanguage,
-        isFileContentBased: fileContent.length > 0,
+        isFileContentBased: sourceLength > 0,
         persistentStateSaved: true
       });
 
@@ -152,7 +159,7 @@ export class QuestionnaireGenerator {
         timestamp: new Date().toISOString(),
         prompt,
         options,
-        fileContent: fileContent.substring(0, 200) + '...'
+        sourceFiles: sources.map(source => source.fileName)
       });
       
       throw error;
@@ -257,16 +264,17 @@ export class QuestionnaireGenerator {
   private static async generateQuestions(
     prompt: string,
     options: TestOptions,
-    fileContent: string,
+    sources: SourceDocument[],
     setNumber: number,
     totalSets: number,
     currentLanguage: string
   ): Promise<Question[]> {
     console.log('🔍 ENFORCING: Strict file content requirement for questions...');
     
-    if (!fileContent || fileContent.length < 300) {
+    const sourceLength = SourceDocuments.textLength(sources);
+    if (sourceLength < 300) {
       console.error('❌ BLOCKED: Insufficient file content for questions');
-      throw new Error(`Question generation requires substantial file content (minimum 300 characters). Current content: ${fileContent?.length || 0} characters. Upload files with readable text to generate accurate questions.`);
+      throw new Error(`Question generation requires substantial file content (minimum 300 characters). Current content: ${sourceLength} characters. Upload files with readable text to generate accurate questions.`);
     }
 
     console.log('✅ PROCEEDING: File content validated for strict question generation');
@@ -276,59 +284,218 @@ export class QuestionnaireGenerator {
         prompt,
         options.numberOfQuestions,
         options.difficulty,
-        fileContent,
+        sources,
         setNumber,
-        totalSets
+        totalSets,
+        options.questionTypes && options.questionTypes.length > 0 ? options.questionTypes : ['multiple-choice'],
+        options.avoidQuestions || [],
+        this.targetingFor(options)
       );
 
       console.log(`✅ GENERATED: ${chatGPTQuestions.length} questions from file content (requested: ${options.numberOfQuestions})`);
 
-      if (chatGPTQuestions.length !== options.numberOfQuestions) {
-        console.error(`❌ QUESTION COUNT MISMATCH: Generated ${chatGPTQuestions.length}, requested ${options.numberOfQuestions}`);
-        throw new Error(`Generated ${chatGPTQuestions.length} questions, but ${options.numberOfQuestions} were requested. The file content may not support the requested number of questions.`);
+      // A short set is kept; the caller reports how many questions are missing
+      if (chatGPTQuestions.length === 0) {
+        throw new Error('No questions could be generated. The file content may not support the requested questions.');
+      }
+      if (chatGPTQuestions.length < options.numberOfQuestions) {
+        console.warn(`⚠️ QUESTION SHORTFALL: Generated ${chatGPTQuestions.length}, requested ${options.numberOfQuestions}`);
       }
 
-      let formattedQuestions: Question[] = chatGPTQuestions.map((q, index) => ({
+      return await this.formatGeneratedQuestions(chatGPTQuestions, currentLanguage, sources);
+    } catch (error) {
+      console.error('❌ Question generation failed:', error);
+      throw error;
+    }
+  }
+
+  private static async formatGeneratedQuestions(
+    chatGPTQuestions: GeneratedQuestion[],
+    currentLanguage: string,
+    sources: SourceDocument[]
+  ): Promise<Question[]> {
+    let formattedQuestions: Question[] = chatGPTQuestions.map(q => {
+      const question: Question = {
         id: this.generateId(),
         text: q.question,
-        type: 'multiple-choice' as const,
+        type: q.type || 'multiple-choice',
         options: q.options,
         correctAnswer: q.correctAnswer,
-        explanation: q.explanation
-      }));
+        ...(q.acceptedAnswers ? { acceptedAnswers: q.acceptedAnswers } : {}),
+        explanation: q.explanation,
+        ...(q.cognitiveLevel ? { cognitiveLevel: q.cognitiveLevel } : {}),
+        ...(q.objective ? { objective: q.objective } : {})
+      };
+      const passages = SourceDocuments.resolveRefs(sources, q.sourceRefs || []);
+      // Checked against the full passages before translation; the stored excerpts may be cut short
+      question.sourceCheck = ContentValidator.checkAnswerInSources(
+        question,
+        passages.map(passage => ContentBlocks.blockToText(passage.block))
+      );
+      if (passages.length > 0) {
+        question.sources = SourceDocuments.toCitations(passages);
+      }
+      return question;
+    });
 
-      // PRODUCTION: Multilingual support - translate questions if needed
-      if (currentLanguage !== 'en') {
-        console.log(`🌐 Translating ${formattedQuestions.length} questions to ${currentLanguage}...`);
-        try {
-          formattedQuestions = await LanguageService.translateQuestions(formattedQuestions, currentLanguage);
-          console.log('✅ Questions translated successfully');
-        } catch (error) {
-          console.error('⚠️ Translation failed, continuing with English:', error);
-        }
+    // PRODUCTION: Multilingual support - translate questions if needed
+    if (currentLanguage !== 'en') {
+      console.log(`🌐 Translating ${formattedQuestions.length} questions to ${currentLanguage}...`);
+      try {
+        formattedQuestions = await LanguageService.translateQuestions(formattedQuestions, currentLanguage);
+        console.log('✅ Questions translated successfully');
+      } catch (error) {
+        console.error('⚠️ Translation failed, continuing with English:', error);
       }
+    }
 
-      return formattedQuestions;
-    } catch (error) {
-      console.error('❌ Question generation failed:', error);
-      throw error;
+    return formattedQuestions;
+  }
+
+  // Near-duplicates of the pool (earlier sets, the question bank) or of each other are regenerated;
+  // any that still collide after the retries are flagged for the admin instead of blocking the set
+  static async replaceDuplicateQuestions(
+    questionnaire: Questionnaire,
+    pool: DuplicateCandidate[],
+    options: TestOptions,
+    sources: SourceDocument[],
+    maxAttempts: number = 2
+  ): Promise<{ replaced: number; flagged: number }> {
+    const currentLanguage = LanguageService.getCurrentLanguage();
+    let replaced = 0;
+    let matches = DuplicateDetector.findDuplicates(questionnaire.questions, pool);
+
+    for (let attempt = 1; attempt <= maxAttempts && matches.length > 0; attempt++) {
+      console.log(`🔁 DUPLICATES: Regenerating ${matches.length} near-duplicate questions (attempt ${attempt}/${maxAttempts})`);
+
+      try {
+        const avoidQuestions = [...questionnaire.questions.map(q => q.text), ...pool.map(c => c.text)];
+        const chatGPTQuestions = await ChatGPTService.generateQuestions(
+          'Generate replacement questions from uploaded files',
+          matches.length,
+          options.difficulty,
+          sources,
+          questionnaire.setNumber || 1,
+          questionnaire.totalSets || 1,
+          options.questionTypes && options.questionTypes.length > 0 ? options.questionTypes : ['multiple-choice'],
+          avoidQuestions,
+          this.targetingFor(options)
+        );
+        const replacements = await this.formatGeneratedQuestions(chatGPTQuestions, currentLanguage, sources);
+
+        const duplicateIds = matches.map(match => match.questionId);
+        questionnaire.questions = questionnaire.questions.map(question => {
+          const slot = duplicateIds.indexOf(question.id);
+          if (slot === -1 || !replacements[slot]) {
+            return question;
+          }
+          replaced++;
+          return replacements[slot];
+        });
+      } catch (error) {
+        console.error('⚠️ Duplicate regeneration failed, flagging instead:', error);
+        break;
+      }
+
+      matches = DuplicateDetector.findDuplicates(questionnaire.questions, pool);
+    }
+
+    questionnaire.questions = questionnaire.questions.map(question => {
+      const match = matches.find(m => m.questionId === question.id);
+      return match
+        ? { ...question, duplicateOf: { text: match.text, source: match.source, similarity: match.similarity } }
+        : question;
+    });
+
+    if (replaced > 0) {
+      this.updateSourceCoverage(questionnaire, sources);
     }
+
+    if (replaced > 0 || matches.length > 0) {
+      console.log(`✅ DUPLICATES: ${replaced} replaced, ${matches.length} flagged for review`);
+      QuestionnaireStorage.saveTempQuestionnaire(questionnaire);
+    }
+
+    return { replaced, flagged: matches.length };
+  }
+
+  // Reworks one question without re-running the set. The source documents are gone after
+  // generation, so the question's stored citations stand in for the chunk it was written from.
+  // Rewrites keep the question's id; 'regenerate' and 'more-like-this' return new questions.
+  static async refineQuestion(
+    question: Question,
+    setQuestions: Question[],
+    difficulty: 'easy' | 'medium' | 'hard',
+    action: QuestionAction,
+    count: number = 1
+  ): Promise<Question[]> {
+    const citations = question.sources || [];
+    const generated = await ChatGPTService.refineQuestion({
+      action,
+      question,
+      otherQuestions: setQuestions.filter(q => q.id !== question.id).map(q => q.text),
+      citations,
+      difficulty,
+      count
+    });
+    const keepsId = action === 'harder' || action === 'easier' || action === 'improve-distractors';
+
+    return generated.map(q => {
+      const cited = (q.sourceRefs || [])
+        .map(ref => citations[parseInt(ref.trim().replace(/^\[?C/i, ''), 10) - 1])
+        .filter(Boolean);
+      const sources = cited.length > 0 ? [...new Set(cited)] : citations;
+      const refined: Question = {
+        id: keepsId ? question.id : this.generateId(),
+        text: q.question,
+        type: q.type || question.type,
+        options: q.options,
+        correctAnswer: q.correctAnswer,
+        ...(q.acceptedAnswers ? { acceptedAnswers: q.acceptedAnswers } : {}),
+        explanation: q.explanation,
+        // A reworked question still serves the objective of the one it came from
+        ...(q.cognitiveLevel || question.cognitiveLevel ? { cognitiveLevel: q.cognitiveLevel || question.cognitiveLevel } : {}),
+        ...(question.objective ? { objective: question.objective } : {})
+      };
+      refined.sourceCheck = ContentValidator.checkAnswerInSources(refined, sources.map(citation => citation.excerpt));
+      if (sources.length > 0) {
+        refined.sources = sources;
+      }
+      return refined;
+    });
+  }
+
+  private static targetingFor(options: TestOptions): QuestionTargeting {
+    return {
+      cognitiveMix: options.cognitiveMix,
+      learningObjectives: options.learningObjectives
+    };
+  }
+
+  private static updateSourceCoverage(questionnaire: Questionnaire, sources: SourceDocument[]): void {
+    questionnaire.sourceCoverage = SourceDocuments.sectionCoverage(
+      sources,
+      questionnaire.questions.map(question => (question.sources || []).map(citation => citation.locator))
+    );
+    const uncovered = questionnaire.sourceCoverage.filter(section => section.questions === 0).length;
+    console.log(`📊 COVERAGE: ${questionnaire.sourceCoverage.length - uncovered} of ${questionnaire.sourceCoverage.length} sections have questions`);
   }
 
   private static async generateCourse(
     prompt: string,
-    fileContent: string,
+    sources: SourceDocument[],
     currentLanguage: string
   ): Promise<any> {
     console.log('🔍 ENFORCING: File content requirement for course...');
     
-    if (!fileContent || fileContent.length < 200) {
+    const sourceLength = SourceDocuments.textLength(sources);
+    if (sourceLength < 200) {
       console.error('❌ BLOCKED: Insufficient file content for course');
-      throw new Error(`Course generation requires substantial file content (minimum 200 characters). Current content: ${fileContent?.length || 0} characters.`);
+      throw new Error(`Course generation requires substantial file content (minimum 200 characters). Current content: ${sourceLength} characters.`);
     }
 
     try {
-      let course = await CourseService.generateCourse(prompt, [], fileContent);
+      let course = await CourseService.generateCourse(prompt, sources);
       
       // PRODUCTION: Multilingual support - translate course if needed
       if (currentLanguage !== 'en' && course) {
@@ -1,11 +1,74 @@
+import { SectionCoverage, SourceCitation } from '../extraction/SourceDocument';
+
+export type QuestionType = 'multiple-choice' | 'multiple-select' | 'text' | 'boolean';
+
+export type ScoringPolicy = 'all-or-nothing' | 'partial' | 'negative';
+
+export const BOOLEAN_OPTIONS = ['True', 'False'];
+
+// Bloom's taxonomy levels the generator targets, lowest first
+export type CognitiveLevel = 'recall' | 'understand' | 'apply' | 'analyze';
+
+export const COGNITIVE_LEVELS: Array<{ value: CognitiveLevel; label: string; description: string }> = [
+  { value: 'recall', label: 'Recall', description: 'Remember facts, terms and definitions' },
+  { value: 'understand', label: 'Understand', description: 'Explain ideas or concepts in other words' },
+  { value: 'apply', label: 'Apply', description: 'Use the material in a new situation' },
+  { value: 'analyze', label: 'Analyze', description: 'Compare, break down and draw connections' }
+];
+
+// Share of the questions per level, in percent; levels left out get none
+export type CognitiveMix = Partial<Record<CognitiveLevel, number>>;
+
+// What the generator is asked to cover besides the source content itself
+export interface QuestionTargeting {
+  cognitiveMix?: CognitiveMix;
+  learningObjectives?: string[]; // Each question is bound to one of these when given
+}
+
+// Per-question rework the editor can ask the model for
+export type QuestionAction = 'regenerate' | 'harder' | 'easier' | 'more-like-this' | 'improve-distractors';
+
+// File formats a test can be exported to besides the PDF
+export type QuestionExportFormat = 'qti' | 'gift' | 'aiken';
+
+// A problem found while reading questions from a file; line is 1-based
+export interface QuestionParseError {
+  line: number;
+  message: string;
+}
+
+export interface QuestionParseResult {
+  questions: Question[];
+  errors: QuestionParseError[];
+}
+
+export interface QuestionSerializeResult {
+  text: string;
+  skipped: Question[]; // Questions the format has no way to express
+}
+
+// Whether the answer could be found in the passages the question cites, checked when it was generated
+export type SourceCheck = 'supported' | 'partial' | 'unsupported' | 'uncited';
+
+export interface DuplicateFlag {
+  text: string; // The existing question this one resembles
+  source: string;
+  similarity: number; // Shingle Jaccard similarity, 0 to 1
+}
 
 export interface Question {
   id: string;
   text: string;
-  type: 'multiple-choice' | 'text' | 'boolean';
+  type: QuestionType;
   options: string[];
-  correctAnswer: number;
+  correctAnswer: number | number[]; // Set of correct option indices for 'multiple-select' questions
+  acceptedAnswers?: string[]; // Accepted answers for 'text' questions, matched after normalisation
   explanation?: string;
+  duplicateOf?: DuplicateFlag; // Set when a near-duplicate survived regeneration, for the admin to review
+  sources?: SourceCitation[]; // Where in the uploaded files the question and its answer come from
+  sourceCheck?: SourceCheck;
+  cognitiveLevel?: CognitiveLevel;
+  objective?: string; // The learning objective the question assesses, as the admin wrote it
 }
 
 export interface TestOptions {
@@ -15,6 +78,10 @@ export interface TestOptions {
   timeframe: number;
   includeCourse: boolean;
   includeQuestionnaire: boolean;
+  questionTypes?: QuestionType[];
+  avoidQuestions?: string[]; // Existing questions the generator is told not to repeat or paraphrase
+  cognitiveMix?: CognitiveMix;
+  learningObjectives?: string[];
 }
 
 export interface Questionnaire {
@@ -23,6 +90,7 @@ export interface Questionnaire {
   description: string;
   questions: Question[];
   createdAt: string;
+  updatedAt?: string; // Stamped on every save; the newer copy wins when syncing with Supabase
   isActive: boolean;
   testName: string;
   difficulty: 'easy' | 'medium' | 'hard';
@@ -32,4 +100,28 @@ export interface Questionnaire {
   totalSets?: number;
   course?: any;
   language?: string;
+  scoringPolicy?: ScoringPolicy;
+  answerKeyHidden?: boolean; // Loaded from the guest view, so it can only be scored server-side
+  sourceFiles?: string[]; // Names of the uploaded files the questions were generated from
+  showSourcesAfterSubmit?: boolean; // Guests see each question's cited passages once they have submitted
+  allowRetakes?: boolean; // Guests may submit again; they then see only their score, not which answers were right
+  sourceCoverage?: SectionCoverage[]; // Questions per page, slide or sheet of the uploaded files
+}
+
+export interface BankQuestion extends Question {
+  tags: string[];
+  topic: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  sourceFile?: string;
+  sourceQuestionId?: string;
+  usageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuestionBankFilters {
+  search?: string;
+  tags?: string[];
+  difficulty?: 'easy' | 'medium' | 'hard';
+  type?: QuestionType;
 }
@@ -0,0 +1,293 @@
+import { OfficeExtractor } from '../extraction/OfficeExtractor';
+import { BOOLEAN_OPTIONS, Question, Questionnaire } from './QuestionnaireTypes';
+import { HybridQuestionnaireStorage } from './HybridQuestionnaireStorage';
+import { QuestionBankDetails, QuestionBankService } from './QuestionBankService';
+import { QuestionFileService } from './QuestionFileService';
+
+export type SpreadsheetField =
+  | 'question'
+  | 'optionA' | 'optionB' | 'optionC' | 'optionD' | 'optionE' | 'optionF'
+  | 'correct'
+  | 'explanation'
+  | 'tags'
+  | 'difficulty';
+
+const OPTION_FIELDS: SpreadsheetField[] = ['optionA', 'optionB', 'optionC', 'optionD', 'optionE', 'optionF'];
+
+export const SPREADSHEET_FIELDS: Array<{ value: SpreadsheetField; label: string; required?: boolean }> = [
+  { value: 'question', label: 'Question', required: true },
+  ...OPTION_FIELDS.map((value, index) => ({ value, label: `Option ${String.fromCharCode(65 + index)}` })),
+  { value: 'correct', label: 'Correct answer', required: true },
+  { value: 'explanation', label: 'Explanation' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'difficulty', label: 'Difficulty' }
+];
+
+// Field -> column index in the table
+export type ColumnMapping = Partial<Record<SpreadsheetField, number>>;
+
+// A CSV file or one worksheet; rows keep their spreadsheet row numbers
+export interface SpreadsheetTable {
+  name: string;
+  rows: Array<{ number: number; cells: string[] }>;
+}
+
+export interface SpreadsheetRowResult {
+  row: number;
+  question?: Question; // Set when the row is valid
+  details: QuestionBankDetails;
+  errors: string[];
+}
+
+// Header names SMEs tend to use for each field
+const HEADER_PATTERNS: Array<[SpreadsheetField, RegExp]> = [
+  ['question', /^(question|question text|prompt|stem|item)$/i],
+  ...OPTION_FIELDS.map((field, index): [SpreadsheetField, RegExp] => {
+    const letter = String.fromCharCode(65 + index);
+    return [field, new RegExp(`^((option|choice|answer)\\s*${letter}|${letter}|(option|choice|answer)\\s*${index + 1})$`, 'i')];
+  }),
+  ['correct', /^(correct|correct answer|correct letter|answer|key|answer key|solution)$/i],
+  ['explanation', /^(explanation|feedback|rationale|reason)$/i],
+  ['tags', /^(tags?|topics?|categor(y|ies)|keywords?)$/i],
+  ['difficulty', /^(difficulty|level)$/i]
+];
+
+// A Map, so cells such as "constructor" are not found on Object.prototype
+const DIFFICULTY_ALIASES = new Map<string, 'easy' | 'medium' | 'hard'>([
+  ['easy', 'easy'], ['e', 'easy'], ['1', 'easy'], ['low', 'easy'],
+  ['medium', 'medium'], ['m', 'medium'], ['2', 'medium'], ['moderate', 'medium'], ['intermediate', 'medium'],
+  ['hard', 'hard'], ['h', 'hard'], ['3', 'hard'], ['high', 'hard'], ['difficult', 'hard']
+]);
+
+// Questions written by hand in Excel or CSV, mapped column by column in a preview before saving
+export class SpreadsheetImport {
+  static isSpreadsheet(fileName: string): boolean {
+    return /\.(csv|xlsx)$/i.test(fileName);
+  }
+
+  static async read(file: File): Promise<SpreadsheetTable[]> {
+    if (file.name.toLowerCase().endsWith('.xlsx')) {
+      const sheets = await OfficeExtractor.readSpreadsheet(file);
+      return sheets.filter(sheet => sheet.rows.length > 0);
+    }
+    const rows = this.parseCsv(await file.text());
+    return rows.length > 0 ? [{ name: file.name, rows }] : [];
+  }
+
+  static guessMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    headers.forEach((header, column) => {
+      const match = HEADER_PATTERNS.find(([field, pattern]) => mapping[field] === undefined && pattern.test(header.trim()));
+      if (match) {
+        mapping[match[0]] = column;
+      }
+    });
+    return mapping;
+  }
+
+  static hasOptionColumns(mapping: ColumnMapping): boolean {
+    return OPTION_FIELDS.some(field => mapping[field] !== undefined);
+  }
+
+  // Rows without options become true/false or short-answer questions, so a sheet imported
+  // without any option column mapped must say that is intended; otherwise a forgotten
+  // mapping would turn every choice question into a short-answer one
+  static validate(rows: SpreadsheetTable['rows'], mapping: ColumnMapping, withoutOptions = false): SpreadsheetRowResult[] {
+    const cell = (cells: string[], field: SpreadsheetField) =>
+      mapping[field] !== undefined ? (cells[mapping[field]] || '').trim() : '';
+    const optionsUnmapped = !withoutOptions && !this.hasOptionColumns(mapping);
+
+    return rows.map(({ number, cells }) => {
+      const errors: string[] = optionsUnmapped ? ['No option columns are mapped'] : [];
+      const details: QuestionBankDetails = {};
+      const text = cell(cells, 'question');
+      if (!text) {
+        errors.push('The question is empty');
+      }
+
+      const options = withoutOptions ? [] : OPTION_FIELDS.map(field => cell(cells, field));
+      while (options.length > 0 && !options[options.length - 1]) {
+        options.pop();
+      }
+      const gap = options.findIndex(option => !option);
+      if (gap >= 0) {
+        errors.push(`Option ${String.fromCharCode(65 + gap)} is empty but a later option is filled`);
+      }
+
+      const correctCell = cell(cells, 'correct');
+      const explanation = cell(cells, 'explanation');
+      const answer = this.parseCorrect(correctCell, options, errors);
+
+      const difficultyCell = cell(cells, 'difficulty');
+      if (difficultyCell) {
+        const difficulty = DIFFICULTY_ALIASES.get(difficultyCell.toLowerCase());
+        if (difficulty) {
+          details.difficulty = difficulty;
+        } else {
+          errors.push(`Difficulty "${difficultyCell}" must be easy, medium or hard`);
+        }
+      }
+      const tags = cell(cells, 'tags').split(/[,;|]/).map(tag => tag.trim()).filter(Boolean);
+      if (tags.length > 0) {
+        details.tags = Array.from(new Set(tags));
+      }
+
+      if (errors.length > 0 || !answer) {
+        return { row: number, details, errors };
+      }
+      return {
+        row: number,
+        details,
+        errors,
+        question: {
+          id: this.generateId(),
+          text,
+          ...answer,
+          ...(explanation ? { explanation } : {})
+        }
+      };
+    });
+  }
+
+  // Letters pick options ("B", "A, C"); without options TRUE/FALSE makes a true/false question
+  // and any other text the accepted answers of a short-answer question, separated by |
+  private static parseCorrect(
+    correctCell: string,
+    options: string[],
+    errors: string[]
+  ): Pick<Question, 'type' | 'options' | 'correctAnswer' | 'acceptedAnswers'> | null {
+    if (!correctCell) {
+      errors.push('The correct answer is empty');
+      return null;
+    }
+
+    if (options.length === 0) {
+      if (/^(t|true|f|false)$/i.test(correctCell)) {
+        return { type: 'boolean', options: [...BOOLEAN_OPTIONS], correctAnswer: /^t/i.test(correctCell) ? 0 : 1 };
+      }
+      const acceptedAnswers = correctCell.split('|').map(answer => answer.trim()).filter(Boolean);
+      return { type: 'text', options: [], correctAnswer: 0, acceptedAnswers };
+    }
+
+    if (options.length < 2) {
+      errors.push('A choice question needs at least two options');
+      return null;
+    }
+
+    const letters = correctCell.toUpperCase().split(/[\s,;/&]+/).filter(letter => letter && letter !== 'AND');
+    const last = String.fromCharCode(64 + options.length);
+    const indices: number[] = [];
+    for (const letter of letters) {
+      const index = /^[A-F]$/.test(letter) ? letter.charCodeAt(0) - 65 : -1;
+      if (index < 0 || index >= options.length) {
+        errors.push(`Correct answer "${correctCell}" must be letters of filled options (A-${last})`);
+        return null;
+      }
+      indices.push(index);
+    }
+
+    const correct = Array.from(new Set(indices)).sort((a, b) => a - b);
+    if (correct.length > 1) {
+      return { type: 'multiple-select', options, correctAnswer: correct };
+    }
+    const isBoolean = options.length === 2 &&
+      options.every((option, index) => option.toLowerCase() === BOOLEAN_OPTIONS[index].toLowerCase());
+    return { type: isBoolean ? 'boolean' : 'multiple-choice', options: isBoolean ? [...BOOLEAN_OPTIONS] : options, correctAnswer: correct[0] };
+  }
+
+  // Valid rows only; the questionnaire takes the difficulty most rows give
+  static async save(title: string, results: SpreadsheetRowResult[], addToBank: boolean): Promise<Questionnaire> {
+    const valid = results.filter(result => result.question);
+    if (valid.length === 0) {
+      throw new Error('There are no valid rows to import');
+    }
+
+    const questionnaire = QuestionFileService.buildQuestionnaire(
+      title,
+      valid.map(result => result.question),
+      `Imported from a spreadsheet with ${valid.length} questions`
+    );
+    const counts = { easy: 0, medium: 0, hard: 0 };
+    valid.forEach(result => {
+      if (result.details.difficulty) {
+        counts[result.details.difficulty]++;
+      }
+    });
+    if (counts.easy + counts.medium + counts.hard > 0) {
+      questionnaire.difficulty = (Object.keys(counts) as Array<keyof typeof counts>)
+        .reduce((best, level) => counts[level] > counts[best] ? level : best);
+    }
+
+    await HybridQuestionnaireStorage.saveQuestionnaire(questionnaire);
+    console.log(`✅ Imported ${valid.length} questions from a spreadsheet:`, questionnaire.id);
+
+    if (addToBank) {
+      await QuestionBankService.addQuestionnaireToBank(
+        questionnaire,
+        [],
+        new Map(valid.map(result => [result.question.id, result.details]))
+      );
+    }
+    return questionnaire;
+  }
+
+  // RFC 4180 with quoted cells that may span lines; Excel writes ; or tabs in some locales.
+  // Rows are numbered by record, as Excel shows them, not by line
+  private static parseCsv(content: string): SpreadsheetTable['rows'] {
+    const text = content.replace(/^\uFEFF/, '');
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows: SpreadsheetTable['rows'] = [];
+    let cells: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    let record = 1;
+
+    const endRow = () => {
+      cells.push(value.trim());
+      value = '';
+      if (cells.some(cellValue => cellValue)) {
+        rows.push({ number: record, cells });
+      }
+      cells = [];
+      record++;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          value += char;
+        }
+      } else if (char === '"' && !value.trim()) {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        cells.push(value.trim());
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        endRow();
+      } else {
+        value += char;
+      }
+    }
+    if (value || cells.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
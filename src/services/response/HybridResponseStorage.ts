@@ -1,9 +1,21 @@
 import { supabase } from '@/integrations/supabase/client';
 import { SupabaseResponseService, QuestionnaireResponse, SubmitResponseData } from '../supabase/SupabaseResponseService';
 import { QuestionnaireManager } from '../questionnaire/QuestionnaireManager';
-import { ResponseScoring } from './ResponseScoring';
+import { COGNITIVE_LEVELS, Question, Questionnaire } from '../questionnaire/QuestionnaireTypes';
+import { ResponseScoring, UserAnswer } from './ResponseScoring';
+import { ItemAnalysis } from './ItemAnalysis';
 import { AuthService } from '../AuthService';
 import { GuestFilterService } from '../GuestFilterService';
+import { AttemptTimerService } from '../AttemptTimerService';
+import { SyncEngine } from '../sync/SyncEngine';
+
+// Scores of one group of questions, such as those bound to one learning objective
+export interface ScoreBreakdown {
+  key: string;
+  questions: number;
+  answers: number;
+  averageScore: number; // Percent of the available credit earned, 0 to 100
+}
 
 export class HybridResponseStorage {
   private static isOnline(): boolean {
@@ -36,7 +48,7 @@ export class HybridResponseStorage {
     const currentUser = AuthService.getCurrentUser();
     if (currentUser && currentUser.role === 'guest') {
       return {
-        userId: 'anonymous',
+        userId: currentUser.userId || 'anonymous',
         username: currentUser.username
       };
     }
@@ -65,17 +77,8 @@ export class HybridResponseStorage {
       // Always save to local storage first for offline access
       this.saveToLocalStorage(response);
       
-      // Try to save to Supabase if online and authenticated
-      if (this.isOnline() && await this.isAuthenticated()) {
-        try {
-          await SupabaseResponseService.saveResponse(response);
-          console.log('✅ Response saved to both local and Supabase');
-        } catch (error) {
-          console.warn('⚠️ Failed to save to Supabase, saved locally only:', error);
-        }
-      } else {
-        console.log('📴 Offline or not authenticated, saved locally only');
-      }
+      // Supabase gets it through the outbox: now when online, otherwise once reconnected
+      await SyncEngine.record('response.save', response.id);
     } catch (error) {
       console.error('❌ Failed to save response:', error);
       throw error;
@@ -90,7 +93,7 @@ export class HybridResponseStorage {
       if (this.isOnline() && await this.isAuthenticated()) {
         try {
           const supabaseResponses = await SupabaseResponseService.getAllResponses();
-          responses = supabaseResponses;
+          responses = SyncEngine.withPendingChanges('response', supabaseResponses, this.getFromLocalStorage());
           console.log('✅ Loaded responses from Supabase:', responses.length);
         } catch (error) {
           console.warn('⚠️ Failed to load from Supabase, falling back to local storage:', error);
@@ -115,7 +118,11 @@ export class HybridResponseStorage {
       // Try Supabase first if online and authenticated
       if (this.isOnline() && await this.isAuthenticated()) {
         try {
-          const responses = await SupabaseResponseService.getResponsesByQuestionnaire(questionnaireId);
+          const responses = SyncEngine.withPendingChanges(
+            'response',
+            await SupabaseResponseService.getResponsesByQuestionnaire(questionnaireId),
+            this.getFromLocalStorage().filter(response => response.questionnaireId === questionnaireId)
+          );
           if (responses.length > 0) {
             console.log('✅ Loaded responses from Supabase for questionnaire:', questionnaireId);
             return responses;
@@ -140,60 +147,186 @@ export class HybridResponseStorage {
     }
   }
 
-  static async submitResponse(responseData: SubmitResponseData): Promise<void> {
+  static async submitResponse(responseData: SubmitResponseData): Promise<QuestionnaireResponse> {
     try {
-      console.log('📤 Submitting response with admin-selected answer validation');
+      console.log('📤 Submitting response for scoring');
       
-      // Get the questionnaire to access admin-selected correct answers
+      // Offline guests may not get the questionnaire back; their answers are still queued below
       const questionnaire = await QuestionnaireManager.getQuestionnaireById(responseData.questionnaireId);
-      if (!questionnaire) {
-        throw new Error('Questionnaire not found');
-      }
-
-      // Convert responses to the format expected by scoring
-      const userAnswers = Object.entries(responseData.responses).map(([questionId, selectedOption]) => {
-        const question = questionnaire.questions.find(q => q.id === questionId);
-        const selectedOptionIndex = question?.options?.indexOf(selectedOption) ?? 0;
-        return {
-          questionId,
-          selectedOptionIndex
-        };
-      });
 
-      // Calculate score using admin-selected correct answers
-      const scoringResult = ResponseScoring.calculateScore(userAnswers, questionnaire);
-      
       // Get user info
       const { userId, username } = await this.getUserInfo();
-      
-      const response: QuestionnaireResponse = {
-        id: this.generateId(),
-        questionnaireId: responseData.questionnaireId,
-        questionnaireTitle: questionnaire.title,
-        userId,
-        username,
-        answers: scoringResult.answers,
-        submittedAt: responseData.submittedAt,
-        score: scoringResult.score,
-        totalQuestions: scoringResult.totalQuestions
-      };
 
-      // Save to both localStorage and Supabase
-      await this.saveResponse(response);
+      // The server scores against the stored answer key and records the response itself.
+      // The id is fixed up front so a retry after a lost reply doesn't record it twice
+      const submission: SubmitResponseData = { ...responseData, responseId: responseData.responseId || crypto.randomUUID() };
+      let response: QuestionnaireResponse | null = null;
+      let serverError: unknown = null;
+      let unreachable = !this.isOnline();
+      if (!unreachable) {
+        try {
+          response = await SupabaseResponseService.submitResponse(submission, username);
+          response.questionnaireTitle = questionnaire?.title || response.questionnaireTitle;
+        } catch (error) {
+          console.warn('⚠️ Server scoring unavailable:', error);
+          serverError = error;
+          unreachable = SyncEngine.isNetworkError(error);
+        }
+      }
+
+      // A refusal from the server (late, invite-only, already submitted) stands. Only without a
+      // connection are questionnaires with their answer key on this device scored in the browser;
+      // guests don't have the key, so their answers wait for server scoring
+      if (!response && !unreachable) {
+        throw serverError ?? new Error('Questionnaire not found');
+      }
+      if (!response && questionnaire && !questionnaire.answerKeyHidden) {
+        response = this.scoreLocally(submission, questionnaire, userId, username);
+        if (questionnaire.showSourcesAfterSubmit) {
+          response.sourceReview = questionnaire.questions
+            .filter(question => question.sources?.length > 0)
+            .map(question => ({ questionId: question.id, questionText: question.text, sources: question.sources }));
+        }
+      } else if (!response) {
+        response = this.withPendingScore(submission, questionnaire, userId, username);
+      }
+
+      const { sourceReview, ...storedResponse } = response;
+      this.saveToLocalStorage(storedResponse);
+
+      // Without a connection the submission is sent for server scoring once one is back;
+      // the guest isn't kept waiting for that. Only the session it was made under may send it
+      if (unreachable) {
+        const { data: { session } } = await supabase.auth.getSession();
+        SyncEngine.record('response.submit', response.id, { data: submission, username, userId: session?.user?.id });
+      }
       
-      // Mark questionnaire as completed for guest users
+      // Mark questionnaire as completed for guest users, unless it can be taken again
       const currentUser = AuthService.getCurrentUser();
       if (currentUser && currentUser.role === 'guest') {
-        GuestFilterService.markQuestionnaireAsCompleted(responseData.questionnaireId, currentUser.username);
+        const guestId = AuthService.getGuestKey(currentUser);
+        if (!questionnaire?.allowRetakes) {
+          GuestFilterService.markQuestionnaireAsCompleted(responseData.questionnaireId, guestId);
+        }
+        AttemptTimerService.clearAttempt(responseData.questionnaireId, guestId);
       }
       
-      console.log('✅ Response submitted successfully with calculated score:', scoringResult.score);
+      console.log(response.scorePending
+        ? '📥 Response queued for server scoring'
+        : `✅ Response submitted successfully with calculated score: ${response.score}`);
+      return response;
     } catch (error) {
       console.error('❌ Failed to submit response:', error);
       throw error;
     }
   }
 
+  // The answers as given, without a score, until the queued submission is scored by the server
+  private static withPendingScore(
+    responseData: SubmitResponseData,
+    questionnaire: Questionnaire | null,
+    userId: string,
+    username: string
+  ): QuestionnaireResponse {
+    const answers = Object.entries(responseData.responses).map(([questionId, selected]) => {
+      const question = questionnaire?.questions.find(q => q.id === questionId);
+      const selectedOptions = Array.isArray(selected) ? selected : [selected];
+      return {
+        questionId,
+        questionText: question?.text || '',
+        selectedOption: selectedOptions.join(', '),
+        selectedOptionIndex: question?.options?.indexOf(selectedOptions[0]) ?? -1
+      };
+    });
+
+    return {
+      id: responseData.responseId || this.generateId(),
+      questionnaireId: responseData.questionnaireId,
+      questionnaireTitle: questionnaire?.title || 'Questionnaire',
+      userId,
+      username,
+      answers,
+      submittedAt: responseData.submittedAt,
+      totalQuestions: questionnaire?.questions.length,
+      startedAt: responseData.startedAt,
+      autoSubmitted: responseData.autoSubmitted,
+      scorePending: true
+    };
+  }
+
+  private static scoreLocally(
+    responseData: SubmitResponseData,
+    questionnaire: Questionnaire,
+    userId: string,
+    username: string
+  ): QuestionnaireResponse {
+    // Convert responses to the format expected by scoring
+    const userAnswers: UserAnswer[] = Object.entries(responseData.responses).map(([questionId, selected]) => {
+      const question = questionnaire.questions.find(q => q.id === questionId);
+      if (Array.isArray(selected)) {
+        const selectedOptionIndices = selected
+          .map(option => question?.options?.indexOf(option) ?? -1)
+          .filter(index => index >= 0);
+        return {
+          questionId,
+          selectedOptionIndex: selectedOptionIndices[0] ?? -1,
+          selectedOptionIndices
+        };
+      }
+      if (question?.type === 'text') {
+        return {
+          questionId,
+          selectedOptionIndex: -1,
+          textAnswer: selected
+        };
+      }
+      const selectedOptionIndex = question?.options?.indexOf(selected) ?? 0;
+      return {
+        questionId,
+        selectedOptionIndex
+      };
+    });
+
+    // Calculate score using admin-selected correct answers
+    const scoringResult = ResponseScoring.calculateScore(userAnswers, questionnaire);
+
+    // Timed attempts record how long the guest took, capped at the timeframe
+    let durationSeconds: number | undefined;
+    if (responseData.startedAt) {
+      durationSeconds = AttemptTimerService.getElapsedSeconds(
+        responseData.startedAt,
+        new Date(responseData.submittedAt).getTime()
+      );
+      if (questionnaire.timeframe) {
+        durationSeconds = Math.min(durationSeconds, questionnaire.timeframe * 60);
+      }
+    }
+
+    return {
+      id: responseData.responseId || this.generateId(),
+      questionnaireId: responseData.questionnaireId,
+      questionnaireTitle: questionnaire.title,
+      userId,
+      username,
+      answers: scoringResult.answers,
+      submittedAt: responseData.submittedAt,
+      score: scoringResult.score,
+      totalQuestions: scoringResult.totalQuestions,
+      startedAt: responseData.startedAt,
+      durationSeconds,
+      autoSubmitted: responseData.autoSubmitted
+    };
+  }
+
+  // Responses kept on this device, including ones never sent to Supabase
+  static getLocalResponses(): QuestionnaireResponse[] {
+    return this.getFromLocalStorage();
+  }
+
+  static setLocalResponses(responses: QuestionnaireResponse[]): void {
+    localStorage.setItem('questionnaireResponses', JSON.stringify(responses));
+  }
+
   private static saveToLocalStorage(response: QuestionnaireResponse): void {
     try {
       const existingResponses = this.getFromLocalStorage();
@@ -218,7 +351,7 @@ export class HybridResponseStorage {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
-  static calculateScore(userAnswers: Array<{questionId: string; selectedOptionIndex: number}>, questionnaire: any) {
+  static calculateScore(userAnswers: UserAnswer[], questionnaire: any) {
     return ResponseScoring.calculateScore(userAnswers, questionnaire);
   }
 
@@ -227,7 +360,7 @@ export class HybridResponseStorage {
     const totalResponses = responses.length;
     
     if (totalResponses === 0) {
-      return { totalResponses: 0, questionStats: [], averageScore: 0 };
+      return { totalResponses: 0, questionStats: [], averageScore: 0, objectiveStats: [], levelStats: [], itemAnalysis: null };
     }
 
     // Calculate average score
@@ -236,21 +369,36 @@ export class HybridResponseStorage {
       ? responsesWithScores.reduce((sum, r) => sum + (r.score || 0), 0) / responsesWithScores.length
       : 0;
 
-    // Get the first response to determine question structure
-    const firstResponse = responses[0];
-    const questionStats = firstResponse.answers.map((answer, questionIndex) => {
-      const questionResponses = responses.map(r => r.answers[questionIndex]);
+    const questionnaire = await QuestionnaireManager.getQuestionnaireById(questionnaireId);
+    const questions = questionnaire?.questions || [];
+    const levelOrder = COGNITIVE_LEVELS.map(level => level.value as string);
+
+    // Answers are grouped by question id; questions no longer in the questionnaire follow in the order first answered
+    const questionOrder = new Map<string, string>(questions.map(question => [question.id, question.text]));
+    responses.forEach(response => response.answers.forEach(answer => {
+      if (!questionOrder.has(answer.questionId)) {
+        questionOrder.set(answer.questionId, answer.questionText);
+      }
+    }));
+
+    const questionStats = Array.from(questionOrder.entries()).map(([questionId, questionText]) => {
+      const questionResponses = responses.flatMap(r => r.answers.filter(answer => answer.questionId === questionId));
       const optionCounts: { [key: string]: number } = {};
       
       questionResponses.forEach(qr => {
-        if (qr && qr.selectedOption) {
+        if (qr.selectedOptions) {
+          // Multiple-select answers count every picked option once
+          qr.selectedOptions.forEach(option => {
+            optionCounts[option] = (optionCounts[option] || 0) + 1;
+          });
+        } else if (qr.selectedOption) {
           optionCounts[qr.selectedOption] = (optionCounts[qr.selectedOption] || 0) + 1;
         }
       });
 
       return {
-        questionId: answer.questionId,
-        questionText: answer.questionText,
+        questionId,
+        questionText,
         totalAnswers: questionResponses.length,
         optionCounts
       };
@@ -259,7 +407,45 @@ export class HybridResponseStorage {
     return {
       totalResponses,
       questionStats,
-      averageScore
+      averageScore,
+      objectiveStats: this.breakdownScores(responses, questions, question => question.objective),
+      levelStats: this.breakdownScores(responses, questions, question => question.cognitiveLevel)
+        .sort((a, b) => levelOrder.indexOf(a.key) - levelOrder.indexOf(b.key)),
+      itemAnalysis: ItemAnalysis.analyze(questions, responses)
     };
   }
+
+  // Every tagged question of the test counts for every response: only answered questions are
+  // submitted, so a skipped one earns 0. Untagged questions are left out; older responses
+  // without credit count a correct answer as 1
+  private static breakdownScores(
+    responses: QuestionnaireResponse[],
+    questions: Question[],
+    keyOf: (question: Question) => string | undefined
+  ): ScoreBreakdown[] {
+    const groups = new Map<string, { questionIds: Set<string>; answers: number; credit: number }>();
+
+    responses.forEach(response => {
+      const answers = new Map(response.answers.map(answer => [answer.questionId, answer]));
+      questions.forEach(question => {
+        const key = keyOf(question);
+        if (!key) {
+          return;
+        }
+        const answer = answers.get(question.id);
+        const group = groups.get(key) || { questionIds: new Set<string>(), answers: 0, credit: 0 };
+        group.questionIds.add(question.id);
+        group.answers++;
+        group.credit += answer ? answer.credit ?? (answer.isCorrect ? 1 : 0) : 0;
+        groups.set(key, group);
+      });
+    });
+
+    return Array.from(groups.entries()).map(([key, group]) => ({
+      key,
+      questions: group.questionIds.size,
+      answers: group.answers,
+      averageScore: Math.max(0, (group.credit / group.answers) * 100)
+    }));
+  }
 }
@@ -0,0 +1,250 @@
+import { QuestionnaireResponse } from '../supabase/SupabaseResponseService';
+import { Question, QuestionType } from '../questionnaire/QuestionnaireTypes';
+import { ResponseScoring } from './ResponseScoring';
+
+type ResponseAnswer = QuestionnaireResponse['answers'][number];
+
+export type ItemFlag =
+  | 'too-hard'
+  | 'too-easy'
+  | 'low-discrimination'
+  | 'negative-discrimination'
+  | 'distractor-attracts-top'
+  | 'unused-distractor';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  'too-hard': 'Too hard',
+  'too-easy': 'Too easy',
+  'low-discrimination': 'Low discrimination',
+  'negative-discrimination': 'Negative discrimination',
+  'distractor-attracts-top': 'Distractor attracts top scorers',
+  'unused-distractor': 'Unused distractor'
+};
+
+// How often one option was picked overall and within the top and bottom scoring groups
+export interface OptionAnalysis {
+  index: number;
+  text: string;
+  isCorrect: boolean;
+  chosenRate: number;
+  topRate: number;
+  bottomRate: number;
+}
+
+export interface ItemAnalysisResult {
+  questionId: string;
+  questionText: string;
+  type: QuestionType;
+  answers: number; // Respondents who answered; the rest skipped it and score 0
+  pValue: number; // Share answering fully correctly, 0 to 1
+  pointBiserial: number | null; // Correlation with the rest of the test; null without variance
+  discrimination: number | null; // Top group p-value minus bottom group p-value
+  options: OptionAnalysis[];
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysisReport {
+  respondents: number;
+  groupSize: number; // Respondents in each of the top and bottom groups
+  kr20: number | null; // Null with fewer than two items or no score variance
+  flagsApplied: boolean; // False below MIN_RESPONSES_FOR_FLAGS
+  items: ItemAnalysisResult[];
+}
+
+// Conventional classical test theory cut-offs
+export const MIN_RESPONSES_FOR_FLAGS = 5;
+const GROUP_SHARE = 0.27;
+const MIN_P_VALUE = 0.2;
+const MAX_P_VALUE = 0.9;
+const MIN_DISCRIMINATION = 0.2;
+
+export class ItemAnalysis {
+  // Answers are matched to questions by id, so responses saved before questions were
+  // reordered still line up. Only answered questions are submitted, so a question of the
+  // questionnaire with no answer was skipped and scores 0. Items are scored right or wrong,
+  // as KR-20 assumes.
+  static analyze(questions: Question[], responses: QuestionnaireResponse[]): ItemAnalysisReport {
+    const answerMaps = responses.map(response => new Map(response.answers.map(answer => [answer.questionId, answer])));
+    const scores = questions.map(question => answerMaps.map(answers => {
+      const answer = answers.get(question.id);
+      return answer ? this.itemScore(answer) : 0;
+    }));
+    const totals = answerMaps.map((_, respondent) =>
+      scores.reduce((sum, itemScores) => sum + itemScores[respondent], 0));
+
+    const ranked = totals.map((total, respondent) => ({ total, respondent })).sort((a, b) => a.total - b.total);
+    const groupSize = responses.length >= 2 ? Math.max(1, Math.round(responses.length * GROUP_SHARE)) : 0;
+    const bottom = new Set(ranked.slice(0, groupSize).map(entry => entry.respondent));
+    const top = new Set(ranked.slice(ranked.length - groupSize).map(entry => entry.respondent));
+    const flagsApplied = responses.length >= MIN_RESPONSES_FOR_FLAGS;
+
+    const items = questions.map((question, itemIndex) => {
+      const presented = scores[itemIndex].map((score, respondent) => ({ score, respondent }));
+      const pValue = presented.length > 0 ? this.mean(presented.map(entry => entry.score)) : 0;
+      const pointBiserial = this.correlation(
+        presented.map(entry => entry.score),
+        presented.map(entry => totals[entry.respondent] - entry.score)
+      );
+      const topScores = presented.filter(entry => top.has(entry.respondent)).map(entry => entry.score);
+      const bottomScores = presented.filter(entry => bottom.has(entry.respondent)).map(entry => entry.score);
+      const discrimination = topScores.length > 0 && bottomScores.length > 0
+        ? this.mean(topScores) - this.mean(bottomScores)
+        : null;
+      const options = this.analyzeOptions(question, presented.map(entry => entry.respondent), answerMaps, top, bottom);
+
+      const result: ItemAnalysisResult = {
+        questionId: question.id,
+        questionText: question.text,
+        type: question.type,
+        answers: answerMaps.filter(answers => answers.has(question.id)).length,
+        pValue,
+        pointBiserial,
+        discrimination,
+        options,
+        flags: []
+      };
+      if (flagsApplied) {
+        result.flags = this.flagItem(result);
+      }
+      return result;
+    });
+
+    return {
+      respondents: responses.length,
+      groupSize,
+      kr20: this.kr20(scores),
+      flagsApplied,
+      items
+    };
+  }
+
+  private static itemScore(answer: ResponseAnswer): number {
+    return (answer.isCorrect ?? (answer.credit ?? 0) >= 1) ? 1 : 0;
+  }
+
+  private static analyzeOptions(
+    question: Question,
+    presented: number[],
+    answerMaps: Map<string, ResponseAnswer>[],
+    top: Set<number>,
+    bottom: Set<number>
+  ): OptionAnalysis[] {
+    if (question.type === 'text' || !question.options?.length) {
+      return [];
+    }
+
+    const correct = ResponseScoring.getCorrectAnswerIndices(question);
+    const picks = new Map(presented.map(respondent =>
+      [respondent, this.selectedIndices(question, answerMaps[respondent].get(question.id))]));
+    const rate = (respondents: number[], index: number) => respondents.length > 0
+      ? respondents.filter(respondent => picks.get(respondent).includes(index)).length / respondents.length
+      : 0;
+    const topRespondents = presented.filter(respondent => top.has(respondent));
+    const bottomRespondents = presented.filter(respondent => bottom.has(respondent));
+
+    return question.options.map((text, index) => ({
+      index,
+      text,
+      isCorrect: correct.includes(index),
+      chosenRate: rate(presented, index),
+      topRate: rate(topRespondents, index),
+      bottomRate: rate(bottomRespondents, index)
+    }));
+  }
+
+  // Older responses may only carry the option text; a skipped question picked nothing
+  private static selectedIndices(question: Question, answer: ResponseAnswer | undefined): number[] {
+    if (!answer) {
+      return [];
+    }
+    if (answer.selectedOptionIndices) {
+      return answer.selectedOptionIndices;
+    }
+    if (answer.selectedOptionIndex >= 0) {
+      return [answer.selectedOptionIndex];
+    }
+    const index = question.options.indexOf(answer.selectedOption);
+    return index >= 0 ? [index] : [];
+  }
+
+  private static flagItem(item: ItemAnalysisResult): ItemFlag[] {
+    const flags: ItemFlag[] = [];
+
+    if (item.pValue < MIN_P_VALUE) {
+      flags.push('too-hard');
+    } else if (item.pValue > MAX_P_VALUE) {
+      flags.push('too-easy');
+    }
+
+    if (item.pointBiserial !== null && item.pointBiserial < 0) {
+      flags.push('negative-discrimination');
+    } else if (item.pointBiserial !== null && item.pointBiserial < MIN_DISCRIMINATION) {
+      flags.push('low-discrimination');
+    }
+
+    const distractors = item.options.filter(option => !option.isCorrect);
+    if (distractors.some(option => option.topRate > option.bottomRate)) {
+      flags.push('distractor-attracts-top');
+    }
+    if (distractors.some(option => option.chosenRate === 0)) {
+      flags.push('unused-distractor');
+    }
+
+    return flags;
+  }
+
+  // Kuder-Richardson 20 over every respondent, skipped items counting as wrong
+  private static kr20(scores: number[][]): number | null {
+    const itemCount = scores.length;
+    if (itemCount < 2) {
+      return null;
+    }
+
+    const respondents = scores[0].map((_, respondent) => respondent);
+    if (respondents.length < 2) {
+      return null;
+    }
+
+    const totalVariance = this.variance(respondents.map(respondent =>
+      scores.reduce((sum, itemScores) => sum + itemScores[respondent], 0)));
+    if (totalVariance === 0) {
+      return null;
+    }
+
+    const itemVariance = scores.reduce((sum, itemScores) => {
+      const p = this.mean(respondents.map(respondent => itemScores[respondent]));
+      return sum + p * (1 - p);
+    }, 0);
+
+    return (itemCount / (itemCount - 1)) * (1 - itemVariance / totalVariance);
+  }
+
+  private static correlation(xs: number[], ys: number[]): number | null {
+    if (xs.length < 2) {
+      return null;
+    }
+
+    const meanX = this.mean(xs);
+    const meanY = this.mean(ys);
+    let covariance = 0;
+    let sumSquaresX = 0;
+    let sumSquaresY = 0;
+    xs.forEach((x, i) => {
+      covariance += (x - meanX) * (ys[i] - meanY);
+      sumSquaresX += (x - meanX) ** 2;
+      sumSquaresY += (ys[i] - meanY) ** 2;
+    });
+
+    return sumSquaresX === 0 || sumSquaresY === 0 ? null : covariance / Math.sqrt(sumSquaresX * sumSquaresY);
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  // Population variance, as in the KR-20 formula
+  private static variance(values: number[]): number {
+    const average = this.mean(values);
+    return this.mean(values.map(value => (value - average) ** 2));
+  }
+}
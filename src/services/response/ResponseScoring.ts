@@ -1,5 +1,12 @@
 
-import { Question } from '../questionnaire/QuestionnaireTypes';
+import { Question, ScoringPolicy } from '../questionnaire/QuestionnaireTypes';
+
+export interface UserAnswer {
+  questionId: string;
+  selectedOptionIndex: number;
+  selectedOptionIndices?: number[];
+  textAnswer?: string;
+}
 
 export interface ScoringResult {
   score: number;
@@ -9,73 +16,175 @@ export interface ScoringResult {
     questionText: string;
     selectedOption: string;
     selectedOptionIndex: number;
+    selectedOptions?: string[];
+    selectedOptionIndices?: number[];
     isCorrect: boolean;
+    credit: number;
     correctAnswer: string;
     correctAnswerIndex: number;
+    correctAnswerIndices?: number[];
   }>;
 }
 
+// Offline scoring only; online submissions are scored by supabase/functions/_shared/scoring.ts
 export class ResponseScoring {
   static calculateScore(
-    userAnswers: Array<{questionId: string; selectedOptionIndex: number}>, 
-    questionnaire: any
+    userAnswers: UserAnswer[],
+    questionnaire: any,
+    policy: ScoringPolicy = questionnaire.scoringPolicy || 'all-or-nothing'
   ): ScoringResult {
-    console.log('🎯 Calculating score with admin-selected correct answers');
-    
-    let correctCount = 0;
+    console.log(`🎯 Calculating score with admin-selected correct answers (policy: ${policy})`);
+
+    let totalCredit = 0;
     const detailedAnswers = userAnswers.map(userAnswer => {
-      const question = questionnaire.questions.find((q: any) => q.id === userAnswer.questionId);
-      
+      const question: Question | undefined = questionnaire.questions.find((q: Question) => q.id === userAnswer.questionId);
+
       if (!question) {
         console.warn(`Question not found: ${userAnswer.questionId}`);
         return {
           questionId: userAnswer.questionId,
           questionText: 'Question not found',
-          selectedOption: 'Unknown',
+          selectedOption: userAnswer.textAnswer ?? 'Unknown',
           selectedOptionIndex: userAnswer.selectedOptionIndex,
           isCorrect: false,
+          credit: 0,
           correctAnswer: 'Unknown',
           correctAnswerIndex: 0
         };
       }
 
-      // Use admin-selected correct answer (this is the definitive answer key)
-      const adminCorrectAnswer = question.correctAnswer ?? 0;
-      const isCorrect = userAnswer.selectedOptionIndex === adminCorrectAnswer;
-      
-      if (isCorrect) {
-        correctCount++;
-      }
+      const result = question.type === 'text'
+        ? this.scoreTextAnswer(question, userAnswer)
+        : this.scoreOptionAnswer(question, userAnswer, policy);
 
-      const selectedOption = question.options?.[userAnswer.selectedOptionIndex] || 'Unknown';
-      const correctOption = question.options?.[adminCorrectAnswer] || 'Unknown';
-
-      console.log(`Question: ${question.text.substring(0, 50)}...`);
-      console.log(`  User selected: ${String.fromCharCode(65 + userAnswer.selectedOptionIndex)} (${selectedOption})`);
-      console.log(`  Admin correct answer: ${String.fromCharCode(65 + adminCorrectAnswer)} (${correctOption})`);
-      console.log(`  Result: ${isCorrect ? '✅ Correct' : '❌ Incorrect'}`);
-
-      return {
-        questionId: userAnswer.questionId,
-        questionText: question.text,
-        selectedOption,
-        selectedOptionIndex: userAnswer.selectedOptionIndex,
-        isCorrect,
-        correctAnswer: correctOption,
-        correctAnswerIndex: adminCorrectAnswer
-      };
+      totalCredit += result.credit;
+      return result;
     });
 
-    const score = questionnaire.questions.length > 0 
-      ? Math.round((correctCount / questionnaire.questions.length) * 100)
+    const totalQuestions = questionnaire.questions.length;
+    const score = totalQuestions > 0
+      ? Math.min(100, Math.max(0, Math.round((totalCredit / totalQuestions) * 100)))
       : 0;
 
-    console.log(`📊 Final Score: ${correctCount}/${questionnaire.questions.length} = ${score}%`);
+    console.log(`📊 Final Score: ${totalCredit.toFixed(2)}/${totalQuestions} = ${score}%`);
 
     return {
       score,
-      totalQuestions: questionnaire.questions.length,
+      totalQuestions,
       answers: detailedAnswers
     };
   }
+
+  // Option-based questions compare the picked set with the answer key. With a single correct
+  // option this reduces to right/wrong, and 'negative' then deducts 1/(n-1) for a wrong pick.
+  private static scoreOptionAnswer(question: Question, userAnswer: UserAnswer, policy: ScoringPolicy): ScoringResult['answers'][number] {
+    const options = question.options || [];
+    const correctIndices = this.getCorrectAnswerIndices(question);
+    // Only multiple-select takes a list, and picking an option twice counts once
+    const picked = question.type === 'multiple-select' && userAnswer.selectedOptionIndices
+      ? userAnswer.selectedOptionIndices
+      : (userAnswer.selectedOptionIndex >= 0 && !userAnswer.selectedOptionIndices ? [userAnswer.selectedOptionIndex] : []);
+    const selectedIndices = [...new Set(picked)].filter(index => index >= 0 && index < options.length);
+
+    const hits = selectedIndices.filter(index => correctIndices.includes(index)).length;
+    const wrongPicks = selectedIndices.length - hits;
+    const isCorrect = hits === correctIndices.length && wrongPicks === 0 && correctIndices.length > 0;
+    const credit = this.calculateCredit(policy, isCorrect, hits, wrongPicks, correctIndices.length, options.length - correctIndices.length);
+
+    const selectedOptions = selectedIndices.map(index => options[index] || 'Unknown');
+    const correctOptions = correctIndices.map(index => options[index] || 'Unknown');
+
+    console.log(`Question: ${question.text.substring(0, 50)}...`);
+    console.log(`  User selected: ${this.formatLetters(selectedIndices)} (${selectedOptions.join(', ')})`);
+    console.log(`  Admin correct answer: ${this.formatLetters(correctIndices)} (${correctOptions.join(', ')})`);
+    console.log(`  Result: ${isCorrect ? '✅ Correct' : '❌ Incorrect'} (credit ${credit.toFixed(2)})`);
+
+    return {
+      questionId: userAnswer.questionId,
+      questionText: question.text,
+      selectedOption: selectedOptions.join(', ') || 'Unknown',
+      selectedOptionIndex: selectedIndices[0] ?? -1,
+      ...(question.type === 'multiple-select' ? { selectedOptions, selectedOptionIndices: selectedIndices } : {}),
+      isCorrect,
+      credit,
+      correctAnswer: correctOptions.join(', ') || 'Unknown',
+      correctAnswerIndex: correctIndices[0] ?? 0,
+      ...(question.type === 'multiple-select' ? { correctAnswerIndices: correctIndices } : {})
+    };
+  }
+
+  private static calculateCredit(
+    policy: ScoringPolicy,
+    isCorrect: boolean,
+    hits: number,
+    wrongPicks: number,
+    correctCount: number,
+    incorrectCount: number
+  ): number {
+    if (policy === 'all-or-nothing' || correctCount === 0) {
+      return isCorrect ? 1 : 0;
+    }
+
+    const penalty = incorrectCount > 0 ? wrongPicks / incorrectCount : 0;
+    const credit = hits / correctCount - penalty;
+
+    return Math.min(1, Math.max(policy === 'negative' ? -1 : 0, credit));
+  }
+
+  // Short-answer questions are correct when the normalised answer matches any accepted answer
+  private static scoreTextAnswer(question: Question, userAnswer: UserAnswer): ScoringResult['answers'][number] {
+    const acceptedAnswers = this.getAcceptedAnswers(question);
+    const givenAnswer = userAnswer.textAnswer ?? '';
+    const normalizedGiven = this.normalizeTextAnswer(givenAnswer);
+    const isCorrect = normalizedGiven.length > 0 &&
+      acceptedAnswers.some(answer => this.normalizeTextAnswer(answer) === normalizedGiven);
+
+    console.log(`Question: ${question.text.substring(0, 50)}...`);
+    console.log(`  User answered: "${givenAnswer}"`);
+    console.log(`  Accepted answers: ${acceptedAnswers.map(a => `"${a}"`).join(', ')}`);
+    console.log(`  Result: ${isCorrect ? '✅ Correct' : '❌ Incorrect'}`);
+
+    return {
+      questionId: userAnswer.questionId,
+      questionText: question.text,
+      selectedOption: givenAnswer,
+      selectedOptionIndex: -1,
+      isCorrect,
+      credit: isCorrect ? 1 : 0,
+      correctAnswer: acceptedAnswers[0] || 'Unknown',
+      correctAnswerIndex: -1
+    };
+  }
+
+  static getCorrectAnswerIndices(question: Pick<Question, 'correctAnswer'>): number[] {
+    const correctAnswer = question.correctAnswer;
+    if (Array.isArray(correctAnswer)) {
+      return [...new Set(correctAnswer.filter(index => typeof index === 'number'))].sort((a, b) => a - b);
+    }
+    return typeof correctAnswer === 'number' ? [correctAnswer] : [0];
+  }
+
+  static getAcceptedAnswers(question: Question): string[] {
+    const accepted = (question.acceptedAnswers || []).filter(answer => answer && answer.trim());
+    if (accepted.length > 0) {
+      return accepted;
+    }
+
+    // Fall back to the option marked correct for questions converted from multiple-choice
+    const fallback = question.options?.[this.getCorrectAnswerIndices(question)[0]];
+    return fallback ? [fallback] : [];
+  }
+
+  static normalizeTextAnswer(answer: string): string {
+    return answer
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[\p{P}\p{S}]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static formatLetters(indices: number[]): string {
+    return indices.length > 0 ? indices.map(index => String.fromCharCode(65 + index)).join(', ') : '—';
+  }
 }
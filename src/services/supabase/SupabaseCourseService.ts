@@ -15,6 +15,7 @@ export class SupabaseCourseService {
           description: course.description,
           content: JSON.stringify(course.materials), // Use course.materials for content
           video_url: course.videoUrl || null, // Save video URL
+          updated_at: course.updatedAt || new Date().toISOString(),
           created_by: (await supabase.auth.getUser()).data.user?.id
         });
 
@@ -49,6 +50,7 @@ export class SupabaseCourseService {
         materials: c.content ? JSON.parse(c.content) : [], // Map content to materials
         estimatedTime: 60, // Default estimated time
         createdAt: c.created_at || new Date().toISOString(),
+        updatedAt: c.updated_at || undefined,
         difficulty: 'medium' as const, // Default difficulty
         isActive: true,
         videoUrl: c.video_url || undefined // Map video_url to videoUrl
@@ -82,6 +84,7 @@ export class SupabaseCourseService {
         materials: courseData.content ? JSON.parse(courseData.content) : [], // Map content to materials
         estimatedTime: 60, // Default estimated time
         createdAt: courseData.created_at || new Date().toISOString(),
+        updatedAt: courseData.updated_at || undefined,
         difficulty: 'medium' as const, // Default difficulty
         isActive: true,
         videoUrl: courseData.video_url || undefined // Map video_url to videoUrl
@@ -113,4 +116,20 @@ export class SupabaseCourseService {
       throw error;
     }
   }
+
+  // Last-modified stamp used to settle sync conflicts; null when the row doesn't exist
+  static async getSyncVersion(id: string): Promise<{ updatedAt: string | null } | null> {
+    const { data, error } = await supabase
+      .from('courses')
+      .select('updated_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error checking course version:', error);
+      throw error;
+    }
+
+    return data ? { updatedAt: data.updated_at } : null;
+  }
 }
@@ -1,49 +1,58 @@
 
 import { supabase } from '@/integrations/supabase/client';
 
-interface GuestAssignment {
-  guestName: string;
+export interface GuestAssignment {
+  guestId: string;
   testId: string;
   setNumber: number;
   assignedAt: string;
 }
 
 export class SupabaseGuestAssignmentService {
-  static async getGuestSetNumber(guestName: string, testId: string, totalSets: number): Promise<number> {
+  static async getGuestSetNumber(guestId: string, testId: string, totalSets: number): Promise<number> {
+    try {
+      // Guests with a Supabase identity are balanced across every browser by the database,
+      // over the sets it holds for the test; only it decides which set they may take
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.user?.id === guestId) {
+        const { data, error } = await supabase.rpc('assign_guest_set', {
+          target_test_id: testId
+        });
+
+        if (!error && data) {
+          console.log(`🎯 Guest assigned to set ${data} of test ${testId}`);
+          return data;
+        }
+        console.error('❌ Error assigning guest set in Supabase:', error);
+      }
+
+      return this.getLocalSetNumber(guestId, testId, totalSets);
+    } catch (error) {
+      console.error('❌ Failed to get guest set number:', error);
+      return this.getLocalSetNumber(guestId, testId, totalSets);
+    }
+  }
+
+  // Offline and device-only guests fall back to round-robin on this browser
+  private static getLocalSetNumber(guestId: string, testId: string, totalSets: number): number {
     try {
-      // For now, we'll use localStorage as the guest_assignments table doesn't exist in schema
-      // In a real implementation, you would create a guest_assignments table
       const assignments = this.getAssignmentsFromLocalStorage();
       
       // Check if this guest already has an assignment for this test
       const existingAssignment = assignments.find(
-        a => a.guestName === guestName && a.testId === testId
+        a => a.guestId === guestId && a.testId === testId
       );
       
       if (existingAssignment) {
         return existingAssignment.setNumber;
       }
 
-      // Find the next available set number for this test
       const testAssignments = assignments.filter(a => a.testId === testId);
-      const usedSets = testAssignments.map(a => a.setNumber);
-      
-      let nextSetNumber = 1;
-      for (let i = 1; i <= totalSets; i++) {
-        if (!usedSets.includes(i)) {
-          nextSetNumber = i;
-          break;
-        }
-      }
-      
-      // If all sets are assigned, cycle back to set 1
-      if (usedSets.length >= totalSets) {
-        nextSetNumber = (testAssignments.length % totalSets) + 1;
-      }
+      const nextSetNumber = (testAssignments.length % totalSets) + 1;
 
       // Create new assignment
       const newAssignment: GuestAssignment = {
-        guestName,
+        guestId,
         testId,
         setNumber: nextSetNumber,
         assignedAt: new Date().toISOString()
@@ -54,15 +63,14 @@ export class SupabaseGuestAssignmentService {
 
       return nextSetNumber;
     } catch (error) {
-      console.error('❌ Failed to get guest set number:', error);
+      console.error('❌ Failed to get local guest set number:', error);
       return 1; // Default to set 1 if there's an error
     }
   }
 
+  // Only the local fallback is pruned here; the database prunes its own rows on a schedule
   static async cleanupOldAssignments(): Promise<void> {
     try {
-      // For now, we'll use localStorage cleanup
-      // In a real implementation, you would clean up a guest_assignments table
       const assignments = this.getAssignmentsFromLocalStorage();
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -78,6 +86,57 @@ export class SupabaseGuestAssignmentService {
     }
   }
 
+  // Every assignment in the database; only admins see other guests' rows
+  static async getAllAssignments(): Promise<GuestAssignment[]> {
+    const { data, error } = await supabase
+      .from('guest_assignments')
+      .select('*')
+      .order('assigned_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error loading guest assignments:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => ({
+      guestId: row.guest_id,
+      testId: row.test_id,
+      setNumber: row.set_number,
+      assignedAt: row.assigned_at || new Date().toISOString()
+    }));
+  }
+
+  // Admin restore from a workspace backup; guests without an account in this project are skipped
+  static async restoreAssignments(assignments: GuestAssignment[], replaceExisting: boolean): Promise<number> {
+    const rows = assignments.map(assignment => ({
+      guest_id: assignment.guestId,
+      test_id: assignment.testId,
+      set_number: assignment.setNumber,
+      assigned_at: assignment.assignedAt
+    }));
+
+    const { data, error } = await supabase.rpc('restore_guest_assignments', {
+      backup_rows: rows,
+      replace_existing: replaceExisting
+    });
+
+    if (error) {
+      console.error('❌ Error restoring guest assignments:', error);
+      throw error;
+    }
+
+    console.log('✅ Restored guest assignments to Supabase:', data);
+    return data || 0;
+  }
+
+  static getLocalAssignments(): GuestAssignment[] {
+    return this.getAssignmentsFromLocalStorage();
+  }
+
+  static setLocalAssignments(assignments: GuestAssignment[]): void {
+    this.saveAssignmentsToLocalStorage(assignments);
+  }
+
   private static getAssignmentsFromLocalStorage(): GuestAssignment[] {
     try {
       const stored = localStorage.getItem('guestAssignments');
@@ -0,0 +1,202 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type DbTestInvite = Database['public']['Tables']['test_invites']['Row'];
+
+export interface TestInvite {
+  id: string;
+  testId: string; // Id of the test's first set; test names are not unique across admins
+  testName: string;
+  code: string;
+  guestName?: string;
+  guestEmail?: string;
+  maxUses?: number;
+  useCount: number;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface RosterEntry {
+  name: string;
+  email?: string;
+}
+
+export interface CreateInviteOptions {
+  maxUses?: number;
+  expiresAt?: string;
+}
+
+export class SupabaseInviteService {
+  // Unambiguous characters only, so codes can be read out or typed from paper
+  private static CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  private static CODE_LENGTH = 8;
+
+  private static toInvite(i: DbTestInvite): TestInvite {
+    return {
+      id: i.id,
+      testId: i.test_id,
+      testName: i.test_name,
+      code: i.code,
+      guestName: i.guest_name || undefined,
+      guestEmail: i.guest_email || undefined,
+      maxUses: i.max_uses ?? undefined,
+      useCount: i.use_count,
+      expiresAt: i.expires_at || undefined,
+      createdAt: i.created_at || new Date().toISOString()
+    };
+  }
+
+  static generateCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(this.CODE_LENGTH));
+    return Array.from(bytes, byte => this.CODE_ALPHABET[byte % this.CODE_ALPHABET.length]).join('');
+  }
+
+  static buildInviteLink(code: string): string {
+    return `${window.location.origin}/?invite=${encodeURIComponent(code)}`;
+  }
+
+  // Any set of the test will do; the database resolves it to the test's first set
+  static async getInvitesForTest(questionnaireId: string): Promise<TestInvite[]> {
+    try {
+      const { data: testId, error: testError } = await supabase.rpc('test_id_of', {
+        target_questionnaire_id: questionnaireId
+      });
+      if (testError) {
+        throw testError;
+      }
+      if (!testId) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('test_invites')
+        .select('*')
+        .eq('test_id', testId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error loading invites:', error);
+        throw error;
+      }
+
+      return (data || []).map(i => this.toInvite(i));
+    } catch (error) {
+      console.error('❌ Failed to load invites from Supabase:', error);
+      return [];
+    }
+  }
+
+  static async createInvite(questionnaireId: string, testName: string, options: CreateInviteOptions = {}): Promise<TestInvite> {
+    const { data, error } = await supabase
+      .from('test_invites')
+      .insert({
+        test_id: questionnaireId,
+        test_name: testName,
+        code: this.generateCode(),
+        max_uses: options.maxUses ?? null,
+        expires_at: options.expiresAt ?? null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Error creating invite:', error);
+      throw error;
+    }
+
+    console.log('✅ Invite created for test:', testName);
+    return this.toInvite(data);
+  }
+
+  // Each roster entry gets a personal single-use code that also sets the guest's display name
+  static async importRoster(questionnaireId: string, testName: string, roster: RosterEntry[]): Promise<TestInvite[]> {
+    if (roster.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('test_invites')
+      .insert(roster.map(entry => ({
+        test_id: questionnaireId,
+        test_name: testName,
+        code: this.generateCode(),
+        guest_name: entry.name,
+        guest_email: entry.email || null,
+        max_uses: 1
+      })))
+      .select();
+
+    if (error) {
+      console.error('❌ Error importing roster:', error);
+      throw error;
+    }
+
+    console.log(`✅ Imported ${roster.length} roster entries for test:`, testName);
+    return (data || []).map(i => this.toInvite(i));
+  }
+
+  static async deleteInvite(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('test_invites')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('❌ Error deleting invite:', error);
+      throw error;
+    }
+  }
+
+  static async redeemInvite(code: string): Promise<{ testName: string; guestName?: string }> {
+    const { data, error } = await supabase.rpc('redeem_invite', { invite_code: code });
+
+    if (error || !data || data.length === 0) {
+      console.error('❌ Error redeeming invite:', error);
+      throw new Error(error?.message || 'Invalid access code');
+    }
+
+    console.log('🎟️ Redeemed invite for test:', data[0].test_name);
+    return { testName: data[0].test_name, guestName: data[0].guest_name || undefined };
+  }
+
+  // Active sets of invite-only tests by id, with whether the signed-in guest has redeemed an invite
+  static async getGuestTestAccess(): Promise<Record<string, boolean>> {
+    try {
+      const { data, error } = await supabase.rpc('get_guest_test_access');
+
+      if (error) {
+        console.error('❌ Error loading guest test access:', error);
+        throw error;
+      }
+
+      return Object.fromEntries((data || []).map(row => [row.questionnaire_id, row.has_access]));
+    } catch (error) {
+      console.error('❌ Failed to load guest test access:', error);
+      return {};
+    }
+  }
+
+  static parseRosterCsv(csv: string): RosterEntry[] {
+    const rows = csv
+      .split(/\r?\n/)
+      .map(line => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1')))
+      .filter(cells => cells.some(Boolean));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    // Use the header row when present, otherwise assume "name,email"
+    const header = rows[0].map(cell => cell.toLowerCase());
+    const hasHeader = header.includes('name');
+    const nameIndex = hasHeader ? header.indexOf('name') : 0;
+    const emailIndex = hasHeader ? header.indexOf('email') : 1;
+
+    return (hasHeader ? rows.slice(1) : rows)
+      .map(cells => ({
+        name: cells[nameIndex] || '',
+        email: emailIndex >= 0 ? cells[emailIndex] || undefined : undefined
+      }))
+      .filter(entry => entry.name);
+  }
+}
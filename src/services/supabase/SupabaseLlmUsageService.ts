@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LlmQuota {
+  requestLimit: number;
+  tokenLimit: number;
+  requestsUsed: number;
+  tokensUsed: number;
+}
+
+export class SupabaseLlmUsageService {
+  // Today's usage against the daily limits the llm-proxy edge function enforces
+  static async getMyQuota(): Promise<LlmQuota | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return null;
+      }
+
+      const { data, error } = await supabase.rpc('get_llm_quota', { target_user_id: user.id });
+      if (error || !data?.[0]) {
+        console.error('❌ Error fetching LLM quota:', error);
+        return null;
+      }
+
+      return {
+        requestLimit: data[0].request_limit,
+        tokenLimit: data[0].token_limit,
+        requestsUsed: data[0].requests_used,
+        tokensUsed: data[0].tokens_used
+      };
+    } catch (error) {
+      console.error('❌ Error in getMyQuota:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type DbProfile = Database['public']['Tables']['profiles']['Row'];
+export type UserRole = Database['public']['Enums']['user_role'];
+
+export interface UserProfile {
+  id: string;
+  username: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export class SupabaseProfileService {
+  private static toProfile(p: DbProfile): UserProfile {
+    return {
+      id: p.id,
+      username: p.username,
+      email: p.email || '',
+      role: p.role,
+      createdAt: p.created_at || new Date().toISOString()
+    };
+  }
+
+  static async getProfile(userId: string): Promise<UserProfile | null> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      if (error || !data) {
+        console.log('❌ Profile not found in Supabase:', userId);
+        return null;
+      }
+
+      return this.toProfile(data);
+    } catch (error) {
+      console.error('❌ Failed to load profile from Supabase:', error);
+      return null;
+    }
+  }
+
+  // Only returns every profile for admins; RLS limits everyone else to their own row
+  static async getAllProfiles(): Promise<UserProfile[]> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('❌ Error loading profiles:', error);
+        throw error;
+      }
+
+      return (data || []).map(p => this.toProfile(p));
+    } catch (error) {
+      console.error('❌ Failed to load profiles from Supabase:', error);
+      return [];
+    }
+  }
+
+  static async setUserRole(userId: string, role: UserRole): Promise<void> {
+    const { error } = await supabase.rpc('set_user_role', {
+      target_user_id: userId,
+      new_role: role
+    });
+
+    if (error) {
+      console.error('❌ Error changing user role:', error);
+      throw error;
+    }
+
+    console.log(`✅ User ${userId} is now ${role}`);
+  }
+}
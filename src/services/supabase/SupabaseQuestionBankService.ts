@@ -0,0 +1,216 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { BankQuestion, QuestionBankFilters, QuestionType } from '../questionnaire/QuestionnaireTypes';
+
+export type DbBankQuestion = Database['public']['Tables']['question_bank']['Row'];
+
+export type NewBankQuestion = Omit<BankQuestion, 'id' | 'usageCount' | 'createdAt' | 'updatedAt'>;
+
+export class SupabaseQuestionBankService {
+  private static SEARCH_LIMIT = 200;
+  // PostgREST returns at most 1000 rows per request by default
+  private static PAGE_SIZE = 1000;
+
+  private static toBankQuestion(q: DbBankQuestion): BankQuestion {
+    const correctAnswers = Array.isArray(q.correct_answers) ? q.correct_answers as number[] : [];
+    return {
+      id: q.id,
+      text: q.text,
+      type: q.type as QuestionType,
+      options: Array.isArray(q.options) ? q.options as string[] : [],
+      correctAnswer: q.type === 'multiple-select' ? correctAnswers : correctAnswers[0] ?? 0,
+      acceptedAnswers: Array.isArray(q.accepted_answers) ? q.accepted_answers as string[] : [],
+      explanation: q.explanation || '',
+      tags: q.tags || [],
+      topic: q.topic,
+      difficulty: q.difficulty,
+      sourceFile: q.source_file || undefined,
+      sourceQuestionId: q.source_question_id || undefined,
+      usageCount: q.usage_count,
+      createdAt: q.created_at || new Date().toISOString(),
+      updatedAt: q.updated_at || q.created_at || new Date().toISOString()
+    };
+  }
+
+  private static toRow(question: NewBankQuestion) {
+    return {
+      source_question_id: question.sourceQuestionId ?? null,
+      text: question.text,
+      type: question.type,
+      options: question.options || [],
+      correct_answers: Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer ?? 0],
+      accepted_answers: question.acceptedAnswers || [],
+      explanation: question.explanation || null,
+      tags: question.tags,
+      topic: question.topic,
+      difficulty: question.difficulty,
+      source_file: question.sourceFile ?? null,
+      updated_at: new Date().toISOString()
+    };
+  }
+
+  static async searchQuestions(filters: QuestionBankFilters = {}): Promise<BankQuestion[]> {
+    try {
+      let query = supabase
+        .from('question_bank')
+        .select('*')
+        .order('updated_at', { ascending: false })
+        .limit(this.SEARCH_LIMIT);
+
+      // Commas and parentheses would break the PostgREST or-filter syntax
+      const search = filters.search?.replace(/[,()%]/g, ' ').trim();
+      if (search) {
+        query = query.or(`text.ilike.%${search}%,topic.ilike.%${search}%`);
+      }
+      if (filters.tags && filters.tags.length > 0) {
+        query = query.contains('tags', filters.tags);
+      }
+      if (filters.difficulty) {
+        query = query.eq('difficulty', filters.difficulty);
+      }
+      if (filters.type) {
+        query = query.eq('type', filters.type);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('❌ Error searching question bank:', error);
+        throw error;
+      }
+
+      return (data || []).map(q => this.toBankQuestion(q));
+    } catch (error) {
+      console.error('❌ Failed to search question bank:', error);
+      return [];
+    }
+  }
+
+  // Every question in the bank, newest first, paged past the search limit; the duplicate check
+  // must see the whole bank, not the latest matches the browser shows
+  static async getAllQuestionTexts(): Promise<string[]> {
+    const texts: string[] = [];
+
+    for (let from = 0; ; from += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('question_bank')
+        .select('id, text')
+        .order('updated_at', { ascending: false })
+        .order('id')
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('❌ Error loading question bank texts:', error);
+        throw error;
+      }
+
+      texts.push(...(data || []).map(q => q.text));
+      if (!data || data.length < this.PAGE_SIZE) {
+        break;
+      }
+    }
+
+    console.log('✅ Loaded question bank texts:', texts.length);
+    return texts;
+  }
+
+  static async getTags(): Promise<{ tag: string; count: number }[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_question_bank_tags');
+
+      if (error) {
+        console.error('❌ Error loading question bank tags:', error);
+        throw error;
+      }
+
+      return (data || []).map(row => ({ tag: row.tag, count: row.question_count }));
+    } catch (error) {
+      console.error('❌ Failed to load question bank tags:', error);
+      return [];
+    }
+  }
+
+  static async getBySourceQuestionIds(sourceQuestionIds: string[]): Promise<BankQuestion[]> {
+    if (sourceQuestionIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('question_bank')
+        .select('*')
+        .in('source_question_id', sourceQuestionIds);
+
+      if (error) {
+        console.error('❌ Error loading bank questions:', error);
+        throw error;
+      }
+
+      return (data || []).map(q => this.toBankQuestion(q));
+    } catch (error) {
+      console.error('❌ Failed to load bank questions:', error);
+      return [];
+    }
+  }
+
+  // Entries saved from the same question are updated in place, so curated edits replace the old version
+  static async saveQuestions(questions: NewBankQuestion[]): Promise<BankQuestion[]> {
+    if (questions.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('question_bank')
+      .upsert(questions.map(q => this.toRow(q)), { onConflict: 'source_question_id' })
+      .select();
+
+    if (error) {
+      console.error('❌ Error saving to question bank:', error);
+      throw error;
+    }
+
+    console.log(`✅ Saved ${questions.length} questions to the question bank`);
+    return (data || []).map(q => this.toBankQuestion(q));
+  }
+
+  static async updateQuestion(question: BankQuestion): Promise<BankQuestion> {
+    const { data, error } = await supabase
+      .from('question_bank')
+      .update(this.toRow(question))
+      .eq('id', question.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Error updating bank question:', error);
+      throw error;
+    }
+
+    return this.toBankQuestion(data);
+  }
+
+  static async deleteQuestion(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('question_bank')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('❌ Error deleting bank question:', error);
+      throw error;
+    }
+  }
+
+  static async recordUsage(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase.rpc('record_question_usage', { question_ids: ids });
+
+    if (error) {
+      console.error('❌ Error recording question bank usage:', error);
+      throw error;
+    }
+  }
+}
@@ -1,7 +1,8 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { Questionnaire, Question } from '../questionnaire/QuestionnaireTypes';
-import { Database } from '@/integrations/supabase/types';
+import { CognitiveLevel, Questionnaire, Question, QuestionType, ScoringPolicy, SourceCheck } from '../questionnaire/QuestionnaireTypes';
+import { Database, Json } from '@/integrations/supabase/types';
+import { SectionCoverage, SourceCitation } from '../extraction/SourceDocument';
 
 export type DbQuestionnaire = Database['public']['Tables']['questionnaires']['Row'];
 export type DbQuestion = Database['public']['Tables']['questions']['Row'];
@@ -29,6 +30,12 @@ export class SupabaseQuestionnaireService {
           set_number: questionnaire.setNumber,
           total_sets: questionnaire.totalSets,
           language: questionnaire.language || 'en',
+          scoring_policy: questionnaire.scoringPolicy || 'all-or-nothing',
+          source_files: questionnaire.sourceFiles || [],
+          show_sources_after_submit: questionnaire.showSourcesAfterSubmit || false,
+          allow_retakes: questionnaire.allowRetakes || false,
+          source_coverage: (questionnaire.sourceCoverage || []) as unknown as Json,
+          updated_at: questionnaire.updatedAt || new Date().toISOString(),
           created_by: (await supabase.auth.getUser()).data.user?.id
         })
         .select()
@@ -52,16 +59,26 @@ export class SupabaseQuestionnaireService {
 
       // Save questions
       if (questionnaire.questions && questionnaire.questions.length > 0) {
-        const questionsToInsert = questionnaire.questions.map(question => ({
-          id: question.id,
-          questionnaire_id: questionnaire.id,
-          text: question.text,
-          type: question.type as 'multiple-choice' | 'text' | 'boolean',
-          options: question.options || [],
-          correct_answer: question.correctAnswer,
-          admin_selected_answer: question.correctAnswer || 0,
-          explanation: question.explanation
-        }));
+        const questionsToInsert = questionnaire.questions.map(question => {
+          // correct_answer keeps the first index for older readers; multi-select keys live in correct_answers
+          const correctIndices = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer ?? 0];
+          return {
+            id: question.id,
+            questionnaire_id: questionnaire.id,
+            text: question.text,
+            type: question.type as QuestionType,
+            options: question.options || [],
+            correct_answer: correctIndices[0] ?? 0,
+            correct_answers: correctIndices,
+            admin_selected_answer: correctIndices[0] ?? 0,
+            accepted_answers: question.acceptedAnswers || [],
+            explanation: question.explanation,
+            sources: (question.sources || []) as unknown as Json,
+            source_check: question.sourceCheck ?? null,
+            cognitive_level: question.cognitiveLevel ?? null,
+            objective: question.objective ?? null
+          };
+        });
 
         const { error: questionsError } = await supabase
           .from('questions')
@@ -108,10 +125,15 @@ export class SupabaseQuestionnaireService {
       const questions: Question[] = (questionsData || []).map(q => ({
         id: q.id,
         text: q.text,
-        type: q.type as 'multiple-choice' | 'text' | 'boolean',
+        type: q.type as QuestionType,
         options: Array.isArray(q.options) ? q.options as string[] : [],
-        correctAnswer: q.correct_answer || 0,
-        explanation: q.explanation || ''
+        correctAnswer: q.type === 'multiple-select' && Array.isArray(q.correct_answers) ? q.correct_answers as number[] : q.correct_answer || 0,
+        acceptedAnswers: Array.isArray(q.accepted_answers) ? q.accepted_answers as string[] : [],
+        explanation: q.explanation || '',
+        sources: Array.isArray(q.sources) ? q.sources as unknown as SourceCitation[] : [],
+        sourceCheck: (q.source_check as SourceCheck) || undefined,
+        cognitiveLevel: (q.cognitive_level as CognitiveLevel) || undefined,
+        objective: q.objective || undefined
       }));
 
       const questionnaire: Questionnaire = {
@@ -123,11 +145,17 @@ export class SupabaseQuestionnaireService {
         timeframe: questionnaireData.timeframe,
         questions: questions,
         createdAt: questionnaireData.created_at || new Date().toISOString(),
+        updatedAt: questionnaireData.updated_at || undefined,
         isActive: questionnaireData.is_active || false,
         isSaved: questionnaireData.is_saved || false,
         setNumber: questionnaireData.set_number,
         totalSets: questionnaireData.total_sets,
-        language: questionnaireData.language || 'en'
+        language: questionnaireData.language || 'en',
+        scoringPolicy: (questionnaireData.scoring_policy || 'all-or-nothing') as ScoringPolicy,
+        sourceFiles: Array.isArray(questionnaireData.source_files) ? questionnaireData.source_files as string[] : [],
+        showSourcesAfterSubmit: questionnaireData.show_sources_after_submit || false,
+        allowRetakes: questionnaireData.allow_retakes || false,
+        sourceCoverage: Array.isArray(questionnaireData.source_coverage) ? questionnaireData.source_coverage as unknown as SectionCoverage[] : []
       };
 
       console.log('✅ Questionnaire loaded from Supabase:', questionnaire.id);
@@ -138,6 +166,75 @@ export class SupabaseQuestionnaireService {
     }
   }
 
+  // Guests read questions through the guest_questions view, which never includes the answer key
+  static async getGuestQuestionnaire(id: string): Promise<Questionnaire | null> {
+    const questionnaires = await this.getGuestQuestionnaires(id);
+    return questionnaires[0] || null;
+  }
+
+  static async getGuestQuestionnaires(id?: string): Promise<Questionnaire[]> {
+    try {
+      let query = supabase
+        .from('questionnaires')
+        .select('*')
+        .eq('is_active', true);
+      if (id) {
+        query = query.eq('id', id);
+      }
+
+      const { data: questionnairesData, error: questionnaireError } = await query.order('created_at', { ascending: false });
+
+      if (questionnaireError || !questionnairesData || questionnairesData.length === 0) {
+        console.log('❌ No active questionnaires found in Supabase:', id || 'all');
+        return [];
+      }
+
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('guest_questions')
+        .select('*')
+        .in('questionnaire_id', questionnairesData.map(q => q.id))
+        .order('created_at');
+
+      if (questionsError) {
+        console.error('❌ Error loading guest questions:', questionsError);
+        throw questionsError;
+      }
+
+      const questionnaires: Questionnaire[] = questionnairesData.map(questionnaireData => ({
+        id: questionnaireData.id,
+        title: questionnaireData.title,
+        description: questionnaireData.description || '',
+        testName: questionnaireData.test_name,
+        difficulty: questionnaireData.difficulty as 'easy' | 'medium' | 'hard',
+        timeframe: questionnaireData.timeframe,
+        questions: (questionsData || [])
+          .filter(q => q.questionnaire_id === questionnaireData.id)
+          .map(q => ({
+            id: q.id,
+            text: q.text,
+            type: q.type as QuestionType,
+            options: Array.isArray(q.options) ? q.options as string[] : [],
+            correctAnswer: -1
+          })),
+        createdAt: questionnaireData.created_at || new Date().toISOString(),
+        updatedAt: questionnaireData.updated_at || undefined,
+        isActive: true,
+        isSaved: questionnaireData.is_saved || false,
+        setNumber: questionnaireData.set_number,
+        totalSets: questionnaireData.total_sets,
+        language: questionnaireData.language || 'en',
+        scoringPolicy: (questionnaireData.scoring_policy || 'all-or-nothing') as ScoringPolicy,
+        answerKeyHidden: true
+      }));
+
+      console.log('✅ Guest questionnaires loaded from Supabase:', questionnaires.length);
+      return questionnaires;
+    } catch (error) {
+      console.error('❌ Failed to load guest questionnaires from Supabase:', error);
+      return [];
+    }
+  }
+
   static async getAllQuestionnaires(): Promise<Questionnaire[]> {
     try {
       const { data: questionnairesData, error } = await supabase
@@ -157,10 +254,15 @@ export class SupabaseQuestionnaireService {
         const questions: Question[] = (q.questions || []).map((question: any) => ({
           id: question.id,
           text: question.text,
-          type: question.type as 'multiple-choice' | 'text' | 'boolean',
+          type: question.type as QuestionType,
           options: Array.isArray(question.options) ? question.options as string[] : [],
-          correctAnswer: question.correct_answer || 0,
-          explanation: question.explanation || ''
+          correctAnswer: question.type === 'multiple-select' && Array.isArray(question.correct_answers) ? question.correct_answers as number[] : question.correct_answer || 0,
+          acceptedAnswers: Array.isArray(question.accepted_answers) ? question.accepted_answers as string[] : [],
+          explanation: question.explanation || '',
+          sources: Array.isArray(question.sources) ? question.sources as SourceCitation[] : [],
+          sourceCheck: question.source_check || undefined,
+          cognitiveLevel: question.cognitive_level || undefined,
+          objective: question.objective || undefined
         }));
 
         return {
@@ -172,11 +274,17 @@ export class SupabaseQuestionnaireService {
           timeframe: q.timeframe,
           questions: questions,
           createdAt: q.created_at || new Date().toISOString(),
+          updatedAt: q.updated_at || undefined,
           isActive: q.is_active || false,
           isSaved: q.is_saved || false,
           setNumber: q.set_number,
           totalSets: q.total_sets,
-          language: q.language || 'en'
+          language: q.language || 'en',
+          scoringPolicy: (q.scoring_policy || 'all-or-nothing') as ScoringPolicy,
+          sourceFiles: Array.isArray(q.source_files) ? q.source_files as string[] : [],
+          showSourcesAfterSubmit: q.show_sources_after_submit || false,
+          allowRetakes: q.allow_retakes || false,
+          sourceCoverage: Array.isArray(q.source_coverage) ? q.source_coverage as unknown as SectionCoverage[] : []
         };
       });
 
@@ -206,4 +314,20 @@ export class SupabaseQuestionnaireService {
       throw error;
     }
   }
+
+  // Last-modified stamp used to settle sync conflicts; null when the row doesn't exist
+  static async getSyncVersion(id: string): Promise<{ updatedAt: string | null } | null> {
+    const { data, error } = await supabase
+      .from('questionnaires')
+      .select('updated_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error checking questionnaire version:', error);
+      throw error;
+    }
+
+    return data ? { updatedAt: data.updated_at } : null;
+  }
 }
@@ -1,6 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { Database } from '@/integrations/supabase/types';
+import { Database, Json } from '@/integrations/supabase/types';
+import { SourceCitation } from '../extraction/SourceDocument';
 
 export type DbResponse = Database['public']['Tables']['responses']['Row'];
 
@@ -15,41 +16,39 @@ export interface QuestionnaireResponse {
     questionText: string;
     selectedOption: string;
     selectedOptionIndex: number;
+    selectedOptions?: string[];
+    selectedOptionIndices?: number[];
     isCorrect?: boolean;
+    credit?: number;
   }>;
   submittedAt: string;
   score?: number;
   totalQuestions?: number;
+  startedAt?: string;
+  durationSeconds?: number; // Time from opening the questions to submission
+  autoSubmitted?: boolean; // Submitted by the timer when the timeframe ran out
+  scorePending?: boolean; // Submitted offline and queued for server scoring; no score yet
+  late?: boolean; // Queued offline and scored after the timeframe ran out; kept unscored for the owner to review
+  sourceReview?: QuestionSourceReview[]; // Returned with a new submission when the questionnaire shows sources; never stored
+}
+
+export interface QuestionSourceReview {
+  questionId: string;
+  questionText: string;
+  sources: SourceCitation[];
 }
 
 export interface SubmitResponseData {
   questionnaireId: string;
-  responses: Record<string, string>;
+  responses: Record<string, string | string[]>; // Multiple-select questions carry every picked option
   submittedAt: string;
+  startedAt?: string;
+  autoSubmitted?: boolean;
+  responseId?: string; // Chosen before the first attempt so a retried submission is recorded once
+  completedAt?: string; // Set when a submission queued offline is sent: when the answers were finished
 }
 
 export class SupabaseResponseService {
-  private static async getUserInfo(): Promise<{ userId: string; username: string }> {
-    try {
-      const { data: { user }, error } = await supabase.auth.getUser();
-      
-      if (!error && user) {
-        // For authenticated users, use their email or metadata username
-        const username = user.user_metadata?.username || user.email || 'Authenticated User';
-        return { userId: user.id, username };
-      }
-    } catch (error) {
-      console.log('Could not get authenticated user info:', error);
-    }
-    
-    // For guests or when authentication fails, try to get guest username from localStorage
-    const guestUsername = localStorage.getItem('guestUsername');
-    return {
-      userId: 'anonymous',
-      username: guestUsername || 'Anonymous User'
-    };
-  }
-
   static async saveResponse(response: QuestionnaireResponse): Promise<void> {
     try {
       console.log('💾 Saving response to Supabase:', response.id);
@@ -64,7 +63,10 @@ export class SupabaseResponseService {
           answers: response.answers,
           score: response.score,
           total_questions: response.totalQuestions,
-          submitted_at: response.submittedAt
+          submitted_at: response.submittedAt,
+          started_at: response.startedAt,
+          duration_seconds: response.durationSeconds,
+          auto_submitted: response.autoSubmitted ?? false
         });
 
       if (error) {
@@ -100,7 +102,11 @@ export class SupabaseResponseService {
         answers: Array.isArray(r.answers) ? r.answers as any[] : [],
         submittedAt: r.submitted_at || new Date().toISOString(),
         score: r.score || undefined,
-        totalQuestions: r.total_questions || undefined
+        totalQuestions: r.total_questions || undefined,
+        startedAt: r.started_at || undefined,
+        durationSeconds: r.duration_seconds ?? undefined,
+        autoSubmitted: r.auto_submitted || undefined,
+        late: r.late || undefined
       }));
 
       console.log('✅ Loaded responses from Supabase:', responses.length);
@@ -133,7 +139,11 @@ export class SupabaseResponseService {
         answers: Array.isArray(r.answers) ? r.answers as any[] : [],
         submittedAt: r.submitted_at || new Date().toISOString(),
         score: r.score || undefined,
-        totalQuestions: r.total_questions || undefined
+        totalQuestions: r.total_questions || undefined,
+        startedAt: r.started_at || undefined,
+        durationSeconds: r.duration_seconds ?? undefined,
+        autoSubmitted: r.auto_submitted || undefined,
+        late: r.late || undefined
       }));
 
       console.log('✅ Loaded responses for questionnaire from Supabase:', questionnaireId, responses.length);
@@ -144,39 +154,96 @@ export class SupabaseResponseService {
     }
   }
 
-  static async submitResponse(responseData: SubmitResponseData): Promise<void> {
+  // The server keeps the first start time of an attempt; score-response times the attempt from it
+  static async startAttempt(questionnaireId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('start_attempt', { target_questionnaire_id: questionnaireId });
+
+    if (error) {
+      console.error('❌ Error starting attempt in Supabase:', error);
+      throw error;
+    }
+
+    console.log('⏱️ Attempt started in Supabase at', data);
+    return data;
+  }
+
+  // Scoring happens in the score-response edge function against the stored answer key;
+  // the browser only sends the selected answers and gets the scored response back.
+  // A guest's queued answers can be sent with that guest's token while someone else is signed in
+  static async submitResponse(responseData: SubmitResponseData, username: string, accessToken?: string): Promise<QuestionnaireResponse> {
     try {
-      console.log('📤 Submitting response to Supabase:', responseData);
-      
-      // Get user info (authenticated user or guest)
-      const { userId, username } = await this.getUserInfo();
-      console.log('👤 User info for Supabase response:', { userId, username });
-      
+      console.log('📤 Submitting response to Supabase for scoring:', responseData.questionnaireId);
+
+      const { data, error } = await supabase.functions.invoke('score-response', {
+        body: {
+          questionnaireId: responseData.questionnaireId,
+          responses: responseData.responses,
+          username,
+          autoSubmitted: responseData.autoSubmitted,
+          responseId: responseData.responseId,
+          completedAt: responseData.completedAt
+        },
+        ...(accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : {})
+      });
+
+      if (error) {
+        console.error('❌ Error scoring response:', error);
+        throw error;
+      }
+
       const response: QuestionnaireResponse = {
-        id: this.generateId(),
+        id: data.id,
         questionnaireId: responseData.questionnaireId,
         questionnaireTitle: 'Questionnaire',
-        userId,
-        username,
-        answers: Object.entries(responseData.responses).map(([questionId, selectedOption]) => ({
-          questionId,
-          questionText: '',
-          selectedOption,
-          selectedOptionIndex: 0,
-          isCorrect: undefined
-        })),
-        submittedAt: responseData.submittedAt
+        userId: data.userId || 'anonymous',
+        username: data.username,
+        answers: data.answers || [],
+        submittedAt: data.submittedAt,
+        score: data.score ?? undefined,
+        totalQuestions: data.totalQuestions,
+        startedAt: data.startedAt || undefined,
+        durationSeconds: data.durationSeconds ?? undefined,
+        autoSubmitted: data.autoSubmitted || undefined,
+        late: data.late || undefined,
+        sourceReview: Array.isArray(data.sourceReview) ? data.sourceReview : undefined
       };
 
-      await this.saveResponse(response);
-      console.log('✅ Response submitted to Supabase with username:', username);
+      console.log('✅ Response scored by Supabase:', response.id, response.score);
+      return response;
     } catch (error) {
       console.error('❌ Failed to submit response to Supabase:', error);
       throw error;
     }
   }
 
-  private static generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  // Admin restore from a workspace backup; returns the rows written. Ids must be UUIDs,
+  // so responses that were only ever saved on a device can't be sent here
+  static async restoreResponses(responses: QuestionnaireResponse[], replaceExisting: boolean): Promise<number> {
+    const rows = responses.map(response => ({
+      id: response.id,
+      questionnaire_id: response.questionnaireId,
+      user_id: response.userId,
+      username: response.username,
+      answers: response.answers,
+      score: response.score ?? null,
+      total_questions: response.totalQuestions ?? null,
+      submitted_at: response.submittedAt,
+      started_at: response.startedAt ?? null,
+      duration_seconds: response.durationSeconds ?? null,
+      auto_submitted: response.autoSubmitted ?? false
+    }));
+
+    const { data, error } = await supabase.rpc('restore_responses', {
+      backup_rows: rows as unknown as Json,
+      replace_existing: replaceExisting
+    });
+
+    if (error) {
+      console.error('❌ Error restoring responses:', error);
+      throw error;
+    }
+
+    console.log('✅ Restored responses to Supabase:', data);
+    return data || 0;
   }
 }
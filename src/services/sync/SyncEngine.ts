@@ -0,0 +1,402 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { QuestionnaireStorage } from '../questionnaire/QuestionnaireStorage';
+import { CourseManager } from '../course/CourseManager';
+import { HybridResponseStorage } from '../response/HybridResponseStorage';
+import { SupabaseQuestionnaireService } from '../supabase/SupabaseQuestionnaireService';
+import { SupabaseCourseService } from '../supabase/SupabaseCourseService';
+import { SupabaseResponseService } from '../supabase/SupabaseResponseService';
+import { AuthService } from '../AuthService';
+import { SyncOutbox } from './SyncOutbox';
+import { OutboxEntry, SyncEntity, SyncMutationKind, SyncStatus } from './SyncTypes';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+// Replays the outbox against Supabase: right after each change, when the browser comes back
+// online and on a backoff timer in between. Tests and courses resolve conflicts by updatedAt,
+// the newer copy winning; responses never change once written, so they only need to arrive once
+export class SyncEngine {
+  private static started = false;
+  private static flushing: Promise<void> | null = null;
+  private static timer: ReturnType<typeof setTimeout> | null = null;
+  private static authenticated = false;
+  private static sessionUserId: string | null = null;
+  private static lastSyncedAt: string | null = null;
+  private static lastError: string | null = null;
+  private static statusListeners: Array<(status: SyncStatus) => void> = [];
+
+  static start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    window.addEventListener('online', () => {
+      console.log('🌐 Back online, replaying the sync outbox');
+      this.syncNow();
+    });
+    window.addEventListener('offline', () => this.notify());
+    // Another tab changed the outbox
+    window.addEventListener('storage', (event) => {
+      if (event.key === SyncOutbox.STORAGE_KEY) {
+        this.notify();
+      }
+    });
+    // A new session may be the one some queued submissions are waiting for
+    supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_IN' || (session?.user?.id ?? null) !== this.sessionUserId) {
+        this.flush();
+      }
+    });
+
+    this.flush();
+  }
+
+  // Queues a change already saved locally and tries to send it straight away
+  static async record(kind: SyncMutationKind, entityId: string, submission?: OutboxEntry['submission']): Promise<void> {
+    this.start();
+    SyncOutbox.enqueue(kind, entityId, submission);
+    this.notify();
+    await this.flush();
+  }
+
+  static async recordMany(kind: SyncMutationKind, entityIds: string[]): Promise<void> {
+    this.start();
+    entityIds.forEach(entityId => SyncOutbox.enqueue(kind, entityId));
+    this.notify();
+    await this.flush();
+  }
+
+  static flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+        this.notify();
+        this.schedule();
+      });
+      this.notify();
+    }
+    return this.flushing;
+  }
+
+  // Sends everything waiting without sitting out the backoff
+  static syncNow(): Promise<void> {
+    SyncOutbox.resetBackoff();
+    return this.flush();
+  }
+
+  static retryFailed(): Promise<void> {
+    SyncOutbox.retryFailed();
+    return this.flush();
+  }
+
+  static discardFailed(): void {
+    const discarded = SyncOutbox.discardFailed();
+    this.releaseParkedGuests();
+    console.warn('🗑️ Discarded changes that could not be synced:', discarded.map(entry => `${entry.kind} ${entry.entityId}`));
+    this.notify();
+  }
+
+  static getFailedEntries(): OutboxEntry[] {
+    return SyncOutbox.getAll().filter(entry => entry.failed);
+  }
+
+  // Supabase doesn't have changes still in the outbox yet, so a list read from it takes the
+  // local copy of anything saved since and leaves out what was deleted
+  static withPendingChanges<T extends { id: string }>(entity: SyncEntity, remote: T[], local: T[]): T[] {
+    const { saved, deleted } = this.getPendingIds(entity);
+    if (saved.size === 0 && deleted.size === 0) {
+      return remote;
+    }
+    const pendingLocal = local.filter(item => saved.has(item.id));
+    const replaced = new Set(pendingLocal.map(item => item.id));
+    return [
+      ...pendingLocal,
+      ...remote.filter(item => !deleted.has(item.id) && !replaced.has(item.id))
+    ];
+  }
+
+  static getPendingIds(entity: SyncEntity): { saved: Set<string>; deleted: Set<string> } {
+    const saved = new Set<string>();
+    const deleted = new Set<string>();
+    SyncOutbox.getAll()
+      .filter(entry => SyncOutbox.entityOf(entry.kind) === entity)
+      .forEach(entry => (entry.kind.endsWith('.delete') ? deleted : saved).add(entry.entityId));
+    return { saved, deleted };
+  }
+
+  static getStatus(): SyncStatus {
+    const entries = SyncOutbox.getAll();
+    const failed = entries.filter(entry => entry.failed).length;
+    const pending = entries.length - failed;
+    let state: SyncStatus['state'] = 'synced';
+    if (!navigator.onLine) {
+      state = 'offline';
+    } else if (this.flushing) {
+      state = 'syncing';
+    } else if (failed > 0) {
+      state = 'error';
+    } else if (pending > 0) {
+      state = 'pending';
+    }
+    return { state, pending, failed, lastSyncedAt: this.lastSyncedAt, lastError: this.lastError };
+  }
+
+  static onStatusChange(callback: (status: SyncStatus) => void): () => void {
+    this.statusListeners.push(callback);
+    return () => {
+      const index = this.statusListeners.indexOf(callback);
+      if (index > -1) {
+        this.statusListeners.splice(index, 1);
+      }
+    };
+  }
+
+  // ---- Replay ----
+
+  private static async drain(): Promise<void> {
+    if (!navigator.onLine) {
+      return;
+    }
+    await this.loadSessionUser();
+
+    // Each entry is tried once per pass; failures wait for their backoff
+    const tried = new Set<string>();
+    for (let entry = this.nextDue(tried); entry; entry = this.nextDue(tried)) {
+      tried.add(entry.id);
+      try {
+        await this.send(entry);
+        SyncOutbox.remove(entry.id);
+        this.lastSyncedAt = new Date().toISOString();
+        this.lastError = null;
+        console.log(`✅ Synced ${entry.kind}:`, entry.entityId);
+      } catch (error) {
+        this.recordFailure(entry, error);
+        // The connection dropped; everything after this would fail the same way
+        if (this.isNetworkError(error)) {
+          break;
+        }
+      }
+      this.notify();
+    }
+    this.releaseParkedGuests();
+  }
+
+  // Signed-out guests' sessions are kept only while they have answers waiting
+  private static releaseParkedGuests(): void {
+    AuthService.keepParkedGuestSessions(new Set(SyncOutbox.getAll()
+      .filter(entry => entry.kind === 'response.submit' && entry.submission?.userId)
+      .map(entry => entry.submission.userId)));
+  }
+
+  private static nextDue(tried: Set<string>): OutboxEntry | undefined {
+    const now = Date.now();
+    return SyncOutbox.getAll().find(entry => !entry.failed && !tried.has(entry.id) &&
+      entry.nextAttemptAt <= now && this.canSend(entry));
+  }
+
+  // Guests submit through server scoring, as the guest who gave the answers: under their session,
+  // or their parked one after they logged out. Answers given without a session can't be
+  // attributed to anyone and stay on this device. Everything else is written as the signed-in admin
+  private static canSend(entry: OutboxEntry): boolean {
+    if (entry.kind === 'response.submit') {
+      const userId = entry.submission?.userId;
+      return !!userId && (userId === this.sessionUserId || AuthService.hasParkedGuestSession(userId));
+    }
+    return this.authenticated;
+  }
+
+  private static async send(entry: OutboxEntry): Promise<void> {
+    switch (entry.kind) {
+      case 'questionnaire.save': {
+        const local = QuestionnaireStorage.getQuestionnaireById(entry.entityId);
+        if (!local) {
+          return;
+        }
+        const remote = await SupabaseQuestionnaireService.getSyncVersion(entry.entityId);
+        if (remote && this.isNewer(remote.updatedAt, local.updatedAt)) {
+          await this.keepRemoteQuestionnaire(entry.entityId);
+          return;
+        }
+        await SupabaseQuestionnaireService.saveQuestionnaire(local);
+        return;
+      }
+      case 'questionnaire.delete': {
+        const remote = await SupabaseQuestionnaireService.getSyncVersion(entry.entityId);
+        if (remote && this.isNewer(remote.updatedAt, entry.queuedAt)) {
+          await this.keepRemoteQuestionnaire(entry.entityId);
+        } else if (remote) {
+          await SupabaseQuestionnaireService.deleteQuestionnaire(entry.entityId);
+        }
+        return;
+      }
+      case 'course.save': {
+        const local = CourseManager.getCourseById(entry.entityId);
+        if (!local) {
+          return;
+        }
+        const remote = await SupabaseCourseService.getSyncVersion(entry.entityId);
+        if (remote && this.isNewer(remote.updatedAt, local.updatedAt)) {
+          await this.keepRemoteCourse(entry.entityId);
+          return;
+        }
+        await SupabaseCourseService.saveCourse(local);
+        return;
+      }
+      case 'course.delete': {
+        const remote = await SupabaseCourseService.getSyncVersion(entry.entityId);
+        if (remote && this.isNewer(remote.updatedAt, entry.queuedAt)) {
+          await this.keepRemoteCourse(entry.entityId);
+        } else if (remote) {
+          await SupabaseCourseService.deleteCourse(entry.entityId);
+        }
+        return;
+      }
+      case 'response.save': {
+        const local = HybridResponseStorage.getLocalResponses().find(response => response.id === entry.entityId);
+        if (!local) {
+          return;
+        }
+        try {
+          await SupabaseResponseService.saveResponse(local);
+        } catch (error) {
+          // Already written by an earlier attempt whose reply was lost
+          if (this.errorCode(error) !== '23505') {
+            throw error;
+          }
+        }
+        return;
+      }
+      case 'response.submit': {
+        if (!entry.submission) {
+          return;
+        }
+        const { data, username, userId } = entry.submission;
+        const accessToken = userId !== this.sessionUserId ? await AuthService.getParkedGuestAccessToken(userId) : undefined;
+        // Timed from when the answers were finished, not from when the connection came back
+        const scored = await SupabaseResponseService.submitResponse({ ...data, completedAt: data.submittedAt }, username, accessToken);
+        // The server's scoring replaces the one made in the browser, or the pending score
+        const { sourceReview, ...stored } = scored;
+        HybridResponseStorage.setLocalResponses(HybridResponseStorage.getLocalResponses().map(response =>
+          response.id === entry.entityId ? { ...stored, questionnaireTitle: response.questionnaireTitle } : response));
+        return;
+      }
+    }
+  }
+
+  private static async keepRemoteQuestionnaire(id: string): Promise<void> {
+    const remote = await SupabaseQuestionnaireService.getQuestionnaire(id);
+    if (remote) {
+      QuestionnaireStorage.saveQuestionnaire(remote);
+      console.warn('🔀 Supabase has a newer copy of the questionnaire; kept it over the local change:', id);
+    }
+  }
+
+  private static async keepRemoteCourse(id: string): Promise<void> {
+    const remote = await SupabaseCourseService.getCourseById(id);
+    if (remote) {
+      CourseManager.saveCourse(remote);
+      console.warn('🔀 Supabase has a newer copy of the course; kept it over the local change:', id);
+    }
+  }
+
+  // Copies saved before updatedAt existed count as older than any stamped one
+  private static isNewer(remoteUpdatedAt: string | null, localUpdatedAt: string | undefined): boolean {
+    if (!remoteUpdatedAt) {
+      return false;
+    }
+    if (!localUpdatedAt) {
+      return true;
+    }
+    return new Date(remoteUpdatedAt).getTime() > new Date(localUpdatedAt).getTime();
+  }
+
+  // ---- Failures and backoff ----
+
+  private static recordFailure(entry: OutboxEntry, error: unknown): void {
+    const attempts = entry.attempts + 1;
+    // Dropped connections never use up the attempts: flaky Wi-Fi must not strand a change
+    const failed = !this.isNetworkError(error) && (this.isPermanentError(error) || attempts >= MAX_ATTEMPTS);
+    // Jitter keeps a room full of devices from retrying in the same second
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS) * (0.75 + Math.random() / 2);
+    const message = this.errorMessage(error);
+
+    SyncOutbox.update({ ...entry, attempts, failed, lastError: message, nextAttemptAt: Date.now() + delay });
+    this.lastError = message;
+    if (failed) {
+      console.error(`❌ Gave up syncing ${entry.kind} ${entry.entityId}:`, error);
+    } else {
+      console.warn(`⚠️ Sync of ${entry.kind} ${entry.entityId} failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+    }
+  }
+
+  private static schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!navigator.onLine) {
+      return;
+    }
+
+    const waiting = SyncOutbox.getAll().filter(entry => !entry.failed && this.canSend(entry));
+    if (waiting.length > 0) {
+      const next = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+      this.timer = setTimeout(() => this.flush(), Math.max(next - Date.now(), BASE_RETRY_DELAY_MS));
+    }
+  }
+
+  // Rejections Supabase will repeat however often the change is sent: bad data, constraint
+  // and permission errors, and 4xx answers from the scoring function other than timeouts
+  private static isPermanentError(error: unknown): boolean {
+    if (error instanceof FunctionsHttpError) {
+      const status = (error.context as Response | undefined)?.status ?? 500;
+      return status >= 400 && status < 500 && status !== 408 && status !== 429;
+    }
+    return /^(22|23|42|PGRST)/.test(this.errorCode(error));
+  }
+
+  static isNetworkError(error: unknown): boolean {
+    if (!navigator.onLine || error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+      return true;
+    }
+    return /failed to fetch|networkerror|network request failed|load failed/i.test(this.errorMessage(error));
+  }
+
+  private static errorCode(error: unknown): string {
+    const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+    return typeof code === 'string' ? code : '';
+  }
+
+  private static errorMessage(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    const message = typeof error === 'object' && error !== null ? (error as { message?: unknown }).message : undefined;
+    return typeof message === 'string' ? message : String(error);
+  }
+
+  private static async loadSessionUser(): Promise<void> {
+    try {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      this.authenticated = !error && !!user && !user.is_anonymous;
+      this.sessionUserId = !error && user ? user.id : null;
+    } catch {
+      this.authenticated = false;
+      this.sessionUserId = null;
+    }
+  }
+
+  private static notify(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in sync status listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { OutboxEntry, SyncEntity, SyncMutationKind } from './SyncTypes';
+
+// Pending changes in localStorage, in the order they were made, so they survive reloads
+export class SyncOutbox {
+  static readonly STORAGE_KEY = 'sync_outbox';
+
+  static getAll(): OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      console.error('❌ Error loading sync outbox:', error);
+      return [];
+    }
+  }
+
+  // A newer save or delete of the same test or course replaces the one still waiting
+  static enqueue(kind: SyncMutationKind, entityId: string, submission?: OutboxEntry['submission']): OutboxEntry {
+    const entity = this.entityOf(kind);
+    const entry: OutboxEntry = {
+      id: this.generateId(),
+      kind,
+      entityId,
+      ...(submission ? { submission } : {}),
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    };
+
+    const entries = this.getAll().filter(existing => existing.entityId !== entityId || (entity === 'response'
+      ? existing.kind !== kind
+      : this.entityOf(existing.kind) !== entity));
+    entries.push(entry);
+    this.saveAll(entries);
+    console.log(`📥 Queued ${kind} for sync:`, entityId);
+    return entry;
+  }
+
+  static update(entry: OutboxEntry): void {
+    this.saveAll(this.getAll().map(existing => existing.id === entry.id ? entry : existing));
+  }
+
+  static remove(id: string): void {
+    this.saveAll(this.getAll().filter(entry => entry.id !== id));
+  }
+
+  // Coming back online or a manual sync is a better signal than any backoff timer
+  static resetBackoff(): void {
+    const now = Date.now();
+    this.saveAll(this.getAll().map(entry => entry.failed ? entry : { ...entry, nextAttemptAt: now }));
+  }
+
+  static retryFailed(): void {
+    const now = Date.now();
+    this.saveAll(this.getAll().map(entry => entry.failed
+      ? { ...entry, failed: false, attempts: 0, nextAttemptAt: now }
+      : entry));
+  }
+
+  static discardFailed(): OutboxEntry[] {
+    const entries = this.getAll();
+    this.saveAll(entries.filter(entry => !entry.failed));
+    return entries.filter(entry => entry.failed);
+  }
+
+  static entityOf(kind: SyncMutationKind): SyncEntity {
+    return kind.split('.')[0] as SyncEntity;
+  }
+
+  private static saveAll(entries: OutboxEntry[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('❌ Error saving sync outbox:', error);
+    }
+  }
+
+  private static generateId(): string {
+    return Math.random().toString(36).substr(2, 15);
+  }
+}
@@ -0,0 +1,39 @@
+import { SubmitResponseData } from '../supabase/SupabaseResponseService';
+
+export type SyncEntity = 'questionnaire' | 'course' | 'response';
+
+export type SyncMutationKind =
+  | 'questionnaire.save'
+  | 'questionnaire.delete'
+  | 'course.save'
+  | 'course.delete'
+  | 'response.save' // A finished response written as is
+  | 'response.submit'; // A response scored in the browser while offline, sent again for server scoring
+
+// A change made locally that Supabase hasn't accepted yet. Saves carry only the id: the
+// latest local copy is read when the change is sent
+export interface OutboxEntry {
+  id: string;
+  kind: SyncMutationKind;
+  entityId: string;
+  submission?: { // response.submit only
+    data: SubmitResponseData;
+    username: string;
+    userId?: string; // Guest the answers were given as; sent under their session, or the one parked at logout
+  };
+  queuedAt: string; // When the change was made; a delete loses to Supabase edits made after it
+  attempts: number;
+  nextAttemptAt: number; // Epoch milliseconds
+  lastError?: string;
+  failed?: boolean; // Rejected by Supabase or out of attempts; waits for a manual retry
+}
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  failed: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
@@ -0,0 +1,127 @@
+// Server-side port of src/services/response/ResponseScoring.ts. Keep the two in step:
+// the browser copy only scores offline attempts, this one is authoritative.
+
+export type ScoringPolicy = 'all-or-nothing' | 'partial' | 'negative';
+
+export interface StoredQuestion {
+  id: string;
+  text: string;
+  type: string;
+  options: string[];
+  correctAnswer: number;
+  correctAnswers: number[];
+  acceptedAnswers: string[];
+}
+
+export interface ScoredAnswer {
+  questionId: string;
+  questionText: string;
+  selectedOption: string;
+  selectedOptionIndex: number;
+  selectedOptions?: string[];
+  selectedOptionIndices?: number[];
+  isCorrect: boolean;
+  credit: number;
+}
+
+export interface ScoringResult {
+  score: number;
+  totalQuestions: number;
+  answers: ScoredAnswer[];
+}
+
+export function scoreResponses(
+  questions: StoredQuestion[],
+  responses: Record<string, string | string[]>,
+  policy: ScoringPolicy
+): ScoringResult {
+  let totalCredit = 0;
+  const answers: ScoredAnswer[] = [];
+
+  for (const [questionId, selected] of Object.entries(responses)) {
+    const question = questions.find(q => q.id === questionId);
+    if (!question) {
+      continue;
+    }
+
+    const answer = question.type === 'text'
+      ? scoreTextAnswer(question, typeof selected === 'string' ? selected : '')
+      : scoreOptionAnswer(question, selected, policy);
+
+    totalCredit += answer.credit;
+    answers.push(answer);
+  }
+
+  const totalQuestions = questions.length;
+  const score = totalQuestions > 0
+    ? Math.min(100, Math.max(0, Math.round((totalCredit / totalQuestions) * 100)))
+    : 0;
+
+  return { score, totalQuestions, answers };
+}
+
+function scoreOptionAnswer(question: StoredQuestion, selected: string | string[], policy: ScoringPolicy): ScoredAnswer {
+  const options = question.options;
+  const correctIndices = question.type === 'multiple-select' && question.correctAnswers.length > 0
+    ? [...new Set(question.correctAnswers)].sort((a, b) => a - b)
+    : [question.correctAnswer];
+  // Only multiple-select takes a list, and picking an option twice counts once
+  const picked = Array.isArray(selected)
+    ? (question.type === 'multiple-select' ? selected : [])
+    : [selected];
+  const selectedIndices = [...new Set(picked.map(option => options.indexOf(option)))]
+    .filter(index => index >= 0);
+
+  const hits = selectedIndices.filter(index => correctIndices.includes(index)).length;
+  const wrongPicks = selectedIndices.length - hits;
+  const isCorrect = hits === correctIndices.length && wrongPicks === 0 && correctIndices.length > 0;
+
+  let credit = isCorrect ? 1 : 0;
+  if (policy !== 'all-or-nothing') {
+    const incorrectCount = options.length - correctIndices.length;
+    const penalty = incorrectCount > 0 ? wrongPicks / incorrectCount : 0;
+    credit = hits / correctIndices.length - penalty;
+    credit = Math.min(1, Math.max(policy === 'partial' ? 0 : -1, credit));
+  }
+
+  const selectedOptions = selectedIndices.map(index => options[index]);
+
+  return {
+    questionId: question.id,
+    questionText: question.text,
+    selectedOption: selectedOptions.join(', ') || 'Unknown',
+    selectedOptionIndex: selectedIndices[0] ?? -1,
+    ...(question.type === 'multiple-select' ? { selectedOptions, selectedOptionIndices: selectedIndices } : {}),
+    isCorrect,
+    credit
+  };
+}
+
+function scoreTextAnswer(question: StoredQuestion, givenAnswer: string): ScoredAnswer {
+  const accepted = question.acceptedAnswers.filter(answer => answer && answer.trim());
+  if (accepted.length === 0 && question.options[question.correctAnswer]) {
+    accepted.push(question.options[question.correctAnswer]);
+  }
+
+  const normalizedGiven = normalizeTextAnswer(givenAnswer);
+  const isCorrect = normalizedGiven.length > 0 &&
+    accepted.some(answer => normalizeTextAnswer(answer) === normalizedGiven);
+
+  return {
+    questionId: question.id,
+    questionText: question.text,
+    selectedOption: givenAnswer,
+    selectedOptionIndex: -1,
+    isCorrect,
+    credit: isCorrect ? 1 : 0
+  };
+}
+
+export function normalizeTextAnswer(answer: string): string {
+  return answer
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,220 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Mirrors LlmChatRequest in src/services/llm/LlmTypes.ts
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string }
+  | { type: 'file'; filename: string; mediaType: string; data: string };
+
+interface ProxyRequest {
+  label?: string;
+  request: {
+    model: string;
+    messages: { role: 'system' | 'user' | 'assistant'; content: string | ContentPart[] }[];
+    maxTokens?: number;
+    temperature?: number;
+    jsonMode?: boolean;
+  };
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+  error?: { message?: string };
+}
+
+// Upper bound on a single reply so one call cannot spend a whole day's token quota
+const MAX_OUTPUT_TOKENS = 16000;
+
+// Guests may only translate the test in front of them, as text, in calls of bounded size
+const GUEST_LABELS = ['TRANSLATION'];
+const GUEST_MAX_OUTPUT_TOKENS = 4000;
+const GUEST_MAX_INPUT_CHARS = 20000;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const toWirePart = (part: ContentPart) => {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } };
+    case 'file':
+      return { type: 'file', file: { filename: part.filename, file_data: `data:${part.mediaType};base64,${part.data}` } };
+  }
+};
+
+// Deliberately high, at three characters a token where text averages about four; the
+// reservation is replaced by the real counts once the call is settled
+const estimateInputTokens = (messages: ProxyRequest['request']['messages']) =>
+  messages.reduce((total, message) => {
+    const parts: ContentPart[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content;
+    return total + parts.reduce((sum, part) =>
+      sum + Math.ceil((part.type === 'text' ? part.text.length : part.data.length) / 3), 0);
+  }, 0);
+
+const textLength = (messages: ProxyRequest['request']['messages']) =>
+  messages.reduce((total, message) =>
+    total + (typeof message.content === 'string' ? message.content.length : Number.POSITIVE_INFINITY), 0);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const apiKey = Deno.env.get('LLM_PROXY_API_KEY') ?? Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    console.error('❌ LLM proxy has no API key configured');
+    return jsonResponse({ error: 'The AI service is not configured on the server' }, 503);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Model calls cost money. Admins have the whole service; guests, anonymous or not, can only
+  // translate, under a small quota of their own and a daily pool shared by all guests, since
+  // anyone can mint new anonymous identities
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  if (!user) {
+    return jsonResponse({ error: 'Sign in to use the AI service' }, 401);
+  }
+
+  const { data: profile, error: profileError } = user.is_anonymous
+    ? { data: null, error: null }
+    : await supabase.from('profiles').select('role').eq('id', user.id).maybeSingle();
+  if (profileError) {
+    console.error('❌ Failed to read profile:', profileError);
+    return jsonResponse({ error: 'Could not check your account' }, 500);
+  }
+  const isAdmin = profile?.role === 'admin';
+
+  let payload: ProxyRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const request = payload.request;
+  if (!request?.model || !Array.isArray(request.messages) || request.messages.length === 0) {
+    return jsonResponse({ error: 'model and messages are required' }, 400);
+  }
+
+  const label = (payload.label || '').slice(0, 100);
+  if (!isAdmin) {
+    if (!GUEST_LABELS.includes(label)) {
+      return jsonResponse({ error: 'The AI service is only available to admins' }, 403);
+    }
+    if (textLength(request.messages) > GUEST_MAX_INPUT_CHARS) {
+      return jsonResponse({ error: 'The text is too long to translate in one request' }, 413);
+    }
+  }
+
+  const logUsage = (row: Record<string, unknown>) =>
+    supabase.from('llm_usage').insert({ user_id: user.id, label, model: request.model, ...row });
+
+  const allowedModels = (Deno.env.get('LLM_PROXY_ALLOWED_MODELS') ?? '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  if (allowedModels.length > 0 && !allowedModels.includes(request.model)) {
+    await logUsage({ status: 'rejected', error: 'Model not allowed' });
+    return jsonResponse({ error: `Model ${request.model} is not enabled on this server` }, 400);
+  }
+
+  // The reservation counts against the quota until the call is settled, so concurrent calls
+  // can't all slip under the limit
+  const outputLimit = isAdmin ? MAX_OUTPUT_TOKENS : GUEST_MAX_OUTPUT_TOKENS;
+  const maxTokens = Math.min(request.maxTokens ?? outputLimit, outputLimit);
+  const { data: reservationId, error: reserveError } = await supabase.rpc('reserve_llm_call', {
+    target_user_id: user.id,
+    call_label: label,
+    call_model: request.model,
+    reserved_input_tokens: estimateInputTokens(request.messages),
+    reserved_output_tokens: maxTokens,
+  });
+  if (reserveError) {
+    console.error('❌ Failed to reserve LLM quota:', reserveError);
+    return jsonResponse({ error: 'Could not check your AI usage quota' }, 500);
+  }
+
+  if (!reservationId) {
+    if (!isAdmin) {
+      await logUsage({ status: 'rejected', error: 'Guest quota exceeded' });
+      return jsonResponse({ error: 'Translation is not available again until midnight UTC.' }, 429);
+    }
+    const { data: quotaRows } = await supabase.rpc('get_llm_quota', { target_user_id: user.id });
+    const quota = quotaRows?.[0];
+    await logUsage({ status: 'rejected', error: 'Daily quota exceeded' });
+    return jsonResponse({
+      error: quota
+        ? `Daily AI quota reached (${quota.requests_used}/${quota.request_limit} requests, ${quota.tokens_used}/${quota.token_limit} tokens). It resets at midnight UTC.`
+        : 'Daily AI quota reached. It resets at midnight UTC.',
+    }, 429);
+  }
+
+  const settleUsage = (row: Record<string, unknown>) =>
+    supabase.from('llm_usage').update({ input_tokens: 0, output_tokens: 0, ...row }).eq('id', reservationId);
+
+  const baseUrl = (Deno.env.get('LLM_PROXY_BASE_URL') ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+  try {
+    const upstream = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages.map(message => ({
+          role: message.role,
+          content: typeof message.content === 'string' ? message.content : message.content.map(toWirePart),
+        })),
+        max_tokens: maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    const data: ChatCompletion = await upstream.json().catch(() => ({}));
+
+    if (!upstream.ok) {
+      const message = data.error?.message || `Upstream error ${upstream.status}`;
+      await settleUsage({ status: 'error', error: message.slice(0, 500) });
+      // Upstream auth problems are the server's, not the caller's
+      const status = upstream.status === 401 || upstream.status === 403 ? 502 : upstream.status;
+      return jsonResponse({ error: message }, status);
+    }
+
+    const choice = data.choices?.[0];
+    await settleUsage({
+      status: 'success',
+      input_tokens: data.usage?.prompt_tokens ?? 0,
+      output_tokens: data.usage?.completion_tokens ?? 0,
+    });
+
+    return jsonResponse({
+      content: choice?.message?.content ?? '',
+      model: data.model,
+      finishReason: choice?.finish_reason,
+      usage: data.usage ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens } : undefined,
+    });
+  } catch (error) {
+    console.error('❌ LLM proxy request failed:', error);
+    await settleUsage({ status: 'error', error: String(error).slice(0, 500) });
+    return jsonResponse({ error: 'The AI service could not be reached' }, 502);
+  }
+});
@@ -0,0 +1,308 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { scoreResponses, ScoringPolicy, StoredQuestion } from '../_shared/scoring.ts';
+
+interface ScoreRequest {
+  questionnaireId: string;
+  responses: Record<string, string | string[]>;
+  username: string;
+  autoSubmitted?: boolean;
+  responseId?: string; // Chosen by the browser so a replayed submission is recorded once
+  completedAt?: string; // Sent with submissions queued offline: when the answers were finished
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Seconds allowed past the timeframe for network latency before a submission is refused
+const SUBMISSION_GRACE_SECONDS = 30;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// While retakes are open a guest only learns their score; the grading of each answer would
+// let them resubmit until they had the answer key
+function withoutGrading(answers: unknown) {
+  return Array.isArray(answers)
+    ? answers.map(({ isCorrect: _isCorrect, credit: _credit, ...answer }) => answer)
+    : [];
+}
+
+// Only the caller who made the submission gets it back
+async function findRecordedResponse(supabase: SupabaseClient, responseId: string, userId: string | null) {
+  const { data: existing, error } = await supabase
+    .from('responses')
+    .select('*, questionnaires(allow_retakes)')
+    .eq('id', responseId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!existing || existing.user_id !== userId) {
+    return null;
+  }
+
+  console.log(`🔁 Response ${responseId} was already recorded`);
+  return {
+    id: existing.id,
+    userId: existing.user_id,
+    username: existing.username,
+    score: existing.score,
+    totalQuestions: existing.total_questions,
+    answers: existing.questionnaires?.allow_retakes || existing.late ? withoutGrading(existing.answers) : existing.answers,
+    submittedAt: existing.submitted_at,
+    startedAt: existing.started_at,
+    durationSeconds: existing.duration_seconds,
+    autoSubmitted: existing.auto_submitted,
+    late: existing.late,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const payload: ScoreRequest = await req.json();
+    if (!payload.questionnaireId || !payload.responses || typeof payload.responses !== 'object') {
+      return jsonResponse({ error: 'questionnaireId and responses are required' }, 400);
+    }
+
+    // The service role reads the answer key; it never leaves this function
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Callers are identified by their session (guests by their anonymous one); a test takes
+    // one submission per user, so answers without a session are refused
+    let userId: string | null = null;
+    let username = (payload.username || '').trim() || 'Anonymous User';
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (token) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (user) {
+        userId = user.id;
+        username = user.user_metadata?.username || user.email || username;
+      }
+    }
+    if (!userId) {
+      return jsonResponse({ error: 'Sign in before submitting answers' }, 401);
+    }
+
+    // The first attempt got through but its reply was lost: answer with what was recorded then
+    const responseId = payload.responseId && UUID_PATTERN.test(payload.responseId) ? payload.responseId : undefined;
+    if (responseId) {
+      const existing = await findRecordedResponse(supabase, responseId, userId);
+      if (existing) {
+        return jsonResponse(existing);
+      }
+    }
+
+    const { data: questionnaire, error: questionnaireError } = await supabase
+      .from('questionnaires')
+      .select('id, test_name, is_active, timeframe, scoring_policy, show_sources_after_submit, allow_retakes')
+      .eq('id', payload.questionnaireId)
+      .single();
+
+    if (questionnaireError || !questionnaire) {
+      return jsonResponse({ error: 'Questionnaire not found' }, 404);
+    }
+    if (!questionnaire.is_active) {
+      return jsonResponse({ error: 'Questionnaire is not accepting responses' }, 403);
+    }
+
+    // Invite-only tests take answers only from guests who redeemed one of their invites
+    const { data: canTake, error: accessError } = await supabase.rpc('can_take_test', {
+      target_questionnaire_id: payload.questionnaireId,
+      target_user_id: userId,
+    });
+    if (accessError) {
+      throw accessError;
+    }
+    if (!canTake) {
+      return jsonResponse({ error: 'This test is invite-only. Enter an access code first.' }, 403);
+    }
+
+    // Guests of a test with several sets answer only the set they were assigned
+    const { data: canTakeSet, error: setError } = await supabase.rpc('can_take_set', {
+      target_questionnaire_id: payload.questionnaireId,
+      target_user_id: userId,
+    });
+    if (setError) {
+      throw setError;
+    }
+    if (!canTakeSet) {
+      return jsonResponse({ error: 'This set of the test was not assigned to you' }, 403);
+    }
+
+    const { data: questionRows, error: questionsError } = await supabase
+      .from('questions')
+      .select('id, text, type, options, correct_answer, correct_answers, accepted_answers, sources')
+      .eq('questionnaire_id', payload.questionnaireId);
+
+    if (questionsError) {
+      throw questionsError;
+    }
+
+    const questions: StoredQuestion[] = (questionRows || []).map(q => ({
+      id: q.id,
+      text: q.text,
+      type: q.type,
+      options: Array.isArray(q.options) ? q.options : [],
+      correctAnswer: q.correct_answer ?? 0,
+      correctAnswers: Array.isArray(q.correct_answers) ? q.correct_answers : [],
+      acceptedAnswers: Array.isArray(q.accepted_answers) ? q.accepted_answers : [],
+    }));
+
+    const result = scoreResponses(
+      questions,
+      payload.responses,
+      (questionnaire.scoring_policy || 'all-or-nothing') as ScoringPolicy
+    );
+
+    // Attempts are timed from the start recorded by start_attempt when the questions were opened;
+    // a time sent by the browser can only place queued answers inside that window
+    const submittedAt = new Date();
+    const { data: attempt, error: attemptError } = await supabase
+      .from('test_attempts')
+      .select('started_at, submitted_at')
+      .eq('questionnaire_id', payload.questionnaireId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (attemptError) {
+      throw attemptError;
+    }
+    if (attempt?.submitted_at && !questionnaire.allow_retakes) {
+      return jsonResponse({ error: 'You have already submitted this test' }, 409);
+    }
+    const startedAt = attempt && !attempt.submitted_at ? new Date(attempt.started_at) : null;
+
+    // Answers queued offline are timed from when they were finished, as long as that lies
+    // between the start of the attempt and now
+    const completedAt = payload.completedAt ? new Date(payload.completedAt) : null;
+    const queued = !!completedAt && !Number.isNaN(completedAt.getTime());
+    const answeredAt = queued && startedAt && completedAt >= startedAt && completedAt <= submittedAt
+      ? completedAt
+      : submittedAt;
+
+    let durationSeconds: number | null = null;
+    let late = false;
+    if (questionnaire.timeframe > 0) {
+      const elapsed = startedAt ? Math.max(0, Math.floor((answeredAt.getTime() - startedAt.getTime()) / 1000)) : null;
+      if (elapsed === null || elapsed > questionnaire.timeframe * 60 + SUBMISSION_GRACE_SECONDS) {
+        // Queued answers are kept for the owner to review, without a score, rather than lost
+        if (queued) {
+          console.warn(`⏰ Recording late offline submission for ${payload.questionnaireId} by ${username} without a score`);
+          late = true;
+        } else if (elapsed === null) {
+          return jsonResponse({ error: 'Start the test before submitting answers' }, 403);
+        } else {
+          console.warn(`⏰ Refused late submission for ${payload.questionnaireId} by ${username}: ${elapsed}s`);
+          return jsonResponse({ error: 'The time for this test ran out before the answers arrived' }, 403);
+        }
+      }
+      durationSeconds = elapsed === null ? null : Math.min(elapsed, questionnaire.timeframe * 60);
+    } else if (startedAt) {
+      durationSeconds = Math.max(0, Math.floor((answeredAt.getTime() - startedAt.getTime()) / 1000));
+    }
+    const hideGrading = questionnaire.allow_retakes || late;
+
+    // Claimed before the response is written, so two submissions at once can't both get in
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_submission', {
+      target_questionnaire_id: payload.questionnaireId,
+      target_user_id: userId,
+    });
+    if (claimError) {
+      throw claimError;
+    }
+    if (!claimed) {
+      // A delivery of this same submission won the race
+      const existing = responseId ? await findRecordedResponse(supabase, responseId, userId) : null;
+      if (existing) {
+        return jsonResponse(existing);
+      }
+      return jsonResponse({ error: 'You have already submitted this test' }, 409);
+    }
+
+    const { data: saved, error: insertError } = await supabase
+      .from('responses')
+      .insert({
+        ...(responseId ? { id: responseId } : {}),
+        questionnaire_id: payload.questionnaireId,
+        user_id: userId,
+        username,
+        answers: result.answers,
+        score: late ? null : result.score,
+        total_questions: result.totalQuestions,
+        submitted_at: answeredAt.toISOString(),
+        started_at: startedAt?.toISOString() ?? null,
+        duration_seconds: durationSeconds,
+        auto_submitted: payload.autoSubmitted ?? false,
+        late,
+      })
+      .select('id')
+      .single();
+
+    // Two deliveries of the same submission raced each other
+    if (insertError?.code === '23505' && responseId) {
+      const existing = await findRecordedResponse(supabase, responseId, userId);
+      if (!existing) {
+        throw insertError;
+      }
+      return jsonResponse(existing);
+    }
+
+    if (insertError) {
+      // Nothing was recorded, so the claim is given back for another try
+      await supabase
+        .from('test_attempts')
+        .update({ submitted_at: null })
+        .eq('questionnaire_id', payload.questionnaireId)
+        .eq('user_id', userId);
+      throw insertError;
+    }
+
+    // A retake starts a new attempt; without retakes the finished attempt stays as the record
+    if (questionnaire.allow_retakes) {
+      await supabase
+        .from('test_attempts')
+        .delete()
+        .eq('questionnaire_id', payload.questionnaireId)
+        .eq('user_id', userId);
+    }
+
+    console.log(`✅ Scored response ${saved.id} for ${username}: ${late ? 'late, not scored' : `${result.score}%`}`);
+
+    // Citations are only released after the answers are in, and only if the owner allows it
+    const sourceReview = questionnaire.show_sources_after_submit
+      ? (questionRows || [])
+          .filter(q => Array.isArray(q.sources) && q.sources.length > 0)
+          .map(q => ({ questionId: q.id, questionText: q.text, sources: q.sources }))
+      : undefined;
+
+    return jsonResponse({
+      id: saved.id,
+      userId,
+      username,
+      score: late ? null : result.score,
+      totalQuestions: result.totalQuestions,
+      answers: hideGrading ? withoutGrading(result.answers) : result.answers,
+      submittedAt: answeredAt.toISOString(),
+      startedAt: startedAt?.toISOString() ?? null,
+      durationSeconds,
+      autoSubmitted: payload.autoSubmitted ?? false,
+      late,
+      sourceReview,
+    });
+  } catch (error) {
+    console.error('❌ Error scoring response:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to score response' }, 500);
+  }
+});
@@ -0,0 +1,3 @@
+-- Accepted answers for short-answer ('text') questions, matched after normalisation
+ALTER TABLE public.questions
+  ADD COLUMN accepted_answers JSONB NOT NULL DEFAULT '[]'::jsonb;
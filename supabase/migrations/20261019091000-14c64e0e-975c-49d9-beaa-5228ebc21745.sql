@@ -0,0 +1,10 @@
+-- Multi-select questions: the answer key is a set of option indices
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'multiple-select';
+
+ALTER TABLE public.questions
+  ADD COLUMN correct_answers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- How partially correct multi-select answers are credited
+ALTER TABLE public.questionnaires
+  ADD COLUMN scoring_policy TEXT NOT NULL DEFAULT 'all-or-nothing'
+  CHECK (scoring_policy IN ('all-or-nothing', 'partial', 'negative'));
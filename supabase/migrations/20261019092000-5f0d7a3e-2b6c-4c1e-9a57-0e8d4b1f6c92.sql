@@ -0,0 +1,9 @@
+-- Timed attempts: when the guest opened the questions and how long they took
+ALTER TABLE public.responses
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN duration_seconds INTEGER CHECK (duration_seconds >= 0),
+  ADD COLUMN auto_submitted BOOLEAN NOT NULL DEFAULT false;
+
+-- Leaderboards rank by score, then by the fastest attempt
+CREATE INDEX idx_responses_leaderboard
+  ON public.responses(questionnaire_id, score DESC, duration_seconds ASC);
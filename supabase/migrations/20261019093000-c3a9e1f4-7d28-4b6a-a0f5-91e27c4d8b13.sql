@@ -0,0 +1,15 @@
+-- Guests must not be able to read the answer key. Questions of active questionnaires
+-- are exposed through a view that omits every answer column instead of the base table.
+DROP POLICY IF EXISTS "Anyone can view questions for active questionnaires" ON public.questions;
+
+CREATE VIEW public.guest_questions AS
+  SELECT q.id, q.questionnaire_id, q.text, q.type, q.options, q.created_at
+  FROM public.questions q
+  JOIN public.questionnaires qn ON qn.id = q.questionnaire_id
+  WHERE qn.is_active = true;
+
+GRANT SELECT ON public.guest_questions TO anon, authenticated;
+
+-- Scores are computed by the score-response edge function (service role), so clients
+-- can no longer insert responses with a score of their choosing.
+DROP POLICY IF EXISTS "Users can create responses" ON public.responses;
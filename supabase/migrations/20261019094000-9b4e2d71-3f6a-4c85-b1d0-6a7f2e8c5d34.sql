@@ -0,0 +1,62 @@
+-- Admin access is granted through profiles.role instead of credentials in the client bundle.
+-- Bootstrap the first admin from the SQL editor:
+--   UPDATE public.profiles SET role = 'admin' WHERE email = 'you@example.com';
+
+ALTER TABLE public.profiles ADD COLUMN email TEXT;
+
+UPDATE public.profiles p
+SET email = u.email
+FROM auth.users u
+WHERE u.id = p.id;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', NEW.email),
+    NEW.email,
+    'guest'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- SECURITY DEFINER so policies on profiles can call it without recursing into themselves
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Admins can view all profiles" ON public.profiles
+  FOR SELECT USING (public.is_admin());
+
+-- Users may rename themselves but never change their own role
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (username, updated_at) ON public.profiles TO authenticated;
+
+-- Promotion and demotion go through this function so the last admin cannot be removed
+CREATE OR REPLACE FUNCTION public.set_user_role(target_user_id UUID, new_role user_role)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  IF new_role = 'guest' AND (
+    SELECT COUNT(*) FROM public.profiles WHERE role = 'admin' AND id <> target_user_id
+  ) = 0 THEN
+    RAISE EXCEPTION 'At least one admin must remain';
+  END IF;
+
+  UPDATE public.profiles
+  SET role = new_role, updated_at = NOW()
+  WHERE id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_user_role(UUID, user_role) FROM anon;
@@ -0,0 +1,115 @@
+-- Guests sign in anonymously, so each one has a stable auth.users id instead of a display name.
+-- Anonymous users have no email; fall back to a placeholder name until they pick one.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', NEW.email, 'Guest'),
+    NEW.email,
+    'guest'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Anonymous guests are `authenticated` as well, so creating tests and courses needs the admin role
+DROP POLICY IF EXISTS "Authenticated users can create questionnaires" ON public.questionnaires;
+CREATE POLICY "Admins can create questionnaires" ON public.questionnaires
+  FOR INSERT WITH CHECK (public.is_admin() AND auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Authenticated users can create courses" ON public.courses;
+CREATE POLICY "Admins can create courses" ON public.courses
+  FOR INSERT WITH CHECK (public.is_admin() AND auth.uid() = created_by);
+
+-- Invite links and access codes for a test (all sets sharing a test name).
+-- Roster entries are personal invites carrying the guest's name and a single use.
+CREATE TABLE public.test_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_name TEXT NOT NULL,
+  code TEXT NOT NULL UNIQUE,
+  guest_name TEXT,
+  guest_email TEXT,
+  max_uses INTEGER CHECK (max_uses > 0), -- NULL means unlimited
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.invite_redemptions (
+  invite_id UUID NOT NULL REFERENCES public.test_invites(id) ON DELETE CASCADE,
+  guest_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (invite_id, guest_id)
+);
+
+ALTER TABLE public.test_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage invites" ON public.test_invites
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE POLICY "Guests can view their own redemptions" ON public.invite_redemptions
+  FOR SELECT USING (auth.uid() = guest_id);
+
+CREATE POLICY "Admins can view all redemptions" ON public.invite_redemptions
+  FOR SELECT USING (public.is_admin());
+
+CREATE INDEX idx_test_invites_test_name ON public.test_invites(test_name);
+CREATE INDEX idx_invite_redemptions_guest_id ON public.invite_redemptions(guest_id);
+
+-- Redeeming is idempotent per guest; only the first redemption counts towards max_uses
+CREATE OR REPLACE FUNCTION public.redeem_invite(invite_code TEXT)
+RETURNS TABLE (test_name TEXT, guest_name TEXT) AS $$
+DECLARE
+  invite public.test_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before redeeming an invite';
+  END IF;
+
+  SELECT * INTO invite
+  FROM public.test_invites
+  WHERE code = UPPER(TRIM(invite_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid access code';
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at < NOW() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invite_redemptions
+    WHERE invite_id = invite.id AND guest_id = auth.uid()
+  ) THEN
+    IF invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses THEN
+      RAISE EXCEPTION 'This invite has already been used';
+    END IF;
+
+    INSERT INTO public.invite_redemptions (invite_id, guest_id) VALUES (invite.id, auth.uid());
+    UPDATE public.test_invites SET use_count = use_count + 1 WHERE id = invite.id;
+  END IF;
+
+  IF invite.guest_name IS NOT NULL THEN
+    UPDATE public.profiles SET username = invite.guest_name, updated_at = NOW() WHERE id = auth.uid();
+  END IF;
+
+  RETURN QUERY SELECT invite.test_name, invite.guest_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tests with at least one invite are invite-only; tests without invites stay open to every guest
+CREATE OR REPLACE FUNCTION public.get_guest_test_access()
+RETURNS TABLE (test_name TEXT, has_access BOOLEAN) AS $$
+  SELECT i.test_name,
+         BOOL_OR(r.guest_id IS NOT NULL) AS has_access
+  FROM public.test_invites i
+  LEFT JOIN public.invite_redemptions r
+    ON r.invite_id = i.id AND r.guest_id = auth.uid()
+  GROUP BY i.test_name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
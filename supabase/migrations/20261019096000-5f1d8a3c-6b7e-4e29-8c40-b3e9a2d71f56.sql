@@ -0,0 +1,88 @@
+-- Set assignments for multi-set tests, shared by every browser a guest uses.
+-- A guest keeps the set they were first given; new guests go to the least used set.
+CREATE TABLE public.guest_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id TEXT NOT NULL, -- Id of the first set; test names are not unique across admins
+  guest_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  set_number INTEGER NOT NULL CHECK (set_number > 0),
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (test_id, guest_id)
+);
+
+ALTER TABLE public.guest_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through assign_guest_set, so there are no insert or update policies
+CREATE POLICY "Guests can view their own assignments" ON public.guest_assignments
+  FOR SELECT USING (auth.uid() = guest_id);
+
+CREATE POLICY "Admins can view all assignments" ON public.guest_assignments
+  FOR SELECT USING (public.is_admin());
+
+CREATE INDEX idx_guest_assignments_test_set ON public.guest_assignments(test_id, set_number);
+CREATE INDEX idx_guest_assignments_assigned_at ON public.guest_assignments(assigned_at);
+
+CREATE OR REPLACE FUNCTION public.assign_guest_set(target_test_id TEXT, total_sets INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  assigned INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before requesting a set';
+  END IF;
+
+  IF total_sets IS NULL OR total_sets < 1 THEN
+    RAISE EXCEPTION 'total_sets must be at least 1';
+  END IF;
+
+  -- Serialise assignments per test so concurrent guests see each other's counts
+  PERFORM pg_advisory_xact_lock(hashtext('guest_assignments:' || target_test_id));
+
+  SELECT set_number INTO assigned
+  FROM public.guest_assignments
+  WHERE test_id = target_test_id AND guest_id = auth.uid();
+
+  IF FOUND THEN
+    RETURN assigned;
+  END IF;
+
+  -- Least used set wins; ties go to the lowest set number
+  SELECT s.set_number INTO assigned
+  FROM generate_series(1, total_sets) AS s(set_number)
+  LEFT JOIN public.guest_assignments ga
+    ON ga.test_id = target_test_id AND ga.set_number = s.set_number
+  GROUP BY s.set_number
+  ORDER BY COUNT(ga.id), s.set_number
+  LIMIT 1;
+
+  INSERT INTO public.guest_assignments (test_id, guest_id, set_number)
+  VALUES (target_test_id, auth.uid(), assigned);
+
+  RETURN assigned;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.assign_guest_set(TEXT, INTEGER) TO authenticated;
+
+-- Replaces the client-side cleanup that used to run on every dashboard load
+CREATE OR REPLACE FUNCTION public.cleanup_old_guest_assignments()
+RETURNS INTEGER AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM public.guest_assignments
+  WHERE assigned_at < NOW() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cleanup_old_guest_assignments() FROM PUBLIC;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'cleanup-old-guest-assignments',
+  '15 3 * * *',
+  'SELECT public.cleanup_old_guest_assignments()'
+);
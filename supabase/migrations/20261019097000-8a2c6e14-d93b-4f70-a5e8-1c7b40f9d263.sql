@@ -0,0 +1,55 @@
+-- Reusable question bank, so curated questions can be drawn into new tests without regenerating them
+CREATE TABLE public.question_bank (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_question_id TEXT UNIQUE, -- Question the entry was saved from; re-saving updates the entry
+  text TEXT NOT NULL,
+  type question_type NOT NULL DEFAULT 'multiple-choice',
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  accepted_answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  explanation TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  topic TEXT NOT NULL DEFAULT '',
+  difficulty difficulty_level NOT NULL DEFAULT 'medium',
+  source_file TEXT,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage the question bank" ON public.question_bank
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE INDEX idx_question_bank_tags ON public.question_bank USING GIN (tags);
+CREATE INDEX idx_question_bank_topic ON public.question_bank(topic);
+CREATE INDEX idx_question_bank_difficulty ON public.question_bank(difficulty);
+
+-- Files a questionnaire was generated from, carried into the bank as each question's source file
+ALTER TABLE public.questionnaires
+  ADD COLUMN source_files JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.record_question_usage(question_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can use the question bank';
+  END IF;
+
+  UPDATE public.question_bank
+  SET usage_count = usage_count + 1
+  WHERE id = ANY(question_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Distinct tags for the bank browser's filter list
+CREATE OR REPLACE FUNCTION public.get_question_bank_tags()
+RETURNS TABLE (tag TEXT, question_count BIGINT) AS $$
+  SELECT t.tag, COUNT(*)
+  FROM public.question_bank qb, UNNEST(qb.tags) AS t(tag)
+  WHERE public.is_admin()
+  GROUP BY t.tag
+  ORDER BY t.tag;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,60 @@
+-- Model calls go through the llm-proxy edge function, which holds the organisation's key.
+-- Every call is logged here and counted against the caller's daily quota.
+CREATE TABLE public.llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL DEFAULT '', -- Which part of the app made the call, e.g. QUESTION_GENERATION
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error', 'rejected')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the edge function with the service role
+CREATE POLICY "Users can view their own LLM usage" ON public.llm_usage
+  FOR SELECT USING (auth.uid() = user_id OR public.is_admin());
+
+CREATE INDEX idx_llm_usage_user_created ON public.llm_usage(user_id, created_at);
+
+-- Per-user overrides; users without a row get the defaults for their role
+CREATE TABLE public.llm_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_request_limit INTEGER NOT NULL,
+  daily_token_limit BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.llm_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage LLM quotas" ON public.llm_quotas
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- Today's limits and usage (UTC day) for a user; the edge function checks this before each call
+CREATE OR REPLACE FUNCTION public.get_llm_quota(target_user_id UUID)
+RETURNS TABLE (request_limit INTEGER, token_limit BIGINT, requests_used BIGINT, tokens_used BIGINT) AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND auth.uid() IS DISTINCT FROM target_user_id AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to read this quota';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(q.daily_request_limit, CASE WHEN p.role = 'admin' THEN 500 ELSE 50 END),
+    COALESCE(q.daily_token_limit, CASE WHEN p.role = 'admin' THEN 2000000::BIGINT ELSE 200000::BIGINT END),
+    (SELECT COUNT(*) FROM public.llm_usage u
+      WHERE u.user_id = target_user_id AND u.status <> 'rejected'
+        AND u.created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'),
+    (SELECT COALESCE(SUM(u.input_tokens + u.output_tokens), 0)::BIGINT FROM public.llm_usage u
+      WHERE u.user_id = target_user_id
+        AND u.created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')
+  FROM (SELECT target_user_id AS id) t
+  LEFT JOIN public.profiles p ON p.id = t.id
+  LEFT JOIN public.llm_quotas q ON q.user_id = t.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_llm_quota(UUID) FROM anon;
@@ -0,0 +1,4 @@
+-- Where each generated question came from: file, page, slide or sheet, and nearest heading.
+-- The guest_questions view lists its columns, so guests do not see this.
+ALTER TABLE public.questions
+  ADD COLUMN sources JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,8 @@
+-- Result of checking a generated question's answer against the passages it cites
+ALTER TABLE public.questions
+  ADD COLUMN source_check TEXT CHECK (source_check IN ('supported', 'partial', 'unsupported', 'uncited'));
+
+-- When set, the score-response function returns each question's cited passages to the guest
+-- after they submit, so they can read up on what they got wrong
+ALTER TABLE public.questionnaires
+  ADD COLUMN show_sources_after_submit BOOLEAN NOT NULL DEFAULT false;
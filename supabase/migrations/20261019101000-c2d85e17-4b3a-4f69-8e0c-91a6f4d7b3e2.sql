@@ -0,0 +1,4 @@
+-- Questions per page, slide or sheet of the uploaded files, recorded at generation so admins
+-- can see which parts of a long document the questionnaire does not cover
+ALTER TABLE public.questionnaires
+  ADD COLUMN source_coverage JSONB NOT NULL DEFAULT '[]'::jsonb;
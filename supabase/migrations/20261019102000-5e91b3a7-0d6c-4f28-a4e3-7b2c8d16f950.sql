@@ -0,0 +1,5 @@
+-- Bloom's level and learning objective each generated question targets, so results can be
+-- broken down by objective
+ALTER TABLE public.questions
+  ADD COLUMN cognitive_level TEXT CHECK (cognitive_level IN ('recall', 'understand', 'apply', 'analyze')),
+  ADD COLUMN objective TEXT;
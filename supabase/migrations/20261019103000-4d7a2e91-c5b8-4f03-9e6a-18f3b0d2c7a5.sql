@@ -0,0 +1,94 @@
+-- Restoring a workspace backup as an admin. Responses and guest assignments belong to other
+-- users, so the table policies don't let the client write them. Users missing from this
+-- project (a backup taken from another one) keep their responses by name, without a user id,
+-- and their set assignments are dropped since a guest_id must exist.
+
+CREATE OR REPLACE FUNCTION public.restore_responses(backup_rows JSONB, replace_existing BOOLEAN DEFAULT false)
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore backups';
+  END IF;
+
+  IF replace_existing THEN
+    DELETE FROM public.responses
+    WHERE id::TEXT NOT IN (SELECT r->>'id' FROM jsonb_array_elements(backup_rows) AS r);
+  END IF;
+
+  INSERT INTO public.responses (
+    id, questionnaire_id, user_id, username, answers, score, total_questions,
+    submitted_at, started_at, duration_seconds, auto_submitted
+  )
+  SELECT
+    (r->>'id')::UUID,
+    q.id,
+    u.id,
+    COALESCE(r->>'username', 'Unknown'),
+    COALESCE(r->'answers', '[]'::JSONB),
+    (r->>'score')::INTEGER,
+    (r->>'total_questions')::INTEGER,
+    COALESCE((r->>'submitted_at')::TIMESTAMPTZ, NOW()),
+    (r->>'started_at')::TIMESTAMPTZ,
+    (r->>'duration_seconds')::INTEGER,
+    COALESCE((r->>'auto_submitted')::BOOLEAN, false)
+  FROM jsonb_array_elements(backup_rows) AS r
+  LEFT JOIN public.questionnaires q ON q.id::TEXT = r->>'questionnaire_id'
+  LEFT JOIN auth.users u ON u.id::TEXT = r->>'user_id'
+  ON CONFLICT (id) DO UPDATE SET
+    questionnaire_id = EXCLUDED.questionnaire_id,
+    user_id = EXCLUDED.user_id,
+    username = EXCLUDED.username,
+    answers = EXCLUDED.answers,
+    score = EXCLUDED.score,
+    total_questions = EXCLUDED.total_questions,
+    submitted_at = EXCLUDED.submitted_at,
+    started_at = EXCLUDED.started_at,
+    duration_seconds = EXCLUDED.duration_seconds,
+    auto_submitted = EXCLUDED.auto_submitted
+  WHERE replace_existing;
+
+  GET DIAGNOSTICS restored = ROW_COUNT;
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.restore_responses(JSONB, BOOLEAN) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.restore_guest_assignments(backup_rows JSONB, replace_existing BOOLEAN DEFAULT false)
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore backups';
+  END IF;
+
+  IF replace_existing THEN
+    DELETE FROM public.guest_assignments ga
+    WHERE NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(backup_rows) AS r
+      WHERE r->>'test_id' = ga.test_id AND r->>'guest_id' = ga.guest_id::TEXT
+    );
+  END IF;
+
+  INSERT INTO public.guest_assignments (test_id, guest_id, set_number, assigned_at)
+  SELECT
+    r->>'test_id',
+    u.id,
+    (r->>'set_number')::INTEGER,
+    COALESCE((r->>'assigned_at')::TIMESTAMPTZ, NOW())
+  FROM jsonb_array_elements(backup_rows) AS r
+  JOIN auth.users u ON u.id::TEXT = r->>'guest_id'
+  ON CONFLICT (test_id, guest_id) DO UPDATE SET
+    set_number = EXCLUDED.set_number,
+    assigned_at = EXCLUDED.assigned_at
+  WHERE replace_existing;
+
+  GET DIAGNOSTICS restored = ROW_COUNT;
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.restore_guest_assignments(JSONB, BOOLEAN) TO authenticated;
@@ -0,0 +1,60 @@
+-- Questionnaire, question and course ids are made in the browser (`x7k2q9-set1`, `course_…`,
+-- GIFT titles, QTI identifiers), so the UUID columns rejected every save and guests on another
+-- device could not load or submit those tests. Keep the ids as text.
+-- Question ids are only unique within their questionnaire: sets and imports reuse them.
+DROP VIEW public.guest_questions;
+
+DROP POLICY "Questionnaire owners can manage questions" ON public.questions;
+DROP POLICY "Questionnaire owners can view all responses" ON public.responses;
+
+ALTER TABLE public.questions DROP CONSTRAINT questions_questionnaire_id_fkey;
+ALTER TABLE public.responses DROP CONSTRAINT responses_questionnaire_id_fkey;
+ALTER TABLE public.questions DROP CONSTRAINT questions_pkey;
+
+ALTER TABLE public.questionnaires ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE public.questionnaires ALTER COLUMN id TYPE TEXT USING id::TEXT;
+ALTER TABLE public.questionnaires ALTER COLUMN id SET DEFAULT gen_random_uuid()::TEXT;
+
+ALTER TABLE public.questions ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE public.questions ALTER COLUMN id TYPE TEXT USING id::TEXT;
+ALTER TABLE public.questions ALTER COLUMN id SET DEFAULT gen_random_uuid()::TEXT;
+ALTER TABLE public.questions ALTER COLUMN questionnaire_id TYPE TEXT USING questionnaire_id::TEXT;
+ALTER TABLE public.questions ALTER COLUMN questionnaire_id SET NOT NULL;
+ALTER TABLE public.questions ADD PRIMARY KEY (questionnaire_id, id);
+
+ALTER TABLE public.responses ALTER COLUMN questionnaire_id TYPE TEXT USING questionnaire_id::TEXT;
+
+ALTER TABLE public.courses ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE public.courses ALTER COLUMN id TYPE TEXT USING id::TEXT;
+ALTER TABLE public.courses ALTER COLUMN id SET DEFAULT gen_random_uuid()::TEXT;
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_questionnaire_id_fkey
+  FOREIGN KEY (questionnaire_id) REFERENCES public.questionnaires(id) ON DELETE CASCADE;
+ALTER TABLE public.responses
+  ADD CONSTRAINT responses_questionnaire_id_fkey
+  FOREIGN KEY (questionnaire_id) REFERENCES public.questionnaires(id) ON DELETE CASCADE;
+
+CREATE POLICY "Questionnaire owners can manage questions" ON public.questions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.questionnaires
+      WHERE id = questions.questionnaire_id AND created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Questionnaire owners can view all responses" ON public.responses
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.questionnaires
+      WHERE id = responses.questionnaire_id AND created_by = auth.uid()
+    )
+  );
+
+CREATE VIEW public.guest_questions AS
+  SELECT q.id, q.questionnaire_id, q.text, q.type, q.options, q.created_at
+  FROM public.questions q
+  JOIN public.questionnaires qn ON qn.id = q.questionnaire_id
+  WHERE qn.is_active = true;
+
+GRANT SELECT ON public.guest_questions TO anon, authenticated;
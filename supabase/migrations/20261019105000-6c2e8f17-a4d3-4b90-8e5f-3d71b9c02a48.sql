@@ -0,0 +1,49 @@
+-- When each signed-in user (guests included, through anonymous auth) first opened a test's
+-- questions. score-response times the attempt from this row instead of a time sent by the
+-- browser, so clearing storage or editing the request can't extend the timeframe.
+CREATE TABLE public.test_attempts (
+  questionnaire_id TEXT NOT NULL REFERENCES public.questionnaires(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (questionnaire_id, user_id)
+);
+
+ALTER TABLE public.test_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through start_attempt and removed by score-response
+CREATE POLICY "Users can view their own attempts" ON public.test_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all attempts" ON public.test_attempts
+  FOR SELECT USING (public.is_admin());
+
+-- Starting again before submitting keeps the first start time
+CREATE OR REPLACE FUNCTION public.start_attempt(target_questionnaire_id TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  attempt_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before starting a test';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.questionnaires
+    WHERE id = target_questionnaire_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Questionnaire is not accepting responses';
+  END IF;
+
+  INSERT INTO public.test_attempts (questionnaire_id, user_id)
+  VALUES (target_questionnaire_id, auth.uid())
+  ON CONFLICT (questionnaire_id, user_id) DO NOTHING;
+
+  SELECT started_at INTO attempt_started_at
+  FROM public.test_attempts
+  WHERE questionnaire_id = target_questionnaire_id AND user_id = auth.uid();
+
+  RETURN attempt_started_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.start_attempt(TEXT) FROM anon;
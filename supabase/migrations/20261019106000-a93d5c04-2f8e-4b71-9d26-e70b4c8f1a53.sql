@@ -0,0 +1,40 @@
+-- Checking the quota and logging the call afterwards let concurrent calls all pass the check.
+-- The llm-proxy edge function now reserves a 'pending' usage row first, under a per-user lock,
+-- counting the most the call may spend; the row is settled with the real token counts.
+ALTER TABLE public.llm_usage DROP CONSTRAINT llm_usage_status_check;
+ALTER TABLE public.llm_usage
+  ADD CONSTRAINT llm_usage_status_check CHECK (status IN ('pending', 'success', 'error', 'rejected'));
+
+-- Returns the reserved usage row, or NULL when the call would go over today's quota
+CREATE OR REPLACE FUNCTION public.reserve_llm_call(
+  target_user_id UUID,
+  call_label TEXT,
+  call_model TEXT,
+  reserved_tokens INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  quota RECORD;
+  reservation UUID;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the LLM proxy can reserve calls';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('llm_usage:' || target_user_id::TEXT));
+
+  SELECT * INTO quota FROM public.get_llm_quota(target_user_id);
+
+  IF quota.requests_used >= quota.request_limit OR quota.tokens_used + reserved_tokens > quota.token_limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.llm_usage (user_id, label, model, output_tokens, status)
+  VALUES (target_user_id, call_label, call_model, reserved_tokens, 'pending')
+  RETURNING id INTO reservation;
+
+  RETURN reservation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_llm_call(UUID, TEXT, TEXT, INTEGER) FROM anon, authenticated;
@@ -0,0 +1,27 @@
+-- Invite-only tests were only hidden in the dashboard; a guest who knew a set's id could still
+-- load its questions and submit answers. The view and score-response now check access here.
+-- Tests without invites stay open; admins can take any test.
+CREATE OR REPLACE FUNCTION public.can_take_test(target_test_name TEXT, target_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to check access for another user';
+  END IF;
+
+  RETURN NOT EXISTS (SELECT 1 FROM public.test_invites WHERE test_name = target_test_name)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = target_user_id AND role = 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.test_invites i
+      JOIN public.invite_redemptions r ON r.invite_id = i.id
+      WHERE i.test_name = target_test_name AND r.guest_id = target_user_id
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE VIEW public.guest_questions AS
+  SELECT q.id, q.questionnaire_id, q.text, q.type, q.options, q.created_at
+  FROM public.questions q
+  JOIN public.questionnaires qn ON qn.id = q.questionnaire_id
+  WHERE qn.is_active = true
+    AND public.can_take_test(qn.test_name, auth.uid());
@@ -0,0 +1,78 @@
+-- A guest could submit a test again and again, reading the graded answers each time, until
+-- they had the answer key. A test now takes one submission per user unless its owner allows
+-- retakes; score-response claims the attempt before recording the response.
+ALTER TABLE public.questionnaires
+  ADD COLUMN allow_retakes BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.test_attempts
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE;
+
+-- Users who already submitted keep that submission as their only one
+INSERT INTO public.test_attempts (questionnaire_id, user_id, started_at, submitted_at)
+SELECT questionnaire_id, user_id, MIN(COALESCE(started_at, submitted_at, NOW())), MAX(COALESCE(submitted_at, NOW()))
+FROM public.responses
+WHERE questionnaire_id IS NOT NULL AND user_id IS NOT NULL
+GROUP BY questionnaire_id, user_id
+ON CONFLICT (questionnaire_id, user_id) DO UPDATE SET submitted_at = EXCLUDED.submitted_at;
+
+-- Returns false when the user already submitted and the test takes no retakes
+CREATE OR REPLACE FUNCTION public.claim_submission(target_questionnaire_id TEXT, target_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only score-response can record submissions';
+  END IF;
+
+  INSERT INTO public.test_attempts (questionnaire_id, user_id, submitted_at)
+  VALUES (target_questionnaire_id, target_user_id, NOW())
+  ON CONFLICT (questionnaire_id, user_id) DO UPDATE SET submitted_at = NOW()
+  WHERE public.test_attempts.submitted_at IS NULL
+    OR (SELECT allow_retakes FROM public.questionnaires WHERE id = target_questionnaire_id);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_submission(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- While retakes are open, a user's stored answers (with their grading) stay hidden from them
+DROP POLICY "Users can view their own responses" ON public.responses;
+CREATE POLICY "Users can view their own responses" ON public.responses
+  FOR SELECT USING (
+    auth.uid() = user_id AND NOT EXISTS (
+      SELECT 1 FROM public.questionnaires
+      WHERE id = responses.questionnaire_id AND allow_retakes
+    )
+  );
+
+-- A finished attempt is started over only when the test takes retakes
+CREATE OR REPLACE FUNCTION public.start_attempt(target_questionnaire_id TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  attempt_started_at TIMESTAMP WITH TIME ZONE;
+  retakes_allowed BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before starting a test';
+  END IF;
+
+  SELECT allow_retakes INTO retakes_allowed
+  FROM public.questionnaires
+  WHERE id = target_questionnaire_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Questionnaire is not accepting responses';
+  END IF;
+
+  INSERT INTO public.test_attempts (questionnaire_id, user_id)
+  VALUES (target_questionnaire_id, auth.uid())
+  ON CONFLICT (questionnaire_id, user_id) DO UPDATE SET started_at = NOW(), submitted_at = NULL
+  WHERE public.test_attempts.submitted_at IS NOT NULL AND retakes_allowed;
+
+  SELECT started_at INTO attempt_started_at
+  FROM public.test_attempts
+  WHERE questionnaire_id = target_questionnaire_id AND user_id = auth.uid();
+
+  RETURN attempt_started_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,107 @@
+-- Restoring one admin's backup with replace_existing deleted every other admin's responses and
+-- set assignments, and wrote scores for any questionnaire. Both functions now only touch the
+-- tests the calling admin owns; rows for other tests in the backup are skipped.
+
+CREATE OR REPLACE FUNCTION public.restore_responses(backup_rows JSONB, replace_existing BOOLEAN DEFAULT false)
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore backups';
+  END IF;
+
+  IF replace_existing THEN
+    DELETE FROM public.responses
+    WHERE questionnaire_id IN (SELECT id FROM public.questionnaires WHERE created_by = auth.uid())
+      AND id::TEXT NOT IN (SELECT r->>'id' FROM jsonb_array_elements(backup_rows) AS r);
+  END IF;
+
+  INSERT INTO public.responses (
+    id, questionnaire_id, user_id, username, answers, score, total_questions,
+    submitted_at, started_at, duration_seconds, auto_submitted
+  )
+  SELECT
+    (r->>'id')::UUID,
+    q.id,
+    u.id,
+    COALESCE(r->>'username', 'Unknown'),
+    COALESCE(r->'answers', '[]'::JSONB),
+    (r->>'score')::INTEGER,
+    (r->>'total_questions')::INTEGER,
+    COALESCE((r->>'submitted_at')::TIMESTAMPTZ, NOW()),
+    (r->>'started_at')::TIMESTAMPTZ,
+    (r->>'duration_seconds')::INTEGER,
+    COALESCE((r->>'auto_submitted')::BOOLEAN, false)
+  FROM jsonb_array_elements(backup_rows) AS r
+  JOIN public.questionnaires q ON q.id = r->>'questionnaire_id' AND q.created_by = auth.uid()
+  LEFT JOIN auth.users u ON u.id::TEXT = r->>'user_id'
+  ON CONFLICT (id) DO UPDATE SET
+    questionnaire_id = EXCLUDED.questionnaire_id,
+    user_id = EXCLUDED.user_id,
+    username = EXCLUDED.username,
+    answers = EXCLUDED.answers,
+    score = EXCLUDED.score,
+    total_questions = EXCLUDED.total_questions,
+    submitted_at = EXCLUDED.submitted_at,
+    started_at = EXCLUDED.started_at,
+    duration_seconds = EXCLUDED.duration_seconds,
+    auto_submitted = EXCLUDED.auto_submitted
+  WHERE replace_existing
+    -- The same id may already be a response to another admin's test
+    AND public.responses.questionnaire_id IN (SELECT id FROM public.questionnaires WHERE created_by = auth.uid());
+
+  GET DIAGNOSTICS restored = ROW_COUNT;
+
+  -- Restored responses count as submissions, so tests without retakes don't take another
+  INSERT INTO public.test_attempts (questionnaire_id, user_id, started_at, submitted_at)
+  SELECT r.questionnaire_id, r.user_id, MIN(COALESCE(r.started_at, r.submitted_at)), MAX(r.submitted_at)
+  FROM public.responses r
+  JOIN public.questionnaires q ON q.id = r.questionnaire_id AND q.created_by = auth.uid()
+  WHERE r.user_id IS NOT NULL
+    AND r.id::TEXT IN (SELECT b->>'id' FROM jsonb_array_elements(backup_rows) AS b)
+  GROUP BY r.questionnaire_id, r.user_id
+  ON CONFLICT (questionnaire_id, user_id) DO UPDATE SET
+    submitted_at = COALESCE(public.test_attempts.submitted_at, EXCLUDED.submitted_at);
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Assignments are keyed by the id of a test's first set
+CREATE OR REPLACE FUNCTION public.restore_guest_assignments(backup_rows JSONB, replace_existing BOOLEAN DEFAULT false)
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore backups';
+  END IF;
+
+  IF replace_existing THEN
+    DELETE FROM public.guest_assignments ga
+    WHERE ga.test_id IN (SELECT id FROM public.questionnaires WHERE created_by = auth.uid())
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(backup_rows) AS r
+        WHERE r->>'test_id' = ga.test_id AND r->>'guest_id' = ga.guest_id::TEXT
+      );
+  END IF;
+
+  INSERT INTO public.guest_assignments (test_id, guest_id, set_number, assigned_at)
+  SELECT
+    q.id,
+    u.id,
+    (r->>'set_number')::INTEGER,
+    COALESCE((r->>'assigned_at')::TIMESTAMPTZ, NOW())
+  FROM jsonb_array_elements(backup_rows) AS r
+  JOIN public.questionnaires q ON q.id = r->>'test_id' AND q.created_by = auth.uid()
+  JOIN auth.users u ON u.id::TEXT = r->>'guest_id'
+  ON CONFLICT (test_id, guest_id) DO UPDATE SET
+    set_number = EXCLUDED.set_number,
+    assigned_at = EXCLUDED.assigned_at
+  WHERE replace_existing;
+
+  GET DIAGNOSTICS restored = ROW_COUNT;
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
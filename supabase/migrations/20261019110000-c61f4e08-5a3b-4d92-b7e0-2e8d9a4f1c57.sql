@@ -0,0 +1,5 @@
+-- Answers queued offline that reach score-response after the timeframe (or without a recorded
+-- start) are kept for the test's owner to review instead of being refused and lost. They get
+-- no score, so they stay off the leaderboard.
+ALTER TABLE public.responses
+  ADD COLUMN late BOOLEAN NOT NULL DEFAULT false;
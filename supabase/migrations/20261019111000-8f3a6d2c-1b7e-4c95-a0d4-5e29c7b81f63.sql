@@ -0,0 +1,84 @@
+-- Guests translate tests through the llm-proxy too, so they get their own per-user quota.
+-- Anyone can mint new anonymous identities, so everything guests spend in a day is also
+-- counted against one shared pool. Reservations now hold the estimated input tokens as
+-- well as the most the reply may spend.
+CREATE OR REPLACE FUNCTION public.get_llm_quota(target_user_id UUID)
+RETURNS TABLE (request_limit INTEGER, token_limit BIGINT, requests_used BIGINT, tokens_used BIGINT) AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND auth.uid() IS DISTINCT FROM target_user_id AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to read this quota';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(q.daily_request_limit, CASE WHEN p.role = 'admin' THEN 500 ELSE 50 END),
+    COALESCE(q.daily_token_limit, CASE WHEN p.role = 'admin' THEN 2000000::BIGINT ELSE 100000::BIGINT END),
+    (SELECT COUNT(*) FROM public.llm_usage u
+      WHERE u.user_id = target_user_id AND u.status <> 'rejected'
+        AND u.created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'),
+    (SELECT COALESCE(SUM(u.input_tokens + u.output_tokens), 0)::BIGINT FROM public.llm_usage u
+      WHERE u.user_id = target_user_id
+        AND u.created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')
+  FROM (SELECT target_user_id AS id) t
+  LEFT JOIN public.profiles p ON p.id = t.id
+  LEFT JOIN public.llm_quotas q ON q.user_id = t.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_llm_quota(UUID) FROM anon;
+
+DROP FUNCTION IF EXISTS public.reserve_llm_call(UUID, TEXT, TEXT, INTEGER);
+
+-- Returns the reserved usage row, or NULL when the call would go over today's quota
+-- or, for guests, over the pool all guests share
+CREATE OR REPLACE FUNCTION public.reserve_llm_call(
+  target_user_id UUID,
+  call_label TEXT,
+  call_model TEXT,
+  reserved_input_tokens INTEGER,
+  reserved_output_tokens INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  quota RECORD;
+  reservation UUID;
+  guest_tokens_used BIGINT;
+  -- Tokens all guests together may spend in a UTC day
+  guest_pool_limit CONSTANT BIGINT := 2000000;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the LLM proxy can reserve calls';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = target_user_id AND role = 'admin') THEN
+    -- Taken before the per-user lock, in the same order by every guest call
+    PERFORM pg_advisory_xact_lock(hashtext('llm_usage:guests'));
+
+    SELECT COALESCE(SUM(u.input_tokens + u.output_tokens), 0)::BIGINT INTO guest_tokens_used
+    FROM public.llm_usage u
+    WHERE u.created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+      AND NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = u.user_id AND p.role = 'admin');
+
+    IF guest_tokens_used + reserved_input_tokens + reserved_output_tokens > guest_pool_limit THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('llm_usage:' || target_user_id::TEXT));
+
+  SELECT * INTO quota FROM public.get_llm_quota(target_user_id);
+
+  IF quota.requests_used >= quota.request_limit
+    OR quota.tokens_used + reserved_input_tokens + reserved_output_tokens > quota.token_limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.llm_usage (user_id, label, model, input_tokens, output_tokens, status)
+  VALUES (target_user_id, call_label, call_model, reserved_input_tokens, reserved_output_tokens, 'pending')
+  RETURNING id INTO reservation;
+
+  RETURN reservation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_llm_call(UUID, TEXT, TEXT, INTEGER, INTEGER) FROM anon, authenticated;
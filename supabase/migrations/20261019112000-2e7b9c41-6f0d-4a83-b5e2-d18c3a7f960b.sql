@@ -0,0 +1,115 @@
+-- Set assignments were only honoured by the dashboard: the caller chose how many sets to spread
+-- guests over, and a guest could load and submit any set of a test. The sets now come from the
+-- questionnaires table, and the guest_questions view and score-response only serve a guest the
+-- set they were given.
+
+-- A test is every set one admin created under one test name, identified by the id of its first
+-- set, as the dashboard does; any set's id resolves to it
+CREATE OR REPLACE FUNCTION public.test_id_of(target_questionnaire_id TEXT)
+RETURNS TEXT AS $$
+  SELECT s.id
+  FROM public.questionnaires q
+  JOIN public.questionnaires s
+    ON s.created_by IS NOT DISTINCT FROM q.created_by AND s.test_name = q.test_name
+  WHERE q.id = target_questionnaire_id
+  ORDER BY COALESCE(s.set_number, 1), s.id
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.assign_guest_set(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.assign_guest_set(target_test_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  resolved_test_id TEXT;
+  assigned INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before requesting a set';
+  END IF;
+
+  resolved_test_id := public.test_id_of(target_test_id);
+  IF resolved_test_id IS NULL THEN
+    RAISE EXCEPTION 'Unknown test';
+  END IF;
+
+  -- Serialise assignments per test so concurrent guests see each other's counts
+  PERFORM pg_advisory_xact_lock(hashtext('guest_assignments:' || resolved_test_id));
+
+  SELECT ga.set_number INTO assigned
+  FROM public.guest_assignments ga
+  WHERE ga.test_id = resolved_test_id AND ga.guest_id = auth.uid();
+
+  IF FOUND THEN
+    RETURN assigned;
+  END IF;
+
+  -- Least used of the sets guests can take; ties go to the lowest set number
+  SELECT s.set_number INTO assigned
+  FROM (
+    SELECT DISTINCT COALESCE(q.set_number, 1) AS set_number
+    FROM public.questionnaires t
+    JOIN public.questionnaires q
+      ON q.created_by IS NOT DISTINCT FROM t.created_by AND q.test_name = t.test_name
+    WHERE t.id = resolved_test_id AND q.is_active = true
+  ) s
+  LEFT JOIN public.guest_assignments ga
+    ON ga.test_id = resolved_test_id AND ga.set_number = s.set_number
+  GROUP BY s.set_number
+  ORDER BY COUNT(ga.id), s.set_number
+  LIMIT 1;
+
+  IF assigned IS NULL THEN
+    RAISE EXCEPTION 'This test has no active sets';
+  END IF;
+
+  INSERT INTO public.guest_assignments (test_id, guest_id, set_number)
+  VALUES (resolved_test_id, auth.uid(), assigned);
+
+  RETURN assigned;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.assign_guest_set(TEXT) TO authenticated;
+
+-- Tests with a single active set are open to everyone who may take the test. With several,
+-- guests get only the set they were assigned; admins can take any set
+CREATE OR REPLACE FUNCTION public.can_take_set(target_questionnaire_id TEXT, target_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  target public.questionnaires%ROWTYPE;
+BEGIN
+  IF auth.role() <> 'service_role' AND target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to check access for another user';
+  END IF;
+
+  SELECT * INTO target FROM public.questionnaires WHERE id = target_questionnaire_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  RETURN (
+      SELECT COUNT(DISTINCT COALESCE(q.set_number, 1)) <= 1
+      FROM public.questionnaires q
+      WHERE q.created_by IS NOT DISTINCT FROM target.created_by
+        AND q.test_name = target.test_name
+        AND q.is_active = true
+    )
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = target_user_id AND role = 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.guest_assignments ga
+      WHERE ga.test_id = public.test_id_of(target.id)
+        AND ga.guest_id = target_user_id
+        AND ga.set_number = COALESCE(target.set_number, 1)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE VIEW public.guest_questions AS
+  SELECT q.id, q.questionnaire_id, q.text, q.type, q.options, q.created_at
+  FROM public.questions q
+  JOIN public.questionnaires qn ON qn.id = q.questionnaire_id
+  WHERE qn.is_active = true
+    AND public.can_take_test(qn.test_name, auth.uid())
+    AND public.can_take_set(qn.id, auth.uid());
@@ -0,0 +1,88 @@
+-- Invites were keyed by test name, which is not unique across admins: inviting guests to one
+-- admin's test locked every other admin's test of the same name, and a redeemed invite opened
+-- them all. Invites now belong to one test, identified like set assignments by the id of its
+-- first set (see test_id_of); the test name is kept as the label shown for the invite.
+ALTER TABLE public.test_invites ADD COLUMN test_id TEXT;
+
+UPDATE public.test_invites i
+SET test_id = (
+  SELECT public.test_id_of(q.id)
+  FROM public.questionnaires q
+  WHERE q.test_name = i.test_name AND q.created_by IS NOT DISTINCT FROM i.created_by
+  LIMIT 1
+);
+
+-- Invites whose test was deleted no longer guard anything
+DELETE FROM public.test_invites WHERE test_id IS NULL;
+
+ALTER TABLE public.test_invites ALTER COLUMN test_id SET NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_test_invites_test_name;
+CREATE INDEX idx_test_invites_test_id ON public.test_invites(test_id);
+
+-- Invites may be created from any set of a test; they are stored against its first set
+CREATE OR REPLACE FUNCTION public.resolve_invite_test()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.test_id := public.test_id_of(NEW.test_id);
+  IF NEW.test_id IS NULL THEN
+    RAISE EXCEPTION 'Save the test before inviting guests';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER resolve_invite_test
+  BEFORE INSERT OR UPDATE OF test_id ON public.test_invites
+  FOR EACH ROW EXECUTE FUNCTION public.resolve_invite_test();
+
+DROP VIEW public.guest_questions;
+DROP FUNCTION public.can_take_test(TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.can_take_test(target_questionnaire_id TEXT, target_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  target_test_id TEXT;
+BEGIN
+  IF auth.role() <> 'service_role' AND target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to check access for another user';
+  END IF;
+
+  target_test_id := public.test_id_of(target_questionnaire_id);
+
+  RETURN NOT EXISTS (SELECT 1 FROM public.test_invites WHERE test_id = target_test_id)
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = target_user_id AND role = 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.test_invites i
+      JOIN public.invite_redemptions r ON r.invite_id = i.id
+      WHERE i.test_id = target_test_id AND r.guest_id = target_user_id
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE VIEW public.guest_questions AS
+  SELECT q.id, q.questionnaire_id, q.text, q.type, q.options, q.created_at
+  FROM public.questions q
+  JOIN public.questionnaires qn ON qn.id = q.questionnaire_id
+  WHERE qn.is_active = true
+    AND public.can_take_test(qn.id, auth.uid())
+    AND public.can_take_set(qn.id, auth.uid());
+
+GRANT SELECT ON public.guest_questions TO anon, authenticated;
+
+-- Active sets of invite-only tests, with whether the signed-in guest has redeemed an invite;
+-- sets of tests without invites are open to every guest and not listed
+DROP FUNCTION public.get_guest_test_access();
+
+CREATE OR REPLACE FUNCTION public.get_guest_test_access()
+RETURNS TABLE (questionnaire_id TEXT, has_access BOOLEAN) AS $$
+  SELECT q.id,
+         BOOL_OR(r.guest_id IS NOT NULL) AS has_access
+  FROM public.questionnaires q
+  JOIN public.test_invites i ON i.test_id = public.test_id_of(q.id)
+  LEFT JOIN public.invite_redemptions r
+    ON r.invite_id = i.id AND r.guest_id = auth.uid()
+  WHERE q.is_active = true
+  GROUP BY q.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;